@@ -58,10 +58,13 @@ async function listFiles() {
 
 /**
  * ファイルをアップロード
+ *
+ * キーを省略すると、APIと同じ {fileId}/{filename} 形式のキーでアップロードします。
+ * この形式のオブジェクトはS3イベントからファイルメタデータとしてDynamoDBに登録されます。
  */
 async function uploadFile(filePath: string, key?: string) {
   const filename = path.basename(filePath);
-  const fileKey = key || `uploads/${uuidv4()}/${filename}`;
+  const fileKey = key || `${uuidv4()}/${filename}`;
 
   console.log(`ファイルをアップロード中: ${filename} -> ${fileKey}`);
 
@@ -21,7 +21,7 @@ const awsConfig = {
 
 // SQSクライアント
 const sqs = new AWS.SQS(awsConfig);
-const TASKS_QUEUE = `${endpoint}/000000000000/tasks-queue-local`;
+const TASKS_QUEUE = `${endpoint}/000000000000/tasks-queue-local.fifo`;
 
 /**
  * キュー情報を取得
@@ -50,7 +50,11 @@ async function getQueueAttributes() {
 /**
  * メッセージを送信
  */
-async function sendMessage(body: any, messageGroupId?: string) {
+async function sendMessage(
+  body: any,
+  messageGroupId?: string,
+  messageDeduplicationId?: string
+) {
   console.log(`メッセージを送信中: ${JSON.stringify(body)}`);
 
   try {
@@ -62,7 +66,7 @@ async function sendMessage(body: any, messageGroupId?: string) {
     // キューがFIFOの場合のみMessageDeduplicationIdとMessageGroupIdを設定
     if (TASKS_QUEUE.endsWith('.fifo')) {
       // FIFOキューの場合のみ設定
-      params.MessageDeduplicationId = uuidv4();
+      params.MessageDeduplicationId = messageDeduplicationId || uuidv4();
       if (messageGroupId) {
         params.MessageGroupId = messageGroupId;
       } else {
@@ -187,17 +191,31 @@ async function runExample() {
 
     // タスクメッセージを送信
     for (let i = 1; i <= 5; i++) {
+      // タスクイベントのエンベロープ（schemaVersion: 1）の形式で送信する
+      const taskId = uuidv4();
+      const eventType =
+        i % 3 === 0 ? 'DELETE' : i % 2 === 0 ? 'UPDATE' : 'CREATE';
       const taskMessage = {
-        taskId: uuidv4(),
-        action: i % 3 === 0 ? 'DELETE' : i % 2 === 0 ? 'UPDATE' : 'CREATE',
-        timestamp: new Date().toISOString(),
-        data: {
-          title: `テストタスク ${i}`,
-          priority: i,
+        eventId: uuidv4(),
+        eventType,
+        schemaVersion: 1,
+        occurredAt: new Date().toISOString(),
+        actor: 'example',
+        correlationId: uuidv4(),
+        payload: {
+          taskId,
+          task: {
+            id: taskId,
+            title: `テストタスク ${i}`,
+            status: 'TODO',
+          },
+          changes: [],
+          ...(eventType === 'DELETE' && { deleteMode: 'HARD' }),
         },
       };
 
-      await sendMessage(taskMessage);
+      // アプリケーションと同じく、タスクIDをメッセージグループID、イベントIDを重複排除IDにする
+      await sendMessage(taskMessage, taskId, taskMessage.eventId);
     }
 
     // メッセージを受信
@@ -0,0 +1,147 @@
+/**
+ * ZIPアーカイブAPIのLambdaハンドラー
+ *
+ * このファイルには複数のファイルを1つのZIPアーカイブにまとめてダウンロードするための
+ * ハンドラー関数が含まれています。アーカイブは非同期に作成されるため、
+ * クライアントはジョブのステータスを確認し、COMPLETEDになったらダウンロードします。
+ *
+ * 提供される機能:
+ * - アーカイブ作成ジョブの開始
+ * - ジョブのステータスとダウンロード用URLの取得
+ * - アーカイブの作成（Lambda関数の非同期呼び出しから起動）
+ */
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { TaskService } from '../services/task-service';
+import { FileArchiveService } from '../services/file-archive-service';
+import { successResponse, errorResponse } from '../utils/response';
+import { AppError } from '../utils/errors';
+import { ArchiveJob, ArchiveJobStatus } from '../types';
+
+// 各サービスのインスタンスを作成
+const taskService = new TaskService();
+const fileArchiveService = new FileArchiveService();
+
+/**
+ * アーカイブ作成ジョブ開始ハンドラー
+ *
+ * POST /files/archive エンドポイントのハンドラー関数です。
+ * fileIds（ファイルIDの配列）、または taskId（タスクの添付ファイルをすべてまとめる）を指定します。
+ * ジョブはPENDINGで作成され、202を返します。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * POST /files/archive
+ * {
+ *   "fileIds": [
+ *     "9b2f5c1e-8d4a-4f6b-a3c2-1e7d9f0b4a56",
+ *     "0c3d8e2f-5a6b-4c7d-9e8f-1a2b3c4d5e6f"
+ *   ]
+ * }
+ * ```
+ */
+export const start = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    if (!event.body) {
+      return errorResponse('リクエストボディがありません', 400);
+    }
+
+    const { fileIds, taskId } = JSON.parse(event.body);
+
+    if (taskId !== undefined) {
+      if (typeof taskId !== 'string' || !taskId) {
+        return errorResponse('taskId は文字列で指定してください', 400);
+      }
+      const task = await taskService.getTaskById(taskId);
+      if (!task) {
+        return errorResponse('タスクが見つかりません', 404);
+      }
+    }
+
+    const job = await fileArchiveService.startJob({ fileIds, taskId });
+
+    return successResponse(job, 202);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('アーカイブ作成ジョブ開始エラー:', error);
+    return errorResponse(
+      'アーカイブ作成ジョブの開始中にエラーが発生しました',
+      500
+    );
+  }
+};
+
+/**
+ * アーカイブ作成ジョブ取得ハンドラー
+ *
+ * GET /files/archive/{jobId} エンドポイントのハンドラー関数です。
+ * ジョブのステータスを返し、COMPLETEDの場合はダウンロード用の署名付きURLを付けます。
+ * 有効期限を過ぎたジョブは410エラーを返します（定期実行で削除された後は404）。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ */
+export const get = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const jobId = event.pathParameters?.jobId;
+
+    if (!jobId) {
+      return errorResponse('ジョブIDが指定されていません', 400);
+    }
+
+    const job = await fileArchiveService.getJob(jobId);
+
+    if (!job) {
+      return errorResponse('アーカイブ作成ジョブが見つかりません', 404);
+    }
+
+    if (new Date(job.expiresAt).getTime() <= Date.now()) {
+      return errorResponse('アーカイブの有効期限が切れています', 410, {
+        expiresAt: job.expiresAt,
+      });
+    }
+
+    const response: ArchiveJob & { downloadUrl?: string } = { ...job };
+    if (job.status === ArchiveJobStatus.COMPLETED) {
+      response.downloadUrl =
+        fileArchiveService.getDownloadUrl(job) || undefined;
+    }
+
+    return successResponse(response);
+  } catch (error) {
+    console.error('アーカイブ作成ジョブ取得エラー:', error);
+    return errorResponse(
+      'アーカイブ作成ジョブの取得中にエラーが発生しました',
+      500
+    );
+  }
+};
+
+/**
+ * アーカイブ作成ハンドラー
+ *
+ * POST /files/archive から非同期に呼び出され、ジョブのファイルをZIPにまとめて
+ * archives/ 配下に保存します。失敗した場合はジョブをFAILEDにするため、
+ * 非同期呼び出しの再試行は行われません。
+ *
+ * @param event - 作成するジョブのID
+ * @returns 更新されたジョブのステータス
+ */
+export const build = async (event: {
+  jobId: string;
+}): Promise<{ status: ArchiveJobStatus | null }> => {
+  console.log(`アーカイブ作成開始: ${event.jobId}`);
+  const job = await fileArchiveService.buildArchive(event.jobId);
+  console.log(
+    `アーカイブ作成終了: ${event.jobId}, ステータス: ${job?.status}, ファイル数: ${job?.fileCount}`
+  );
+  return { status: job?.status || null };
+};
@@ -0,0 +1,278 @@
+/**
+ * タスク添付ファイルAPIのLambdaハンドラー
+ *
+ * このファイルにはタスクへのファイルの添付に関するAPIエンドポイントのハンドラー関数が含まれています。
+ * 添付ファイルは通常のファイルと同じくS3に保存され、アップロードの完了は
+ * POST /files/{id}/complete で行います。
+ *
+ * 提供される機能:
+ * - 添付ファイルのアップロード用URLの発行
+ * - 添付ファイル一覧（ダウンロード用URL付き）の取得
+ * - 添付ファイルのタスクからの切り離し
+ * - 添付ファイルの削除
+ */
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { TaskService } from '../services/task-service';
+import {
+  FileService,
+  UPLOAD_URL_EXPIRES_SECONDS,
+  normalizeSha256,
+} from '../services/file-service';
+import { TaskAttachmentService } from '../services/task-attachment-service';
+import { successResponse, errorResponse } from '../utils/response';
+import { parseLimit } from '../utils/pagination';
+import { AppError } from '../utils/errors';
+import { getStorageOwner } from '../utils/request';
+import { FileMetadata, FileStatus } from '../types';
+
+// 各サービスのインスタンスを作成
+const taskService = new TaskService();
+const fileService = new FileService();
+const attachmentService = new TaskAttachmentService(fileService);
+
+/**
+ * 添付ファイルのアップロード用URL発行ハンドラー
+ *
+ * POST /tasks/{id}/attachments エンドポイントのハンドラー関数です。
+ * POST /files と同じくアップロードポリシーで申告内容を検証し、
+ * 添付先のタスクIDを含むメタデータをPENDINGとして保存します。
+ * タスクが存在しない、またはゴミ箱内にある場合は404エラーを返します。
+ * 申告されたサイズは操作者の使用量として計上し、容量の上限を超える場合は403エラーを返します。
+ * オーソライザーのプリンシパルがない場合は401エラーを返します。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * POST /tasks/123e4567-e89b-12d3-a456-426614174000/attachments
+ * {
+ *   "filename": "spec.pdf",
+ *   "contentType": "application/pdf",
+ *   "size": 1024567,
+ *   "sha256": "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08"
+ * }
+ * ```
+ */
+export const create = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const taskId = event.pathParameters?.id;
+
+    if (!taskId) {
+      return errorResponse('タスクIDが指定されていません', 400);
+    }
+
+    // 使用量を計上する所有者（オーソライザーのプリンシパルがない場合は401エラー）
+    const owner = getStorageOwner(event);
+
+    if (!event.body) {
+      return errorResponse('リクエストボディがありません', 400);
+    }
+
+    const body = JSON.parse(event.body);
+    const { filename, contentType, size } = body;
+
+    if (!filename || !contentType) {
+      return errorResponse('filename と contentType は必須です', 400);
+    }
+
+    if (!Number.isInteger(size) || size < 0) {
+      return errorResponse('size は0以上の整数で指定してください', 400);
+    }
+
+    const sha256 = normalizeSha256(body.sha256);
+
+    // 添付先のタスクが存在するか確認
+    const task = await taskService.getTaskById(taskId);
+    if (!task) {
+      return errorResponse('タスクが見つかりません', 404);
+    }
+
+    const { upload, file } = await attachmentService.createUpload(
+      taskId,
+      filename,
+      contentType,
+      size,
+      sha256,
+      owner
+    );
+
+    return successResponse(
+      {
+        uploadUrl: upload.url,
+        fields: upload.fields,
+        fileId: file.id,
+        filename: file.filename,
+        taskId,
+        status: file.status,
+        expires: UPLOAD_URL_EXPIRES_SECONDS,
+      },
+      201
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('添付ファイルのアップロードURL発行エラー:', error);
+    return errorResponse(
+      '添付ファイルのアップロード用URLの発行中にエラーが発生しました',
+      500
+    );
+  }
+};
+
+/**
+ * 添付ファイル一覧取得ハンドラー
+ *
+ * GET /tasks/{id}/attachments エンドポイントのハンドラー関数です。
+ * 添付ファイルのメタデータを作成日時の古い順に返し、
+ * アップロードが完了した（READY）ファイルにはダウンロード用の署名付きURLを付けます。
+ *
+ * クエリパラメータ:
+ * - limit: 1ページあたりの件数（1〜100、デフォルト20）
+ * - cursor: 前回のレスポンスの nextCursor
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * GET /tasks/123e4567-e89b-12d3-a456-426614174000/attachments
+ * ```
+ */
+export const list = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const taskId = event.pathParameters?.id;
+
+    if (!taskId) {
+      return errorResponse('タスクIDが指定されていません', 400);
+    }
+
+    const task = await taskService.getTaskById(taskId);
+    if (!task) {
+      return errorResponse('タスクが見つかりません', 404);
+    }
+
+    const params = event.queryStringParameters || {};
+    const result = await attachmentService.listAttachments(taskId, {
+      limit: parseLimit(params.limit),
+      cursor: params.cursor,
+    });
+
+    return successResponse({
+      ...result,
+      items: result.items.map(withDownloadUrl),
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('添付ファイル一覧取得エラー:', error);
+    return errorResponse('添付ファイル一覧の取得中にエラーが発生しました', 500);
+  }
+};
+
+/**
+ * 添付ファイルの切り離しハンドラー
+ *
+ * POST /tasks/{id}/attachments/{fileId}/detach エンドポイントのハンドラー関数です。
+ * ファイルは削除せずにタスクから切り離し、GET /files/{id} で引き続き取得できるようにします。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * POST /tasks/123e4567-e89b-12d3-a456-426614174000/attachments/9b2f5c1e-8d4a-4f6b-a3c2-1e7d9f0b4a56/detach
+ * ```
+ */
+export const detach = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const taskId = event.pathParameters?.id;
+    const fileId = event.pathParameters?.fileId;
+
+    if (!taskId || !fileId) {
+      return errorResponse('タスクIDとファイルIDを指定してください', 400);
+    }
+
+    const file = await attachmentService.detachAttachment(taskId, fileId);
+
+    if (!file) {
+      return errorResponse('添付ファイルが見つかりません', 404);
+    }
+
+    return successResponse(file);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('添付ファイル切り離しエラー:', error);
+    return errorResponse('添付ファイルの切り離し中にエラーが発生しました', 500);
+  }
+};
+
+/**
+ * 添付ファイルの削除ハンドラー
+ *
+ * DELETE /tasks/{id}/attachments/{fileId} エンドポイントのハンドラー関数です。
+ * S3上のファイルとメタデータを削除します。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * DELETE /tasks/123e4567-e89b-12d3-a456-426614174000/attachments/9b2f5c1e-8d4a-4f6b-a3c2-1e7d9f0b4a56
+ * ```
+ */
+export const remove = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const taskId = event.pathParameters?.id;
+    const fileId = event.pathParameters?.fileId;
+
+    if (!taskId || !fileId) {
+      return errorResponse('タスクIDとファイルIDを指定してください', 400);
+    }
+
+    const deleted = await attachmentService.deleteAttachment(taskId, fileId);
+
+    if (!deleted) {
+      return errorResponse('添付ファイルが見つかりません', 404);
+    }
+
+    return successResponse({ message: '添付ファイルが削除されました' });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('添付ファイル削除エラー:', error);
+    return errorResponse('添付ファイルの削除中にエラーが発生しました', 500);
+  }
+};
+
+/**
+ * アップロードが完了したファイルにダウンロード用の署名付きURLを付ける
+ *
+ * @param file - ファイルメタデータ
+ * @returns READYの場合はdownloadUrlを含むファイルメタデータ
+ */
+function withDownloadUrl(
+  file: FileMetadata
+): FileMetadata & { downloadUrl?: string } {
+  if (file.status !== FileStatus.READY) {
+    return file;
+  }
+
+  return {
+    ...file,
+    downloadUrl: fileService.getFileUrl(file.id, file.filename, file.objectKey),
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * ファイルのS3イベントのLambdaハンドラー
+ *
+ * このファイルにはFILES_BUCKETのオブジェクトの作成・削除イベントから起動されるハンドラー関数が含まれています。
+ * APIを経由せずにS3へ書き込まれた・削除されたオブジェクトも含めて、
+ * DynamoDBのファイルメタデータをS3上のオブジェクトと同期します。
+ *
+ * 提供される機能:
+ * - オブジェクト作成時のメタデータの保存（アップロード待ちのファイルは申告内容と照合）
+ * - 新しい版のオブジェクト作成時のアップロードの完了（versions/ 配下）
+ * - アップロードが完了したファイルのプレビュー作成の依頼
+ * - オブジェクト削除時のメタデータの削除
+ */
+import { S3Event, S3EventRecord } from 'aws-lambda';
+import { FileService } from '../services/file-service';
+import { FilePreviewService } from '../services/file-preview-service';
+import {
+  FileVersionService,
+  VERSION_PREFIX,
+} from '../services/file-version-service';
+import { FileStatus } from '../types';
+
+// 各サービスのインスタンスを作成
+const fileService = new FileService();
+const filePreviewService = new FilePreviewService(fileService);
+const fileVersionService = new FileVersionService(fileService);
+
+/**
+ * S3イベントを処理するハンドラー
+ *
+ * {fileId}/{filename} 形式と versions/{fileId}/{version}/{filename} 形式以外のキーのオブジェクトは無視します。
+ * 処理に失敗した場合はエラーを再スローし、Lambdaの非同期呼び出しの再試行に任せます。
+ *
+ * @param event - S3イベント
+ */
+export const process = async (event: S3Event): Promise<void> => {
+  console.log(`S3イベント受信: ${event.Records.length}件のレコード`);
+
+  for (const record of event.Records) {
+    await processRecord(record);
+  }
+};
+
+/**
+ * 個々のS3イベントレコードを処理する
+ */
+async function processRecord(record: S3EventRecord): Promise<void> {
+  // イベントのキーはURLエンコードされている（空白は+）
+  const key = decodeURIComponent(record.s3.object.key.replace(/\+/g, ' '));
+  const { eventName } = record;
+
+  try {
+    if (eventName.startsWith('ObjectCreated:')) {
+      const metadata = key.startsWith(VERSION_PREFIX)
+        ? await fileVersionService.syncVersionCreated(key)
+        : await fileService.syncObjectCreated(key);
+      console.log(
+        metadata
+          ? `ファイルメタデータを同期しました: ${metadata.id}, ステータス: ${metadata.status}`
+          : `同期対象外のオブジェクトです: ${key}`
+      );
+      if (
+        metadata?.status === FileStatus.READY &&
+        (await filePreviewService.requestPreview(metadata))
+      ) {
+        console.log(`プレビューの作成を依頼しました: ${metadata.id}`);
+      }
+    } else if (eventName.startsWith('ObjectRemoved:')) {
+      const deleted = await fileService.syncObjectRemoved(key);
+      console.log(
+        deleted
+          ? `ファイルメタデータを削除しました: ${key}`
+          : `削除対象のメタデータがありません: ${key}`
+      );
+    } else {
+      console.warn(`不明なイベント: ${eventName}`);
+    }
+  } catch (error) {
+    console.error(`S3イベント処理エラー: ${eventName} ${key}`, error);
+    throw error;
+  }
+}
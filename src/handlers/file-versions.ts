@@ -0,0 +1,263 @@
+/**
+ * ファイルの版管理APIのLambdaハンドラー
+ *
+ * このファイルには同じファイルに新しい版をアップロードし、版の履歴を管理するための
+ * ハンドラー関数が含まれています。新しい版のアップロードは、最初のアップロードと同じく
+ * 署名付きPOSTでのアップロードと完了の確認の2段階で行います。
+ *
+ * 提供される機能:
+ * - 新しい版のアップロード用の署名付きPOSTの生成
+ * - 新しい版のアップロードの完了の確認
+ * - 版の一覧の取得
+ * - 以前の版の復元
+ */
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  FileService,
+  UPLOAD_URL_EXPIRES_SECONDS,
+  normalizeSha256,
+} from '../services/file-service';
+import {
+  FileVersionService,
+  currentVersionOf,
+} from '../services/file-version-service';
+import { FilePreviewService } from '../services/file-preview-service';
+import { successResponse, errorResponse } from '../utils/response';
+import { AppError } from '../utils/errors';
+import { FileMetadata } from '../types';
+
+// 各サービスのインスタンスを作成
+const fileService = new FileService();
+const fileVersionService = new FileVersionService(fileService);
+const filePreviewService = new FilePreviewService(fileService);
+
+/**
+ * 新しい版のアップロード用の署名付きPOSTを生成するハンドラー
+ *
+ * POST /files/{id}/versions エンドポイントのハンドラー関数です。
+ * アップロードが完了した（READY）ファイルについて、申告内容をアップロードポリシーで検証し、
+ * アップロード待ちの版を保存します。クライアントは返されたfieldsとファイルをuploadUrlにPOSTでアップロードした後、
+ * POST /files/{id}/versions/{version}/complete を呼び出してアップロードを完了します。
+ * filename を省略した場合は現在の版のファイル名を使用します。sha256 は必須です。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * POST /files/9b2f5c1e-8d4a-4f6b-a3c2-1e7d9f0b4a56/versions
+ * {
+ *   "contentType": "application/pdf",
+ *   "size": 1024567,
+ *   "sha256": "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"
+ * }
+ * ```
+ */
+export const create = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const fileId = event.pathParameters?.id;
+
+    if (!fileId) {
+      return errorResponse('ファイルIDが指定されていません', 400);
+    }
+
+    if (!event.body) {
+      return errorResponse('リクエストボディがありません', 400);
+    }
+
+    const body = JSON.parse(event.body);
+    const { filename, contentType, size } = body;
+
+    if (!contentType) {
+      return errorResponse('contentType は必須です', 400);
+    }
+
+    if (!Number.isInteger(size) || size < 0) {
+      return errorResponse('size は0以上の整数で指定してください', 400);
+    }
+
+    const upload = await fileVersionService.startVersionUpload(fileId, {
+      filename,
+      contentType,
+      size,
+      sha256: normalizeSha256(body.sha256),
+    });
+
+    if (!upload) {
+      return errorResponse('ファイルが見つかりません', 404);
+    }
+
+    return successResponse({
+      uploadUrl: upload.url,
+      fields: upload.fields,
+      fileId: upload.fileId,
+      version: upload.version,
+      filename: upload.filename,
+      expires: UPLOAD_URL_EXPIRES_SECONDS,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('新しい版のアップロード開始エラー:', error);
+    return errorResponse(
+      '新しい版のアップロードの開始中にエラーが発生しました',
+      500
+    );
+  }
+};
+
+/**
+ * 新しい版のアップロードの完了を確認するハンドラー
+ *
+ * POST /files/{id}/versions/{version}/complete エンドポイントのハンドラー関数です。
+ * S3上のオブジェクトを申告内容と照合し、一致すれば現在の版にしてプレビューの作成を依頼します。
+ * 一致しない場合はアップロードされたオブジェクトを削除し、422エラーを返します（現在の版は変わりません）。
+ * オブジェクトがまだアップロードされていない場合は409エラーを返します。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ */
+export const complete = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const fileId = event.pathParameters?.id;
+    const version = parseVersion(event.pathParameters?.version);
+
+    if (!fileId || !version) {
+      return errorResponse(
+        'ファイルIDと版の番号（1以上の整数）を指定してください',
+        400
+      );
+    }
+
+    const metadata = await fileVersionService.completeVersionUpload(
+      fileId,
+      version
+    );
+
+    if (!metadata) {
+      return errorResponse('ファイルが見つかりません', 404);
+    }
+
+    await requestPreview(metadata);
+
+    return successResponse(metadata);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('新しい版のアップロード完了エラー:', error);
+    return errorResponse(
+      '新しい版のアップロードの完了処理中にエラーが発生しました',
+      500
+    );
+  }
+};
+
+/**
+ * 版の一覧を取得するハンドラー
+ *
+ * GET /files/{id}/versions エンドポイントのハンドラー関数です。
+ * 版を新しい順に返します。新しい版をアップロードしたことがないファイルは、現在の内容を1版目として返します。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ */
+export const list = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const fileId = event.pathParameters?.id;
+
+    if (!fileId) {
+      return errorResponse('ファイルIDが指定されていません', 400);
+    }
+
+    const metadata = await fileService.getFileMetadata(fileId);
+
+    if (!metadata) {
+      return errorResponse('ファイルが見つかりません', 404);
+    }
+
+    return successResponse({
+      fileId,
+      currentVersion: currentVersionOf(metadata),
+      versions: fileVersionService.listVersions(metadata),
+      pendingVersion: metadata.pendingVersion,
+    });
+  } catch (error) {
+    console.error('版の一覧取得エラー:', error);
+    return errorResponse('版の一覧の取得中にエラーが発生しました', 500);
+  }
+};
+
+/**
+ * 以前の版を復元するハンドラー
+ *
+ * POST /files/{id}/versions/{version}/restore エンドポイントのハンドラー関数です。
+ * 指定した版を現在の版にし、プレビューの作成を依頼します。版の一覧は変わりません。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ */
+export const restore = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const fileId = event.pathParameters?.id;
+    const version = parseVersion(event.pathParameters?.version);
+
+    if (!fileId || !version) {
+      return errorResponse(
+        'ファイルIDと版の番号（1以上の整数）を指定してください',
+        400
+      );
+    }
+
+    const metadata = await fileVersionService.restoreVersion(fileId, version);
+
+    if (!metadata) {
+      return errorResponse('ファイルまたは版が見つかりません', 404);
+    }
+
+    await requestPreview(metadata);
+
+    return successResponse(metadata);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('版の復元エラー:', error);
+    return errorResponse('版の復元中にエラーが発生しました', 500);
+  }
+};
+
+/**
+ * 版の番号のパスパラメータを数値に変換する
+ *
+ * @param value - パスパラメータの値
+ * @returns 版の番号、1以上の整数でない場合はnull
+ */
+function parseVersion(value: string | undefined): number | null {
+  const version = Number(value);
+  return value && Number.isInteger(version) && version >= 1 ? version : null;
+}
+
+/**
+ * 現在の版が変わったファイルのプレビューの作成を依頼する
+ *
+ * 依頼に失敗しても版の更新は完了しているため、エラーはログに記録するだけにします。
+ *
+ * @param metadata - 更新されたファイルメタデータ
+ */
+async function requestPreview(metadata: FileMetadata): Promise<void> {
+  try {
+    await filePreviewService.requestPreview(metadata);
+  } catch (error) {
+    console.error(`プレビュー作成の依頼エラー: ${metadata.id}`, error);
+  }
+}
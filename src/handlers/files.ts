@@ -3,53 +3,245 @@ import {
   APIGatewayProxyResult,
   Context,
 } from 'aws-lambda';
-import { FileService } from '../services/file-service';
+import {
+  FileService,
+  UPLOAD_URL_EXPIRES_SECONDS,
+  normalizeSha256,
+} from '../services/file-service';
+import { FilePreviewService } from '../services/file-preview-service';
+import {
+  FileVersionService,
+  currentVersionOf,
+} from '../services/file-version-service';
 import { successResponse, errorResponse } from '../utils/response';
+import { parseLimit } from '../utils/pagination';
+import { getStorageOwner } from '../utils/request';
+import { AppError } from '../utils/errors';
+import { FileStatus } from '../types';
 
 const fileService = new FileService();
+const filePreviewService = new FilePreviewService(fileService);
+const fileVersionService = new FileVersionService(fileService);
 
 /**
- * ファイルアップロード用の署名付きURLを生成するハンドラー
+ * ファイルアップロード用の署名付きPOSTを生成するハンドラー
+ *
+ * 申告内容をアップロードポリシーで検証し、メタデータをPENDINGとして保存します。
+ * クライアントは返されたfieldsとファイルをuploadUrlにPOSTでアップロードした後、
+ * POST /files/{id}/complete を呼び出してアップロードを完了します。
+ * ファイル名はパス区切り文字などを取り除いた形に整えて返します。
+ * sha256（ファイルの内容のSHA-256を16進数64桁で指定）は必須です。
+ * 申告されたサイズは操作者の使用量として計上し、容量の上限を超える場合は403エラーを返します。
+ * 使用量を計上する操作者を特定できない（オーソライザーのプリンシパルがない）場合は401エラーを返します。
  */
 export const upload = async (
   event: APIGatewayProxyEvent,
   context: Context
 ): Promise<APIGatewayProxyResult> => {
   try {
+    // 使用量を計上する所有者（オーソライザーのプリンシパルがない場合は401エラー）
+    const owner = getStorageOwner(event);
+
     if (!event.body) {
       return errorResponse('リクエストボディがありません', 400);
     }
 
-    const { filename, contentType, size } = JSON.parse(event.body);
+    const body = JSON.parse(event.body);
+    const { filename, contentType, size } = body;
 
     if (!filename || !contentType) {
       return errorResponse('filename と contentType は必須です', 400);
     }
 
-    // 署名付きURLを生成
-    const { url, fileId } = fileService.generateUploadUrl(
+    // 申告されたサイズはアップロード完了時にS3上のオブジェクトと照合する
+    if (!Number.isInteger(size) || size < 0) {
+      return errorResponse('size は0以上の整数で指定してください', 400);
+    }
+
+    // 申告されたSHA-256はアップロード時にS3がオブジェクトの内容と照合する
+    const sha256 = normalizeSha256(body.sha256);
+
+    // 署名付きPOSTを生成（ポリシーで許可されていないファイルは400エラー）
+    const upload = fileService.generateUploadUrl(
       filename,
-      contentType
+      contentType,
+      size,
+      sha256
     );
 
-    // ファイルのサイズが指定されている場合は、メタデータも保存
-    if (size) {
-      await fileService.saveFileMetadata(fileId, filename, contentType, size);
-    }
+    // アップロード待ち（PENDING）としてメタデータを保存し、操作者の使用量として計上
+    const metadata = await fileService.saveFileMetadata(
+      upload.fileId,
+      upload.filename,
+      contentType,
+      size,
+      { sha256 },
+      owner
+    );
 
     return successResponse({
-      uploadUrl: url,
-      fileId,
-      expires: 300, // 5分
+      uploadUrl: upload.url,
+      fields: upload.fields,
+      fileId: upload.fileId,
+      filename: upload.filename,
+      status: metadata.status,
+      expires: UPLOAD_URL_EXPIRES_SECONDS,
     });
   } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
     console.error('署名付きURL生成エラー:', error);
     return errorResponse('署名付きURLの生成中にエラーが発生しました', 500);
   }
 };
 
+/**
+ * ファイルアップロードの完了を確認するハンドラー
+ *
+ * POST /files/{id}/complete エンドポイントのハンドラー関数です。
+ * S3上のオブジェクトのサイズ・MIMEタイプ・SHA-256を申告内容と照合し、一致すればREADYにします。
+ * 一致しない場合はオブジェクトを削除してREJECTEDにし、422エラーを返します。
+ * ファイルの内容が申告されたMIMEタイプと矛盾する場合は隔離してQUARANTINEDにし、422エラーを返します。
+ * オブジェクトがまだアップロードされていない場合、またはマルチパートアップロードのファイルの場合
+ * （POST /files/{id}/multipart/complete で完了する）は409エラーを返します。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ */
+export const complete = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const fileId = event.pathParameters?.id;
+
+    if (!fileId) {
+      return errorResponse('ファイルIDが指定されていません', 400);
+    }
+
+    const fileMetadata = await fileService.completeUpload(fileId);
+
+    if (!fileMetadata) {
+      return errorResponse('ファイルが見つかりません', 404);
+    }
+
+    if (
+      fileMetadata.status === FileStatus.REJECTED ||
+      fileMetadata.status === FileStatus.QUARANTINED
+    ) {
+      return errorResponse(
+        fileMetadata.rejectionReason || 'ファイルが拒否されました',
+        422,
+        { file: fileMetadata }
+      );
+    }
+
+    return successResponse(fileMetadata);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('ファイルアップロード完了エラー:', error);
+    return errorResponse(
+      'ファイルアップロードの完了処理中にエラーが発生しました',
+      500
+    );
+  }
+};
+
+/**
+ * ファイル一覧を取得するハンドラー
+ *
+ * GET /files エンドポイントのハンドラー関数です。
+ * ファイルメタデータを作成日時の新しい順に返します（タスクなどのアイテムは含みません）。
+ *
+ * クエリパラメータ:
+ * - limit: 1ページあたりの件数（1〜100、デフォルト20）
+ * - cursor: 前回のレスポンスの nextCursor
+ * - contentType: MIMEタイプ（image/* のようにサブタイプをワイルドカードで指定可能）
+ * - filenamePrefix: ファイル名の前方一致
+ * - uploadedAfter / uploadedBefore: アップロード日時の範囲（ISO 8601形式）
+ * - minSize / maxSize: サイズの範囲（バイト）
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * GET /files?contentType=image/*&minSize=1024&limit=20
+ * GET /files?filenamePrefix=report&uploadedAfter=2024-06-01T00:00:00Z
+ * ```
+ */
+export const list = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const params = event.queryStringParameters || {};
+    const { cursor, contentType, filenamePrefix } = params;
+    const { uploadedAfter, uploadedBefore } = params;
+
+    // 日時の検証
+    for (const [name, value] of Object.entries({
+      uploadedAfter,
+      uploadedBefore,
+    })) {
+      if (value && isNaN(Date.parse(value))) {
+        return errorResponse(`${name} はISO 8601形式で指定してください`, 400);
+      }
+    }
+
+    // サイズの検証
+    const sizes: { [name: string]: number | undefined } = {};
+    for (const name of ['minSize', 'maxSize']) {
+      const value = params[name];
+      if (value === undefined || value === '') {
+        continue;
+      }
+      const size = Number(value);
+      if (!Number.isInteger(size) || size < 0) {
+        return errorResponse(`${name} は0以上の整数で指定してください`, 400);
+      }
+      sizes[name] = size;
+    }
+    const { minSize, maxSize } = sizes;
+    if (minSize !== undefined && maxSize !== undefined && minSize > maxSize) {
+      return errorResponse('minSize は maxSize 以下で指定してください', 400);
+    }
+
+    // 条件に一致するファイルを取得
+    const result = await fileService.listFiles({
+      limit: parseLimit(params.limit),
+      cursor,
+      contentType: contentType?.trim().toLowerCase() || undefined,
+      filenamePrefix: filenamePrefix || undefined,
+      uploadedAfter: uploadedAfter && new Date(uploadedAfter).toISOString(),
+      uploadedBefore: uploadedBefore && new Date(uploadedBefore).toISOString(),
+      minSize,
+      maxSize,
+    });
+
+    return successResponse(result);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('ファイル一覧取得エラー:', error);
+    return errorResponse('ファイル一覧の取得中にエラーが発生しました', 500);
+  }
+};
+
 /**
  * ファイルメタデータを取得するハンドラー
+ *
+ * アップロードが完了した（READY）ファイルには、ダウンロード用の署名付きURL（downloadUrl）と
+ * サムネイルの署名付きURL（previewUrls、作成済みの場合）を付けて返します。
+ * デフォルトでは現在の版を返し、version クエリパラメータで以前の版を指定できます
+ * （以前の版にはサムネイルとテキストの抜粋は含みません）。
+ *
+ * リクエスト例:
+ * ```
+ * GET /files/9b2f5c1e-8d4a-4f6b-a3c2-1e7d9f0b4a56?version=1
+ * ```
  */
 export const get = async (
   event: APIGatewayProxyEvent,
@@ -68,12 +260,53 @@ export const get = async (
       return errorResponse('ファイルが見つかりません', 404);
     }
 
+    // 以前の版を指定された場合は、その版の内容とダウンロード用URLを返す
+    const requestedVersion = event.queryStringParameters?.version;
+    if (requestedVersion !== undefined) {
+      const versionNumber = Number(requestedVersion);
+      if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+        return errorResponse('version は1以上の整数で指定してください', 400);
+      }
+
+      const version = fileVersionService.getVersion(
+        fileMetadata,
+        versionNumber
+      );
+      if (!version) {
+        return errorResponse('指定された版が見つかりません', 404);
+      }
+
+      if (version.version !== currentVersionOf(fileMetadata)) {
+        const { previews, textSnippet, previewGeneratedAt, ...current } =
+          fileMetadata;
+        return successResponse({
+          ...current,
+          ...version,
+          downloadUrl: fileService.getFileUrl(
+            fileId,
+            version.filename,
+            version.objectKey
+          ),
+        });
+      }
+    }
+
+    // アップロードが完了していないファイルはダウンロードできない
+    if (fileMetadata.status !== FileStatus.READY) {
+      return successResponse(fileMetadata);
+    }
+
     // ダウンロード用の署名付きURLを生成
-    const downloadUrl = fileService.getFileUrl(fileId, fileMetadata.filename);
+    const downloadUrl = fileService.getFileUrl(
+      fileId,
+      fileMetadata.filename,
+      fileMetadata.objectKey
+    );
 
     return successResponse({
       ...fileMetadata,
       downloadUrl,
+      previewUrls: filePreviewService.getPreviewUrls(fileMetadata),
     });
   } catch (error) {
     console.error('ファイルメタデータ取得エラー:', error);
@@ -0,0 +1,44 @@
+/**
+ * データ移行のLambdaハンドラー
+ *
+ * このファイルにはデプロイ後に手動で実行する、既存のアイテムの移行用のハンドラー関数が含まれています。
+ * 移行済みのアイテムは変更しないため、何度実行しても同じ結果になります。
+ *
+ * 提供される機能:
+ * - 既存のタスクへのtype属性、更新日時、並び替え・絞り込み用の属性の追加
+ * - 既存のファイルへのアップロードの状態と作成日時の追加
+ */
+import { TaskService } from '../services/task-service';
+import { FileService } from '../services/file-service';
+
+// 各サービスのインスタンスを作成
+const taskService = new TaskService();
+const fileService = new FileService();
+
+/**
+ * 既存のアイテムの移行ハンドラー
+ *
+ * 一覧用のGSIのキー属性が追加される前に保存されたアイテムに、不足している属性を補います。
+ * GSIを追加するデプロイの後に実行してください。
+ *
+ * @returns 移行したアイテムの件数
+ *
+ * 手動実行の例:
+ * ```
+ * npm run backfill:table -- --stage dev
+ * ```
+ */
+export const backfillTable = async (): Promise<{
+  tasks: number;
+  files: number;
+}> => {
+  console.log('既存のアイテムの移行開始');
+
+  const tasks = await taskService.backfillLegacyTasks();
+  const files = await fileService.backfillLegacyFiles();
+
+  console.log(
+    `既存のアイテムの移行完了: タスク ${tasks}件、ファイル ${files}件`
+  );
+  return { tasks, files };
+};
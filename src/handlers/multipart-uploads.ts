@@ -0,0 +1,353 @@
+/**
+ * マルチパートアップロードAPIのLambdaハンドラー
+ *
+ * このファイルには大きなファイルをパートに分けてアップロードするための
+ * APIエンドポイントのハンドラー関数が含まれています。
+ *
+ * 提供される機能:
+ * - マルチパートアップロードの開始
+ * - パートのアップロード用URLの発行
+ * - アップロード済みのパートの取得（アップロードの再開用）
+ * - マルチパートアップロードの完了
+ * - マルチパートアップロードの中止
+ * - 結合したファイル全体のSHA-256の照合（Lambda関数の非同期呼び出しから起動）
+ *
+ * アップロードの流れ:
+ * 1. POST /files/multipart でファイルIDとパートのサイズ・数を取得
+ * 2. POST /files/{id}/multipart/part-urls でパートごとのURLを取得し、各パートをPUTでアップロード
+ * 3. 接続が切れた場合は GET /files/{id}/multipart/parts でアップロード済みのパートを確認して再開
+ * 4. POST /files/{id}/multipart/complete でアップロードを完了
+ * 5. ファイル全体のSHA-256の照合が終わるまで GET /files/{id} でステータスを確認（PENDING → READY）
+ */
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  MultipartUploadService,
+  MAX_PART_URLS_PER_REQUEST,
+  PART_URL_EXPIRES_SECONDS,
+} from '../services/multipart-upload-service';
+import { normalizeSha256 } from '../services/file-service';
+import { FilePreviewService } from '../services/file-preview-service';
+import { successResponse, errorResponse } from '../utils/response';
+import { AppError } from '../utils/errors';
+import { getStorageOwner } from '../utils/request';
+import { FileStatus } from '../types';
+
+// MultipartUploadServiceのインスタンスを作成
+const multipartUploadService = new MultipartUploadService();
+const filePreviewService = new FilePreviewService();
+
+/**
+ * マルチパートアップロード開始ハンドラー
+ *
+ * POST /files/multipart エンドポイントのハンドラー関数です。
+ * メタデータをPENDINGとして保存し、ファイルID、パートのサイズと数を返します。
+ * sha256（ファイル全体の内容のSHA-256を16進数64桁で指定）は必須で、完了後に結合したファイルと照合します。
+ * パートの内容はパートごとのSHA-256でも照合します。
+ * 申告されたサイズは操作者の使用量として計上し、容量の上限を超える場合は403エラーを返します。
+ * オーソライザーのプリンシパルがない場合は401エラーを返します。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * POST /files/multipart
+ * {
+ *   "filename": "video.mp4",
+ *   "contentType": "video/mp4",
+ *   "size": 3221225472,
+ *   "sha256": "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08"
+ * }
+ * ```
+ */
+export const start = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    // 使用量を計上する所有者（オーソライザーのプリンシパルがない場合は401エラー）
+    const owner = getStorageOwner(event);
+
+    if (!event.body) {
+      return errorResponse('リクエストボディがありません', 400);
+    }
+
+    const body = JSON.parse(event.body);
+    const { filename, contentType, size } = body;
+
+    if (!filename || !contentType) {
+      return errorResponse('filename と contentType は必須です', 400);
+    }
+
+    if (!Number.isInteger(size) || size < 0) {
+      return errorResponse('size は0以上の整数で指定してください', 400);
+    }
+
+    // 申告されたSHA-256は結合後にファイル全体を読み込んで照合する
+    const sha256 = normalizeSha256(body.sha256);
+
+    const session = await multipartUploadService.startUpload(
+      filename,
+      contentType,
+      size,
+      sha256,
+      owner
+    );
+
+    return successResponse(session, 201);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('マルチパートアップロード開始エラー:', error);
+    return errorResponse(
+      'マルチパートアップロードの開始中にエラーが発生しました',
+      500
+    );
+  }
+};
+
+/**
+ * パートのアップロード用URL発行ハンドラー
+ *
+ * POST /files/{id}/multipart/part-urls エンドポイントのハンドラー関数です。
+ * 指定されたパート番号ごとに、パートをPUTでアップロードするための署名付きURLと、PUTに付けるヘッダーを返します。
+ * パートの内容のSHA-256を署名に含めるため、内容が一致しないパートはS3がアップロード時に拒否します。
+ * アップロード後のレスポンスのETagをクライアントが保持する必要はありません。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * POST /files/123e4567-e89b-12d3-a456-426614174000/multipart/part-urls
+ * {
+ *   "parts": [
+ *     { "partNumber": 1, "sha256": "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08" }
+ *   ]
+ * }
+ * ```
+ */
+export const partUrls = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const fileId = event.pathParameters?.id;
+
+    if (!fileId) {
+      return errorResponse('ファイルIDが指定されていません', 400);
+    }
+
+    if (!event.body) {
+      return errorResponse('リクエストボディがありません', 400);
+    }
+
+    const { parts } = JSON.parse(event.body);
+
+    if (
+      !Array.isArray(parts) ||
+      parts.length === 0 ||
+      parts.length > MAX_PART_URLS_PER_REQUEST ||
+      !parts.every((part) => typeof part === 'object' && part !== null)
+    ) {
+      return errorResponse(
+        `parts は1〜${MAX_PART_URLS_PER_REQUEST}個のパート番号とSHA-256（partNumber, sha256）の配列で指定してください`,
+        400
+      );
+    }
+
+    const urls = await multipartUploadService.getPartUploadUrls(
+      fileId,
+      parts.map((part: { partNumber: unknown; sha256: unknown }) => ({
+        partNumber: part.partNumber as number,
+        sha256: normalizeSha256(part.sha256),
+      }))
+    );
+
+    if (!urls) {
+      return errorResponse('ファイルが見つかりません', 404);
+    }
+
+    return successResponse({ items: urls, expires: PART_URL_EXPIRES_SECONDS });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('パートのURL発行エラー:', error);
+    return errorResponse(
+      'パートのアップロード用URLの発行中にエラーが発生しました',
+      500
+    );
+  }
+};
+
+/**
+ * アップロード済みパート一覧取得ハンドラー
+ *
+ * GET /files/{id}/multipart/parts エンドポイントのハンドラー関数です。
+ * アップロード済みのパートをパート番号順に返します。
+ * 接続が切れた後は、ここに含まれないパートのみをアップロードして再開できます。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * GET /files/123e4567-e89b-12d3-a456-426614174000/multipart/parts
+ * ```
+ */
+export const parts = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const fileId = event.pathParameters?.id;
+
+    if (!fileId) {
+      return errorResponse('ファイルIDが指定されていません', 400);
+    }
+
+    const items = await multipartUploadService.listUploadedParts(fileId);
+
+    if (!items) {
+      return errorResponse('ファイルが見つかりません', 404);
+    }
+
+    return successResponse({ items });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('アップロード済みパート取得エラー:', error);
+    return errorResponse(
+      'アップロード済みのパートの取得中にエラーが発生しました',
+      500
+    );
+  }
+};
+
+/**
+ * マルチパートアップロード完了ハンドラー
+ *
+ * POST /files/{id}/multipart/complete エンドポイントのハンドラー関数です。
+ * パートを結合し、ファイル全体のSHA-256の照合を依頼して、PENDINGのファイルメタデータを202で返します。
+ * 照合が終わると、申告内容と一致すればREADY、一致しなければREJECTED（内容が申告と矛盾する場合はQUARANTINED）になります。
+ * アップロードされていないパートがある場合は、不足しているパート番号を含む409エラーを返します。
+ * 既に照合が終わっている場合は409エラーを返します。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * POST /files/123e4567-e89b-12d3-a456-426614174000/multipart/complete
+ * ```
+ */
+export const complete = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const fileId = event.pathParameters?.id;
+
+    if (!fileId) {
+      return errorResponse('ファイルIDが指定されていません', 400);
+    }
+
+    const fileMetadata = await multipartUploadService.completeUpload(fileId);
+
+    if (!fileMetadata) {
+      return errorResponse('ファイルが見つかりません', 404);
+    }
+
+    return successResponse(fileMetadata, 202);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('マルチパートアップロード完了エラー:', error);
+    return errorResponse(
+      'マルチパートアップロードの完了中にエラーが発生しました',
+      500
+    );
+  }
+};
+
+/**
+ * マルチパートアップロード中止ハンドラー
+ *
+ * DELETE /files/{id}/multipart エンドポイントのハンドラー関数です。
+ * アップロード済みのパートを破棄し、メタデータを削除します。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * DELETE /files/123e4567-e89b-12d3-a456-426614174000/multipart
+ * ```
+ */
+export const abort = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const fileId = event.pathParameters?.id;
+
+    if (!fileId) {
+      return errorResponse('ファイルIDが指定されていません', 400);
+    }
+
+    const aborted = await multipartUploadService.abortUpload(fileId);
+
+    if (!aborted) {
+      return errorResponse('ファイルが見つかりません', 404);
+    }
+
+    return successResponse({
+      message: 'マルチパートアップロードを中止しました',
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('マルチパートアップロード中止エラー:', error);
+    return errorResponse(
+      'マルチパートアップロードの中止中にエラーが発生しました',
+      500
+    );
+  }
+};
+
+/**
+ * ファイル全体のSHA-256の照合ハンドラー
+ *
+ * POST /files/{id}/multipart/complete から非同期に呼び出され、結合したファイルを読み込んで
+ * SHA-256を計算し、申告内容と照合してアップロードを完了します。
+ * READYになったファイルは、S3イベントから完了したファイルと同じくプレビューの作成を依頼します。
+ * 失敗した場合はエラーを再スローし、Lambdaの非同期呼び出しの再試行に任せます。
+ * 照合済みの場合は何もしないため、再試行や重複した呼び出しで結果が変わることはありません。
+ *
+ * @param event - 照合するファイルのID
+ * @returns 照合後のファイルのステータス、ファイルが見つからない場合はnull
+ */
+export const verify = async (event: {
+  fileId: string;
+}): Promise<{ status: FileStatus | null }> => {
+  console.log(`マルチパートアップロードの照合開始: ${event.fileId}`);
+  try {
+    const metadata = await multipartUploadService.verifyUpload(event.fileId);
+    console.log(
+      `マルチパートアップロードの照合終了: ${event.fileId}, ステータス: ${metadata?.status}`
+    );
+    if (
+      metadata?.status === FileStatus.READY &&
+      (await filePreviewService.requestPreview(metadata))
+    ) {
+      console.log(`プレビューの作成を依頼しました: ${metadata.id}`);
+    }
+    return { status: metadata?.status || null };
+  } catch (error) {
+    console.error(
+      `マルチパートアップロードの照合エラー: ${event.fileId}`,
+      error
+    );
+    throw error;
+  }
+};
@@ -0,0 +1,43 @@
+/**
+ * ファイルプレビュー作成のLambdaハンドラー
+ *
+ * このファイルにはアップロードが完了したファイルのプレビューを作成するハンドラー関数が含まれています。
+ * S3イベントのハンドラーからLambda関数の非同期呼び出しで起動されます。
+ *
+ * 提供される機能:
+ * - 画像ファイルのサムネイルの作成
+ * - テキスト・PDFファイルのテキストの抜粋の作成
+ */
+import { FilePreviewService } from '../services/file-preview-service';
+
+// FilePreviewServiceのインスタンスを作成
+const filePreviewService = new FilePreviewService();
+
+/**
+ * プレビュー作成ハンドラー
+ *
+ * 作成に失敗した場合はエラーを再スローし、Lambdaの非同期呼び出しの再試行に任せます。
+ * 作成済みの場合は何もしないため、再試行や重複した呼び出しで二重に作成されることはありません。
+ *
+ * @param event - プレビューを作成するファイルのID
+ * @returns プレビューを作成した（または作成済みだった）かどうか
+ */
+export const generate = async (event: {
+  fileId: string;
+}): Promise<{ generated: boolean }> => {
+  console.log(`プレビュー作成開始: ${event.fileId}`);
+  try {
+    const metadata = await filePreviewService.generatePreview(event.fileId);
+    console.log(
+      metadata
+        ? `プレビュー作成終了: ${event.fileId}, サムネイル数: ${
+            metadata.previews?.length || 0
+          }`
+        : `プレビュー作成対象外のファイルです: ${event.fileId}`
+    );
+    return { generated: !!metadata };
+  } catch (error) {
+    console.error(`プレビュー作成エラー: ${event.fileId}`, error);
+    throw error;
+  }
+};
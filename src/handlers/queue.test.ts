@@ -0,0 +1,215 @@
+import { Context, SQSEvent, SQSRecord } from 'aws-lambda';
+import { groupByTask, process, runWithConcurrency } from './queue';
+import { TASK_EVENT_SCHEMA_VERSION } from '../services/task-event-schema';
+
+const mockPublishUnblockedTasks = jest.fn();
+const mockSendMessage = jest.fn();
+
+jest.mock('../services/task-service', () => ({
+  TaskService: jest.fn(() => ({
+    publishUnblockedTasks: (...args: unknown[]) =>
+      mockPublishUnblockedTasks(...args),
+  })),
+}));
+jest.mock('../services/task-attachment-service', () => ({
+  TaskAttachmentService: jest.fn(() => ({})),
+}));
+jest.mock('../utils/aws-clients', () => ({
+  sqs: {
+    sendMessage: (...args: unknown[]) => mockSendMessage(...args),
+  },
+  TASKS_DEAD_LETTER_QUEUE: 'tasks-queue-test-dlq.fifo',
+}));
+
+/**
+ * タスクイベントを本文とするSQSレコードを作成する
+ *
+ * 完了（DONE）のタスクの更新イベントは、ブロックが解除されたタスクの通知を行います。
+ */
+const taskRecord = (
+  messageId: string,
+  taskId: string,
+  status = 'TODO'
+): SQSRecord =>
+  ({
+    messageId,
+    attributes: { MessageGroupId: taskId },
+    body: JSON.stringify({
+      eventId: `event-${messageId}`,
+      eventType: 'UPDATE',
+      schemaVersion: TASK_EVENT_SCHEMA_VERSION,
+      occurredAt: '2024-01-01T00:00:00.000Z',
+      actor: 'user-1',
+      correlationId: 'correlation-1',
+      payload: {
+        taskId,
+        task: {
+          id: taskId,
+          title: 'タスク',
+          status,
+          createdAt: '2024-01-01T00:00:00.000Z',
+        },
+        changes: [{ field: 'status', before: 'IN_PROGRESS', after: status }],
+      },
+    }),
+  }) as unknown as SQSRecord;
+
+/**
+ * タスクイベントとして解釈できない本文のSQSレコードを作成する
+ */
+const malformedRecord = (messageId: string): SQSRecord =>
+  ({ messageId, attributes: {}, body: 'not-json' }) as unknown as SQSRecord;
+
+const messageIds = (groups: SQSRecord[][]) =>
+  groups.map((records) => records.map(({ messageId }) => messageId));
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  mockPublishUnblockedTasks.mockReset().mockResolvedValue([]);
+  mockSendMessage
+    .mockReset()
+    .mockReturnValue({ promise: () => Promise.resolve({}) });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('groupByTask', () => {
+  it('タスクIDごとに受信した順でまとめる', () => {
+    const groups = groupByTask([
+      taskRecord('m1', 'task-a'),
+      taskRecord('m2', 'task-b'),
+      taskRecord('m3', 'task-a'),
+      taskRecord('m4', 'task-b'),
+    ]);
+
+    expect(messageIds(groups)).toEqual([
+      ['m1', 'm3'],
+      ['m2', 'm4'],
+    ]);
+  });
+
+  it('タスクIDを読み取れないメッセージは1件ずつ別のグループにする', () => {
+    const groups = groupByTask([
+      malformedRecord('m1'),
+      taskRecord('m2', 'task-a'),
+      malformedRecord('m3'),
+    ]);
+
+    expect(messageIds(groups)).toEqual([['m1'], ['m2'], ['m3']]);
+  });
+});
+
+describe('runWithConcurrency', () => {
+  /**
+   * 同時に実行された数の最大値を記録する処理を作成する
+   */
+  const trackConcurrency = () => {
+    const tracker = { running: 0, peak: 0, processed: [] as number[] };
+    const worker = async (item: number) => {
+      tracker.running++;
+      tracker.peak = Math.max(tracker.peak, tracker.running);
+      await new Promise((resolve) => setImmediate(resolve));
+      tracker.processed.push(item);
+      tracker.running--;
+    };
+    return { tracker, worker };
+  };
+
+  it('同時に実行する数を制限してすべての要素を処理する', async () => {
+    const { tracker, worker } = trackConcurrency();
+
+    await runWithConcurrency([1, 2, 3, 4, 5], 2, worker);
+
+    expect(tracker.peak).toBe(2);
+    expect(tracker.processed.sort()).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it.each([0, -1, 1.5, NaN])(
+    '正の整数でない上限（%p）の場合は1件ずつ処理する',
+    async (limit) => {
+      const { tracker, worker } = trackConcurrency();
+
+      await runWithConcurrency([1, 2, 3], limit, worker);
+
+      expect(tracker.peak).toBe(1);
+      expect(tracker.processed).toEqual([1, 2, 3]);
+    }
+  );
+
+  it('処理が失敗した場合はそのエラーで失敗する', async () => {
+    const worker = jest.fn(async (item: number) => {
+      if (item === 2) {
+        throw new Error('処理エラー');
+      }
+    });
+
+    await expect(runWithConcurrency([1, 2, 3], 1, worker)).rejects.toThrow(
+      '処理エラー'
+    );
+  });
+});
+
+describe('process', () => {
+  const context = {} as Context;
+
+  it('失敗したメッセージと同じタスクの後続のメッセージだけを再試行させる', async () => {
+    mockPublishUnblockedTasks.mockRejectedValueOnce(
+      new Error('DynamoDBエラー')
+    );
+    const event = {
+      Records: [
+        taskRecord('m1', 'task-a'),
+        taskRecord('m2', 'task-a', 'DONE'),
+        taskRecord('m3', 'task-b'),
+        taskRecord('m4', 'task-a'),
+        taskRecord('m5', 'task-b', 'DONE'),
+      ],
+    } as SQSEvent;
+
+    const result = await process(event, context);
+
+    expect(result.batchItemFailures).toEqual([
+      { itemIdentifier: 'm2' },
+      { itemIdentifier: 'm4' },
+    ]);
+    expect(mockPublishUnblockedTasks).toHaveBeenCalledTimes(2);
+    expect(mockPublishUnblockedTasks).toHaveBeenCalledWith(
+      'task-b',
+      'correlation-1'
+    );
+  });
+
+  it('処理できないメッセージはデッドレターキューに送信し、再試行させない', async () => {
+    const event = {
+      Records: [malformedRecord('m1'), taskRecord('m2', 'task-a')],
+    } as SQSEvent;
+
+    const result = await process(event, context);
+
+    expect(result.batchItemFailures).toEqual([]);
+    expect(mockSendMessage).toHaveBeenCalledTimes(1);
+    expect(mockSendMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        QueueUrl: 'tasks-queue-test-dlq.fifo',
+        MessageBody: 'not-json',
+        MessageGroupId: 'm1',
+        MessageDeduplicationId: 'm1',
+      })
+    );
+  });
+
+  it('デッドレターキューへの送信に失敗した場合は再試行させる', async () => {
+    mockSendMessage.mockReturnValueOnce({
+      promise: () => Promise.reject(new Error('SQSエラー')),
+    });
+    const event = { Records: [malformedRecord('m1')] } as SQSEvent;
+
+    const result = await process(event, context);
+
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: 'm1' }]);
+  });
+});
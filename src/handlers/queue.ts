@@ -1,52 +1,192 @@
-import { SQSEvent, Context, SQSRecord } from 'aws-lambda';
+import { SQSEvent, Context, SQSRecord, SQSBatchResponse } from 'aws-lambda';
 import { TaskService } from '../services/task-service';
-import { TaskMessage } from '../types';
+import { createTaskNotifier } from '../services/task-notifier';
+import { TaskAttachmentService } from '../services/task-attachment-service';
+import {
+  InvalidTaskEventError,
+  parseTaskEvent,
+} from '../services/task-event-schema';
+import { sqs, TASKS_DEAD_LETTER_QUEUE } from '../utils/aws-clients';
+import { TaskEvent, TaskEventPayload, TaskStatus } from '../types';
 
 const taskService = new TaskService();
+const attachmentService = new TaskAttachmentService();
+const notifier = createTaskNotifier();
+
+/**
+ * 1回の呼び出しで同時に処理するタスクの数の既定値
+ */
+const DEFAULT_QUEUE_CONCURRENCY = 5;
+
+/**
+ * 1回の呼び出しで同時に処理するタスクの数
+ * 環境変数 TASK_QUEUE_CONCURRENCY で変更できます（正の整数でない場合は既定値を使用します）
+ * （ハンドラー名の process と区別するため、グローバルの process から参照します）
+ */
+const QUEUE_CONCURRENCY = (() => {
+  const value = Number.parseInt(
+    globalThis.process.env.TASK_QUEUE_CONCURRENCY || '',
+    10
+  );
+  return value > 0 ? value : DEFAULT_QUEUE_CONCURRENCY;
+})();
 
 /**
  * SQSメッセージを処理するハンドラー
+ *
+ * タスクキューはタスクIDをメッセージグループとするFIFOキューのため、同じタスクのメッセージは送信した順に受信します。
+ * メッセージをタスクIDごとにまとめ、異なるタスクのメッセージは同時に（最大 TASK_QUEUE_CONCURRENCY 件）、
+ * 同じタスクのメッセージは受信した順に1件ずつ処理します。
+ * 処理に失敗したメッセージのIDをbatchItemFailuresとして返し、失敗したメッセージだけをSQSに再試行させます。
+ * 同じタスクの後続のメッセージは、順序を保つため処理せずに失敗したメッセージとともに再試行させます
+ * （FIFOキューでは失敗したメッセージより先に後続のメッセージが配信されることはありません）。
  */
 export const process = async (
   event: SQSEvent,
   context: Context
-): Promise<void> => {
-  try {
-    console.log(`SQSイベント受信: ${event.Records.length}件のメッセージ`);
+): Promise<SQSBatchResponse> => {
+  console.log(`SQSイベント受信: ${event.Records.length}件のメッセージ`);
 
-    for (const record of event.Records) {
-      await processRecord(record);
+  const failedMessageIds: string[] = [];
+  await runWithConcurrency(
+    groupByTask(event.Records),
+    QUEUE_CONCURRENCY,
+    async (records) => {
+      for (const [index, record] of records.entries()) {
+        try {
+          await processRecord(record);
+        } catch (error) {
+          failedMessageIds.push(
+            ...records.slice(index).map(({ messageId }) => messageId)
+          );
+          return;
+        }
+      }
     }
-  } catch (error) {
-    console.error('SQSメッセージ処理エラー:', error);
-    throw error; // Lambda関数を失敗させてSQSにメッセージを戻す
+  );
+
+  if (failedMessageIds.length > 0) {
+    console.warn(
+      `再試行するメッセージ: ${failedMessageIds.length}件 ${failedMessageIds.join(', ')}`
+    );
   }
+
+  return {
+    batchItemFailures: failedMessageIds.map((itemIdentifier) => ({
+      itemIdentifier,
+    })),
+  };
 };
 
+/**
+ * SQSレコードをタスクIDごとにまとめる
+ *
+ * 各グループ内のレコードは受信した順（同じメッセージグループ内では送信した順）に並びます。
+ * タスクIDを読み取れないメッセージ（デッドレターキューに送信されるもの）は、1件ずつ別のグループにします。
+ *
+ * @param records - SQSレコード
+ * @returns タスクIDごとのレコードの配列
+ */
+export function groupByTask(records: SQSRecord[]): SQSRecord[][] {
+  const groups = new Map<string, SQSRecord[]>();
+  for (const record of records) {
+    const key = taskIdOf(record) ?? `message#${record.messageId}`;
+    groups.set(key, [...(groups.get(key) || []), record]);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * SQSレコードの本文からタスクIDを読み取る
+ *
+ * 形式の検証はprocessRecordで行うため、ここでは順序を保つための読み取りだけを行います。
+ *
+ * @param record - SQSレコード
+ * @returns タスクID、読み取れない場合はundefined
+ */
+function taskIdOf(record: SQSRecord): string | undefined {
+  try {
+    const taskId = JSON.parse(record.body)?.payload?.taskId;
+    return typeof taskId === 'string' ? taskId : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 要素ごとの処理を、同時に実行する数を制限して実行する
+ *
+ * @param items - 処理する要素
+ * @param limit - 同時に実行する最大数（正の整数でない場合は1）
+ * @param worker - 要素ごとの処理
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const run = async (): Promise<void> => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  };
+
+  const workers = Number.isInteger(limit) && limit > 1 ? limit : 1;
+  await Promise.all(
+    Array.from({ length: Math.min(workers, items.length) }, run)
+  );
+}
+
 /**
  * 個々のSQSレコードを処理する
+ *
+ * メッセージをタスクイベントとして検証し、形式が正しくない、または対応していないバージョンの
+ * メッセージは再試行しても処理できないため、デッドレターキューに送信して処理を終えます。
  */
 async function processRecord(record: SQSRecord): Promise<void> {
   try {
     console.log(`メッセージ処理: ${record.messageId}`);
 
-    const message: TaskMessage = JSON.parse(record.body);
-    console.log(`タスクメッセージ: ${JSON.stringify(message)}`);
+    let event: TaskEvent;
+    try {
+      event = parseTaskEvent(record.body);
+    } catch (error) {
+      if (error instanceof InvalidTaskEventError) {
+        await sendToDeadLetterQueue(record, error);
+        return;
+      }
+      throw error;
+    }
 
-    const { taskId, action, timestamp } = message;
+    const { eventId, eventType, occurredAt, correlationId, payload } = event;
+    console.log(
+      `タスクイベント: ${eventType}, イベントID: ${eventId}, 相関ID: ${correlationId}, タスク: ${payload.taskId}`
+    );
 
-    switch (action) {
+    switch (eventType) {
       case 'CREATE':
-        await handleTaskCreated(taskId, timestamp);
+        await handleTaskCreated(payload.taskId, occurredAt);
         break;
       case 'UPDATE':
-        await handleTaskUpdated(taskId, timestamp);
+        await handleTaskUpdated(payload, occurredAt, correlationId);
         break;
       case 'DELETE':
-        await handleTaskDeleted(taskId, timestamp);
+        await handleTaskDeleted(payload.taskId, occurredAt, payload.deleteMode);
+        break;
+      case 'RESTORE':
+        await handleTaskRestored(payload.taskId, occurredAt);
+        break;
+      case 'UNBLOCKED':
+        await handleTaskUnblocked(
+          payload.taskId,
+          occurredAt,
+          payload.unblockedBy
+        );
+        break;
+      case 'REMINDER':
+        await handleTaskReminder(payload.taskId, occurredAt, payload.dueAt);
         break;
-      default:
-        console.warn(`不明なアクション: ${action}`);
     }
   } catch (error) {
     console.error(`レコード処理エラー: ${record.messageId}`, error);
@@ -54,6 +194,39 @@ async function processRecord(record: SQSRecord): Promise<void> {
   }
 }
 
+/**
+ * 処理できないメッセージをデッドレターキューに送信する
+ *
+ * 対応するバージョンの処理関数をデプロイした後に元のキューに戻せるように、本文は変更せずに送信し、
+ * 処理できない理由と元のメッセージIDはメッセージ属性に記録します。
+ *
+ * @param record - 処理できないSQSレコード
+ * @param error - 検証エラー
+ */
+async function sendToDeadLetterQueue(
+  record: SQSRecord,
+  error: InvalidTaskEventError
+): Promise<void> {
+  console.warn(
+    `処理できないメッセージをデッドレターキューに送信します: ${record.messageId}, 理由: ${error.reason}, ${error.message}`
+  );
+
+  // デッドレターキューもFIFOキューのため、元のメッセージのグループと元のメッセージIDで重複排除する
+  await sqs
+    .sendMessage({
+      QueueUrl: TASKS_DEAD_LETTER_QUEUE,
+      MessageBody: record.body,
+      MessageGroupId: record.attributes.MessageGroupId || record.messageId,
+      MessageDeduplicationId: record.messageId,
+      MessageAttributes: {
+        reason: { DataType: 'String', StringValue: error.reason },
+        error: { DataType: 'String', StringValue: error.message },
+        sourceMessageId: { DataType: 'String', StringValue: record.messageId },
+      },
+    })
+    .promise();
+}
+
 /**
  * タスク作成時の処理
  */
@@ -68,37 +241,121 @@ async function handleTaskCreated(
 
 /**
  * タスク更新時の処理
+ *
+ * イベントに含まれる更新後のタスクと変更内容から判断するため、タスクを読み直しません
+ * （読み直すと、処理までの間に行われた後続の更新の状態で判断してしまうため）。
+ * ステータスが完了（DONE）に変わった場合は、このタスクをブロッカーとしていたタスクのうち
+ * ブロックが解除されたものについて、同じ相関IDでUNBLOCKEDイベントを送信します。
  */
 async function handleTaskUpdated(
-  taskId: string,
-  timestamp: string
+  payload: TaskEventPayload,
+  timestamp: string,
+  correlationId: string
 ): Promise<void> {
+  const { taskId, task, changes } = payload;
   console.log(`タスク更新イベント処理: ${taskId}, 時刻: ${timestamp}`);
+  console.log(`タスクステータス: ${task.status}`);
 
-  // タスクのステータスを確認
-  const task = await taskService.getTaskById(taskId);
+  // タスクが完了状態の場合の処理
+  if (task.status === TaskStatus.DONE) {
+    console.log(`タスク ${taskId} が完了しました。追加の処理を実行します...`);
 
-  if (task) {
-    console.log(`タスクステータス: ${task.status}`);
-
-    // タスクが完了状態の場合の処理
-    if (task.status === 'DONE') {
-      console.log(`タスク ${taskId} が完了しました。追加の処理を実行します...`);
-      // 完了時の処理をここに実装
+    // 完了に変わった場合のみ、ブロックが解除されたタスクを通知する
+    const completed = changes.some(
+      (change) => change.field === 'status' && change.after === TaskStatus.DONE
+    );
+    if (completed) {
+      const unblockedIds = await taskService.publishUnblockedTasks(
+        taskId,
+        correlationId
+      );
+      console.log(
+        `ブロック解除されたタスク: ${unblockedIds.length}件 ${unblockedIds.join(', ')}`
+      );
     }
-  } else {
-    console.warn(`タスク ${taskId} が見つかりません`);
   }
 }
 
 /**
  * タスク削除時の処理
+ *
+ * deleteModeがSOFTの場合はゴミ箱への移動、HARDの場合は完全な削除を表します。
+ * 完全に削除された場合は、添付ファイルに削除ポリシー（TASK_ATTACHMENT_DELETE_POLICY）を適用します。
  */
 async function handleTaskDeleted(
+  taskId: string,
+  timestamp: string,
+  deleteMode: TaskEventPayload['deleteMode'] = 'HARD'
+): Promise<void> {
+  console.log(
+    `タスク削除イベント処理: ${taskId}, 削除方式: ${deleteMode}, 時刻: ${timestamp}`
+  );
+
+  // ゴミ箱内のタスクは復元できるため、添付ファイルは完全削除時にのみ処理する
+  if (deleteMode === 'HARD') {
+    const released = await attachmentService.releaseAttachments(taskId);
+    console.log(`タスク ${taskId} の添付ファイルを処理しました: ${released}件`);
+  }
+}
+
+/**
+ * タスクのブロック解除時の処理
+ */
+async function handleTaskUnblocked(
+  taskId: string,
+  timestamp: string,
+  unblockedBy?: string
+): Promise<void> {
+  console.log(
+    `タスクブロック解除イベント処理: ${taskId}, 解除したブロッカー: ${unblockedBy}, 時刻: ${timestamp}`
+  );
+  // ここにブロック解除時の処理を実装
+  // 例: 担当者への着手可能の通知など
+}
+
+/**
+ * タスク復元時の処理
+ */
+async function handleTaskRestored(
   taskId: string,
   timestamp: string
 ): Promise<void> {
-  console.log(`タスク削除イベント処理: ${taskId}, 時刻: ${timestamp}`);
-  // ここに削除時の処理を実装
-  // 例: 関連リソースのクリーンアップなど
+  console.log(`タスク復元イベント処理: ${taskId}, 時刻: ${timestamp}`);
+  // ここに復元時の処理を実装
+}
+
+/**
+ * 期日のリマインダーの処理
+ *
+ * 送信済みの記録（remindedAt）に成功した場合のみ通知を送信するため、
+ * 同じタスクについてリマインダーが2回以上送信されることはありません。
+ * 通知の送信に失敗した場合は記録を取り消し、SQSの再試行で再び通知できるようにします。
+ */
+async function handleTaskReminder(
+  taskId: string,
+  timestamp: string,
+  dueAt?: string
+): Promise<void> {
+  console.log(
+    `タスクリマインダーイベント処理: ${taskId}, 期日: ${dueAt}, 時刻: ${timestamp}`
+  );
+
+  if (!dueAt) {
+    console.warn(`タスク ${taskId} のリマインダーに期日が含まれていません`);
+    return;
+  }
+
+  // 送信済み、期日の変更、完了、削除のいずれかの場合は通知しない
+  const task = await taskService.claimReminder(taskId, dueAt);
+  if (!task) {
+    console.log(`タスク ${taskId} のリマインダーは送信対象外です`);
+    return;
+  }
+
+  try {
+    await notifier.notifyDueSoon(task);
+  } catch (error) {
+    await taskService.releaseReminder(taskId, task.remindedAt as string);
+    throw error;
+  }
 }
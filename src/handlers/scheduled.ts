@@ -0,0 +1,188 @@
+/**
+ * 定期実行ジョブのLambdaハンドラー
+ *
+ * このファイルにはEventBridge（CloudWatch Events）のスケジュールから起動される
+ * メンテナンス用のハンドラー関数が含まれています。
+ *
+ * 提供される機能:
+ * - 保持期間を過ぎたゴミ箱内タスクの完全削除
+ * - 期日が近づいたタスクのリマインダーの送信
+ * - 期限を過ぎても完了していないファイルアップロードの削除
+ * - 期限を過ぎても完了していないマルチパートアップロードの中止
+ * - 有効期限を過ぎたZIPアーカイブの削除
+ * - ファイルメタデータとS3上のオブジェクトの整合性チェック（手動でも実行可能）
+ */
+import { ScheduledEvent } from 'aws-lambda';
+import {
+  TaskService,
+  TRASH_RETENTION_DAYS,
+  REMINDER_WINDOW_MINUTES,
+} from '../services/task-service';
+import {
+  FileService,
+  PENDING_UPLOAD_EXPIRY_MINUTES,
+} from '../services/file-service';
+import {
+  MultipartUploadService,
+  MULTIPART_UPLOAD_EXPIRY_HOURS,
+} from '../services/multipart-upload-service';
+import {
+  FileArchiveService,
+  ARCHIVE_EXPIRY_HOURS,
+} from '../services/file-archive-service';
+import {
+  FileReconciliationService,
+  RECONCILE_MODE,
+} from '../services/file-reconciliation-service';
+import { FileReconciliationReport, ReconciliationMode } from '../types';
+
+// 各サービスのインスタンスを作成
+const taskService = new TaskService();
+const fileService = new FileService();
+const multipartUploadService = new MultipartUploadService(fileService);
+const fileArchiveService = new FileArchiveService(fileService);
+const fileReconciliationService = new FileReconciliationService(fileService);
+
+/**
+ * ゴミ箱の定期削除ハンドラー
+ *
+ * 削除日時から TASK_TRASH_RETENTION_DAYS 日を過ぎたゴミ箱内のタスクを完全に削除します。
+ *
+ * @param event - スケジュールイベント
+ * @returns 完全に削除したタスクの件数
+ */
+export const purgeTaskTrash = async (
+  event: ScheduledEvent
+): Promise<{ purged: number }> => {
+  console.log(
+    `ゴミ箱の定期削除開始: 保持期間 ${TRASH_RETENTION_DAYS}日, 時刻: ${event.time}`
+  );
+
+  const purged = await taskService.purgeExpiredTrash();
+
+  console.log(`ゴミ箱の定期削除完了: ${purged}件`);
+  return { purged };
+};
+
+/**
+ * 期日のリマインダーの定期送信ハンドラー
+ *
+ * 期日まで TASK_REMINDER_WINDOW_MINUTES 分以内の未完了のタスクについて、
+ * REMINDERイベントをSQSに送信します。通知はキューの処理ハンドラーが送信します。
+ *
+ * @param event - スケジュールイベント
+ * @returns REMINDERイベントを送信したタスクの件数
+ */
+export const enqueueTaskReminders = async (
+  event: ScheduledEvent
+): Promise<{ enqueued: number }> => {
+  console.log(
+    `リマインダーの定期送信開始: 対象期間 ${REMINDER_WINDOW_MINUTES}分, 時刻: ${event.time}`
+  );
+
+  const taskIds = await taskService.enqueueDueReminders();
+
+  console.log(`リマインダーの定期送信完了: ${taskIds.length}件`);
+  return { enqueued: taskIds.length };
+};
+
+/**
+ * 未完了のファイルアップロードの定期削除ハンドラー
+ *
+ * URLの発行から FILE_PENDING_EXPIRY_MINUTES 分を過ぎてもPENDINGのままのファイルについて、
+ * メタデータとS3上のオブジェクトを削除します。
+ *
+ * @param event - スケジュールイベント
+ * @returns 削除したファイルの件数
+ */
+export const sweepPendingUploads = async (
+  event: ScheduledEvent
+): Promise<{ swept: number }> => {
+  console.log(
+    `未完了アップロードの定期削除開始: 期限 ${PENDING_UPLOAD_EXPIRY_MINUTES}分, 時刻: ${event.time}`
+  );
+
+  const swept = await fileService.sweepExpiredUploads();
+
+  console.log(`未完了アップロードの定期削除完了: ${swept}件`);
+  return { swept };
+};
+
+/**
+ * 未完了のマルチパートアップロードの定期中止ハンドラー
+ *
+ * 開始から MULTIPART_UPLOAD_EXPIRY_HOURS 時間を過ぎても完了していないマルチパートアップロードを中止し、
+ * アップロード済みのパートとPENDINGのメタデータを削除します。
+ *
+ * @param event - スケジュールイベント
+ * @returns 中止したアップロードの件数
+ */
+export const abortStaleMultipartUploads = async (
+  event: ScheduledEvent
+): Promise<{ aborted: number }> => {
+  console.log(
+    `未完了マルチパートアップロードの定期中止開始: 期限 ${MULTIPART_UPLOAD_EXPIRY_HOURS}時間, 時刻: ${event.time}`
+  );
+
+  const aborted = await multipartUploadService.abortStaleUploads();
+
+  console.log(`未完了マルチパートアップロードの定期中止完了: ${aborted}件`);
+  return { aborted };
+};
+
+/**
+ * 期限切れのZIPアーカイブの定期削除ハンドラー
+ *
+ * 作成から FILE_ARCHIVE_EXPIRY_HOURS 時間を過ぎたアーカイブ作成ジョブについて、
+ * ジョブとS3上のアーカイブを削除します。
+ *
+ * @param event - スケジュールイベント
+ * @returns 削除したジョブの件数
+ */
+export const sweepExpiredArchives = async (
+  event: ScheduledEvent
+): Promise<{ swept: number }> => {
+  console.log(
+    `期限切れアーカイブの定期削除開始: 期限 ${ARCHIVE_EXPIRY_HOURS}時間, 時刻: ${event.time}`
+  );
+  const swept = await fileArchiveService.sweepExpiredJobs();
+  console.log(`期限切れアーカイブの定期削除完了: ${swept}件`);
+  return { swept };
+};
+
+/**
+ * ファイルの整合性チェックハンドラー
+ *
+ * FILES_BUCKETのオブジェクトとファイルメタデータを突き合わせ、
+ * 孤立したオブジェクト・オブジェクトが存在しないメタデータ・サイズの不一致を報告します。
+ * スケジュールからは FILE_RECONCILE_MODE のモードで実行されます。
+ * 手動で実行する場合は、イベントの mode（dry-run または repair）でモードを指定できます。
+ * 結果は後から集計できるように、1行のJSONとしてログに出力します。
+ *
+ * @param event - スケジュールイベント、または { "mode": "repair" } のような手動実行のイベント
+ * @returns 整合性チェックの結果
+ *
+ * 手動実行の例:
+ * ```
+ * npm run reconcile:files -- --stage dev
+ * npm run reconcile:files:repair -- --stage dev
+ * ```
+ */
+export const reconcileFiles = async (
+  event: Partial<ScheduledEvent> & { mode?: ReconciliationMode }
+): Promise<FileReconciliationReport> => {
+  const mode = event.mode || RECONCILE_MODE;
+  console.log(
+    `ファイルの整合性チェック開始: モード ${mode}, 時刻: ${
+      event.time || new Date().toISOString()
+    }`
+  );
+
+  const report = await fileReconciliationService.reconcile(mode);
+
+  console.log(
+    `ファイルの整合性チェック完了: 孤立オブジェクト ${report.orphanObjects.length}件, オブジェクトなし ${report.missingObjects.length}件, サイズ不一致 ${report.sizeMismatches.length}件`
+  );
+  console.log(JSON.stringify(report));
+  return report;
+};
@@ -0,0 +1,201 @@
+/**
+ * ファイル共有リンクAPIのLambdaハンドラー
+ *
+ * このファイルにはファイルの共有リンクに関するAPIエンドポイントのハンドラー関数が含まれています。
+ * 共有リンクは有効期限・最大ダウンロード回数・パスワードを設定でき、いつでも無効化できます。
+ *
+ * 提供される機能:
+ * - 共有リンクの作成
+ * - ファイルごとの共有リンク一覧の取得
+ * - 共有リンクの無効化
+ * - 共有リンクからのダウンロード（認証なし、署名付きURLへのリダイレクト）
+ */
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { FileShareService } from '../services/file-share-service';
+import {
+  successResponse,
+  errorResponse,
+  redirectResponse,
+} from '../utils/response';
+import { parseLimit } from '../utils/pagination';
+import { getHeader } from '../utils/request';
+import { AppError } from '../utils/errors';
+
+// FileShareServiceのインスタンスを作成
+const fileShareService = new FileShareService();
+
+/**
+ * 共有リンク作成ハンドラー
+ *
+ * POST /files/{id}/shares エンドポイントのハンドラー関数です。
+ * アップロードが完了した（READY）ファイルの共有リンクを作成します。
+ * レスポンスの token を使って GET /s/{token} からダウンロードできます。
+ *
+ * リクエストボディ（すべて省略可能）:
+ * - expiresInSeconds: 有効期間（秒、60〜2592000、デフォルト7日）
+ * - maxDownloads: ダウンロードできる最大回数（省略時は無制限）
+ * - password: ダウンロードに必要なパスワード
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * POST /files/9b2f5c1e-8d4a-4f6b-a3c2-1e7d9f0b4a56/shares
+ * {
+ *   "expiresInSeconds": 86400,
+ *   "maxDownloads": 5,
+ *   "password": "correct horse"
+ * }
+ * ```
+ */
+export const create = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const fileId = event.pathParameters?.id;
+
+    if (!fileId) {
+      return errorResponse('ファイルIDが指定されていません', 400);
+    }
+
+    const { expiresInSeconds, maxDownloads, password } = event.body
+      ? JSON.parse(event.body)
+      : ({} as { [key: string]: any });
+
+    const share = await fileShareService.createShare(fileId, {
+      expiresInSeconds,
+      maxDownloads,
+      password,
+    });
+
+    if (!share) {
+      return errorResponse('ファイルが見つかりません', 404);
+    }
+
+    return successResponse(share, 201);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('共有リンク作成エラー:', error);
+    return errorResponse('共有リンクの作成中にエラーが発生しました', 500);
+  }
+};
+
+/**
+ * 共有リンク一覧取得ハンドラー
+ *
+ * GET /files/{id}/shares エンドポイントのハンドラー関数です。
+ * 無効化・期限切れのものも含め、共有リンクを作成日時の新しい順に返します。
+ *
+ * クエリパラメータ:
+ * - limit: 1ページあたりの件数（1〜100、デフォルト20）
+ * - cursor: 前回のレスポンスの nextCursor
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ */
+export const list = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const fileId = event.pathParameters?.id;
+
+    if (!fileId) {
+      return errorResponse('ファイルIDが指定されていません', 400);
+    }
+
+    const params = event.queryStringParameters || {};
+    const result = await fileShareService.listShares(fileId, {
+      limit: parseLimit(params.limit),
+      cursor: params.cursor,
+    });
+
+    return successResponse(result);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('共有リンク一覧取得エラー:', error);
+    return errorResponse('共有リンク一覧の取得中にエラーが発生しました', 500);
+  }
+};
+
+/**
+ * 共有リンク無効化ハンドラー
+ *
+ * DELETE /files/{id}/shares/{token} エンドポイントのハンドラー関数です。
+ * 無効化した共有リンクからはダウンロードできなくなります（410エラー）。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ */
+export const revoke = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const fileId = event.pathParameters?.id;
+    const token = event.pathParameters?.token;
+
+    if (!fileId || !token) {
+      return errorResponse('ファイルIDとトークンを指定してください', 400);
+    }
+
+    const share = await fileShareService.revokeShare(fileId, token);
+
+    if (!share) {
+      return errorResponse('共有リンクが見つかりません', 404);
+    }
+
+    return successResponse(share);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('共有リンク無効化エラー:', error);
+    return errorResponse('共有リンクの無効化中にエラーが発生しました', 500);
+  }
+};
+
+/**
+ * 共有リンクからのダウンロードハンドラー
+ *
+ * GET /s/{token} エンドポイントのハンドラー関数です。認証は不要です。
+ * 共有リンクを検証してダウンロード回数を数え、短時間だけ有効な署名付きURLへ302でリダイレクトします。
+ * パスワードは X-Share-Password ヘッダー、または password クエリパラメータで指定します。
+ * - 共有リンクが存在しない場合: 404
+ * - パスワードがない、または一致しない場合: 401
+ * - 無効化・期限切れ・回数の上限に達した場合、またはファイルが削除された場合: 410
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ */
+export const access = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const token = event.pathParameters?.token;
+
+    if (!token) {
+      return errorResponse('トークンが指定されていません', 400);
+    }
+
+    const password =
+      getHeader(event, 'X-Share-Password') ||
+      event.queryStringParameters?.password;
+    const result = await fileShareService.redeemShare(token, password);
+
+    if (!result) {
+      return errorResponse('共有リンクが見つかりません', 404);
+    }
+
+    return redirectResponse(result.downloadUrl);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('共有リンクからのダウンロードエラー:', error);
+    return errorResponse('ダウンロード中にエラーが発生しました', 500);
+  }
+};
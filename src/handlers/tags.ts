@@ -0,0 +1,45 @@
+/**
+ * タグAPIのLambdaハンドラー
+ *
+ * このファイルにはタスクに付けられたタグに関するAPIエンドポイントのハンドラー関数が含まれています。
+ * タスクへのタグの付け外しは tasks.ts のハンドラーで行います。
+ *
+ * 提供される機能:
+ * - タグ一覧（使用数付き）の取得
+ */
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { TagService } from '../services/tag-service';
+import { successResponse, errorResponse } from '../utils/response';
+
+// TagServiceのインスタンスを作成
+const tagService = new TagService();
+
+/**
+ * タグ一覧取得ハンドラー
+ *
+ * GET /tags エンドポイントのハンドラー関数です。
+ * ゴミ箱内を除くタスクに付けられているタグを、使用数の多い順に返します。
+ *
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * GET /tags
+ * ```
+ *
+ * レスポンス例:
+ * ```
+ * { "items": [{ "tag": "backend", "count": 12 }, { "tag": "frontend", "count": 3 }] }
+ * ```
+ */
+export const list = async (): Promise<APIGatewayProxyResult> => {
+  try {
+    const items = await tagService.listTags();
+
+    // 成功レスポンスを返す
+    return successResponse({ items });
+  } catch (error) {
+    console.error('タグ一覧取得エラー:', error);
+    return errorResponse('タグ一覧取得中にエラーが発生しました', 500);
+  }
+};
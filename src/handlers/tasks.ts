@@ -9,7 +9,13 @@
  * - タスクの取得
  * - タスク一覧の取得
  * - タスクの更新
- * - タスクの削除
+ * - タスクの削除（ゴミ箱への移動）
+ * - タスクのステータス遷移履歴の取得
+ * - タスクの変更履歴（監査ログ）の取得
+ * - 子タスク（サブタスク）一覧の取得
+ * - 依存関係（ブロッカー）の追加と削除
+ * - タグの追加と削除
+ * - ゴミ箱内のタスク一覧の取得と復元
  */
 import {
   APIGatewayProxyEvent,
@@ -17,17 +23,45 @@ import {
   Context,
 } from 'aws-lambda';
 import { TaskService } from '../services/task-service';
-import { successResponse, errorResponse } from '../utils/response';
-import { Task } from '../types';
+import { successResponse, errorResponse, etagHeaders } from '../utils/response';
+import { parseLimit } from '../utils/pagination';
+import { AppError } from '../utils/errors';
+import {
+  getActor,
+  getCorrelationId,
+  getIfMatchVersion,
+  getBooleanQueryParameter,
+} from '../utils/request';
+import { normalizeTags } from '../services/task-validation';
+import {
+  Task,
+  TaskStatus,
+  TaskSortField,
+  SortOrder,
+  TagMatchMode,
+} from '../types';
 
 // TaskServiceのインスタンスを作成
 const taskService = new TaskService();
 
+/**
+ * GET /tasks の sort に指定できるフィールド
+ */
+const SORT_FIELDS: TaskSortField[] = [
+  'createdAt',
+  'updatedAt',
+  'dueAt',
+  'priority',
+];
+
 /**
  * タスク作成ハンドラー
  *
  * POST /tasks エンドポイントのハンドラー関数です。
  * リクエストボディからタスク情報を取得し、新しいタスクを作成します。
+ * parentId を指定すると、そのタスクの子タスク（サブタスク）として作成します。
+ * 期日（dueAt、タイムゾーン付きのISO 8601形式）、優先度（priority、デフォルトMEDIUM）、
+ * 見積もり時間（estimateMinutes、分）、タグ（tags）も指定できます。
  *
  * @param event - API Gatewayプロキシイベント
  * @param context - Lambda実行コンテキスト
@@ -38,7 +72,12 @@ const taskService = new TaskService();
  * POST /tasks
  * {
  *   "title": "新しいタスク",
- *   "description": "タスクの説明"
+ *   "description": "タスクの説明",
+ *   "parentId": "123e4567-e89b-12d3-a456-426614174000",
+ *   "dueAt": "2024-06-01T18:00:00+09:00",
+ *   "priority": "HIGH",
+ *   "estimateMinutes": 90,
+ *   "tags": ["backend", "localstack"]
  * }
  * ```
  */
@@ -53,19 +92,47 @@ export const create = async (
     }
 
     // JSONパースとデータ取得
-    const { title, description } = JSON.parse(event.body);
+    const {
+      title,
+      description,
+      parentId,
+      dueAt,
+      priority,
+      estimateMinutes,
+      tags,
+    } = JSON.parse(event.body);
 
     // タイトルは必須
     if (!title) {
       return errorResponse('タイトルは必須です', 400);
     }
 
+    // 親タスクIDは文字列で指定する
+    if (parentId !== undefined && typeof parentId !== 'string') {
+      return errorResponse('parentId は文字列で指定してください', 400);
+    }
+
     // タスクを作成
-    const task = await taskService.createTask(title, description);
+    const task = await taskService.createTask(
+      {
+        title,
+        description,
+        parentId,
+        dueAt,
+        priority,
+        estimateMinutes,
+        tags,
+      },
+      getActor(event),
+      getCorrelationId(event)
+    );
 
     // 201 Createdステータスで成功レスポンスを返す
-    return successResponse(task, 201);
+    return successResponse(task, 201, etagHeaders(task.version));
   } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
     console.error('タスク作成エラー:', error);
     return errorResponse('タスク作成中にエラーが発生しました', 500);
   }
@@ -76,6 +143,7 @@ export const create = async (
  *
  * GET /tasks/{id} エンドポイントのハンドラー関数です。
  * パスパラメータからタスクIDを取得し、対応するタスクを返します。
+ * レスポンスにはタスクのバージョンを表すETagヘッダーと、子タスクの進捗（progress）が含まれます。
  *
  * @param event - API Gatewayプロキシイベント
  * @param context - Lambda実行コンテキスト
@@ -107,8 +175,15 @@ export const get = async (
       return errorResponse('タスクが見つかりません', 404);
     }
 
-    // 成功レスポンスを返す
-    return successResponse(task);
+    // 子タスクの進捗を計算
+    const progress = await taskService.getTaskProgress(taskId);
+
+    // 成功レスポンスを返す（ETagとしてバージョンを返す）
+    return successResponse(
+      { ...task, progress },
+      200,
+      etagHeaders(task.version)
+    );
   } catch (error) {
     console.error('タスク取得エラー:', error);
     return errorResponse('タスク取得中にエラーが発生しました', 500);
@@ -119,28 +194,102 @@ export const get = async (
  * タスク一覧取得ハンドラー
  *
  * GET /tasks エンドポイントのハンドラー関数です。
- * 保存されているすべてのタスクを返します。
+ * クエリパラメータで件数、カーソル、ステータス、作成日時の範囲、並び順を指定して
+ * タスクを返します（デフォルト: 作成日時の新しい順）。
+ *
+ * クエリパラメータ:
+ * - limit: 1ページあたりの件数（1〜100、デフォルト20）
+ * - cursor: 前回のレスポンスの nextCursor（並び順を変えた場合は使用できません）
+ * - status: TODO / IN_PROGRESS / DONE
+ * - createdAfter / createdBefore: 作成日時の範囲（ISO 8601形式）
+ * - sort: createdAt / updatedAt / dueAt / priority（デフォルト createdAt）
+ * - order: asc / desc（デフォルト desc）
+ * - overdue: true を指定すると期日を過ぎた未完了のタスクのみを期日順に返す
+ * - tag: 絞り込むタグ（複数指定可）
+ * - tagMode: all（すべてのタグを含む、デフォルト） / any（いずれかのタグを含む）
  *
  * @param event - API Gatewayプロキシイベント
- * @param context - Lambda実行コンテキスト
  * @returns API Gatewayプロキシレスポンス
  *
  * リクエスト例:
  * ```
- * GET /tasks
+ * GET /tasks?status=TODO&limit=20&cursor=eyJpZCI6...
+ * GET /tasks?sort=priority&order=desc
+ * GET /tasks?overdue=true&order=asc
+ * GET /tasks?tag=backend&tag=urgent&tagMode=any
  * ```
  */
 export const list = async (
-  event: APIGatewayProxyEvent,
-  context: Context
+  event: APIGatewayProxyEvent
 ): Promise<APIGatewayProxyResult> => {
   try {
-    // すべてのタスクを取得
-    const tasks = await taskService.listTasks();
+    const params = event.queryStringParameters || {};
+    const { cursor, status, createdAfter, createdBefore, sort, order } = params;
+    const { tagMode } = params;
+    const tags =
+      event.multiValueQueryStringParameters?.tag ||
+      (params.tag ? [params.tag] : []);
+
+    // ステータスの検証
+    if (status && !Object.values(TaskStatus).includes(status as TaskStatus)) {
+      return errorResponse(
+        `status は ${Object.values(TaskStatus).join(', ')} のいずれかを指定してください`,
+        400
+      );
+    }
+
+    // 日時の検証
+    for (const [name, value] of Object.entries({
+      createdAfter,
+      createdBefore,
+    })) {
+      if (value && isNaN(Date.parse(value))) {
+        return errorResponse(`${name} はISO 8601形式で指定してください`, 400);
+      }
+    }
+
+    // 並び替えの検証
+    if (sort && !SORT_FIELDS.includes(sort as TaskSortField)) {
+      return errorResponse(
+        `sort は ${SORT_FIELDS.join(', ')} のいずれかを指定してください`,
+        400
+      );
+    }
+    if (order && order !== 'asc' && order !== 'desc') {
+      return errorResponse(
+        'order は asc, desc のいずれかを指定してください',
+        400
+      );
+    }
+
+    // タグの検証
+    if (tagMode && tagMode !== 'all' && tagMode !== 'any') {
+      return errorResponse(
+        'tagMode は all, any のいずれかを指定してください',
+        400
+      );
+    }
+
+    // 条件に一致するタスクを取得
+    const result = await taskService.listTasks({
+      limit: parseLimit(params.limit),
+      cursor,
+      status: status as TaskStatus | undefined,
+      createdAfter: createdAfter && new Date(createdAfter).toISOString(),
+      createdBefore: createdBefore && new Date(createdBefore).toISOString(),
+      sort: sort as TaskSortField | undefined,
+      order: order as SortOrder | undefined,
+      overdue: getBooleanQueryParameter(event, 'overdue'),
+      tags: normalizeTags(tags),
+      tagMode: tagMode as TagMatchMode | undefined,
+    });
 
     // 成功レスポンスを返す
-    return successResponse(tasks);
+    return successResponse(result);
   } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
     console.error('タスク一覧取得エラー:', error);
     return errorResponse('タスク一覧取得中にエラーが発生しました', 500);
   }
@@ -151,6 +300,13 @@ export const list = async (
  *
  * PUT /tasks/{id} エンドポイントのハンドラー関数です。
  * パスパラメータからタスクIDを取得し、リクエストボディの内容でタスクを更新します。
+ * ステータスの変更は遷移グラフで許可されたもののみ受け付け、
+ * 許可されていない遷移の場合は許可されている遷移先を含む409エラーを返します。
+ * 操作者は X-User-Id ヘッダー（またはオーソライザー）から取得し、遷移履歴に記録されます。
+ * If-Match ヘッダーが指定された場合、バージョンが一致しなければ412エラーを返します。
+ * 未完了の子タスクがある場合、クエリパラメータ force=true を指定しない限り完了（DONE）にできません。
+ * 変更できる属性は title, description, status, parentId, dueAt, priority, estimateMinutes, tags のみで、
+ * それ以外の属性（id と createdAt を除く）やnull・文字列以外のタイトルを指定した場合は400エラーを返します。
  *
  * @param event - API Gatewayプロキシイベント
  * @param context - Lambda実行コンテキスト
@@ -159,6 +315,7 @@ export const list = async (
  * リクエスト例:
  * ```
  * PUT /tasks/123e4567-e89b-12d3-a456-426614174000
+ * If-Match: "3"
  * {
  *   "status": "IN_PROGRESS",
  *   "description": "更新された説明"
@@ -191,16 +348,24 @@ export const update = async (
     delete updates.createdAt;
 
     // タスクを更新
-    const updatedTask = await taskService.updateTask(taskId, updates);
+    const updatedTask = await taskService.updateTask(taskId, updates, {
+      actor: getActor(event),
+      correlationId: getCorrelationId(event),
+      expectedVersion: getIfMatchVersion(event),
+      force: getBooleanQueryParameter(event, 'force'),
+    });
 
     // タスクが見つからない場合は404エラー
     if (!updatedTask) {
       return errorResponse('タスクが見つかりません', 404);
     }
 
-    // 成功レスポンスを返す
-    return successResponse(updatedTask);
+    // 成功レスポンスを返す（ETagとして新しいバージョンを返す）
+    return successResponse(updatedTask, 200, etagHeaders(updatedTask.version));
   } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
     console.error('タスク更新エラー:', error);
     return errorResponse('タスク更新中にエラーが発生しました', 500);
   }
@@ -210,7 +375,11 @@ export const update = async (
  * タスク削除ハンドラー
  *
  * DELETE /tasks/{id} エンドポイントのハンドラー関数です。
- * パスパラメータからタスクIDを取得し、対応するタスクを削除します。
+ * パスパラメータからタスクIDを取得し、対応するタスクをゴミ箱へ移動します。
+ * ゴミ箱内のタスクは POST /tasks/{id}/restore で復元でき、保持期間を過ぎると完全に削除されます。
+ * If-Match ヘッダーが指定された場合、バージョンが一致しなければ412エラーを返します。
+ * 子タスクがある場合はクエリパラメータ cascade=true で子孫のタスクもまとめて削除し、
+ * 指定しない場合は409エラーを返します。
  *
  * @param event - API Gatewayプロキシイベント
  * @param context - Lambda実行コンテキスト
@@ -218,7 +387,8 @@ export const update = async (
  *
  * リクエスト例:
  * ```
- * DELETE /tasks/123e4567-e89b-12d3-a456-426614174000
+ * DELETE /tasks/123e4567-e89b-12d3-a456-426614174000?cascade=true
+ * If-Match: "3"
  * ```
  */
 export const remove = async (
@@ -235,7 +405,12 @@ export const remove = async (
     }
 
     // タスクを削除
-    const deleted = await taskService.deleteTask(taskId);
+    const deleted = await taskService.deleteTask(taskId, {
+      actor: getActor(event),
+      correlationId: getCorrelationId(event),
+      expectedVersion: getIfMatchVersion(event),
+      cascade: getBooleanQueryParameter(event, 'cascade'),
+    });
 
     // タスクが見つからない場合は404エラー
     if (!deleted) {
@@ -245,7 +420,483 @@ export const remove = async (
     // 成功レスポンスを返す
     return successResponse({ message: 'タスクが削除されました' });
   } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
     console.error('タスク削除エラー:', error);
     return errorResponse('タスク削除中にエラーが発生しました', 500);
   }
 };
+
+/**
+ * タスクのステータス遷移履歴取得ハンドラー
+ *
+ * GET /tasks/{id}/transitions エンドポイントのハンドラー関数です。
+ * パスパラメータからタスクIDを取得し、ステータス遷移履歴を古い順に返します。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * GET /tasks/123e4567-e89b-12d3-a456-426614174000/transitions
+ * ```
+ */
+export const transitions = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    // パスパラメータからIDを取得
+    const taskId = event.pathParameters?.id;
+
+    // IDがない場合はエラー
+    if (!taskId) {
+      return errorResponse('タスクIDが指定されていません', 400);
+    }
+
+    // 遷移履歴を取得
+    const history = await taskService.getTaskTransitions(taskId);
+
+    // タスクが見つからない場合は404エラー
+    if (!history) {
+      return errorResponse('タスクが見つかりません', 404);
+    }
+
+    // 成功レスポンスを返す
+    return successResponse({ items: history });
+  } catch (error) {
+    console.error('タスク遷移履歴取得エラー:', error);
+    return errorResponse('タスク遷移履歴取得中にエラーが発生しました', 500);
+  }
+};
+
+/**
+ * 子タスク一覧取得ハンドラー
+ *
+ * GET /tasks/{id}/children エンドポイントのハンドラー関数です。
+ * 指定したタスクの直下の子タスクを作成日時の古い順に返します。
+ * レスポンスには親タスクの進捗（完了件数/全体件数）が含まれます。
+ *
+ * クエリパラメータ:
+ * - limit: 1ページあたりの件数（1〜100、デフォルト20）
+ * - cursor: 前回のレスポンスの nextCursor
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * GET /tasks/123e4567-e89b-12d3-a456-426614174000/children
+ * ```
+ */
+export const children = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    // パスパラメータからIDを取得
+    const taskId = event.pathParameters?.id;
+
+    // IDがない場合はエラー
+    if (!taskId) {
+      return errorResponse('タスクIDが指定されていません', 400);
+    }
+
+    const params = event.queryStringParameters || {};
+
+    // 子タスクを取得
+    const result = await taskService.listChildren(taskId, {
+      limit: parseLimit(params.limit),
+      cursor: params.cursor,
+    });
+
+    // タスクが見つからない場合は404エラー
+    if (!result) {
+      return errorResponse('タスクが見つかりません', 404);
+    }
+
+    // 親タスクの進捗を計算
+    const progress = await taskService.getTaskProgress(taskId);
+
+    // 成功レスポンスを返す
+    return successResponse({ ...result, progress });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('子タスク一覧取得エラー:', error);
+    return errorResponse('子タスク一覧取得中にエラーが発生しました', 500);
+  }
+};
+
+/**
+ * 依存関係追加ハンドラー
+ *
+ * POST /tasks/{id}/dependencies/{blockerId} エンドポイントのハンドラー関数です。
+ * タスク {id} が、タスク {blockerId} の完了まで着手できないことを表す依存関係を追加します。
+ * 依存関係が循環する場合は400エラーを返します。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * POST /tasks/123e4567-e89b-12d3-a456-426614174000/dependencies/9b2f5c1e-8d4a-4f6b-a3c2-1e7d9f0b4a56
+ * ```
+ */
+export const addDependency = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    // パスパラメータからIDを取得
+    const taskId = event.pathParameters?.id;
+    const blockerId = event.pathParameters?.blockerId;
+
+    // IDがない場合はエラー
+    if (!taskId || !blockerId) {
+      return errorResponse(
+        'タスクIDとブロッカーのタスクIDを指定してください',
+        400
+      );
+    }
+
+    // 依存関係を追加
+    const task = await taskService.addBlocker(taskId, blockerId, {
+      actor: getActor(event),
+      correlationId: getCorrelationId(event),
+      expectedVersion: getIfMatchVersion(event),
+    });
+
+    // タスクが見つからない場合は404エラー
+    if (!task) {
+      return errorResponse('タスクが見つかりません', 404);
+    }
+
+    // 成功レスポンスを返す（ETagとして新しいバージョンを返す）
+    return successResponse(task, 200, etagHeaders(task.version));
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('依存関係追加エラー:', error);
+    return errorResponse('依存関係の追加中にエラーが発生しました', 500);
+  }
+};
+
+/**
+ * 依存関係削除ハンドラー
+ *
+ * DELETE /tasks/{id}/dependencies/{blockerId} エンドポイントのハンドラー関数です。
+ * タスク {id} からブロッカー {blockerId} への依存関係を削除します。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * DELETE /tasks/123e4567-e89b-12d3-a456-426614174000/dependencies/9b2f5c1e-8d4a-4f6b-a3c2-1e7d9f0b4a56
+ * ```
+ */
+export const removeDependency = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    // パスパラメータからIDを取得
+    const taskId = event.pathParameters?.id;
+    const blockerId = event.pathParameters?.blockerId;
+
+    // IDがない場合はエラー
+    if (!taskId || !blockerId) {
+      return errorResponse(
+        'タスクIDとブロッカーのタスクIDを指定してください',
+        400
+      );
+    }
+
+    // 依存関係を削除
+    const task = await taskService.removeBlocker(taskId, blockerId, {
+      actor: getActor(event),
+      correlationId: getCorrelationId(event),
+      expectedVersion: getIfMatchVersion(event),
+    });
+
+    // タスクまたは依存関係が見つからない場合は404エラー
+    if (!task) {
+      return errorResponse('依存関係が見つかりません', 404);
+    }
+
+    // 成功レスポンスを返す（ETagとして新しいバージョンを返す）
+    return successResponse(task, 200, etagHeaders(task.version));
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('依存関係削除エラー:', error);
+    return errorResponse('依存関係の削除中にエラーが発生しました', 500);
+  }
+};
+
+/**
+ * タグ追加ハンドラー
+ *
+ * POST /tasks/{id}/tags/{tag} エンドポイントのハンドラー関数です。
+ * タグは前後の空白を取り除いた小文字に正規化して付けられます。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * POST /tasks/123e4567-e89b-12d3-a456-426614174000/tags/backend
+ * ```
+ */
+export const addTag = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    // パスパラメータからIDとタグを取得
+    const taskId = event.pathParameters?.id;
+    const tag = getTagPathParameter(event);
+
+    // IDまたはタグがない場合はエラー
+    if (!taskId || !tag) {
+      return errorResponse('タスクIDとタグを指定してください', 400);
+    }
+
+    // タグを追加
+    const task = await taskService.addTag(taskId, tag, {
+      actor: getActor(event),
+      correlationId: getCorrelationId(event),
+      expectedVersion: getIfMatchVersion(event),
+    });
+
+    // タスクが見つからない場合は404エラー
+    if (!task) {
+      return errorResponse('タスクが見つかりません', 404);
+    }
+
+    // 成功レスポンスを返す（ETagとして新しいバージョンを返す）
+    return successResponse(task, 200, etagHeaders(task.version));
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('タグ追加エラー:', error);
+    return errorResponse('タグの追加中にエラーが発生しました', 500);
+  }
+};
+
+/**
+ * タグ削除ハンドラー
+ *
+ * DELETE /tasks/{id}/tags/{tag} エンドポイントのハンドラー関数です。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * DELETE /tasks/123e4567-e89b-12d3-a456-426614174000/tags/backend
+ * ```
+ */
+export const removeTag = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    // パスパラメータからIDとタグを取得
+    const taskId = event.pathParameters?.id;
+    const tag = getTagPathParameter(event);
+
+    // IDまたはタグがない場合はエラー
+    if (!taskId || !tag) {
+      return errorResponse('タスクIDとタグを指定してください', 400);
+    }
+
+    // タグを削除
+    const task = await taskService.removeTag(taskId, tag, {
+      actor: getActor(event),
+      correlationId: getCorrelationId(event),
+      expectedVersion: getIfMatchVersion(event),
+    });
+
+    // タスクが見つからない場合は404エラー
+    if (!task) {
+      return errorResponse('タスクが見つかりません', 404);
+    }
+
+    // 成功レスポンスを返す（ETagとして新しいバージョンを返す）
+    return successResponse(task, 200, etagHeaders(task.version));
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('タグ削除エラー:', error);
+    return errorResponse('タグの削除中にエラーが発生しました', 500);
+  }
+};
+
+/**
+ * タスクの変更履歴取得ハンドラー
+ *
+ * GET /tasks/{id}/history エンドポイントのハンドラー関数です。
+ * タスクの作成・更新・削除・復元ごとの監査レコード（操作者、日時、フィールド単位の変更前後の値）を
+ * 新しい順に返します。
+ *
+ * クエリパラメータ:
+ * - limit: 1ページあたりの件数（1〜100、デフォルト20）
+ * - cursor: 前回のレスポンスの nextCursor
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * GET /tasks/123e4567-e89b-12d3-a456-426614174000/history?limit=20
+ * ```
+ */
+export const history = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    // パスパラメータからIDを取得
+    const taskId = event.pathParameters?.id;
+
+    // IDがない場合はエラー
+    if (!taskId) {
+      return errorResponse('タスクIDが指定されていません', 400);
+    }
+
+    const params = event.queryStringParameters || {};
+
+    // 変更履歴を取得
+    const result = await taskService.getTaskHistory(taskId, {
+      limit: parseLimit(params.limit),
+      cursor: params.cursor,
+    });
+
+    // タスクが見つからない場合は404エラー
+    if (!result) {
+      return errorResponse('タスクが見つかりません', 404);
+    }
+
+    // 成功レスポンスを返す
+    return successResponse(result);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('タスク変更履歴取得エラー:', error);
+    return errorResponse('タスク変更履歴取得中にエラーが発生しました', 500);
+  }
+};
+
+/**
+ * ゴミ箱内のタスク一覧取得ハンドラー
+ *
+ * GET /tasks/trash エンドポイントのハンドラー関数です。
+ * 削除日時の新しい順にゴミ箱内のタスクを返します。
+ *
+ * クエリパラメータ:
+ * - limit: 1ページあたりの件数（1〜100、デフォルト20）
+ * - cursor: 前回のレスポンスの nextCursor
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * GET /tasks/trash?limit=20
+ * ```
+ */
+export const trash = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const params = event.queryStringParameters || {};
+
+    // ゴミ箱内のタスクを取得
+    const result = await taskService.listTrash({
+      limit: parseLimit(params.limit),
+      cursor: params.cursor,
+    });
+
+    // 成功レスポンスを返す
+    return successResponse(result);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('ゴミ箱一覧取得エラー:', error);
+    return errorResponse('ゴミ箱一覧取得中にエラーが発生しました', 500);
+  }
+};
+
+/**
+ * タスク復元ハンドラー
+ *
+ * POST /tasks/{id}/restore エンドポイントのハンドラー関数です。
+ * パスパラメータからタスクIDを取得し、ゴミ箱内のタスクを復元します。
+ * If-Match ヘッダーが指定された場合、バージョンが一致しなければ412エラーを返します。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * リクエスト例:
+ * ```
+ * POST /tasks/123e4567-e89b-12d3-a456-426614174000/restore
+ * ```
+ */
+export const restore = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    // パスパラメータからIDを取得
+    const taskId = event.pathParameters?.id;
+
+    // IDがない場合はエラー
+    if (!taskId) {
+      return errorResponse('タスクIDが指定されていません', 400);
+    }
+
+    // タスクを復元
+    const task = await taskService.restoreTask(taskId, {
+      actor: getActor(event),
+      correlationId: getCorrelationId(event),
+      expectedVersion: getIfMatchVersion(event),
+    });
+
+    // タスクが見つからない場合は404エラー
+    if (!task) {
+      return errorResponse('タスクが見つかりません', 404);
+    }
+
+    // 成功レスポンスを返す（ETagとして新しいバージョンを返す）
+    return successResponse(task, 200, etagHeaders(task.version));
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('タスク復元エラー:', error);
+    return errorResponse('タスク復元中にエラーが発生しました', 500);
+  }
+};
+
+/**
+ * パスパラメータからタグを取得する
+ *
+ * 日本語などのタグはURLエンコードされて渡されるため、デコードして返します。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns タグ、指定されていない場合はundefined
+ */
+function getTagPathParameter(event: APIGatewayProxyEvent): string | undefined {
+  const tag = event.pathParameters?.tag;
+  if (!tag) {
+    return undefined;
+  }
+
+  try {
+    return decodeURIComponent(tag);
+  } catch {
+    return tag;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * ストレージ使用量APIのLambdaハンドラー
+ *
+ * このファイルには操作者ごとのストレージの使用量と容量の上限に関する
+ * APIエンドポイントのハンドラー関数が含まれています。
+ * 使用量の計上はファイルのアップロード・削除の各ハンドラーで行います。
+ *
+ * 提供される機能:
+ * - 使用量・ファイル数・残りの容量の取得
+ */
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { StorageQuotaService } from '../services/storage-quota-service';
+import { successResponse, errorResponse } from '../utils/response';
+import { getStorageOwner } from '../utils/request';
+import { AppError } from '../utils/errors';
+
+// StorageQuotaServiceのインスタンスを作成
+const storageQuotaService = new StorageQuotaService();
+
+/**
+ * 使用量取得ハンドラー
+ *
+ * GET /usage エンドポイントのハンドラー関数です。
+ * 操作者の使用量（アップロード待ちのファイルと以前の版を含む）、ファイル数、
+ * プランの容量の上限と残りの容量を返します。
+ * オーソライザーのプリンシパルがない場合は401エラーを返します。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns API Gatewayプロキシレスポンス
+ *
+ * レスポンス例:
+ * ```
+ * {
+ *   "ownerId": "user-1",
+ *   "plan": "free",
+ *   "quotaBytes": 1073741824,
+ *   "bytesUsed": 1024567,
+ *   "fileCount": 3,
+ *   "remainingBytes": 1072717257
+ * }
+ * ```
+ */
+export const get = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const usage = await storageQuotaService.getUsage(getStorageOwner(event));
+
+    return successResponse(usage);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error.message, error.statusCode, error.details);
+    }
+    console.error('使用量取得エラー:', error);
+    return errorResponse('使用量の取得中にエラーが発生しました', 500);
+  }
+};
@@ -0,0 +1,593 @@
+/**
+ * ZIPアーカイブ作成サービスクラス
+ *
+ * このクラスは複数のファイルを1つのZIPアーカイブにまとめてダウンロードするためのジョブを管理します。
+ * ジョブはタスクと同じテーブルに type: 'ARCHIVE_JOB' のアイテムとして保存され、
+ * アーカイブの作成はLambda関数の非同期呼び出しで別の関数（buildFileArchive）が行います。
+ * 作成時はS3上のオブジェクトをストリームで読み込んでZIPに書き込み、
+ * そのままFILES_BUCKETの archives/ 配下にアップロードするため、ファイル全体をメモリに保持しません。
+ * 有効期限を過ぎたジョブとアーカイブはsweepExpiredJobsで削除されます。
+ */
+import archiver, { Archiver } from 'archiver';
+import { v4 as uuidv4 } from 'uuid';
+import { FileService } from './file-service';
+import {
+  s3,
+  lambda,
+  FILES_BUCKET,
+  dynamoDb,
+  TASKS_TABLE,
+  getSignedUrl,
+} from '../utils/aws-clients';
+import {
+  ConflictError,
+  ValidationError,
+  isConditionalCheckFailed,
+} from '../utils/errors';
+import {
+  ArchiveJob,
+  ArchiveJobStatus,
+  FileMetadata,
+  FileStatus,
+} from '../types';
+
+/**
+ * アーカイブ作成ジョブを識別するためのtype属性の値
+ */
+const ARCHIVE_JOB_ENTITY_TYPE = 'ARCHIVE_JOB';
+
+/**
+ * アーカイブ作成ジョブのアイテムのIDの接頭辞
+ * ファイルのID（UUID）と衝突しないようにします
+ */
+const ARCHIVE_JOB_ID_PREFIX = 'ARCHIVE#';
+
+/**
+ * 種類ごとのアイテムを作成日時順に取得するためのGSI（タスク・ファイルと共用）
+ */
+const TYPE_CREATED_AT_INDEX = 'type-createdAt-index';
+
+/**
+ * アーカイブのオブジェクトのキーの接頭辞
+ * アーカイブは archives/{jobId}.zip に保存されます
+ */
+export const ARCHIVE_PREFIX = 'archives/';
+
+/**
+ * 1つのアーカイブにまとめられるファイルの最大数
+ */
+export const MAX_ARCHIVE_FILES = 500;
+
+/**
+ * 1つのアーカイブにまとめられるファイルの合計サイズの上限（5GiB）
+ * Lambda関数の実行時間の上限（15分）内に作成できるようにします
+ */
+export const MAX_ARCHIVE_TOTAL_BYTES = 5 * 1024 * 1024 * 1024;
+
+/**
+ * ジョブの作成からアーカイブを削除するまでの時間（時間）
+ * 環境変数 FILE_ARCHIVE_EXPIRY_HOURS で変更できます
+ */
+export const ARCHIVE_EXPIRY_HOURS = Number(
+  process.env.FILE_ARCHIVE_EXPIRY_HOURS || 24
+);
+
+/**
+ * アーカイブを作成するLambda関数の名前
+ * 環境変数 FILE_ARCHIVE_FUNCTION で指定します
+ */
+const ARCHIVE_FUNCTION =
+  process.env.FILE_ARCHIVE_FUNCTION ||
+  'localstack-aws-example-dev-buildFileArchive';
+
+/**
+ * アーカイブのダウンロード用URLの最大の有効期間（秒）
+ */
+const ARCHIVE_URL_EXPIRES_SECONDS = 3600;
+
+export class FileArchiveService {
+  /**
+   * @param fileService - アーカイブに含めるファイルの取得に使用するサービス
+   */
+  constructor(private readonly fileService: FileService = new FileService()) {}
+
+  /**
+   * アーカイブ作成ジョブを開始する
+   *
+   * ファイルIDの一覧、またはタスクIDのいずれかを指定します。
+   * タスクIDを指定した場合は、タスクのアップロードが完了した添付ファイルをすべてまとめます。
+   * ジョブをPENDINGとして保存し、アーカイブを作成するLambda関数を非同期に呼び出します。
+   *
+   * @param target - アーカイブに含めるファイルのID、または添付ファイルをまとめるタスクのID
+   * @returns 作成されたジョブ
+   * @throws ValidationError - 指定が不正な場合、またはファイルの数・合計サイズが上限を超える場合
+   * @throws ConflictError - 存在しない、またはアップロードが完了していないファイルが含まれる場合
+   *
+   * @example
+   * const job = await fileArchiveService.startJob({ fileIds: [fileId1, fileId2] });
+   * const job = await fileArchiveService.startJob({ taskId });
+   */
+  async startJob(target: {
+    fileIds?: unknown;
+    taskId?: string;
+  }): Promise<ArchiveJob> {
+    const files = target.taskId
+      ? await this.resolveTaskFiles(target.taskId, target.fileIds)
+      : await this.resolveFiles(target.fileIds);
+
+    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+    if (totalSize > MAX_ARCHIVE_TOTAL_BYTES) {
+      throw new ValidationError(
+        `アーカイブにまとめられるファイルの合計サイズは${MAX_ARCHIVE_TOTAL_BYTES}バイトまでです（指定: ${totalSize}バイト）`
+      );
+    }
+
+    const now = new Date();
+    const job: ArchiveJob = {
+      id: uuidv4(),
+      status: ArchiveJobStatus.PENDING,
+      fileIds: files.map((file) => file.id),
+      ...(target.taskId && { taskId: target.taskId }),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      expiresAt: new Date(
+        now.getTime() + ARCHIVE_EXPIRY_HOURS * 60 * 60 * 1000
+      ).toISOString(),
+    };
+
+    await dynamoDb
+      .put({
+        TableName: TASKS_TABLE,
+        Item: {
+          ...job,
+          id: `${ARCHIVE_JOB_ID_PREFIX}${job.id}`,
+          type: ARCHIVE_JOB_ENTITY_TYPE,
+        },
+      })
+      .promise();
+
+    // アーカイブの作成は時間がかかるため、別のLambda関数で非同期に行う
+    await lambda
+      .invoke({
+        FunctionName: ARCHIVE_FUNCTION,
+        InvocationType: 'Event',
+        Payload: JSON.stringify({ jobId: job.id }),
+      })
+      .promise();
+
+    return job;
+  }
+
+  /**
+   * アーカイブ作成ジョブを取得する
+   *
+   * @param jobId - ジョブの一意識別子
+   * @returns ジョブ、見つからない場合はnull
+   */
+  async getJob(jobId: string): Promise<ArchiveJob | null> {
+    const result = await dynamoDb
+      .get({
+        TableName: TASKS_TABLE,
+        Key: { id: `${ARCHIVE_JOB_ID_PREFIX}${jobId}` },
+      })
+      .promise();
+
+    return result.Item?.type === ARCHIVE_JOB_ENTITY_TYPE
+      ? this.toArchiveJob(result.Item)
+      : null;
+  }
+
+  /**
+   * 作成済みのアーカイブをダウンロードするための署名付きURLを生成する
+   *
+   * URLの有効期間はジョブの有効期限を超えないようにします。
+   *
+   * @param job - COMPLETEDのジョブ
+   * @returns 署名付きダウンロードURL、アーカイブがない、または有効期限を過ぎている場合はnull
+   */
+  getDownloadUrl(job: ArchiveJob): string | null {
+    const remainingSeconds = Math.floor(
+      (new Date(job.expiresAt).getTime() - Date.now()) / 1000
+    );
+    if (!job.objectKey || remainingSeconds <= 0) {
+      return null;
+    }
+
+    const params: { [key: string]: any } = {
+      Bucket: FILES_BUCKET,
+      Key: job.objectKey,
+      Expires: Math.min(remainingSeconds, ARCHIVE_URL_EXPIRES_SECONDS),
+      ResponseContentDisposition: `attachment; filename="archive-${job.id}.zip"`,
+    };
+
+    return getSignedUrl('getObject', params);
+  }
+
+  /**
+   * アーカイブを作成する
+   *
+   * ジョブをPROCESSINGにしてから、ファイルを1つずつS3から読み込んでZIPに書き込み、
+   * archives/{jobId}.zip にアップロードします。作成までに削除された、またはアップロード完了後に
+   * 状態が変わったファイルはアーカイブに含めず、skippedFileIdsに記録します。
+   * 失敗した場合はジョブをFAILEDにします。
+   * 非同期呼び出しの再試行などで既に処理が始まっているジョブは何もしません。
+   *
+   * @param jobId - ジョブの一意識別子
+   * @returns 更新されたジョブ、処理の対象外の場合はnull
+   *
+   * @example
+   * const job = await fileArchiveService.buildArchive(jobId);
+   */
+  async buildArchive(jobId: string): Promise<ArchiveJob | null> {
+    const job = await this.claimJob(jobId);
+    if (!job) {
+      return null;
+    }
+
+    const objectKey = `${ARCHIVE_PREFIX}${job.id}.zip`;
+    const archive = archiver('zip', { zlib: { level: 6 } });
+    const upload = s3.upload({
+      Bucket: FILES_BUCKET,
+      Key: objectKey,
+      Body: archive,
+      ContentType: 'application/zip',
+    });
+    const uploaded = upload.promise();
+    // 失敗時はcatchで処理するため、未処理のrejectionにしない
+    uploaded.catch(() => undefined);
+
+    try {
+      const skippedFileIds: string[] = [];
+      const entryNames = new Set<string>();
+
+      for (const fileId of job.fileIds) {
+        const file = await this.fileService.getFileMetadata(fileId);
+        if (!file || file.status !== FileStatus.READY) {
+          skippedFileIds.push(fileId);
+          continue;
+        }
+
+        await this.appendObject(
+          archive,
+          file.objectKey || `${file.id}/${file.filename}`,
+          uniqueEntryName(file.filename, entryNames),
+          file.uploadedAt
+        );
+      }
+
+      await archive.finalize();
+      await uploaded;
+
+      return await this.updateJob(job.id, {
+        status: ArchiveJobStatus.COMPLETED,
+        objectKey,
+        size: archive.pointer(),
+        fileCount: entryNames.size,
+        skippedFileIds,
+        completedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      upload.abort();
+      archive.abort();
+      console.error(`アーカイブ ${job.id} の作成エラー:`, error);
+
+      return await this.updateJob(job.id, {
+        status: ArchiveJobStatus.FAILED,
+        errorMessage: `アーカイブの作成に失敗しました: ${(error as Error).message}`,
+      });
+    }
+  }
+
+  /**
+   * 有効期限を過ぎたジョブとアーカイブを削除する
+   *
+   * 定期実行ハンドラーから呼び出されることを想定しています。
+   *
+   * @returns 削除したジョブの件数
+   *
+   * @example
+   * const swept = await fileArchiveService.sweepExpiredJobs();
+   */
+  async sweepExpiredJobs(): Promise<number> {
+    const now = new Date().toISOString();
+    let swept = 0;
+    let startKey: { [key: string]: any } | undefined;
+
+    do {
+      const result = await dynamoDb
+        .query({
+          TableName: TASKS_TABLE,
+          IndexName: TYPE_CREATED_AT_INDEX,
+          KeyConditionExpression: '#type = :type AND #createdAt < :now',
+          FilterExpression: '#expiresAt <= :now',
+          ExpressionAttributeNames: {
+            '#type': 'type',
+            '#createdAt': 'createdAt',
+            '#expiresAt': 'expiresAt',
+          },
+          ExpressionAttributeValues: {
+            ':type': ARCHIVE_JOB_ENTITY_TYPE,
+            ':now': now,
+          },
+          ExclusiveStartKey: startKey,
+        })
+        .promise();
+
+      for (const item of result.Items || []) {
+        const job = this.toArchiveJob(item);
+        // 作成中にアップロードされたオブジェクトも削除できるように、ステータスに関わらず削除する
+        await s3
+          .deleteObject({
+            Bucket: FILES_BUCKET,
+            Key: job.objectKey || `${ARCHIVE_PREFIX}${job.id}.zip`,
+          })
+          .promise();
+        await dynamoDb
+          .delete({ TableName: TASKS_TABLE, Key: { id: item.id } })
+          .promise();
+        swept++;
+      }
+
+      startKey = result.LastEvaluatedKey;
+    } while (startKey);
+
+    return swept;
+  }
+
+  /**
+   * ファイルIDの一覧を検証し、アーカイブに含めるファイルを取得する
+   *
+   * @param fileIds - クライアントから指定されたファイルIDの一覧
+   * @returns 重複を除いたファイルメタデータ（指定順）
+   * @throws ValidationError - 一覧の形式が不正な場合、またはファイルの数が上限を超える場合
+   * @throws ConflictError - 存在しない、またはアップロードが完了していないファイルが含まれる場合
+   * @private
+   */
+  private async resolveFiles(fileIds: unknown): Promise<FileMetadata[]> {
+    if (
+      !Array.isArray(fileIds) ||
+      fileIds.length === 0 ||
+      !fileIds.every((id) => typeof id === 'string' && id.length > 0)
+    ) {
+      throw new ValidationError(
+        'fileIds にファイルIDの配列、または taskId を指定してください'
+      );
+    }
+
+    const uniqueIds = [...new Set(fileIds as string[])];
+    if (uniqueIds.length > MAX_ARCHIVE_FILES) {
+      throw new ValidationError(
+        `アーカイブにまとめられるファイルは${MAX_ARCHIVE_FILES}件までです`
+      );
+    }
+
+    const files: FileMetadata[] = [];
+    const unavailableFileIds: string[] = [];
+    for (const fileId of uniqueIds) {
+      const file = await this.fileService.getFileMetadata(fileId);
+      if (file?.status === FileStatus.READY) {
+        files.push(file);
+      } else {
+        unavailableFileIds.push(fileId);
+      }
+    }
+
+    if (unavailableFileIds.length > 0) {
+      throw new ConflictError(
+        '存在しない、またはアップロードが完了していないファイルが含まれています',
+        { unavailableFileIds }
+      );
+    }
+
+    return files;
+  }
+
+  /**
+   * タスクのアップロードが完了した添付ファイルを取得する
+   *
+   * @param taskId - タスクID
+   * @param fileIds - 同時に指定されたファイルIDの一覧（指定された場合はエラー）
+   * @returns 添付ファイルのメタデータ（作成日時順）
+   * @throws ValidationError - ファイルIDの一覧も指定された場合、または添付ファイルの数が上限を超える場合
+   * @throws ConflictError - アップロードが完了した添付ファイルがない場合
+   * @private
+   */
+  private async resolveTaskFiles(
+    taskId: string,
+    fileIds: unknown
+  ): Promise<FileMetadata[]> {
+    if (fileIds !== undefined) {
+      throw new ValidationError(
+        'fileIds と taskId はどちらか一方のみ指定してください'
+      );
+    }
+
+    const files: FileMetadata[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.fileService.listFilesByTask(taskId, {
+        limit: 100,
+        cursor,
+      });
+      files.push(
+        ...page.items.filter((file) => file.status === FileStatus.READY)
+      );
+      if (files.length > MAX_ARCHIVE_FILES) {
+        throw new ValidationError(
+          `アーカイブにまとめられるファイルは${MAX_ARCHIVE_FILES}件までです`
+        );
+      }
+      cursor = page.nextCursor || undefined;
+    } while (cursor);
+
+    if (files.length === 0) {
+      throw new ConflictError(
+        'タスクにアップロードが完了した添付ファイルがありません'
+      );
+    }
+
+    return files;
+  }
+
+  /**
+   * S3上のオブジェクトをアーカイブに追加し、書き込みが終わるまで待つ
+   *
+   * 同時に開くS3のストリームを1つに抑えるため、ファイルを1つずつ追加します。
+   *
+   * @param archive - 書き込み先のアーカイブ
+   * @param key - 追加するオブジェクトのキー
+   * @param name - アーカイブ内のファイル名
+   * @param date - アーカイブに記録する更新日時（ISO 8601形式）
+   * @private
+   */
+  private appendObject(
+    archive: Archiver,
+    key: string,
+    name: string,
+    date?: string
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const stream = s3
+        .getObject({ Bucket: FILES_BUCKET, Key: key })
+        .createReadStream();
+
+      const cleanup = () => {
+        archive.off('entry', onEntry);
+        archive.off('error', onError);
+        stream.off('error', onError);
+      };
+      const onEntry = () => {
+        cleanup();
+        resolve();
+      };
+      const onError = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+
+      archive.on('entry', onEntry);
+      archive.on('error', onError);
+      stream.on('error', onError);
+      archive.append(stream, {
+        name,
+        ...(date && { date: new Date(date) }),
+      });
+    });
+  }
+
+  /**
+   * PENDINGのジョブをPROCESSINGにして処理を開始する
+   *
+   * @param jobId - ジョブの一意識別子
+   * @returns 更新されたジョブ、見つからない、または既に処理が始まっている場合はnull
+   * @private
+   */
+  private async claimJob(jobId: string): Promise<ArchiveJob | null> {
+    try {
+      const result = await dynamoDb
+        .update({
+          TableName: TASKS_TABLE,
+          Key: { id: `${ARCHIVE_JOB_ID_PREFIX}${jobId}` },
+          UpdateExpression: 'SET #status = :processing, #updatedAt = :now',
+          ConditionExpression: '#type = :type AND #status = :pending',
+          ExpressionAttributeNames: {
+            '#type': 'type',
+            '#status': 'status',
+            '#updatedAt': 'updatedAt',
+          },
+          ExpressionAttributeValues: {
+            ':type': ARCHIVE_JOB_ENTITY_TYPE,
+            ':pending': ArchiveJobStatus.PENDING,
+            ':processing': ArchiveJobStatus.PROCESSING,
+            ':now': new Date().toISOString(),
+          },
+          ReturnValues: 'ALL_NEW',
+        })
+        .promise();
+
+      return this.toArchiveJob(result.Attributes || {});
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        console.warn(`アーカイブ ${jobId} は作成の対象外です`);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 作成中のジョブの結果を保存する
+   *
+   * @param jobId - ジョブの一意識別子
+   * @param updates - 更新する属性
+   * @returns 更新されたジョブ
+   * @private
+   */
+  private async updateJob(
+    jobId: string,
+    updates: Partial<ArchiveJob>
+  ): Promise<ArchiveJob> {
+    const attributes: { [key: string]: any } = {
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+    const names = Object.keys(attributes);
+
+    const result = await dynamoDb
+      .update({
+        TableName: TASKS_TABLE,
+        Key: { id: `${ARCHIVE_JOB_ID_PREFIX}${jobId}` },
+        UpdateExpression: `SET ${names.map((name) => `#${name} = :${name}`).join(', ')}`,
+        ExpressionAttributeNames: Object.fromEntries(
+          names.map((name) => [`#${name}`, name])
+        ),
+        ExpressionAttributeValues: Object.fromEntries(
+          names.map((name) => [`:${name}`, attributes[name]])
+        ),
+        ReturnValues: 'ALL_NEW',
+      })
+      .promise();
+
+    return this.toArchiveJob(result.Attributes || {});
+  }
+
+  /**
+   * DynamoDBのアイテムをアーカイブ作成ジョブに変換する
+   *
+   * テーブル内部でのみ使用するtype属性とIDの接頭辞を取り除きます。
+   *
+   * @param item - DynamoDBから取得したアイテム
+   * @returns アーカイブ作成ジョブ
+   * @private
+   */
+  private toArchiveJob(item: { [key: string]: any }): ArchiveJob {
+    const { type, id, ...job } = item;
+    return {
+      ...job,
+      id: String(id).slice(ARCHIVE_JOB_ID_PREFIX.length),
+    } as ArchiveJob;
+  }
+}
+
+/**
+ * アーカイブ内で重複しないファイル名を決める
+ *
+ * 同じ名前のファイルが既にある場合は「report (2).pdf」のように番号を付けます。
+ *
+ * @param filename - ファイル名
+ * @param used - 使用済みのファイル名（決めた名前を追加します）
+ * @returns 重複しないファイル名
+ */
+function uniqueEntryName(filename: string, used: Set<string>): string {
+  const dot = filename.lastIndexOf('.');
+  const [base, extension] =
+    dot > 0 ? [filename.slice(0, dot), filename.slice(dot)] : [filename, ''];
+
+  let name = filename;
+  for (let index = 2; used.has(name); index++) {
+    name = `${base} (${index})${extension}`;
+  }
+
+  used.add(name);
+  return name;
+}
@@ -0,0 +1,220 @@
+/**
+ * ファイル実体（重複排除）サービスクラス
+ *
+ * このクラスは同じ内容（SHA-256）のファイルが1つのS3オブジェクトを共有するための
+ * 参照カウントを管理します。参照カウントはタスクと同じテーブルに type: 'BLOB' のアイテムとして保存され、
+ * FileServiceがファイルメタデータの書き込みと同じトランザクションで増減します。
+ */
+import { DocumentClient } from 'aws-sdk/clients/dynamodb';
+import { dynamoDb, TASKS_TABLE } from '../utils/aws-clients';
+import { isConditionalCheckFailed } from '../utils/errors';
+import {
+  DEFAULT_PAGE_LIMIT,
+  encodeCursor,
+  decodeCursor,
+} from '../utils/pagination';
+import { FileBlob, PaginatedResult } from '../types';
+
+/**
+ * ファイルの実体を識別するためのtype属性の値
+ */
+const BLOB_ENTITY_TYPE = 'BLOB';
+
+/**
+ * ファイルの実体のアイテムのIDの接頭辞
+ * ファイルやタスクのID（UUID）と衝突しないようにします
+ */
+const BLOB_ID_PREFIX = 'BLOB#';
+
+/**
+ * 種類ごとのアイテムを作成日時順に取得するためのGSI（タスク・ファイルと共用）
+ */
+const TYPE_CREATED_AT_INDEX = 'type-createdAt-index';
+
+export class FileBlobService {
+  /**
+   * ファイルの実体を取得する
+   *
+   * @param sha256 - 内容のSHA-256
+   * @returns ファイルの実体、登録されていない場合はnull
+   */
+  async getBlob(sha256: string): Promise<FileBlob | null> {
+    const result = await dynamoDb
+      .get({
+        TableName: TASKS_TABLE,
+        Key: { id: `${BLOB_ID_PREFIX}${sha256}` },
+      })
+      .promise();
+
+    return result.Item ? this.toFileBlob(result.Item) : null;
+  }
+
+  /**
+   * ファイルの実体の一覧を取得する
+   *
+   * 参照カウントが0になったものも含め、登録日時の古い順に返します。
+   *
+   * @param query - ページサイズとカーソル
+   * @returns ファイルの実体の配列と次ページ取得用のカーソル
+   * @throws ValidationError - カーソルの形式が不正な場合
+   */
+  async listBlobs(
+    query: { limit?: number; cursor?: string } = {}
+  ): Promise<PaginatedResult<FileBlob>> {
+    const { limit = DEFAULT_PAGE_LIMIT, cursor } = query;
+
+    const result = await dynamoDb
+      .query({
+        TableName: TASKS_TABLE,
+        IndexName: TYPE_CREATED_AT_INDEX,
+        KeyConditionExpression: '#type = :type',
+        ExpressionAttributeNames: { '#type': 'type' },
+        ExpressionAttributeValues: { ':type': BLOB_ENTITY_TYPE },
+        Limit: limit,
+        ExclusiveStartKey: decodeCursor(cursor),
+      })
+      .promise();
+
+    return {
+      items: (result.Items || []).map((item) => this.toFileBlob(item)),
+      nextCursor: encodeCursor(result.LastEvaluatedKey),
+    };
+  }
+
+  /**
+   * ファイルの実体への参照を追加する書き込みを作成する
+   *
+   * 実体が登録されていない場合は、アップロードされたオブジェクトを実体として登録します。
+   * 登録済みの場合は参照カウントを1増やします。取得後に実体が削除・再登録された場合は
+   * 条件を満たさずにトランザクションが失敗するため、取得からやり直します。
+   *
+   * @param blob - getBlobで取得した現在の実体（未登録の場合はnull）
+   * @param sha256 - 内容のSHA-256
+   * @param objectKey - アップロードされたオブジェクトのキー（実体が未登録の場合に使用）
+   * @param size - オブジェクトのサイズ（バイト）
+   * @param timestamp - 登録日時として記録する日時
+   * @returns トランザクションに含める書き込み
+   */
+  buildAddReference(
+    blob: FileBlob | null,
+    sha256: string,
+    objectKey: string,
+    size: number,
+    timestamp: string = new Date().toISOString()
+  ): DocumentClient.TransactWriteItem {
+    const id = `${BLOB_ID_PREFIX}${sha256}`;
+
+    if (!blob) {
+      return {
+        Put: {
+          TableName: TASKS_TABLE,
+          Item: {
+            id,
+            type: BLOB_ENTITY_TYPE,
+            sha256,
+            objectKey,
+            size,
+            refCount: 1,
+            createdAt: timestamp,
+          },
+          ConditionExpression: 'attribute_not_exists(id)',
+        },
+      };
+    }
+
+    return {
+      Update: {
+        TableName: TASKS_TABLE,
+        Key: { id },
+        UpdateExpression: 'ADD #refCount :one',
+        ConditionExpression: '#objectKey = :objectKey',
+        ExpressionAttributeNames: {
+          '#refCount': 'refCount',
+          '#objectKey': 'objectKey',
+        },
+        ExpressionAttributeValues: {
+          ':one': 1,
+          ':objectKey': blob.objectKey,
+        },
+      },
+    };
+  }
+
+  /**
+   * ファイルの実体への参照を外す書き込みを作成する
+   *
+   * 参照カウントを指定した数（デフォルト: 1）だけ減らします。参照カウントが0になった実体は、
+   * トランザクションの完了後にdeleteIfUnreferencedで削除します。
+   * 同じ実体を参照している複数の版をまとめて削除する場合は、参照の数を指定します
+   * （1つのトランザクションで同じアイテムを複数回更新できないため）。
+   *
+   * @param sha256 - 内容のSHA-256
+   * @param count - 外す参照の数
+   * @returns トランザクションに含める書き込み
+   */
+  buildRemoveReference(
+    sha256: string,
+    count: number = 1
+  ): DocumentClient.TransactWriteItem {
+    return {
+      Update: {
+        TableName: TASKS_TABLE,
+        Key: { id: `${BLOB_ID_PREFIX}${sha256}` },
+        UpdateExpression: 'ADD #refCount :decrement',
+        ConditionExpression: 'attribute_exists(id)',
+        ExpressionAttributeNames: { '#refCount': 'refCount' },
+        ExpressionAttributeValues: { ':decrement': -count },
+      },
+    };
+  }
+
+  /**
+   * 参照されなくなったファイルの実体を削除する
+   *
+   * 参照カウントが0以下の場合のみ実体のアイテムを削除します。
+   * 削除の直前に同じ内容のファイルが参照を追加した場合は削除しません。
+   * S3上のオブジェクトは、戻り値のキーを使用して呼び出し側で削除します。
+   *
+   * @param sha256 - 内容のSHA-256
+   * @returns 削除した実体のオブジェクトのキー、まだ参照されている場合はnull
+   *
+   * @example
+   * const objectKey = await blobService.deleteIfUnreferenced(sha256);
+   * if (objectKey) {
+   *   await s3.deleteObject({ Bucket: FILES_BUCKET, Key: objectKey }).promise();
+   * }
+   */
+  async deleteIfUnreferenced(sha256: string): Promise<string | null> {
+    try {
+      const result = await dynamoDb
+        .delete({
+          TableName: TASKS_TABLE,
+          Key: { id: `${BLOB_ID_PREFIX}${sha256}` },
+          ConditionExpression: '#refCount <= :zero',
+          ExpressionAttributeNames: { '#refCount': 'refCount' },
+          ExpressionAttributeValues: { ':zero': 0 },
+          ReturnValues: 'ALL_OLD',
+        })
+        .promise();
+
+      return result.Attributes?.objectKey || null;
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * DynamoDBのアイテムをファイルの実体に変換する
+   *
+   * @param item - DynamoDBから取得したアイテム
+   * @returns ファイルの実体
+   * @private
+   */
+  private toFileBlob(item: { [key: string]: any }): FileBlob {
+    const { sha256, objectKey, size, refCount, createdAt } = item;
+    return { sha256, objectKey, size, refCount, createdAt };
+  }
+}
@@ -0,0 +1,370 @@
+/**
+ * ファイルプレビュー作成サービスクラス
+ *
+ * このクラスはアップロードが完了したファイルのプレビューを作成します。
+ * - 画像ファイル: 設定されたサイズごとのサムネイルを previews/{fileId}/ 配下に保存し、previewsに記録
+ * - テキスト・PDFファイル: 先頭（PDFの場合は1ページ目）のテキストの抜粋をtextSnippetに記録
+ * Lambda上でネイティブバイナリなしに動作するように、画像の処理はJimp、PDFの処理はpdf-parse（いずれも純粋なJavaScript）を使用します。
+ * プレビューの作成はLambda関数の非同期呼び出しで別の関数（generateFilePreviews）が行います。
+ */
+import Jimp from 'jimp';
+import pdfParse from 'pdf-parse';
+import { FileService } from './file-service';
+import { s3, lambda, FILES_BUCKET, getSignedUrl } from '../utils/aws-clients';
+import { readImageDimensions } from '../utils/image-dimensions';
+import { FileMetadata, FilePreview, FileStatus } from '../types';
+
+/**
+ * サムネイルのオブジェクトのキーの接頭辞
+ * サムネイルは previews/{fileId}/{size}.{拡張子} に保存されます
+ */
+export const PREVIEW_PREFIX = 'previews/';
+
+/**
+ * サムネイルの長辺の最大サイズ（ピクセル）の一覧
+ * 環境変数 FILE_PREVIEW_SIZES（カンマ区切り）で変更できます
+ */
+export const PREVIEW_SIZES = (process.env.FILE_PREVIEW_SIZES || '128,512')
+  .split(',')
+  .map((size) => Number(size.trim()))
+  .filter((size) => Number.isInteger(size) && size > 0);
+
+/**
+ * プレビューを作成する元のファイルの最大サイズ（25MiB）
+ * 画像・PDFはメモリ上で展開するため、これを超えるファイルのプレビューは作成しません
+ */
+const MAX_PREVIEW_SOURCE_BYTES = 25 * 1024 * 1024;
+
+/**
+ * サムネイルを作成する元の画像の最大画素数（5000万画素）
+ * 圧縮率の高い画像は小さなファイルでも展開後のビットマップが巨大になるため、
+ * ヘッダーから読み取った幅と高さがこれを超える画像は展開せず、サムネイルを作成しません
+ */
+export const MAX_THUMBNAIL_SOURCE_PIXELS = 50_000_000;
+
+/**
+ * テキストの抜粋の最大文字数
+ */
+const TEXT_SNIPPET_LENGTH = 500;
+
+/**
+ * テキストの抜粋のために読み込むテキストファイルの先頭のバイト数
+ * マルチバイト文字でも抜粋の最大文字数を満たせるようにします
+ */
+const TEXT_SNIPPET_BYTES = TEXT_SNIPPET_LENGTH * 4;
+
+/**
+ * プレビューを作成するLambda関数の名前
+ * 環境変数 FILE_PREVIEW_FUNCTION で指定します
+ */
+const PREVIEW_FUNCTION =
+  process.env.FILE_PREVIEW_FUNCTION ||
+  'localstack-aws-example-dev-generateFilePreviews';
+
+/**
+ * サムネイルのダウンロード用URLの有効期間（秒）
+ */
+const PREVIEW_URL_EXPIRES_SECONDS = 3600;
+
+/**
+ * サムネイルを作成できる画像のMIMEタイプ（Jimpが読み込める形式）
+ */
+const THUMBNAIL_SOURCE_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/bmp',
+  'image/tiff',
+];
+
+/**
+ * テキストの抜粋を作成できるテキスト形式のMIMEタイプ（text/* 以外）
+ */
+const TEXT_SOURCE_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/x-yaml',
+  'application/yaml',
+  'application/x-ndjson',
+];
+
+/**
+ * プレビューの種類
+ */
+type PreviewKind = 'thumbnail' | 'text' | 'pdf';
+
+export class FilePreviewService {
+  /**
+   * @param fileService - ファイルメタデータの取得とプレビューの保存に使用するサービス
+   * @param sizes - サムネイルの長辺の最大サイズの一覧（デフォルト: 環境変数の設定）
+   */
+  constructor(
+    private readonly fileService: FileService = new FileService(),
+    private readonly sizes: number[] = PREVIEW_SIZES
+  ) {}
+
+  /**
+   * ファイルのプレビューの作成を依頼する
+   *
+   * プレビューを作成できる形式のアップロードが完了したファイルについて、
+   * プレビューを作成するLambda関数を非同期に呼び出します。
+   *
+   * @param file - ファイルメタデータ
+   * @returns 作成を依頼した場合はtrue、対象外の場合はfalse
+   *
+   * @example
+   * await filePreviewService.requestPreview(metadata);
+   */
+  async requestPreview(file: FileMetadata): Promise<boolean> {
+    if (
+      file.status !== FileStatus.READY ||
+      !previewKindOf(file.contentType) ||
+      file.size > MAX_PREVIEW_SOURCE_BYTES
+    ) {
+      return false;
+    }
+
+    await lambda
+      .invoke({
+        FunctionName: PREVIEW_FUNCTION,
+        InvocationType: 'Event',
+        Payload: JSON.stringify({ fileId: file.id }),
+      })
+      .promise();
+
+    return true;
+  }
+
+  /**
+   * ファイルのプレビューを作成する
+   *
+   * 画像ファイルの場合はサムネイル、テキスト・PDFファイルの場合はテキストの抜粋を作成し、
+   * ファイルメタデータに保存します。現在のアップロードのプレビューを作成済みの場合は何もしません。
+   * 作成中にファイルが削除・置き換えられた場合は、作成したサムネイルを削除します。
+   *
+   * @param fileId - ファイルの一意識別子
+   * @returns 更新されたファイルメタデータ、対象外の場合（画素数が多すぎる画像を含む）はnull
+   *
+   * @example
+   * const metadata = await filePreviewService.generatePreview(fileId);
+   */
+  async generatePreview(fileId: string): Promise<FileMetadata | null> {
+    const file = await this.fileService.getFileMetadata(fileId);
+    if (!file || file.status !== FileStatus.READY) {
+      return null;
+    }
+    // S3イベントの重複などで同じアップロードについて再び呼び出された場合
+    if (
+      file.previewGeneratedAt &&
+      file.uploadedAt &&
+      file.previewGeneratedAt >= file.uploadedAt
+    ) {
+      return file;
+    }
+
+    const kind = previewKindOf(file.contentType);
+    if (!kind || file.size > MAX_PREVIEW_SOURCE_BYTES) {
+      return null;
+    }
+
+    const key = file.objectKey || `${file.id}/${file.filename}`;
+
+    if (kind === 'thumbnail') {
+      const previews = await this.createThumbnails(file.id, key);
+      if (!previews) {
+        return null;
+      }
+      const saved = await this.fileService.savePreview(
+        file.id,
+        file.uploadedAt,
+        { previews }
+      );
+      if (!saved && previews.length > 0) {
+        await s3
+          .deleteObjects({
+            Bucket: FILES_BUCKET,
+            Delete: {
+              Objects: previews.map((preview) => ({ Key: preview.key })),
+              Quiet: true,
+            },
+          })
+          .promise();
+      }
+      return saved;
+    }
+
+    const text =
+      kind === 'pdf'
+        ? await this.extractPdfText(key)
+        : await this.readTextHead(key);
+
+    return this.fileService.savePreview(file.id, file.uploadedAt, {
+      textSnippet: toSnippet(text),
+    });
+  }
+
+  /**
+   * サムネイルのダウンロード用の署名付きURLを生成する
+   *
+   * @param file - ファイルメタデータ
+   * @returns サイズごとのサムネイルの署名付きURL（サムネイルがない場合は空の配列）
+   *
+   * @example
+   * const previewUrls = filePreviewService.getPreviewUrls(metadata);
+   */
+  getPreviewUrls(
+    file: FileMetadata
+  ): { size: number; width: number; height: number; url: string }[] {
+    return (file.previews || []).map(({ size, width, height, key }) => {
+      const params: { [key: string]: any } = {
+        Bucket: FILES_BUCKET,
+        Key: key,
+        Expires: PREVIEW_URL_EXPIRES_SECONDS,
+      };
+      return { size, width, height, url: getSignedUrl('getObject', params) };
+    });
+  }
+
+  /**
+   * 画像のサムネイルをサイズごとに作成してS3に保存する
+   *
+   * 展開する前にヘッダーから画素数を確認し、MAX_THUMBNAIL_SOURCE_PIXELS を超える画像
+   * （またはヘッダーを読み取れない画像）はサムネイルを作成しません。
+   * 元の画像を複製せずに済むように、大きいサイズから順に、直前に作成したサムネイルを縮小して作成します。
+   * 元の画像より大きなサムネイルは作成せず、元の画像のサイズのまま保存します。
+   * 透過を含む可能性があるPNG・GIFはPNG、それ以外はJPEGで保存します。
+   *
+   * @param fileId - ファイルの一意識別子
+   * @param key - 元の画像のオブジェクトのキー
+   * @returns 保存したサムネイル（サイズの小さい順）、画素数が多すぎる場合はnull
+   * @private
+   */
+  private async createThumbnails(
+    fileId: string,
+    key: string
+  ): Promise<FilePreview[] | null> {
+    const { Body } = await s3
+      .getObject({ Bucket: FILES_BUCKET, Key: key })
+      .promise();
+    const source = Buffer.from(Body as Buffer);
+
+    const dimensions = readImageDimensions(source);
+    if (
+      !dimensions ||
+      dimensions.width * dimensions.height > MAX_THUMBNAIL_SOURCE_PIXELS
+    ) {
+      console.warn(
+        `サムネイルを作成できない画像です: ${fileId}, サイズ: ${dimensions ? `${dimensions.width}x${dimensions.height}` : '不明'}`
+      );
+      return null;
+    }
+
+    // 縮小していくため、以降は元の画像ではなく直前のサイズのサムネイルを表す
+    const image = await Jimp.read(source);
+
+    const mime =
+      image.getMIME() === Jimp.MIME_PNG || image.getMIME() === Jimp.MIME_GIF
+        ? Jimp.MIME_PNG
+        : Jimp.MIME_JPEG;
+    const extension = mime === Jimp.MIME_PNG ? 'png' : 'jpg';
+
+    const previews: FilePreview[] = [];
+    for (const size of [...this.sizes].sort((a, b) => b - a)) {
+      if (image.getWidth() > size || image.getHeight() > size) {
+        image.scaleToFit(size, size);
+      }
+
+      const previewKey = `${PREVIEW_PREFIX}${fileId}/${size}.${extension}`;
+      await s3
+        .putObject({
+          Bucket: FILES_BUCKET,
+          Key: previewKey,
+          Body: await image.getBufferAsync(mime),
+          ContentType: mime,
+        })
+        .promise();
+
+      previews.unshift({
+        size,
+        width: image.getWidth(),
+        height: image.getHeight(),
+        contentType: mime,
+        key: previewKey,
+        url: this.fileService.buildObjectUrl(previewKey),
+      });
+    }
+
+    return previews;
+  }
+
+  /**
+   * PDFファイルの1ページ目のテキストを取り出す
+   *
+   * @param key - PDFファイルのオブジェクトのキー
+   * @returns 1ページ目のテキスト
+   * @private
+   */
+  private async extractPdfText(key: string): Promise<string> {
+    const { Body } = await s3
+      .getObject({ Bucket: FILES_BUCKET, Key: key })
+      .promise();
+    const { text } = await pdfParse(Buffer.from(Body as Buffer), { max: 1 });
+    return text;
+  }
+
+  /**
+   * テキストファイルの先頭を読み込む
+   *
+   * @param key - テキストファイルのオブジェクトのキー
+   * @returns 先頭のテキスト（UTF-8として解釈）
+   * @private
+   */
+  private async readTextHead(key: string): Promise<string> {
+    const { Body } = await s3
+      .getObject({
+        Bucket: FILES_BUCKET,
+        Key: key,
+        Range: `bytes=0-${TEXT_SNIPPET_BYTES - 1}`,
+      })
+      .promise();
+    return Buffer.from(Body as Buffer).toString('utf8');
+  }
+}
+
+/**
+ * MIMEタイプから作成するプレビューの種類を判定する
+ *
+ * @param contentType - ファイルのMIMEタイプ
+ * @returns プレビューの種類、プレビューを作成できない場合はnull
+ */
+function previewKindOf(contentType: string): PreviewKind | null {
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+
+  if (THUMBNAIL_SOURCE_TYPES.includes(mimeType)) {
+    return 'thumbnail';
+  }
+  if (mimeType === 'application/pdf') {
+    return 'pdf';
+  }
+  if (mimeType.startsWith('text/') || TEXT_SOURCE_TYPES.includes(mimeType)) {
+    return 'text';
+  }
+  return null;
+}
+
+/**
+ * テキストを抜粋に整える
+ *
+ * 連続する空白・改行を1つの空白にまとめ、最大文字数で切り詰めます。
+ * 途中で切れたマルチバイト文字（U+FFFD）は取り除きます。
+ *
+ * @param text - 元のテキスト
+ * @returns 抜粋
+ */
+function toSnippet(text: string): string {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  return [...normalized]
+    .slice(0, TEXT_SNIPPET_LENGTH)
+    .join('')
+    .replace(/\uFFFD+$/, '');
+}
@@ -0,0 +1,455 @@
+/**
+ * ファイル整合性チェックサービスクラス
+ *
+ * このクラスはFILES_BUCKETのオブジェクトとDynamoDBのファイルメタデータを突き合わせ、不整合を報告・修復します。
+ * ファイルの削除やアップロードはS3とDynamoDBを別々に更新するため、途中で失敗すると片方だけが残る場合があります。
+ * - メタデータから参照されていないオブジェクト（修復時はオブジェクトを削除）
+ * - オブジェクトが存在しないメタデータ（修復時はFileService.deleteFileでメタデータを削除）
+ * - サイズがオブジェクトと一致しないメタデータ（修復時はオブジェクトのサイズに合わせる）
+ * - ファイルメタデータの合計と一致しない所有者ごとの使用量（修復時はファイルメタデータの合計に合わせる）
+ * 複数の版があるファイルは、版の履歴を失わないように報告のみ行い、修復しません。
+ * 孤立したオブジェクトでも、キーに含まれるファイルIDのメタデータが残っている場合は削除しません。
+ * archives/ 配下のZIPアーカイブはアーカイブ作成ジョブで管理されるため対象外です。
+ */
+import { FileService, QUARANTINE_PREFIX } from './file-service';
+import { FileBlobService } from './file-blob-service';
+import { ARCHIVE_PREFIX } from './file-archive-service';
+import { StorageQuotaService } from './storage-quota-service';
+import { s3, FILES_BUCKET } from '../utils/aws-clients';
+import { ValidationError } from '../utils/errors';
+import { MAX_PAGE_LIMIT } from '../utils/pagination';
+import {
+  FileMetadata,
+  FileReconciliationReport,
+  FileStatus,
+  ReconciliationMode,
+  StorageUsage,
+} from '../types';
+
+/**
+ * 定期実行時の整合性チェックの実行モード
+ * 環境変数 FILE_RECONCILE_MODE（dry-run または repair）で変更できます
+ */
+export const RECONCILE_MODE = (process.env.FILE_RECONCILE_MODE ||
+  ReconciliationMode.DRY_RUN) as ReconciliationMode;
+
+/**
+ * 孤立したオブジェクトとして扱わない、最近作成されたオブジェクトの猶予時間（分）
+ * チェック中に作成されたファイルのオブジェクトを誤って削除しないようにします
+ */
+const ORPHAN_GRACE_MINUTES = 60;
+
+/**
+ * オブジェクトのキーに含まれるファイルID（UUID）のパスの要素
+ */
+const FILE_ID_SEGMENT_PATTERN =
+  /(?:^|\/)([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\//i;
+
+/**
+ * 存在しなければならないオブジェクトを参照しているファイル
+ */
+interface ObjectReference {
+  /** 参照しているファイル */
+  file: FileMetadata;
+  /** 参照している版の番号（複数の版があるファイルの場合のみ） */
+  version?: number;
+  /** オブジェクトのサイズ（バイト、サイズを確認しない場合はなし） */
+  size?: number;
+}
+
+/**
+ * ファイルメタデータから参照されているオブジェクトのキー
+ */
+interface ObjectReferences {
+  /** 存在しなければならないオブジェクトのキーと、それを参照しているファイル */
+  required: Map<string, ObjectReference[]>;
+  /** 存在してもよいオブジェクトのキー（アップロード待ちのファイル・版、サムネイル、ファイルの実体） */
+  allowed: Set<string>;
+  /** 確認したファイルメタデータの数 */
+  scannedFiles: number;
+  /** ファイルメタデータから集計した所有者ごとの使用量 */
+  usage: Map<string, Pick<StorageUsage, 'bytesUsed' | 'fileCount'>>;
+}
+
+export class FileReconciliationService {
+  /**
+   * @param fileService - ファイルメタデータの取得と修復に使用するサービス
+   * @param blobService - ファイルの実体の一覧の取得に使用するサービス
+   * @param quotaService - 所有者ごとの使用量の取得と修復に使用するサービス
+   */
+  constructor(
+    private readonly fileService: FileService = new FileService(),
+    private readonly blobService: FileBlobService = new FileBlobService(),
+    private readonly quotaService: StorageQuotaService = new StorageQuotaService()
+  ) {}
+
+  /**
+   * FILES_BUCKETのオブジェクトとファイルメタデータの整合性をチェックする
+   *
+   * すべてのファイルメタデータとファイルの実体を読み込んでから、バケットのオブジェクトを一覧して突き合わせます。
+   * 所有者ごとの使用量はファイルメタデータより先に読み込み、チェック中にアップロード・削除された所有者の使用量は、
+   * 修復時に使用量が変わっているため修復しません。
+   * 修復モードの場合は、見つかった不整合を1件ずつ修復し、失敗したものはrepaired: falseとして報告します。
+   *
+   * @param mode - 実行モード（デフォルト: 環境変数の設定）
+   * @returns 整合性チェックの結果
+   * @throws ValidationError - 実行モードが不正な場合
+   *
+   * @example
+   * const report = await fileReconciliationService.reconcile(ReconciliationMode.DRY_RUN);
+   * console.log(JSON.stringify(report));
+   */
+  async reconcile(
+    mode: ReconciliationMode = RECONCILE_MODE
+  ): Promise<FileReconciliationReport> {
+    const modes = Object.values(ReconciliationMode) as string[];
+    if (!modes.includes(mode)) {
+      throw new ValidationError(
+        `mode は ${modes.join(', ')} のいずれかを指定してください`
+      );
+    }
+
+    const startedAt = new Date().toISOString();
+    const cutoff = Date.now() - ORPHAN_GRACE_MINUTES * 60 * 1000;
+    const recordedUsage = await this.collectUsage();
+    const references = await this.collectReferences();
+
+    const report: FileReconciliationReport = {
+      mode,
+      startedAt,
+      finishedAt: startedAt,
+      scannedObjects: 0,
+      scannedFiles: references.scannedFiles,
+      orphanObjects: [],
+      missingObjects: [],
+      sizeMismatches: [],
+      usageMismatches: [],
+    };
+
+    const foundKeys = new Set<string>();
+    let continuationToken: string | undefined;
+
+    do {
+      const result = await s3
+        .listObjectsV2({
+          Bucket: FILES_BUCKET,
+          ContinuationToken: continuationToken,
+        })
+        .promise();
+
+      for (const object of result.Contents || []) {
+        const key = object.Key as string;
+        const size = object.Size ?? 0;
+        const lastModified = object.LastModified || new Date();
+        report.scannedObjects++;
+
+        if (key.startsWith(ARCHIVE_PREFIX)) {
+          continue;
+        }
+        foundKeys.add(key);
+
+        const referrers = references.required.get(key);
+        if (referrers) {
+          for (const { file, version, size: expectedSize } of referrers) {
+            if (expectedSize !== undefined && expectedSize !== size) {
+              report.sizeMismatches.push({
+                fileId: file.id,
+                ...(version ? { version } : {}),
+                key,
+                expectedSize,
+                actualSize: size,
+              });
+            }
+          }
+        } else if (
+          !references.allowed.has(key) &&
+          lastModified.getTime() < cutoff
+        ) {
+          report.orphanObjects.push({
+            key,
+            size,
+            lastModified: lastModified.toISOString(),
+          });
+        }
+      }
+
+      continuationToken = result.NextContinuationToken;
+    } while (continuationToken);
+
+    for (const [key, referrers] of references.required) {
+      if (foundKeys.has(key)) {
+        continue;
+      }
+      for (const { file, version } of referrers) {
+        report.missingObjects.push({
+          fileId: file.id,
+          ...(version ? { version } : {}),
+          filename: file.filename,
+          status: file.status,
+          key,
+        });
+      }
+    }
+
+    const ownerIds = new Set([
+      ...recordedUsage.keys(),
+      ...references.usage.keys(),
+    ]);
+    for (const ownerId of ownerIds) {
+      const recorded = recordedUsage.get(ownerId);
+      const actual = references.usage.get(ownerId);
+      const mismatch = {
+        ownerId,
+        recordedBytes: recorded?.bytesUsed ?? 0,
+        actualBytes: actual?.bytesUsed ?? 0,
+        recordedFileCount: recorded?.fileCount ?? 0,
+        actualFileCount: actual?.fileCount ?? 0,
+      };
+      if (
+        !recorded ||
+        mismatch.recordedBytes !== mismatch.actualBytes ||
+        mismatch.recordedFileCount !== mismatch.actualFileCount
+      ) {
+        report.usageMismatches.push(mismatch);
+      }
+    }
+
+    if (mode === ReconciliationMode.REPAIR) {
+      await this.repair(report, references, recordedUsage);
+    }
+
+    report.finishedAt = new Date().toISOString();
+    return report;
+  }
+
+  /**
+   * 見つかった不整合を修復する
+   *
+   * 修復の直前にメタデータを取得し直し、チェック後に変更されたファイルは修復しません。
+   * メタデータの削除やサイズの修正は使用量も増減するため、使用量を先に修復します。
+   *
+   * @param report - 整合性チェックの結果（修復したかどうかを記録する）
+   * @param references - チェック時に読み込んだファイルメタデータ
+   * @param recordedUsage - チェック時に読み込んだ所有者ごとの使用量
+   * @private
+   */
+  private async repair(
+    report: FileReconciliationReport,
+    references: ObjectReferences,
+    recordedUsage: Map<string, StorageUsage>
+  ): Promise<void> {
+    for (const mismatch of report.usageMismatches) {
+      try {
+        mismatch.repaired = await this.quotaService.correctUsage(
+          mismatch.ownerId,
+          recordedUsage.get(mismatch.ownerId) || null,
+          {
+            bytesUsed: mismatch.actualBytes,
+            fileCount: mismatch.actualFileCount,
+          }
+        );
+      } catch (error) {
+        console.error(`使用量修正エラー: ${mismatch.ownerId}`, error);
+        mismatch.repaired = false;
+      }
+    }
+
+    for (const orphan of report.orphanObjects) {
+      try {
+        // メタデータが残っているファイルのオブジェクトは、参照の判定が誤っている可能性があるため削除しない
+        const fileId = parseFileIdFromKey(orphan.key);
+        if (fileId && (await this.fileService.getFileMetadata(fileId))) {
+          console.warn(
+            `メタデータが存在するファイルのオブジェクトのため削除しません: ${orphan.key}`
+          );
+          orphan.repaired = false;
+          continue;
+        }
+        await s3
+          .deleteObject({ Bucket: FILES_BUCKET, Key: orphan.key })
+          .promise();
+        orphan.repaired = true;
+      } catch (error) {
+        console.error(`孤立オブジェクト削除エラー: ${orphan.key}`, error);
+        orphan.repaired = false;
+      }
+    }
+
+    for (const missing of report.missingObjects) {
+      if (missing.version) {
+        missing.repaired = false;
+        continue;
+      }
+      try {
+        const scanned = references.required
+          .get(missing.key)
+          ?.find((reference) => reference.file.id === missing.fileId)?.file;
+        const current = await this.fileService.getFileMetadata(missing.fileId);
+        if (
+          !current ||
+          current.status !== scanned?.status ||
+          current.objectKey !== scanned.objectKey
+        ) {
+          missing.repaired = false;
+          continue;
+        }
+        missing.repaired = await this.fileService.deleteFile(
+          missing.fileId,
+          missing.filename
+        );
+      } catch (error) {
+        console.error(`メタデータ削除エラー: ${missing.fileId}`, error);
+        missing.repaired = false;
+      }
+    }
+
+    for (const mismatch of report.sizeMismatches) {
+      if (mismatch.version) {
+        mismatch.repaired = false;
+        continue;
+      }
+      try {
+        mismatch.repaired = await this.fileService.correctFileSize(
+          mismatch.fileId,
+          mismatch.expectedSize,
+          mismatch.actualSize
+        );
+      } catch (error) {
+        console.error(`サイズ修正エラー: ${mismatch.fileId}`, error);
+        mismatch.repaired = false;
+      }
+    }
+  }
+
+  /**
+   * すべてのファイルメタデータとファイルの実体から、参照されているオブジェクトのキーを集める
+   *
+   * - READY: 実体のキー（objectKey）のオブジェクトが必要
+   * - QUARANTINED: quarantine/ 配下のオブジェクトが必要
+   * - PENDING: アップロード中のオブジェクトがあってもよい
+   * - REJECTED: オブジェクトは削除済みのため参照しない
+   * サムネイルと、ファイルの実体として登録されたオブジェクトは、あってもよいものとして扱います。
+   * あわせて、使用量を計上しているファイルの計上バイト数とファイル数を所有者ごとに集計します。
+   * 作成日時のないファイルも漏れなく確認するため、ファイルメタデータはテーブルのスキャンで取得します。
+   *
+   * @returns 参照されているオブジェクトのキー
+   * @private
+   */
+  private async collectReferences(): Promise<ObjectReferences> {
+    const references: ObjectReferences = {
+      required: new Map(),
+      allowed: new Set(),
+      scannedFiles: 0,
+      usage: new Map(),
+    };
+    const addRequired = (key: string, reference: ObjectReference) => {
+      references.required.set(key, [
+        ...(references.required.get(key) || []),
+        reference,
+      ]);
+    };
+
+    let cursor: string | null = null;
+    do {
+      const page = await this.fileService.scanFiles(cursor || undefined);
+
+      for (const file of page.items) {
+        const key = `${file.id}/${file.filename}`;
+        references.scannedFiles++;
+
+        if (file.status === FileStatus.READY && file.versions) {
+          for (const version of file.versions) {
+            addRequired(version.objectKey, {
+              file,
+              version: version.version,
+              size: version.size,
+            });
+          }
+        } else if (file.status === FileStatus.READY) {
+          addRequired(file.objectKey || key, { file, size: file.size });
+        } else if (file.status === FileStatus.QUARANTINED) {
+          addRequired(`${QUARANTINE_PREFIX}${key}`, { file });
+        } else if (file.status === FileStatus.PENDING) {
+          references.allowed.add(key);
+        }
+
+        if (file.pendingVersion) {
+          references.allowed.add(file.pendingVersion.objectKey);
+        }
+
+        for (const preview of file.previews || []) {
+          references.allowed.add(preview.key);
+        }
+
+        if (file.ownerId && file.chargedBytes !== undefined) {
+          const usage = references.usage.get(file.ownerId) || {
+            bytesUsed: 0,
+            fileCount: 0,
+          };
+          references.usage.set(file.ownerId, {
+            bytesUsed: usage.bytesUsed + file.chargedBytes,
+            fileCount: usage.fileCount + 1,
+          });
+        }
+      }
+
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    // 参照カウントが0の実体も、削除の途中の可能性があるため削除しない
+    do {
+      const page = await this.blobService.listBlobs({
+        limit: MAX_PAGE_LIMIT,
+        cursor: cursor || undefined,
+      });
+
+      for (const blob of page.items) {
+        references.allowed.add(blob.objectKey);
+      }
+
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return references;
+  }
+
+  /**
+   * すべての所有者の使用量を読み込む
+   *
+   * @returns 所有者ごとの使用量
+   * @private
+   */
+  private async collectUsage(): Promise<Map<string, StorageUsage>> {
+    const usage = new Map<string, StorageUsage>();
+    let cursor: string | null = null;
+
+    do {
+      const page = await this.quotaService.listUsage({
+        limit: MAX_PAGE_LIMIT,
+        cursor: cursor || undefined,
+      });
+
+      for (const item of page.items) {
+        usage.set(item.ownerId, item);
+      }
+
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return usage;
+  }
+}
+
+/**
+ * オブジェクトのキーから、オブジェクトを所有するファイルのIDを取り出す
+ *
+ * {fileId}/{filename} 形式のキーと、quarantine/・versions/・previews/ 配下のキーに対応し、
+ * 最初に現れるファイルID（UUID）のパスの要素を返します。
+ *
+ * @param key - オブジェクトのキー
+ * @returns ファイルID、キーにファイルIDが含まれない場合はnull
+ */
+function parseFileIdFromKey(key: string): string | null {
+  const match = FILE_ID_SEGMENT_PATTERN.exec(key);
+  return match ? match[1] : null;
+}
@@ -3,104 +3,324 @@
  *
  * このクラスはS3ストレージとの相互作用を担当し、ファイルの操作とメタデータの管理を行います。
  * ファイルのアップロード、ダウンロード、および削除機能を提供します。
+ *
+ * アップロードは2段階で行います。署名付きURLの発行時にメタデータをPENDINGとして保存し、
+ * クライアントのアップロード後にcompleteUploadでS3上のオブジェクトを確認してREADYにします。
+ * 期限を過ぎてもPENDINGのままのメタデータはsweepExpiredUploadsで削除されます。
+ * アップロードできるファイルはUploadPolicyValidatorのポリシーで制限され、
+ * 完了時にファイルの先頭のバイト列が申告されたMIMEタイプと矛盾する場合は
+ * オブジェクトを quarantine/ 配下に移動して隔離（QUARANTINED）します。
+ * 完了時にはクライアントが申告したSHA-256も検証し、同じ内容のファイルが既にある場合は
+ * アップロードされたオブジェクトを削除して既存のオブジェクトを共有します（FileBlobServiceで参照カウントを管理）。
+ * APIを経由せずにS3へ書き込まれた・削除されたオブジェクトは、S3イベントから
+ * syncObjectCreated・syncObjectRemovedでメタデータに反映されます。
+ * 所有者を指定してアップロードしたファイルは、StorageQuotaServiceで所有者ごとの使用量として計上し、
+ * 拒否・期限切れ・削除時に差し引きます（計上したバイト数はchargedBytesに記録します）。
  */
 import { v4 as uuidv4 } from 'uuid';
+import { HeadObjectOutput } from 'aws-sdk/clients/s3';
 import {
   s3,
   FILES_BUCKET,
   getSignedUrl,
+  createPresignedPost,
   dynamoDb,
   TASKS_TABLE,
 } from '../utils/aws-clients';
-import { FileMetadata } from '../types';
+import {
+  ConflictError,
+  ValidationError,
+  isConditionalCheckFailed,
+} from '../utils/errors';
+import { SNIFF_BYTES, matchesDeclaredType } from '../utils/content-sniffer';
+import {
+  encodeCursor,
+  decodeCursor,
+  DEFAULT_PAGE_LIMIT,
+} from '../utils/pagination';
+import { UploadPolicyValidator } from './upload-policy';
+import { FileBlobService } from './file-blob-service';
+import { StorageQuotaService } from './storage-quota-service';
+import {
+  FileMetadata,
+  FileStatus,
+  FileVersion,
+  FileListQuery,
+  ObjectVerification,
+  PresignedUpload,
+  PaginatedResult,
+  StorageOwner,
+} from '../types';
+
+/**
+ * ファイルメタデータを識別するためのtype属性の値
+ */
+const FILE_ENTITY_TYPE = 'FILE';
+
+/**
+ * アップロード用の署名付きURLの有効期間（秒）
+ */
+export const UPLOAD_URL_EXPIRES_SECONDS = 300;
+
+/**
+ * 署名付きPOSTで1回にアップロードできる最大サイズ（5GiB）
+ * これを超えるファイルはマルチパートアップロードを使用します
+ */
+export const MAX_SINGLE_UPLOAD_SIZE = 5 * 1024 * 1024 * 1024;
+
+/**
+ * 隔離したオブジェクトのキーの接頭辞
+ * 隔離したオブジェクトは quarantine/{fileId}/{filename} に移動されます
+ */
+export const QUARANTINE_PREFIX = 'quarantine/';
+
+/**
+ * アップロード完了の確認を待つ時間（分）
+ * この時間を過ぎてもPENDINGのままのメタデータは削除されます
+ * 環境変数 FILE_PENDING_EXPIRY_MINUTES で変更できます
+ */
+export const PENDING_UPLOAD_EXPIRY_MINUTES = Number(
+  process.env.FILE_PENDING_EXPIRY_MINUTES || 60
+);
+
+/**
+ * ファイルのオブジェクトキー（{fileId}/{filename}）の形式
+ * fileIdはgenerateUploadUrlで発行したUUIDです
+ */
+const FILE_KEY_PATTERN =
+  /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\/(.+)$/i;
+
+/**
+ * ステータスごとのアイテムを作成日時順に取得するためのGSI（タスクと共用）
+ */
+const STATUS_CREATED_AT_INDEX = 'status-createdAt-index';
+
+/**
+ * type属性でファイルを作成日時順に取得するためのGSI（タスク一覧と共用）
+ */
+const TYPE_CREATED_AT_INDEX = 'type-createdAt-index';
+
+/**
+ * タスクごとの添付ファイルを作成日時順に取得するためのGSI
+ * 監査レコードはtaskIdを持ちますがcreatedAtを持たないため、このインデックスには含まれません
+ */
+const TASK_ID_CREATED_AT_INDEX = 'taskId-createdAt-index';
+
+/**
+ * SHA-256の形式（16進数64桁）
+ */
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * 同じ内容のファイルの実体への参照の追加が競合した場合に再試行する回数
+ */
+const MAX_ADD_REFERENCE_ATTEMPTS = 3;
 
 export class FileService {
   /**
-   * ファイルをアップロードするための署名付きURLを生成する
+   * @param uploadPolicy - アップロードポリシーの検証（デフォルト: 環境変数から読み込んだポリシー）
+   * @param blobService - 同じ内容のファイルで共有するオブジェクトの参照カウントの管理に使用するサービス
+   * @param quotaService - 所有者ごとの使用量の計上に使用するサービス
+   */
+  constructor(
+    private readonly uploadPolicy: UploadPolicyValidator = new UploadPolicyValidator(),
+    private readonly blobService: FileBlobService = new FileBlobService(),
+    private readonly quotaService: StorageQuotaService = new StorageQuotaService()
+  ) {}
+
+  /**
+   * アップロードの申告内容をアップロードポリシーに照らして検証する
    *
-   * クライアントが直接S3にファイルをアップロードするための時間制限付きURLを生成します。
+   * @param filename - クライアントから指定されたファイル名
+   * @param contentType - 申告されたMIMEタイプ
+   * @param size - 申告されたファイルのサイズ（バイト）
+   * @returns S3のキーとして安全に使用できるように整えたファイル名
+   * @throws ValidationError - ポリシーで許可されていないファイルの場合
+   *
+   * @example
+   * const filename = fileService.validateUpload('../report.pdf', 'application/pdf', 1024);
+   * // => 'report.pdf'
+   */
+  validateUpload(filename: unknown, contentType: string, size: number): string {
+    return this.uploadPolicy.validate(filename, contentType, size);
+  }
+
+  /**
+   * ファイルをアップロードするための署名付きPOSTを生成する
+   *
+   * クライアントが直接S3にファイルをアップロードするための時間制限付きのフォームを生成します。
    * これにより、ファイルがLambda関数を経由せずにS3に直接アップロードされるため、
    * 効率的なファイル転送が可能になります。
+   * ポリシーの条件（content-length-range）で申告されたサイズ以外のファイルと、
+   * 申告と異なるContent-Type・SHA-256のアップロードはS3側で拒否されます。
    *
    * @param filename - アップロードするファイルの名前
    * @param contentType - ファイルのMIMEタイプ
-   * @returns 署名付きURLとファイルIDを含むオブジェクト
+   * @param size - ファイルのサイズ（バイト）
+   * @param sha256 - ファイルの内容のSHA-256（16進数）
+   * @returns アップロード先のURL、フォームの項目、ファイルID、整えたファイル名
+   * @throws ValidationError - ポリシーで許可されていないファイル、または1回でアップロードできないサイズの場合
    *
    * @example
-   * const { url, fileId } = fileService.generateUploadUrl('document.pdf', 'application/pdf');
+   * const { url, fields, fileId, filename } = fileService.generateUploadUrl(
+   *   'document.pdf',
+   *   'application/pdf',
+   *   1024567,
+   *   sha256
+   * );
    */
   generateUploadUrl(
     filename: string,
-    contentType: string
-  ): { url: string; fileId: string } {
+    contentType: string,
+    size: number,
+    sha256: string
+  ): PresignedUpload & { fileId: string; filename: string } {
+    const sanitized = this.validateUpload(filename, contentType, size);
+    if (size > MAX_SINGLE_UPLOAD_SIZE) {
+      throw new ValidationError(
+        `${MAX_SINGLE_UPLOAD_SIZE}バイトを超えるファイルはマルチパートアップロードを使用してください`
+      );
+    }
+
     const fileId = uuidv4();
-    const key = `${fileId}/${filename}`;
+    const { url, fields } = this.createUploadPost(
+      `${fileId}/${sanitized}`,
+      contentType,
+      size,
+      sha256
+    );
 
-    const params = {
-      Bucket: FILES_BUCKET,
-      Key: key,
-      Expires: 300, // 5分間有効
-      ContentType: contentType,
-    };
+    return { url, fields, fileId, filename: sanitized };
+  }
 
-    const url = getSignedUrl('putObject', params);
+  /**
+   * 指定したキーにアップロードするための署名付きPOSTを生成する
+   *
+   * Content-Typeと、申告されたサイズちょうどのファイルのみをアップロードできるように制限します。
+   * SHA-256のチェックサムをフォームの項目に含めるため、内容が申告と一致しないファイルは
+   * S3がアップロード時に拒否し、完了時にはオブジェクトを読み込まずにheadObjectで照合できます。
+   *
+   * @param key - アップロード先のオブジェクトのキー
+   * @param contentType - ファイルのMIMEタイプ
+   * @param size - ファイルのサイズ（バイト）
+   * @param sha256 - ファイルの内容のSHA-256（16進数）
+   * @returns アップロード先のURLとフォームの項目
+   *
+   * @example
+   * const { url, fields } = fileService.createUploadPost(
+   *   key,
+   *   'application/pdf',
+   *   1024567,
+   *   sha256
+   * );
+   */
+  createUploadPost(
+    key: string,
+    contentType: string,
+    size: number,
+    sha256: string
+  ): PresignedUpload {
+    const { url, fields } = createPresignedPost({
+      Bucket: FILES_BUCKET,
+      Fields: {
+        key,
+        'Content-Type': contentType,
+        'x-amz-checksum-algorithm': 'SHA256',
+        'x-amz-checksum-sha256': toSha256Checksum(sha256),
+      },
+      Conditions: [['content-length-range', size, size]],
+      Expires: UPLOAD_URL_EXPIRES_SECONDS,
+    });
 
-    return { url, fileId };
+    return { url, fields };
   }
 
   /**
    * ファイルメタデータを保存する
    *
-   * アップロードされたファイルに関するメタデータをDynamoDBに保存します。
-   * これにより、ファイルの検索や管理が容易になります。
+   * アップロード用のURLを発行したファイルのメタデータをPENDINGとしてDynamoDBに保存します。
+   * 申告されたファイル名・MIMEタイプ・サイズ・SHA-256は、completeUploadでS3上のオブジェクトと照合されます。
+   * 所有者を指定した場合は、申告されたサイズを所有者の使用量として同じトランザクションで計上します。
    *
    * @param fileId - ファイルの一意識別子
    * @param filename - ファイルの名前
    * @param contentType - ファイルのMIMEタイプ
-   * @param size - ファイルのサイズ（バイト）
+   * @param size - 申告されたファイルのサイズ（バイト）
+   * @param attributes - 追加で保存する属性（SHA-256、マルチパートアップロードのID、添付先のタスクIDなど）
+   * @param owner - 使用量を計上する所有者とプラン（省略時は計上しない）
    * @returns 保存されたファイルメタデータオブジェクト
+   * @throws QuotaExceededError - 所有者の容量の上限を超える場合
+   * @throws ConflictError - 同時に別のアップロードで使用量が更新された場合
    *
    * @example
    * const metadata = await fileService.saveFileMetadata(
    *   'abc123',
    *   'document.pdf',
    *   'application/pdf',
-   *   1024567
+   *   1024567,
+   *   { sha256: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855' }
    * );
    */
   async saveFileMetadata(
     fileId: string,
     filename: string,
     contentType: string,
-    size: number
+    size: number,
+    attributes: Pick<
+      FileMetadata,
+      'sha256' | 'multipartUploadId' | 'taskId'
+    > = {},
+    owner?: StorageOwner
   ): Promise<FileMetadata> {
     const timestamp = new Date().toISOString();
 
-    const fileUrl = `https://${FILES_BUCKET}.s3.amazonaws.com/${fileId}/${filename}`;
-    // LocalStackの場合は別のURLになる
-    const localstackUrl = `http://localhost:4566/${FILES_BUCKET}/${fileId}/${filename}`;
-
     const fileMetadata: FileMetadata = {
+      ...attributes,
       id: fileId,
       filename,
       contentType,
       size,
-      uploadedAt: timestamp,
-      url: process.env.STAGE === 'local' ? localstackUrl : fileUrl,
+      status: FileStatus.PENDING,
+      createdAt: timestamp,
+      ...(owner ? { ownerId: owner.ownerId, chargedBytes: size } : {}),
+      url: this.buildFileUrl(fileId, filename),
     };
 
     // DynamoDBの専用テーブルに保存するケースもあるが、
     // ここでは簡単のためタスクテーブルに属性として保存する
-    await dynamoDb
-      .put({
-        TableName: TASKS_TABLE,
-        Item: {
-          id: fileId,
-          type: 'FILE',
-          ...fileMetadata,
-        },
-      })
-      .promise();
+    const put = {
+      TableName: TASKS_TABLE,
+      Item: {
+        ...fileMetadata,
+        type: FILE_ENTITY_TYPE,
+      },
+    };
+
+    if (!owner) {
+      await dynamoDb.put(put).promise();
+      return fileMetadata;
+    }
+
+    // 容量の上限を超える場合は、アップロード用のURLを発行しない
+    const usage = await this.quotaService.assertWithinQuota(owner, size);
+    try {
+      await dynamoDb
+        .transactWrite({
+          TransactItems: [
+            { Put: put },
+            this.quotaService.buildCharge(usage, size, 1),
+          ],
+        })
+        .promise();
+    } catch (error) {
+      if (!isConditionalCheckFailed(error)) {
+        throw error;
+      }
+      await this.quotaService.assertWithinQuota(owner, size);
+      throw new ConflictError(
+        '使用量が同時に更新されたため、アップロードを開始できませんでした。再度実行してください'
+      );
+    }
 
     return fileMetadata;
   }
@@ -125,36 +345,956 @@ export class FileService {
       .promise();
 
     // タイプがFILEのアイテムのみを返す
-    if (result.Item && result.Item.type === 'FILE') {
-      const { id, filename, contentType, size, uploadedAt, url } = result.Item;
-      return { id, filename, contentType, size, uploadedAt, url };
+    if (result.Item && result.Item.type === FILE_ENTITY_TYPE) {
+      return this.toFileMetadata(result.Item);
     }
 
     return null;
   }
 
+  /**
+   * ファイルの一覧を取得する
+   *
+   * ファイルメタデータ（type: 'FILE'）のみを作成日時の新しい順に返し、
+   * 同じテーブルのタスクなどのアイテムは含みません。
+   * アップロード日時で絞り込んだ場合、アップロードが完了していないファイルは含みません。
+   * 絞り込み条件はページごとに適用されるため、1ページの件数がlimitより少なくなる場合があります。
+   *
+   * @param query - ページサイズ、カーソル、絞り込み条件
+   * @returns ファイルメタデータの配列と次ページ取得用のカーソル
+   * @throws ValidationError - カーソルの形式が不正な場合
+   *
+   * @example
+   * const { items, nextCursor } = await fileService.listFiles({
+   *   contentType: 'image/*',
+   *   minSize: 1024,
+   *   limit: 20,
+   * });
+   */
+  async listFiles(
+    query: FileListQuery = {}
+  ): Promise<PaginatedResult<FileMetadata>> {
+    const {
+      limit = DEFAULT_PAGE_LIMIT,
+      cursor,
+      contentType,
+      filenamePrefix,
+      uploadedAfter,
+      uploadedBefore,
+      minSize,
+      maxSize,
+    } = query;
+
+    const attributeNames: { [key: string]: string } = { '#type': 'type' };
+    const attributeValues: { [key: string]: any } = {
+      ':type': FILE_ENTITY_TYPE,
+    };
+    const filters: string[] = [];
+    let keyCondition = '#type = :type';
+
+    // アップロードの完了は作成（URLの発行）より後のため、作成日時で範囲を絞り込める
+    if (uploadedBefore) {
+      keyCondition += ' AND #createdAt <= :uploadedBefore';
+      attributeNames['#createdAt'] = 'createdAt';
+    }
+
+    if (uploadedAfter || uploadedBefore) {
+      attributeNames['#uploadedAt'] = 'uploadedAt';
+      if (uploadedAfter) {
+        filters.push('#uploadedAt >= :uploadedAfter');
+        attributeValues[':uploadedAfter'] = uploadedAfter;
+      }
+      if (uploadedBefore) {
+        filters.push('#uploadedAt <= :uploadedBefore');
+        attributeValues[':uploadedBefore'] = uploadedBefore;
+      }
+    }
+
+    if (contentType) {
+      attributeNames['#contentType'] = 'contentType';
+      if (contentType.endsWith('/*')) {
+        filters.push('begins_with(#contentType, :contentTypePrefix)');
+        attributeValues[':contentTypePrefix'] = contentType.slice(0, -1);
+      } else {
+        // charsetなどのパラメータ付きで保存されたMIMEタイプも含める
+        filters.push(
+          '(#contentType = :contentType OR begins_with(#contentType, :contentTypeWithParameters))'
+        );
+        attributeValues[':contentType'] = contentType;
+        attributeValues[':contentTypeWithParameters'] = `${contentType};`;
+      }
+    }
+
+    if (filenamePrefix) {
+      filters.push('begins_with(#filename, :filenamePrefix)');
+      attributeNames['#filename'] = 'filename';
+      attributeValues[':filenamePrefix'] = filenamePrefix;
+    }
+
+    if (minSize !== undefined || maxSize !== undefined) {
+      attributeNames['#size'] = 'size';
+      if (minSize !== undefined) {
+        filters.push('#size >= :minSize');
+        attributeValues[':minSize'] = minSize;
+      }
+      if (maxSize !== undefined) {
+        filters.push('#size <= :maxSize');
+        attributeValues[':maxSize'] = maxSize;
+      }
+    }
+
+    const result = await dynamoDb
+      .query({
+        TableName: TASKS_TABLE,
+        IndexName: TYPE_CREATED_AT_INDEX,
+        KeyConditionExpression: keyCondition,
+        FilterExpression:
+          filters.length > 0 ? filters.join(' AND ') : undefined,
+        ExpressionAttributeNames: attributeNames,
+        ExpressionAttributeValues: attributeValues,
+        ScanIndexForward: false,
+        Limit: limit,
+        ExclusiveStartKey: decodeCursor(cursor),
+      })
+      .promise();
+
+    return {
+      items: (result.Items || []).map((item) => this.toFileMetadata(item)),
+      nextCursor: encodeCursor(result.LastEvaluatedKey),
+    };
+  }
+
+  /**
+   * タスクに添付されたファイルの一覧を取得する
+   *
+   * 添付先のタスクIDを持つファイルメタデータを作成日時の古い順に返します。
+   *
+   * @param taskId - 添付先のタスクID
+   * @param query - ページサイズとカーソル
+   * @returns ファイルメタデータの配列と次ページ取得用のカーソル
+   * @throws ValidationError - カーソルの形式が不正な場合
+   *
+   * @example
+   * const { items, nextCursor } = await fileService.listFilesByTask(taskId, { limit: 20 });
+   */
+  async listFilesByTask(
+    taskId: string,
+    query: { limit?: number; cursor?: string } = {}
+  ): Promise<PaginatedResult<FileMetadata>> {
+    const { limit = DEFAULT_PAGE_LIMIT, cursor } = query;
+
+    const result = await dynamoDb
+      .query({
+        TableName: TASKS_TABLE,
+        IndexName: TASK_ID_CREATED_AT_INDEX,
+        KeyConditionExpression: '#taskId = :taskId',
+        FilterExpression: '#type = :type',
+        ExpressionAttributeNames: { '#taskId': 'taskId', '#type': 'type' },
+        ExpressionAttributeValues: {
+          ':taskId': taskId,
+          ':type': FILE_ENTITY_TYPE,
+        },
+        Limit: limit,
+        ExclusiveStartKey: decodeCursor(cursor),
+      })
+      .promise();
+
+    return {
+      items: (result.Items || []).map((item) => this.toFileMetadata(item)),
+      nextCursor: encodeCursor(result.LastEvaluatedKey),
+    };
+  }
+
+  /**
+   * すべてのファイルメタデータをテーブルのスキャンで取得する
+   *
+   * type-createdAt-index を使用しないため、作成日時（createdAt）が記録される前に
+   * アップロードされたファイルも含みます。整合性チェックなど、すべてのファイルを漏れなく確認する処理で使用します。
+   * ファイル以外のアイテムはスキャン後に除外されるため、1ページの件数は一定ではありません。
+   *
+   * @param cursor - 前のページのnextCursor（省略時は最初から）
+   * @returns ファイルメタデータの配列と次ページ取得用のカーソル
+   * @throws ValidationError - カーソルの形式が不正な場合
+   *
+   * @example
+   * const { items, nextCursor } = await fileService.scanFiles();
+   */
+  async scanFiles(cursor?: string): Promise<PaginatedResult<FileMetadata>> {
+    const result = await dynamoDb
+      .scan({
+        TableName: TASKS_TABLE,
+        FilterExpression: '#type = :type',
+        ExpressionAttributeNames: { '#type': 'type' },
+        ExpressionAttributeValues: { ':type': FILE_ENTITY_TYPE },
+        ExclusiveStartKey: decodeCursor(cursor),
+      })
+      .promise();
+
+    return {
+      items: (result.Items || []).map((item) => this.toFileMetadata(item)),
+      nextCursor: encodeCursor(result.LastEvaluatedKey),
+    };
+  }
+
+  /**
+   * ファイルのプレビュー（サムネイルまたはテキストの抜粋）を保存する
+   *
+   * プレビューの作成中にファイルが削除・置き換えられた場合は保存しません。
+   *
+   * @param fileId - ファイルの一意識別子
+   * @param uploadedAt - プレビューを作成した時点のアップロード日時
+   * @param preview - サムネイルまたはテキストの抜粋
+   * @returns 更新されたファイルメタデータ、ファイルが削除・置き換えられた場合はnull
+   *
+   * @example
+   * const metadata = await fileService.savePreview(file.id, file.uploadedAt, { previews });
+   */
+  async savePreview(
+    fileId: string,
+    uploadedAt: string | undefined,
+    preview: Pick<FileMetadata, 'previews' | 'textSnippet'>
+  ): Promise<FileMetadata | null> {
+    const attributes: { [key: string]: any } = {
+      ...preview,
+      previewGeneratedAt: new Date().toISOString(),
+    };
+    const names = Object.keys(attributes);
+
+    try {
+      const result = await dynamoDb
+        .update({
+          TableName: TASKS_TABLE,
+          Key: { id: fileId },
+          UpdateExpression: `SET ${names.map((name) => `#${name} = :${name}`).join(', ')}`,
+          ConditionExpression:
+            '#type = :type AND #status = :ready AND #uploadedAt = :uploadedAt',
+          ExpressionAttributeNames: {
+            '#type': 'type',
+            '#status': 'status',
+            '#uploadedAt': 'uploadedAt',
+            ...Object.fromEntries(names.map((name) => [`#${name}`, name])),
+          },
+          ExpressionAttributeValues: {
+            ':type': FILE_ENTITY_TYPE,
+            ':ready': FileStatus.READY,
+            ':uploadedAt': uploadedAt,
+            ...Object.fromEntries(
+              names.map((name) => [`:${name}`, attributes[name]])
+            ),
+          },
+          ReturnValues: 'ALL_NEW',
+        })
+        .promise();
+
+      return this.toFileMetadata(result.Attributes || {});
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * ファイルをタスクから切り離す
+   *
+   * ファイルとメタデータは残したまま、添付先のタスクIDを取り除きます。
+   *
+   * @param fileId - 切り離すファイルの一意識別子
+   * @param taskId - 現在の添付先のタスクID
+   * @returns 更新されたファイルメタデータ、ファイルが指定したタスクに添付されていない場合はnull
+   *
+   * @example
+   * const metadata = await fileService.detachFromTask('abc123', taskId);
+   */
+  async detachFromTask(
+    fileId: string,
+    taskId: string
+  ): Promise<FileMetadata | null> {
+    try {
+      const result = await dynamoDb
+        .update({
+          TableName: TASKS_TABLE,
+          Key: { id: fileId },
+          UpdateExpression: 'REMOVE #taskId',
+          ConditionExpression: '#type = :type AND #taskId = :taskId',
+          ExpressionAttributeNames: { '#type': 'type', '#taskId': 'taskId' },
+          ExpressionAttributeValues: {
+            ':type': FILE_ENTITY_TYPE,
+            ':taskId': taskId,
+          },
+          ReturnValues: 'ALL_NEW',
+        })
+        .promise();
+
+      return this.toFileMetadata(result.Attributes || {});
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * アップロードの完了を確認する
+   *
+   * S3上のオブジェクトをheadObjectで確認し、実際のサイズとMIMEタイプが申告内容と一致すれば
+   * オブジェクト全体のSHA-256を計算し、ファイルの先頭のバイト列から実際の形式を判定します。
+   * - すべて一致する場合: メタデータをREADYにします。同じ内容のファイルが既にある場合は
+   *   アップロードされたオブジェクトを削除し、既存のオブジェクトを共有します
+   * - サイズ・MIMEタイプ・SHA-256のいずれかが一致しない場合: オブジェクトを削除してREJECTEDにします
+   * - 内容が申告されたMIMEタイプと矛盾する場合: オブジェクトを隔離してQUARANTINEDにします
+   * 既にREADYの場合は何もせずにそのまま返します。
+   * マルチパートアップロードのファイルはS3がファイル全体のSHA-256を持たないため、
+   * オブジェクトを読み込んで計算したSHA-256を指定した場合のみ完了できます（MultipartUploadService.verifyUpload）。
+   *
+   * @param fileId - アップロードを完了するファイルの一意識別子
+   * @param computedSha256 - オブジェクトを読み込んで計算した内容のSHA-256（マルチパートアップロードの場合のみ）
+   * @returns 更新されたファイルメタデータ、見つからない場合はnull
+   * @throws ConflictError - オブジェクトがまだアップロードされていない場合、
+   *   既にREJECTEDまたはQUARANTINEDの場合、SHA-256を計算していないマルチパートアップロードの場合、
+   *   または同時に別の確認が行われた場合
+   *
+   * @example
+   * const metadata = await fileService.completeUpload('abc123');
+   * if (metadata?.status === FileStatus.REJECTED) {
+   *   console.log(metadata.rejectionReason);
+   * }
+   */
+  async completeUpload(
+    fileId: string,
+    computedSha256?: string
+  ): Promise<FileMetadata | null> {
+    const metadata = await this.getFileMetadata(fileId);
+    if (!metadata) {
+      return null;
+    }
+
+    if (metadata.status === FileStatus.READY) {
+      return metadata;
+    }
+    if (
+      metadata.status === FileStatus.REJECTED ||
+      metadata.status === FileStatus.QUARANTINED
+    ) {
+      throw new ConflictError(
+        '拒否または隔離されたファイルのアップロードは完了できません',
+        {
+          status: metadata.status,
+          rejectionReason: metadata.rejectionReason,
+        }
+      );
+    }
+
+    if (metadata.multipartUploadId && !computedSha256) {
+      throw new ConflictError(
+        'マルチパートアップロードのファイルは、ファイル全体のSHA-256の照合後に完了します'
+      );
+    }
+
+    // S3上のオブジェクトを申告内容と照合
+    const key = `${fileId}/${metadata.filename}`;
+    const verification = await this.verifyObject(key, metadata, computedSha256);
+    if (!verification) {
+      throw new ConflictError('ファイルがまだアップロードされていません');
+    }
+
+    const { rejectionReason } = verification;
+    let status = FileStatus.REJECTED;
+    if (verification.contentMismatch) {
+      // 内容が申告と矛盾するオブジェクトは、調査のために隔離する
+      await this.quarantineObject(key);
+      status = FileStatus.QUARANTINED;
+    } else if (rejectionReason) {
+      // 一致しないオブジェクトは保持しない
+      await s3.deleteObject({ Bucket: FILES_BUCKET, Key: key }).promise();
+    }
+
+    if (!rejectionReason) {
+      return await this.markReady(
+        metadata,
+        key,
+        verification.size,
+        verification.sha256
+      );
+    }
+
+    // 拒否したファイルはオブジェクトを削除済みのため使用量から差し引く（隔離したファイルは削除するまで計上する）
+    const release =
+      status === FileStatus.REJECTED
+        ? this.quotaService.buildReleaseFile(metadata)
+        : [];
+
+    try {
+      await dynamoDb
+        .transactWrite({
+          TransactItems: [
+            {
+              Update: {
+                TableName: TASKS_TABLE,
+                Key: { id: fileId },
+                UpdateExpression:
+                  release.length > 0
+                    ? 'SET #status = :status, #rejectionReason = :rejectionReason REMOVE #chargedBytes'
+                    : 'SET #status = :status, #rejectionReason = :rejectionReason',
+                ConditionExpression: '#status = :pending',
+                ExpressionAttributeNames: {
+                  '#status': 'status',
+                  '#rejectionReason': 'rejectionReason',
+                  ...(release.length > 0
+                    ? { '#chargedBytes': 'chargedBytes' }
+                    : {}),
+                },
+                ExpressionAttributeValues: {
+                  ':pending': FileStatus.PENDING,
+                  ':status': status,
+                  ':rejectionReason': rejectionReason,
+                },
+              },
+            },
+            ...release,
+          ],
+        })
+        .promise();
+
+      const rejected: FileMetadata = { ...metadata, status, rejectionReason };
+      if (release.length > 0) {
+        delete rejected.chargedBytes;
+      }
+      return rejected;
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        throw new ConflictError(
+          'ファイルの状態が変更されたため、アップロードを完了できませんでした'
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * S3上のオブジェクトを申告内容と照合する
+   *
+   * サイズ・MIMEタイプ・SHA-256・ファイルの先頭のバイト列の順に確認し、最初に一致しなかった理由を返します。
+   * SHA-256はアップロード時にS3が検証したチェックサムをheadObjectで取得して照合するため、
+   * 大きなファイルでもオブジェクト全体を読み込みません。
+   * S3がファイル全体のチェックサムを持たないマルチパートアップロードのオブジェクトは、
+   * 呼び出し側がオブジェクトを読み込んで計算したSHA-256で照合します。
+   * SHA-256が申告されていない場合（SHA-256が必須になる前に開始したマルチパートアップロード）は、
+   * SHA-256を照合せず結果にも含めません。
+   * オブジェクトの削除や隔離は行わないため、結果に応じて呼び出し側で処理します。
+   *
+   * @param key - オブジェクトのキー
+   * @param declared - 申告されたサイズ・MIMEタイプ・SHA-256
+   * @param computedSha256 - オブジェクトを読み込んで計算した内容のSHA-256（省略時はS3のチェックサムを使用）
+   * @returns 照合の結果、オブジェクトがまだアップロードされていない場合はnull
+   *
+   * @example
+   * const verification = await fileService.verifyObject(key, metadata);
+   * if (verification?.rejectionReason) {
+   *   console.log(verification.rejectionReason);
+   * }
+   */
+  async verifyObject(
+    key: string,
+    declared: Pick<FileMetadata, 'size' | 'contentType' | 'sha256'>,
+    computedSha256?: string
+  ): Promise<ObjectVerification | null> {
+    const head = await this.headObject(key);
+    if (!head) {
+      return null;
+    }
+
+    const size = head.ContentLength ?? 0;
+    if (size !== declared.size) {
+      return {
+        size,
+        rejectionReason: `サイズが申告内容と一致しません（申告: ${declared.size}, 実際: ${size}）`,
+      };
+    }
+    if (
+      normalizeContentType(head.ContentType) !==
+      normalizeContentType(declared.contentType)
+    ) {
+      return {
+        size,
+        rejectionReason: `MIMEタイプが申告内容と一致しません（申告: ${declared.contentType}, 実際: ${head.ContentType}）`,
+      };
+    }
+
+    // 内容が壊れていないかを、S3がアップロード時に検証した（または計算済みの）SHA-256で確認
+    const sha256 = declared.sha256
+      ? computedSha256 || fromSha256Checksum(head.ChecksumSHA256)
+      : undefined;
+    if (declared.sha256 && sha256 !== declared.sha256) {
+      return {
+        size,
+        sha256,
+        rejectionReason: `SHA-256が申告内容と一致しません（申告: ${declared.sha256}, 実際: ${sha256 || 'チェックサムなし'}）`,
+      };
+    }
+
+    const mismatch = await this.detectContentMismatch(
+      key,
+      declared.contentType,
+      size
+    );
+    if (mismatch) {
+      return {
+        size,
+        sha256,
+        rejectionReason: mismatch,
+        contentMismatch: true,
+      };
+    }
+
+    return { size, sha256 };
+  }
+
+  /**
+   * S3へのオブジェクトの作成をメタデータに反映する
+   *
+   * S3のObjectCreatedイベントから呼び出され、{fileId}/{filename} 形式のキーのみを対象とします。
+   * - メタデータがPENDINGの場合: completeUploadで申告内容と照合してREADY・REJECTED・QUARANTINEDにします
+   *   （マルチパートアップロードはファイル全体のSHA-256の照合後に完了するため、PENDINGのまま返します）
+   * - メタデータがない、またはREADYの場合: 実際のオブジェクトの属性でREADYのメタデータを保存します
+   *   （内容がContent-Typeと矛盾する場合はオブジェクトを隔離してQUARANTINEDにします）
+   * - メタデータがREJECTED・QUARANTINEDの場合、または別のファイル名で登録されている場合: 何もしません
+   *
+   * @param key - 作成されたオブジェクトのキー
+   * @returns 保存されたファイルメタデータ、対象外の場合はnull
+   *
+   * @example
+   * const metadata = await fileService.syncObjectCreated(
+   *   '123e4567-e89b-12d3-a456-426614174000/document.pdf'
+   * );
+   */
+  async syncObjectCreated(key: string): Promise<FileMetadata | null> {
+    const parsed = parseFileKey(key);
+    if (!parsed) {
+      return null;
+    }
+
+    const { fileId, filename } = parsed;
+    const metadata = await this.getFileMetadata(fileId);
+    if (metadata && metadata.filename !== filename) {
+      console.warn(
+        `ファイル ${fileId} は別のファイル名（${metadata.filename}）で登録されています: ${key}`
+      );
+      return null;
+    }
+
+    if (
+      metadata?.status === FileStatus.REJECTED ||
+      metadata?.status === FileStatus.QUARANTINED
+    ) {
+      return null;
+    }
+
+    // 同じ内容の別のオブジェクトを共有しているファイルは、このキーのオブジェクトを使用しない
+    if (metadata?.objectKey && metadata.objectKey !== key) {
+      return metadata;
+    }
+
+    // アップロード待ちの場合は申告内容と照合する
+    if (metadata?.status === FileStatus.PENDING) {
+      try {
+        return await this.completeUpload(fileId);
+      } catch (error) {
+        // APIから同時に完了された場合、またはSHA-256の照合を待つマルチパートアップロードの場合は、
+        // 現在のメタデータをそのまま使用する
+        if (error instanceof ConflictError) {
+          return await this.getFileMetadata(fileId);
+        }
+        throw error;
+      }
+    }
+
+    // イベントの到着までにオブジェクトが削除されている場合は反映しない
+    const head = await this.headObject(key);
+    if (!head) {
+      return null;
+    }
+
+    const uploadedAt = (head.LastModified || new Date()).toISOString();
+    const contentType = head.ContentType || 'application/octet-stream';
+    const size = head.ContentLength ?? 0;
+    const quarantineReason = await this.quarantineIfMismatched(
+      key,
+      contentType,
+      size
+    );
+
+    const fileMetadata: FileMetadata = {
+      id: fileId,
+      filename,
+      contentType,
+      size,
+      status: quarantineReason ? FileStatus.QUARANTINED : FileStatus.READY,
+      createdAt: metadata?.createdAt || uploadedAt,
+      ...(quarantineReason
+        ? { rejectionReason: quarantineReason }
+        : { uploadedAt }),
+      url: this.buildFileUrl(fileId, filename),
+    };
+
+    const item: { [key: string]: any } = {
+      ...metadata,
+      ...fileMetadata,
+      type: FILE_ENTITY_TYPE,
+    };
+    // 隔離したファイルはアップロードが完了していないものとして扱う
+    if (quarantineReason) {
+      delete item.uploadedAt;
+    }
+
+    // APIを経由せずにオブジェクトが書き換えられた場合は、使用量を実際のサイズに合わせる
+    const delta =
+      metadata?.ownerId &&
+      metadata.chargedBytes !== undefined &&
+      !metadata.versions
+        ? size - metadata.size
+        : 0;
+    if (metadata?.ownerId && delta !== 0) {
+      item.chargedBytes = (metadata.chargedBytes as number) + delta;
+      await dynamoDb
+        .transactWrite({
+          TransactItems: [
+            { Put: { TableName: TASKS_TABLE, Item: item } },
+            this.quotaService.buildAdjust(metadata.ownerId, delta, 0),
+          ],
+        })
+        .promise();
+    } else {
+      await dynamoDb.put({ TableName: TASKS_TABLE, Item: item }).promise();
+    }
+
+    return fileMetadata;
+  }
+
+  /**
+   * S3からのオブジェクトの削除をメタデータに反映する
+   *
+   * S3のObjectRemovedイベントから呼び出され、{fileId}/{filename} 形式のキーのみを対象とします。
+   * アップロードが完了した（READY）ファイルのメタデータのみを削除し、
+   * アップロード待ちのファイルや、拒否時にオブジェクトを削除したファイルのメタデータは残します。
+   * 同じ内容の別のオブジェクトを共有しているファイル（重複排除時にこのキーのオブジェクトを削除したもの）も対象外です。
+   * 複数の版があるファイルは、版の履歴を失わないように対象外です（DELETE /files/{id} で削除します）。
+   * 削除したファイルの使用量は所有者の使用量から差し引きます。
+   *
+   * @param key - 削除されたオブジェクトのキー
+   * @returns メタデータを削除した場合はtrue、対象外の場合はfalse
+   *
+   * @example
+   * const deleted = await fileService.syncObjectRemoved(
+   *   '123e4567-e89b-12d3-a456-426614174000/document.pdf'
+   * );
+   */
+  async syncObjectRemoved(key: string): Promise<boolean> {
+    const parsed = parseFileKey(key);
+    if (!parsed) {
+      return false;
+    }
+
+    try {
+      const result = await dynamoDb
+        .delete({
+          TableName: TASKS_TABLE,
+          Key: { id: parsed.fileId },
+          ConditionExpression:
+            '#type = :type AND #filename = :filename AND (attribute_not_exists(#status) OR #status = :ready) AND (attribute_not_exists(#objectKey) OR #objectKey = :key) AND attribute_not_exists(#versions)',
+          ExpressionAttributeNames: {
+            '#type': 'type',
+            '#filename': 'filename',
+            '#status': 'status',
+            '#objectKey': 'objectKey',
+            '#versions': 'versions',
+          },
+          ExpressionAttributeValues: {
+            ':type': FILE_ENTITY_TYPE,
+            ':filename': parsed.filename,
+            ':ready': FileStatus.READY,
+            ':key': key,
+          },
+          ReturnValues: 'ALL_OLD',
+        })
+        .promise();
+      await this.quotaService.releaseFile(result.Attributes);
+      return true;
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * ファイルメタデータのサイズをS3上のオブジェクトのサイズに合わせる
+   *
+   * APIを経由せずにオブジェクトが書き換えられたなどの理由で、
+   * アップロードが完了した（READY）ファイルのサイズがオブジェクトと一致しない場合に使用します。
+   * 使用量を計上しているファイルは、所有者の使用量も同じトランザクションで差分だけ増減します。
+   * 確認後にメタデータが更新・削除された場合は何もしません。
+   *
+   * @param fileId - ファイルの一意識別子
+   * @param expectedSize - 現在のメタデータのサイズ（バイト）
+   * @param actualSize - S3上のオブジェクトのサイズ（バイト）
+   * @returns 更新した場合はtrue、メタデータが変更されていた場合はfalse
+   *
+   * @example
+   * const corrected = await fileService.correctFileSize(fileId, 1024, 2048);
+   */
+  async correctFileSize(
+    fileId: string,
+    expectedSize: number,
+    actualSize: number
+  ): Promise<boolean> {
+    const metadata = await this.getFileMetadata(fileId);
+    if (!metadata) {
+      return false;
+    }
+
+    const delta = actualSize - expectedSize;
+    // 使用量を計上している場合のみ、計上した所有者の使用量も修正する
+    const ownerId =
+      metadata.chargedBytes !== undefined ? metadata.ownerId : undefined;
+    const update = {
+      TableName: TASKS_TABLE,
+      Key: { id: fileId },
+      UpdateExpression: ownerId
+        ? 'SET #size = :actualSize ADD #chargedBytes :delta'
+        : 'SET #size = :actualSize',
+      ConditionExpression: ownerId
+        ? '#type = :type AND #status = :ready AND #size = :expectedSize AND #ownerId = :ownerId AND attribute_exists(#chargedBytes)'
+        : '#type = :type AND #status = :ready AND #size = :expectedSize AND attribute_not_exists(#chargedBytes)',
+      ExpressionAttributeNames: {
+        '#type': 'type',
+        '#status': 'status',
+        '#size': 'size',
+        '#chargedBytes': 'chargedBytes',
+        ...(ownerId ? { '#ownerId': 'ownerId' } : {}),
+      },
+      ExpressionAttributeValues: {
+        ':type': FILE_ENTITY_TYPE,
+        ':ready': FileStatus.READY,
+        ':expectedSize': expectedSize,
+        ':actualSize': actualSize,
+        ...(ownerId ? { ':delta': delta, ':ownerId': ownerId } : {}),
+      },
+    };
+
+    try {
+      if (ownerId) {
+        await dynamoDb
+          .transactWrite({
+            TransactItems: [
+              { Update: update },
+              this.quotaService.buildAdjust(ownerId, delta, 0),
+            ],
+          })
+          .promise();
+      } else {
+        await dynamoDb.update(update).promise();
+      }
+      return true;
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 期限を過ぎてもアップロードが完了していないファイルを削除する
+   *
+   * URLの発行から指定時間を過ぎてもPENDINGのままのメタデータを削除し、
+   * 途中までアップロードされたオブジェクトがあればS3からも削除します。
+   * 削除したファイルの使用量は所有者の使用量から差し引きます。
+   * 時間のかかるマルチパートアップロードは対象外で、MultipartUploadService.abortStaleUploadsで削除されます。
+   * 定期実行ハンドラーから呼び出されることを想定しています。
+   *
+   * @param expiryMinutes - アップロード完了の確認を待つ時間（分、デフォルト: PENDING_UPLOAD_EXPIRY_MINUTES）
+   * @returns 削除したファイルの件数
+   *
+   * @example
+   * const swept = await fileService.sweepExpiredUploads(60);
+   */
+  async sweepExpiredUploads(
+    expiryMinutes: number = PENDING_UPLOAD_EXPIRY_MINUTES
+  ): Promise<number> {
+    const cutoff = new Date(
+      Date.now() - expiryMinutes * 60 * 1000
+    ).toISOString();
+    let swept = 0;
+    let startKey: { [key: string]: any } | undefined;
+
+    do {
+      const result = await dynamoDb
+        .query({
+          TableName: TASKS_TABLE,
+          IndexName: STATUS_CREATED_AT_INDEX,
+          KeyConditionExpression: '#status = :pending AND #createdAt < :cutoff',
+          FilterExpression:
+            '#type = :type AND attribute_not_exists(#multipartUploadId)',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+            '#createdAt': 'createdAt',
+            '#type': 'type',
+            '#multipartUploadId': 'multipartUploadId',
+          },
+          ExpressionAttributeValues: {
+            ':pending': FileStatus.PENDING,
+            ':cutoff': cutoff,
+            ':type': FILE_ENTITY_TYPE,
+          },
+          ExclusiveStartKey: startKey,
+        })
+        .promise();
+
+      for (const item of result.Items || []) {
+        try {
+          // 一覧取得後にアップロードが完了したファイルは削除しない
+          const deleted = await dynamoDb
+            .delete({
+              TableName: TASKS_TABLE,
+              Key: { id: item.id },
+              ConditionExpression: '#status = :pending',
+              ExpressionAttributeNames: { '#status': 'status' },
+              ExpressionAttributeValues: { ':pending': FileStatus.PENDING },
+              ReturnValues: 'ALL_OLD',
+            })
+            .promise();
+          await this.quotaService.releaseFile(deleted.Attributes);
+        } catch (error) {
+          if (isConditionalCheckFailed(error)) {
+            continue;
+          }
+          throw error;
+        }
+
+        await s3
+          .deleteObject({
+            Bucket: FILES_BUCKET,
+            Key: `${item.id}/${item.filename}`,
+          })
+          .promise();
+        swept++;
+      }
+
+      startKey = result.LastEvaluatedKey;
+    } while (startKey);
+
+    return swept;
+  }
+
+  /**
+   * 既存のファイルにアップロードの状態と作成日時を補う
+   *
+   * アップロードの状態が導入される前に保存されたファイルはstatusとcreatedAtがないため、
+   * 一覧用のGSI（type-createdAt-index）の対象にならず、共有やアーカイブもできません。
+   * テーブル全体をスキャンし、それらのファイルをアップロード済み（READY）として、アップロード日時を作成日時に設定します。
+   * 既に持っている属性は変更しないため、何度実行しても同じ結果になります。
+   *
+   * @returns 移行したファイルの件数
+   *
+   * @example
+   * const migrated = await fileService.backfillLegacyFiles();
+   */
+  async backfillLegacyFiles(): Promise<number> {
+    let migrated = 0;
+    let startKey: { [key: string]: any } | undefined;
+
+    do {
+      const result = await dynamoDb
+        .scan({
+          TableName: TASKS_TABLE,
+          FilterExpression:
+            '#type = :type AND attribute_exists(#uploadedAt) AND (attribute_not_exists(#status) OR attribute_not_exists(#createdAt))',
+          ExpressionAttributeNames: {
+            '#type': 'type',
+            '#uploadedAt': 'uploadedAt',
+            '#status': 'status',
+            '#createdAt': 'createdAt',
+          },
+          ExpressionAttributeValues: { ':type': FILE_ENTITY_TYPE },
+          ExclusiveStartKey: startKey,
+        })
+        .promise();
+
+      for (const item of result.Items || []) {
+        try {
+          await dynamoDb
+            .update({
+              TableName: TASKS_TABLE,
+              Key: { id: item.id },
+              UpdateExpression:
+                'SET #status = if_not_exists(#status, :ready), #createdAt = if_not_exists(#createdAt, :uploadedAt)',
+              ConditionExpression:
+                'attribute_exists(id) AND #type = :type AND #uploadedAt = :uploadedAt',
+              ExpressionAttributeNames: {
+                '#type': 'type',
+                '#status': 'status',
+                '#createdAt': 'createdAt',
+                '#uploadedAt': 'uploadedAt',
+              },
+              ExpressionAttributeValues: {
+                ':type': FILE_ENTITY_TYPE,
+                ':ready': FileStatus.READY,
+                ':uploadedAt': item.uploadedAt,
+              },
+            })
+            .promise();
+          migrated++;
+        } catch (error) {
+          // スキャン後に削除または更新されたファイルは対象外とする
+          if (!isConditionalCheckFailed(error)) {
+            throw error;
+          }
+        }
+      }
+
+      startKey = result.LastEvaluatedKey;
+    } while (startKey);
+
+    return migrated;
+  }
+
   /**
    * ファイルを取得するための署名付きURLを生成する
    *
    * クライアントがS3からファイルをダウンロードするための時間制限付きURLを生成します。
    * これにより、ファイルへの一時的なアクセス権を持つURLが提供されます。
+   * 同じ内容の別のオブジェクトを共有しているファイルは、そのオブジェクトを
+   * このファイルの名前でダウンロードできるURLを生成します。
    *
    * @param fileId - ファイルの一意識別子
    * @param filename - ファイルの名前
+   * @param objectKey - S3上の実体のキー（デフォルト: {fileId}/{filename}）
+   * @param expiresSeconds - URLの有効期間（秒、デフォルト: 1時間）
    * @returns 署名付きダウンロードURL
    *
    * @example
    * const downloadUrl = fileService.getFileUrl('abc123', 'document.pdf');
    */
-  getFileUrl(fileId: string, filename: string): string {
-    const key = `${fileId}/${filename}`;
-
-    const params = {
+  getFileUrl(
+    fileId: string,
+    filename: string,
+    objectKey: string = `${fileId}/${filename}`,
+    expiresSeconds: number = 3600
+  ): string {
+    const params: { [key: string]: any } = {
       Bucket: FILES_BUCKET,
-      Key: key,
-      Expires: 3600, // 1時間有効
+      Key: objectKey,
+      Expires: expiresSeconds,
     };
 
+    if (objectKey !== `${fileId}/${filename}`) {
+      params.ResponseContentDisposition = `inline; filename*=UTF-8''${encodeURIComponent(filename)}`;
+    }
+
     return getSignedUrl('getObject', params);
   }
 
@@ -162,6 +1302,11 @@ export class FileService {
    * ファイルを削除する
    *
    * S3からファイルを削除し、関連するメタデータもDynamoDBから削除します。
+   * 隔離されたファイルの場合は quarantine/ 配下のオブジェクトも、サムネイルがある場合はサムネイルも削除します。
+   * 同じ内容のファイルとオブジェクトを共有している場合は参照カウントを減らし、
+   * 最後の参照がなくなった場合のみS3上のオブジェクトを削除します。
+   * 複数の版がある場合は、すべての版とアップロード待ちの版を削除します。
+   * 使用量を計上しているファイルは、計上したバイト数を所有者の使用量から差し引きます。
    *
    * @param fileId - 削除するファイルの一意識別子
    * @param filename - 削除するファイルの名前
@@ -174,21 +1319,59 @@ export class FileService {
     const key = `${fileId}/${filename}`;
 
     try {
-      // S3からファイルを削除
+      const metadata = await this.getFileMetadata(fileId);
+      // サムネイルとアップロード待ちの版は同じ内容のファイルとも共有しないため、ファイルごとに削除する
+      const ownedKeys = [
+        ...(metadata?.previews || []).map((preview) => ({ Key: preview.key })),
+        ...(metadata?.pendingVersion
+          ? [{ Key: metadata.pendingVersion.objectKey }]
+          : []),
+      ];
+
+      if (
+        metadata?.versions?.length ||
+        (metadata?.sha256 && metadata.objectKey)
+      ) {
+        if (metadata.versions?.length) {
+          await this.deleteVersionedFile(metadata);
+        } else {
+          await this.deleteSharedFile(metadata);
+        }
+        if (ownedKeys.length > 0) {
+          await s3
+            .deleteObjects({
+              Bucket: FILES_BUCKET,
+              Delete: { Objects: ownedKeys, Quiet: true },
+            })
+            .promise();
+        }
+        return true;
+      }
+
+      // S3からファイルを削除（隔離されている場合は隔離先のオブジェクト、サムネイルも削除）
       await s3
-        .deleteObject({
+        .deleteObjects({
           Bucket: FILES_BUCKET,
-          Key: key,
+          Delete: {
+            Objects: [
+              { Key: key },
+              { Key: `${QUARANTINE_PREFIX}${key}` },
+              ...ownedKeys,
+            ],
+            Quiet: true,
+          },
         })
         .promise();
 
       // メタデータを削除
-      await dynamoDb
+      const result = await dynamoDb
         .delete({
           TableName: TASKS_TABLE,
           Key: { id: fileId },
+          ReturnValues: 'ALL_OLD',
         })
         .promise();
+      await this.quotaService.releaseFile(result.Attributes);
 
       return true;
     } catch (error) {
@@ -196,4 +1379,519 @@ export class FileService {
       return false;
     }
   }
+
+  /**
+   * アップロードが完了したファイルをREADYにし、同じ内容のオブジェクトへの参照を追加する
+   *
+   * 同じSHA-256の実体が登録されていない場合は、アップロードされたオブジェクトを実体として登録します。
+   * 登録済みの場合は既存のオブジェクトを共有し、アップロードされたオブジェクトを削除します。
+   * メタデータの更新と参照カウントの更新は同じトランザクションで行います。
+   * 検証したSHA-256がない場合（SHA-256が必須になる前に開始したマルチパートアップロード）は、
+   * 既存のオブジェクトを共有しないように、実体を登録せずにアップロードされたオブジェクトをそのまま使用します。
+   *
+   * @param metadata - アップロード待ちのファイルメタデータ
+   * @param key - アップロードされたオブジェクトのキー
+   * @param size - オブジェクトのサイズ（バイト）
+   * @param sha256 - S3で検証した（またはオブジェクトを読み込んで計算した）内容のSHA-256
+   * @returns 更新されたファイルメタデータ
+   * @throws ConflictError - 同時に別の確認が行われた場合、または参照の追加の競合が解消しない場合
+   * @private
+   */
+  private async markReady(
+    metadata: FileMetadata,
+    key: string,
+    size: number,
+    sha256: string | undefined
+  ): Promise<FileMetadata> {
+    if (!sha256) {
+      const uploadedAt = new Date().toISOString();
+      try {
+        await dynamoDb
+          .update({
+            TableName: TASKS_TABLE,
+            Key: { id: metadata.id },
+            UpdateExpression:
+              'SET #status = :status, #size = :size, #uploadedAt = :uploadedAt',
+            ConditionExpression: '#status = :pending',
+            ExpressionAttributeNames: {
+              '#status': 'status',
+              '#size': 'size',
+              '#uploadedAt': 'uploadedAt',
+            },
+            ExpressionAttributeValues: {
+              ':pending': FileStatus.PENDING,
+              ':status': FileStatus.READY,
+              ':size': size,
+              ':uploadedAt': uploadedAt,
+            },
+          })
+          .promise();
+      } catch (error) {
+        if (isConditionalCheckFailed(error)) {
+          throw new ConflictError(
+            'ファイルの状態が変更されたため、アップロードを完了できませんでした'
+          );
+        }
+        throw error;
+      }
+
+      return { ...metadata, status: FileStatus.READY, size, uploadedAt };
+    }
+
+    for (let attempt = 0; attempt < MAX_ADD_REFERENCE_ATTEMPTS; attempt++) {
+      const blob = await this.blobService.getBlob(sha256);
+      const objectKey = blob?.objectKey || key;
+      const uploadedAt = new Date().toISOString();
+
+      try {
+        await dynamoDb
+          .transactWrite({
+            TransactItems: [
+              {
+                Update: {
+                  TableName: TASKS_TABLE,
+                  Key: { id: metadata.id },
+                  UpdateExpression:
+                    'SET #status = :status, #size = :size, #uploadedAt = :uploadedAt, #sha256 = :sha256, #objectKey = :objectKey',
+                  ConditionExpression: '#status = :pending',
+                  ExpressionAttributeNames: {
+                    '#status': 'status',
+                    '#size': 'size',
+                    '#uploadedAt': 'uploadedAt',
+                    '#sha256': 'sha256',
+                    '#objectKey': 'objectKey',
+                  },
+                  ExpressionAttributeValues: {
+                    ':pending': FileStatus.PENDING,
+                    ':status': FileStatus.READY,
+                    ':size': size,
+                    ':uploadedAt': uploadedAt,
+                    ':sha256': sha256,
+                    ':objectKey': objectKey,
+                  },
+                },
+              },
+              this.blobService.buildAddReference(
+                blob,
+                sha256,
+                key,
+                size,
+                uploadedAt
+              ),
+            ],
+          })
+          .promise();
+      } catch (error) {
+        if (!isConditionalCheckFailed(error)) {
+          throw error;
+        }
+
+        // ファイルの状態が変わった場合は完了できない。実体が変わった場合は取得からやり直す
+        const current = await this.getFileMetadata(metadata.id);
+        if (current?.status !== FileStatus.PENDING) {
+          throw new ConflictError(
+            'ファイルの状態が変更されたため、アップロードを完了できませんでした'
+          );
+        }
+        continue;
+      }
+
+      // 既存のオブジェクトを共有する場合、アップロードされたオブジェクトは不要になる
+      if (objectKey !== key) {
+        await s3.deleteObject({ Bucket: FILES_BUCKET, Key: key }).promise();
+      }
+
+      return {
+        ...metadata,
+        status: FileStatus.READY,
+        size,
+        uploadedAt,
+        sha256,
+        objectKey,
+      };
+    }
+
+    throw new ConflictError(
+      '同じ内容のファイルの登録が競合したため、アップロードを完了できませんでした。再度実行してください'
+    );
+  }
+
+  /**
+   * 同じ内容のファイルとオブジェクトを共有しているファイルを削除する
+   *
+   * メタデータの削除、参照カウントの減算、使用量の減算を同じトランザクションで行い、
+   * 参照がなくなった場合のみ実体とS3上のオブジェクトを削除します。
+   *
+   * @param metadata - 削除するファイルメタデータ
+   * @returns 削除成功時はtrue
+   * @private
+   */
+  private async deleteSharedFile(metadata: FileMetadata): Promise<boolean> {
+    const sha256 = metadata.sha256 as string;
+    const charged = chargedBytesCondition(metadata);
+
+    await dynamoDb
+      .transactWrite({
+        TransactItems: [
+          {
+            Delete: {
+              TableName: TASKS_TABLE,
+              Key: { id: metadata.id },
+              ConditionExpression: `#type = :type AND #sha256 = :sha256 AND ${charged.expression}`,
+              ExpressionAttributeNames: {
+                '#type': 'type',
+                '#sha256': 'sha256',
+                '#chargedBytes': 'chargedBytes',
+              },
+              ExpressionAttributeValues: {
+                ':type': FILE_ENTITY_TYPE,
+                ':sha256': sha256,
+                ...charged.values,
+              },
+            },
+          },
+          this.blobService.buildRemoveReference(sha256),
+          ...this.quotaService.buildReleaseFile(metadata),
+        ],
+      })
+      .promise();
+
+    const objectKey = await this.blobService.deleteIfUnreferenced(sha256);
+    if (objectKey) {
+      await s3.deleteObject({ Bucket: FILES_BUCKET, Key: objectKey }).promise();
+    }
+
+    return true;
+  }
+
+  /**
+   * 複数の版があるファイルを削除する
+   *
+   * メタデータの削除、すべての版の参照カウントの減算、使用量の減算を同じトランザクションで行い、
+   * 参照がなくなった実体と、参照カウントを管理していない版のS3上のオブジェクトを削除します。
+   * 確認後に版が追加された場合はトランザクションが失敗します。
+   *
+   * @param metadata - 削除するファイルメタデータ（versionsを持つもの）
+   * @returns 削除成功時はtrue
+   * @private
+   */
+  private async deleteVersionedFile(metadata: FileMetadata): Promise<boolean> {
+    const versions = metadata.versions as FileVersion[];
+    const charged = chargedBytesCondition(metadata);
+    const references = new Map<string, number>();
+    const objectKeys: { Key: string }[] = [];
+    for (const version of versions) {
+      if (version.sha256) {
+        references.set(
+          version.sha256,
+          (references.get(version.sha256) || 0) + 1
+        );
+      } else {
+        objectKeys.push({ Key: version.objectKey });
+      }
+    }
+
+    await dynamoDb
+      .transactWrite({
+        TransactItems: [
+          {
+            Delete: {
+              TableName: TASKS_TABLE,
+              Key: { id: metadata.id },
+              ConditionExpression: `#type = :type AND size(#versions) = :count AND ${charged.expression}`,
+              ExpressionAttributeNames: {
+                '#type': 'type',
+                '#versions': 'versions',
+                '#chargedBytes': 'chargedBytes',
+              },
+              ExpressionAttributeValues: {
+                ':type': FILE_ENTITY_TYPE,
+                ':count': versions.length,
+                ...charged.values,
+              },
+            },
+          },
+          ...Array.from(references, ([sha256, count]) =>
+            this.blobService.buildRemoveReference(sha256, count)
+          ),
+          ...this.quotaService.buildReleaseFile(metadata),
+        ],
+      })
+      .promise();
+
+    for (const sha256 of references.keys()) {
+      const objectKey = await this.blobService.deleteIfUnreferenced(sha256);
+      if (objectKey) {
+        objectKeys.push({ Key: objectKey });
+      }
+    }
+
+    if (objectKeys.length > 0) {
+      await s3
+        .deleteObjects({
+          Bucket: FILES_BUCKET,
+          Delete: { Objects: objectKeys, Quiet: true },
+        })
+        .promise();
+    }
+
+    return true;
+  }
+
+  /**
+   * オブジェクトの内容が申告されたMIMEタイプと矛盾する場合に隔離する
+   *
+   * @param key - オブジェクトのキー
+   * @param contentType - 申告されたMIMEタイプ
+   * @param size - オブジェクトのサイズ（バイト）
+   * @returns 隔離した理由、矛盾しない場合はundefined
+   * @private
+   */
+  private async quarantineIfMismatched(
+    key: string,
+    contentType: string,
+    size: number
+  ): Promise<string | undefined> {
+    const reason = await this.detectContentMismatch(key, contentType, size);
+    if (reason) {
+      await this.quarantineObject(key);
+    }
+    return reason;
+  }
+
+  /**
+   * オブジェクトの内容が申告されたMIMEタイプと矛盾するかを判定する
+   *
+   * オブジェクトの先頭のバイト列を範囲指定で取得して形式を判定します。
+   *
+   * @param key - オブジェクトのキー
+   * @param contentType - 申告されたMIMEタイプ
+   * @param size - オブジェクトのサイズ（バイト）
+   * @returns 矛盾する理由、矛盾しない場合はundefined
+   * @private
+   */
+  private async detectContentMismatch(
+    key: string,
+    contentType: string,
+    size: number
+  ): Promise<string | undefined> {
+    // 空のファイルは判定できない
+    if (size === 0) {
+      return undefined;
+    }
+
+    const { Body } = await s3
+      .getObject({
+        Bucket: FILES_BUCKET,
+        Key: key,
+        Range: `bytes=0-${SNIFF_BYTES - 1}`,
+      })
+      .promise();
+    const declaredType = normalizeContentType(contentType);
+    if (matchesDeclaredType(declaredType, Buffer.from(Body as Buffer))) {
+      return undefined;
+    }
+
+    return `ファイルの内容が申告されたMIMEタイプ（${declaredType}）と一致しません`;
+  }
+
+  /**
+   * オブジェクトを隔離する
+   *
+   * quarantine/ 配下にコピーしてから元のオブジェクトを削除します。
+   * 隔離先のキーは {fileId}/{filename} 形式ではないため、S3イベントの同期の対象になりません。
+   *
+   * @param key - オブジェクトのキー
+   * @private
+   */
+  private async quarantineObject(key: string): Promise<void> {
+    const quarantineKey = `${QUARANTINE_PREFIX}${key}`;
+    await s3
+      .copyObject({
+        Bucket: FILES_BUCKET,
+        CopySource: encodeURIComponent(`${FILES_BUCKET}/${key}`),
+        Key: quarantineKey,
+      })
+      .promise();
+    await s3.deleteObject({ Bucket: FILES_BUCKET, Key: key }).promise();
+
+    console.warn(
+      `ファイルの内容が申告されたMIMEタイプと一致しないため隔離しました: ${quarantineKey}`
+    );
+  }
+
+  /**
+   * S3上のオブジェクトの属性を取得する
+   *
+   * アップロード時に検証されたチェックサムも取得します。
+   *
+   * @param key - オブジェクトのキー
+   * @returns オブジェクトの属性、オブジェクトが存在しない場合はnull
+   * @private
+   */
+  private async headObject(key: string): Promise<HeadObjectOutput | null> {
+    try {
+      return await s3
+        .headObject({ Bucket: FILES_BUCKET, Key: key, ChecksumMode: 'ENABLED' })
+        .promise();
+    } catch (error) {
+      if ((error as { code?: string }).code === 'NotFound') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * オブジェクトへのアクセスURLを作成する
+   *
+   * @param key - オブジェクトのキー
+   * @returns オブジェクトへのアクセスURL（LocalStackの場合はLocalStackのURL）
+   *
+   * @example
+   * const url = fileService.buildObjectUrl('previews/abc123/128.png');
+   */
+  buildObjectUrl(key: string): string {
+    const objectUrl = `https://${FILES_BUCKET}.s3.amazonaws.com/${key}`;
+    // LocalStackの場合は別のURLになる
+    const localstackUrl = `http://localhost:4566/${FILES_BUCKET}/${key}`;
+
+    return process.env.STAGE === 'local' ? localstackUrl : objectUrl;
+  }
+
+  /**
+   * ファイルへのアクセスURLを作成する
+   *
+   * @param fileId - ファイルの一意識別子
+   * @param filename - ファイルの名前
+   * @returns ファイルへのアクセスURL（LocalStackの場合はLocalStackのURL）
+   * @private
+   */
+  private buildFileUrl(fileId: string, filename: string): string {
+    return this.buildObjectUrl(`${fileId}/${filename}`);
+  }
+
+  /**
+   * DynamoDBのアイテムをファイルメタデータに変換する
+   *
+   * テーブル内部でのみ使用するtype属性を取り除きます。
+   * アップロードの状態が導入される前に保存されたファイル（statusとcreatedAtがない）は、
+   * 移行（backfillLegacyFiles）が実行されるまでアップロード済みとして扱います。
+   *
+   * @param item - DynamoDBから取得したアイテム
+   * @returns ファイルメタデータ
+   * @private
+   */
+  private toFileMetadata(item: { [key: string]: any }): FileMetadata {
+    const { type, ...metadata } = item;
+    return {
+      ...metadata,
+      status: metadata.status || FileStatus.READY,
+      createdAt: metadata.createdAt || metadata.uploadedAt,
+    } as FileMetadata;
+  }
+}
+
+/**
+ * オブジェクトキーからファイルIDとファイル名を取り出す
+ *
+ * @param key - オブジェクトのキー（URLエンコードされていないもの）
+ * @returns ファイルIDとファイル名、{fileId}/{filename} 形式でない場合はnull
+ *
+ * @example
+ * parseFileKey('123e4567-e89b-12d3-a456-426614174000/document.pdf')
+ * // => { fileId: '123e4567-e89b-12d3-a456-426614174000', filename: 'document.pdf' }
+ */
+export function parseFileKey(
+  key: string
+): { fileId: string; filename: string } | null {
+  const match = FILE_KEY_PATTERN.exec(key);
+  return match ? { fileId: match[1], filename: match[2] } : null;
+}
+
+/**
+ * クライアントが申告したSHA-256を検証して正規化する
+ *
+ * @param sha256 - 16進数64桁のSHA-256
+ * @returns 小文字に変換したSHA-256
+ * @throws ValidationError - 形式が不正な場合
+ *
+ * @example
+ * normalizeSha256('E3B0C442...B855') // => 'e3b0c442...b855'
+ */
+export function normalizeSha256(sha256: unknown): string {
+  const normalized = typeof sha256 === 'string' ? sha256.toLowerCase() : '';
+  if (!SHA256_PATTERN.test(normalized)) {
+    throw new ValidationError(
+      'sha256 はファイルの内容のSHA-256を16進数64桁で指定してください'
+    );
+  }
+  return normalized;
+}
+
+/**
+ * 16進数のSHA-256を、S3のチェックサム（x-amz-checksum-sha256）の形式に変換する
+ *
+ * @param sha256 - 16進数のSHA-256
+ * @returns Base64形式のチェックサム
+ *
+ * @example
+ * toSha256Checksum('e3b0c442...b855') // => '47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU='
+ */
+export function toSha256Checksum(sha256: string): string {
+  return Buffer.from(sha256, 'hex').toString('base64');
+}
+
+/**
+ * S3のチェックサム（ChecksumSHA256）を16進数のSHA-256に変換する
+ *
+ * マルチパートアップロードのオブジェクトのチェックサムは、パートのチェックサムから計算した値に
+ * パート数（-N）が付いたもので、オブジェクト全体のSHA-256ではないため変換しません。
+ *
+ * @param checksum - Base64形式のチェックサム
+ * @returns 16進数の小文字のSHA-256、チェックサムがない、またはオブジェクト全体の値ではない場合はundefined
+ *
+ * @example
+ * fromSha256Checksum('47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU=') // => 'e3b0c442...b855'
+ */
+export function fromSha256Checksum(
+  checksum: string | undefined
+): string | undefined {
+  if (!checksum || checksum.includes('-')) {
+    return undefined;
+  }
+  return Buffer.from(checksum, 'base64').toString('hex');
+}
+
+/**
+ * 使用量として計上しているバイト数が確認時から変わっていないことを表す条件式を作成する
+ *
+ * 確認後に新しい版のアップロードなどで計上したバイト数が変わった場合に、
+ * 古い値で使用量を差し引かないようにします。条件式では #chargedBytes を使用します。
+ *
+ * @param metadata - 確認時のファイルメタデータ
+ * @returns 条件式と、条件式で使用する値
+ */
+function chargedBytesCondition(metadata: FileMetadata): {
+  expression: string;
+  values: { [key: string]: any };
+} {
+  return metadata.chargedBytes !== undefined
+    ? {
+        expression: '#chargedBytes = :chargedBytes',
+        values: { ':chargedBytes': metadata.chargedBytes },
+      }
+    : { expression: 'attribute_not_exists(#chargedBytes)', values: {} };
+}
+
+/**
+ * MIMEタイプを比較用に正規化する
+ *
+ * パラメータ（charsetなど）を取り除き、小文字に変換します。
+ *
+ * @param contentType - MIMEタイプ
+ * @returns 正規化したMIMEタイプ
+ */
+function normalizeContentType(contentType?: string): string {
+  return (contentType || '').split(';')[0].trim().toLowerCase();
 }
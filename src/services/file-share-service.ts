@@ -0,0 +1,454 @@
+/**
+ * ファイル共有リンクサービスクラス
+ *
+ * このクラスはファイルを認証なしでダウンロードできる共有リンクの作成・一覧・無効化と、
+ * 共有リンクからのダウンロードを担当します。共有リンクはタスクと同じテーブルに
+ * type: 'SHARE' のアイテムとして保存され、有効期限・最大ダウンロード回数・パスワードを設定できます。
+ * ダウンロード時は回数を数えたうえで、短時間だけ有効な署名付きURLを発行します。
+ */
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { FileService } from './file-service';
+import { dynamoDb, TASKS_TABLE } from '../utils/aws-clients';
+import {
+  ConflictError,
+  GoneError,
+  UnauthorizedError,
+  ValidationError,
+  isConditionalCheckFailed,
+} from '../utils/errors';
+import {
+  encodeCursor,
+  decodeCursor,
+  DEFAULT_PAGE_LIMIT,
+} from '../utils/pagination';
+import {
+  FileShare,
+  FileShareInput,
+  FileStatus,
+  PaginatedResult,
+} from '../types';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+/**
+ * 共有リンクを識別するためのtype属性の値
+ */
+const SHARE_ENTITY_TYPE = 'SHARE';
+
+/**
+ * 共有リンクのアイテムのIDの接頭辞
+ * ファイルやタスクのID（UUID）と衝突しないようにします
+ */
+const SHARE_ID_PREFIX = 'SHARE#';
+
+/**
+ * ファイルごとの共有リンクを作成日時順に取得するためのインデックス名
+ */
+const FILE_ID_CREATED_AT_INDEX = 'fileId-createdAt-index';
+
+/**
+ * 共有リンクのトークンのバイト数（Base64URLで43文字）
+ */
+const TOKEN_BYTES = 32;
+
+/**
+ * パスワードのハッシュに使用するソルトと鍵のバイト数
+ */
+const PASSWORD_SALT_BYTES = 16;
+const PASSWORD_KEY_BYTES = 32;
+
+/**
+ * 有効期限を指定しなかった場合の有効期間（秒）
+ * 環境変数 FILE_SHARE_DEFAULT_EXPIRY_SECONDS で変更できます
+ */
+export const DEFAULT_SHARE_EXPIRY_SECONDS = Number(
+  process.env.FILE_SHARE_DEFAULT_EXPIRY_SECONDS || 7 * 24 * 60 * 60
+);
+
+/**
+ * 指定できる有効期間の範囲（秒、1分〜30日）
+ */
+const MIN_SHARE_EXPIRY_SECONDS = 60;
+const MAX_SHARE_EXPIRY_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * 共有リンクからのリダイレクト先の署名付きURLの有効期間（秒）
+ * URLが転送されても再利用できないように短くしています
+ */
+export const SHARE_DOWNLOAD_URL_EXPIRES_SECONDS = 60;
+
+export class FileShareService {
+  /**
+   * @param fileService - 共有するファイルの取得とダウンロードURLの発行に使用するサービス
+   */
+  constructor(private readonly fileService: FileService = new FileService()) {}
+
+  /**
+   * ファイルの共有リンクを作成する
+   *
+   * アップロードが完了した（READY）ファイルのみ共有できます。
+   * パスワードはscryptでハッシュ化して保存します。
+   *
+   * @param fileId - 共有するファイルの一意識別子
+   * @param input - 有効期間（秒）、最大ダウンロード回数、パスワード
+   * @returns 作成された共有リンク、ファイルが見つからない場合はnull
+   * @throws ValidationError - 入力値が不正な場合
+   * @throws ConflictError - ファイルのアップロードが完了していない場合
+   *
+   * @example
+   * const share = await fileShareService.createShare(fileId, {
+   *   expiresInSeconds: 24 * 60 * 60,
+   *   maxDownloads: 5,
+   *   password: 'correct horse',
+   * });
+   */
+  async createShare(
+    fileId: string,
+    input: FileShareInput = {}
+  ): Promise<FileShare | null> {
+    const {
+      expiresInSeconds = DEFAULT_SHARE_EXPIRY_SECONDS,
+      maxDownloads,
+      password,
+    } = input;
+
+    if (
+      !Number.isInteger(expiresInSeconds) ||
+      expiresInSeconds < MIN_SHARE_EXPIRY_SECONDS ||
+      expiresInSeconds > MAX_SHARE_EXPIRY_SECONDS
+    ) {
+      throw new ValidationError(
+        `expiresInSeconds は${MIN_SHARE_EXPIRY_SECONDS}〜${MAX_SHARE_EXPIRY_SECONDS}の整数で指定してください`
+      );
+    }
+    if (
+      maxDownloads !== undefined &&
+      (!Number.isInteger(maxDownloads) || maxDownloads < 1)
+    ) {
+      throw new ValidationError('maxDownloads は1以上の整数で指定してください');
+    }
+    if (
+      password !== undefined &&
+      (typeof password !== 'string' || password.length === 0)
+    ) {
+      throw new ValidationError('password は空でない文字列で指定してください');
+    }
+
+    const file = await this.fileService.getFileMetadata(fileId);
+    if (!file) {
+      return null;
+    }
+    if (file.status !== FileStatus.READY) {
+      throw new ConflictError(
+        'アップロードが完了していないファイルは共有できません',
+        { status: file.status }
+      );
+    }
+
+    const now = new Date();
+    const token = randomBytes(TOKEN_BYTES).toString('base64url');
+    const item = {
+      id: `${SHARE_ID_PREFIX}${token}`,
+      type: SHARE_ENTITY_TYPE,
+      token,
+      fileId,
+      expiresAt: new Date(
+        now.getTime() + expiresInSeconds * 1000
+      ).toISOString(),
+      downloadCount: 0,
+      createdAt: now.toISOString(),
+      ...(maxDownloads !== undefined && { maxDownloads }),
+      ...(password !== undefined && {
+        passwordHash: await hashPassword(password),
+      }),
+    };
+
+    await dynamoDb
+      .put({
+        TableName: TASKS_TABLE,
+        Item: item,
+        ConditionExpression: 'attribute_not_exists(id)',
+      })
+      .promise();
+
+    return this.toFileShare(item);
+  }
+
+  /**
+   * ファイルの共有リンクの一覧を取得する
+   *
+   * 無効化・期限切れの共有リンクも含め、作成日時の新しい順に返します。
+   *
+   * @param fileId - ファイルの一意識別子
+   * @param query - ページサイズとカーソル
+   * @returns 共有リンクの配列と次ページ取得用のカーソル
+   * @throws ValidationError - カーソルの形式が不正な場合
+   */
+  async listShares(
+    fileId: string,
+    query: { limit?: number; cursor?: string } = {}
+  ): Promise<PaginatedResult<FileShare>> {
+    const { limit = DEFAULT_PAGE_LIMIT, cursor } = query;
+
+    const result = await dynamoDb
+      .query({
+        TableName: TASKS_TABLE,
+        IndexName: FILE_ID_CREATED_AT_INDEX,
+        KeyConditionExpression: '#fileId = :fileId',
+        FilterExpression: '#type = :type',
+        ExpressionAttributeNames: { '#fileId': 'fileId', '#type': 'type' },
+        ExpressionAttributeValues: {
+          ':fileId': fileId,
+          ':type': SHARE_ENTITY_TYPE,
+        },
+        ScanIndexForward: false,
+        Limit: limit,
+        ExclusiveStartKey: decodeCursor(cursor),
+      })
+      .promise();
+
+    return {
+      items: (result.Items || []).map((item) => this.toFileShare(item)),
+      nextCursor: encodeCursor(result.LastEvaluatedKey),
+    };
+  }
+
+  /**
+   * 共有リンクを無効化する
+   *
+   * 一覧で確認できるように共有リンクのアイテムは残し、無効化した日時を記録します。
+   * 既に無効化されている場合はそのまま返します。
+   *
+   * @param fileId - ファイルの一意識別子
+   * @param token - 無効化する共有リンクのトークン
+   * @returns 無効化した共有リンク、ファイルの共有リンクが見つからない場合はnull
+   *
+   * @example
+   * const share = await fileShareService.revokeShare(fileId, token);
+   */
+  async revokeShare(fileId: string, token: string): Promise<FileShare | null> {
+    try {
+      const result = await dynamoDb
+        .update({
+          TableName: TASKS_TABLE,
+          Key: { id: `${SHARE_ID_PREFIX}${token}` },
+          UpdateExpression: 'SET #revokedAt = :now',
+          ConditionExpression:
+            '#type = :type AND #fileId = :fileId AND attribute_not_exists(#revokedAt)',
+          ExpressionAttributeNames: {
+            '#type': 'type',
+            '#fileId': 'fileId',
+            '#revokedAt': 'revokedAt',
+          },
+          ExpressionAttributeValues: {
+            ':type': SHARE_ENTITY_TYPE,
+            ':fileId': fileId,
+            ':now': new Date().toISOString(),
+          },
+          ReturnValues: 'ALL_NEW',
+        })
+        .promise();
+
+      return this.toFileShare(result.Attributes || {});
+    } catch (error) {
+      if (!isConditionalCheckFailed(error)) {
+        throw error;
+      }
+
+      const item = await this.getShareItem(token);
+      return item?.fileId === fileId ? this.toFileShare(item) : null;
+    }
+  }
+
+  /**
+   * 共有リンクからのダウンロードを受け付ける
+   *
+   * 共有リンクが有効でパスワードが一致すればダウンロード回数を1増やし、
+   * 短時間だけ有効な署名付きURLを返します。回数の更新は条件付き書き込みで行うため、
+   * 同時にダウンロードされても最大ダウンロード回数を超えることはありません。
+   *
+   * @param token - 共有リンクのトークン
+   * @param password - 利用者が入力したパスワード（パスワードを設定した共有リンクの場合）
+   * @returns 更新された共有リンクとダウンロード用の署名付きURL、共有リンクが見つからない場合はnull
+   * @throws GoneError - 無効化・期限切れ・回数の上限に達した共有リンク、またはファイルが削除された場合
+   * @throws UnauthorizedError - パスワードがない、または一致しない場合
+   *
+   * @example
+   * const result = await fileShareService.redeemShare(token, password);
+   * if (result) {
+   *   return redirectResponse(result.downloadUrl);
+   * }
+   */
+  async redeemShare(
+    token: string,
+    password?: string
+  ): Promise<{ share: FileShare; downloadUrl: string } | null> {
+    const item = await this.getShareItem(token);
+    if (!item) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    this.assertRedeemable(this.toFileShare(item), now);
+
+    if (item.passwordHash) {
+      if (!password) {
+        throw new UnauthorizedError(
+          'この共有リンクのダウンロードにはパスワードが必要です'
+        );
+      }
+      if (!(await verifyPassword(password, item.passwordHash))) {
+        throw new UnauthorizedError('パスワードが正しくありません');
+      }
+    }
+
+    const file = await this.fileService.getFileMetadata(item.fileId);
+    if (!file || file.status !== FileStatus.READY) {
+      throw new GoneError('共有されたファイルは削除されました');
+    }
+
+    let share: FileShare;
+    try {
+      const result = await dynamoDb
+        .update({
+          TableName: TASKS_TABLE,
+          Key: { id: item.id },
+          UpdateExpression: 'ADD #downloadCount :one',
+          ConditionExpression:
+            'attribute_not_exists(#revokedAt) AND #expiresAt > :now AND (attribute_not_exists(#maxDownloads) OR #downloadCount < #maxDownloads)',
+          ExpressionAttributeNames: {
+            '#downloadCount': 'downloadCount',
+            '#revokedAt': 'revokedAt',
+            '#expiresAt': 'expiresAt',
+            '#maxDownloads': 'maxDownloads',
+          },
+          ExpressionAttributeValues: { ':one': 1, ':now': now },
+          ReturnValues: 'ALL_NEW',
+        })
+        .promise();
+      share = this.toFileShare(result.Attributes || {});
+    } catch (error) {
+      if (!isConditionalCheckFailed(error)) {
+        throw error;
+      }
+
+      // 確認後に無効化された、または同時のダウンロードで上限に達した
+      const current = await this.getShareItem(token);
+      if (current) {
+        this.assertRedeemable(this.toFileShare(current), now);
+      }
+      throw new GoneError('この共有リンクは無効です');
+    }
+
+    return {
+      share,
+      downloadUrl: this.fileService.getFileUrl(
+        file.id,
+        file.filename,
+        file.objectKey,
+        SHARE_DOWNLOAD_URL_EXPIRES_SECONDS
+      ),
+    };
+  }
+
+  /**
+   * 共有リンクがダウンロードに使用できる状態かを確認する
+   *
+   * @param share - 共有リンク
+   * @param now - 現在日時（ISO 8601形式）
+   * @throws GoneError - 無効化・期限切れ・回数の上限に達した場合
+   * @private
+   */
+  private assertRedeemable(share: FileShare, now: string): void {
+    if (share.revokedAt) {
+      throw new GoneError('この共有リンクは無効化されています');
+    }
+    if (share.expiresAt <= now) {
+      throw new GoneError('この共有リンクは有効期限が切れています', {
+        expiresAt: share.expiresAt,
+      });
+    }
+    if (
+      share.maxDownloads !== undefined &&
+      share.downloadCount >= share.maxDownloads
+    ) {
+      throw new GoneError(
+        'この共有リンクはダウンロード回数の上限に達しています',
+        { maxDownloads: share.maxDownloads }
+      );
+    }
+  }
+
+  /**
+   * 共有リンクのアイテムを取得する
+   *
+   * @param token - 共有リンクのトークン
+   * @returns 共有リンクのアイテム、見つからない場合はnull
+   * @private
+   */
+  private async getShareItem(
+    token: string
+  ): Promise<{ [key: string]: any } | null> {
+    const result = await dynamoDb
+      .get({
+        TableName: TASKS_TABLE,
+        Key: { id: `${SHARE_ID_PREFIX}${token}` },
+      })
+      .promise();
+
+    return result.Item?.type === SHARE_ENTITY_TYPE ? result.Item : null;
+  }
+
+  /**
+   * DynamoDBのアイテムを共有リンクに変換する
+   *
+   * テーブル内部でのみ使用する属性とパスワードのハッシュを取り除きます。
+   *
+   * @param item - DynamoDBから取得したアイテム
+   * @returns 共有リンク
+   * @private
+   */
+  private toFileShare(item: { [key: string]: any }): FileShare {
+    const { id, type, passwordHash, ...share } = item;
+    return { ...share, passwordProtected: !!passwordHash } as FileShare;
+  }
+}
+
+/**
+ * パスワードをscryptでハッシュ化する
+ *
+ * @param password - パスワード
+ * @returns 「ソルト:ハッシュ」形式（いずれも16進数）の文字列
+ */
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(PASSWORD_SALT_BYTES);
+  const key = await scryptAsync(password, salt, PASSWORD_KEY_BYTES);
+  return `${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+/**
+ * パスワードがハッシュと一致するかを判定する
+ *
+ * 比較にかかる時間から一致した長さを推測されないように、timingSafeEqualで比較します。
+ *
+ * @param password - 利用者が入力したパスワード
+ * @param passwordHash - hashPasswordで作成したハッシュ
+ * @returns 一致する場合はtrue
+ */
+async function verifyPassword(
+  password: string,
+  passwordHash: string
+): Promise<boolean> {
+  const [salt, expected] = passwordHash.split(':');
+  const key = await scryptAsync(
+    password,
+    Buffer.from(salt, 'hex'),
+    PASSWORD_KEY_BYTES
+  );
+  return timingSafeEqual(key, Buffer.from(expected, 'hex'));
+}
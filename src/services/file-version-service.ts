@@ -0,0 +1,723 @@
+/**
+ * ファイルの版管理サービスクラス
+ *
+ * このクラスは同じファイル（ファイルID）に新しい版をアップロードし、版の履歴を管理します。
+ * 版の一覧はファイルメタデータの versions に保存され、現在の版の内容は
+ * filename・contentType・size などのファイルメタデータの属性にも反映されます。
+ * 新しい版のアップロードも2段階で行います。署名付きPOSTの発行時にアップロード待ちの版（pendingVersion）を保存し、
+ * versions/{fileId}/{version}/{filename} へのアップロード後にcompleteVersionUploadで申告内容と照合します。
+ * 各版はファイルの実体（FileBlobService）への参照を1つずつ持つため、
+ * 同じ内容の版を何度アップロードしてもS3上のオブジェクトは1つだけです。
+ * 版の復元は現在の版を指定した版に切り替えるだけで、新しい版は追加しません。
+ * 使用量を計上しているファイルは、アップロード待ちの版の申告サイズをファイルの所有者の使用量に加え、
+ * 以前の版を含むすべての版のサイズを計上し続けます（復元しても使用量は変わりません）。
+ */
+import { DocumentClient } from 'aws-sdk/clients/dynamodb';
+import { FileService, MAX_SINGLE_UPLOAD_SIZE } from './file-service';
+import { FileBlobService } from './file-blob-service';
+import { StorageQuotaService } from './storage-quota-service';
+import { s3, FILES_BUCKET, dynamoDb, TASKS_TABLE } from '../utils/aws-clients';
+import {
+  ConflictError,
+  UnprocessableEntityError,
+  ValidationError,
+  isConditionalCheckFailed,
+} from '../utils/errors';
+import {
+  FileMetadata,
+  FileStatus,
+  FileVersion,
+  PendingFileVersion,
+  PresignedUpload,
+} from '../types';
+
+/**
+ * 新しい版のオブジェクトのキーの接頭辞
+ * 新しい版は versions/{fileId}/{version}/{filename} にアップロードされます
+ */
+export const VERSION_PREFIX = 'versions/';
+
+/**
+ * 1つのファイルに保存できる版の最大数
+ * ファイルの削除時にすべての版の参照を1つのトランザクションで外すため、トランザクションの上限より小さくします
+ */
+export const MAX_FILE_VERSIONS = 50;
+
+/**
+ * 新しい版のオブジェクトのキー（versions/{fileId}/{version}/{filename}）の形式
+ */
+const VERSION_KEY_PATTERN =
+  /^versions\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\/(\d+)\/(.+)$/i;
+
+/**
+ * 同じ内容のファイルの登録が競合した場合に、参照の追加をやり直す最大回数
+ */
+const MAX_ADD_REFERENCE_ATTEMPTS = 3;
+
+/**
+ * 新しい版のアップロードの申告内容
+ */
+export interface FileVersionInput {
+  /** ファイルの名前（省略時は現在の版のファイル名） */
+  filename?: string;
+  /** ファイルのMIMEタイプ */
+  contentType: string;
+  /** ファイルのサイズ（バイト） */
+  size: number;
+  /** ファイルの内容のSHA-256（16進数の小文字） */
+  sha256: string;
+}
+
+export class FileVersionService {
+  /**
+   * @param fileService - ファイルメタデータの取得とオブジェクトの照合に使用するサービス
+   * @param blobService - 版の内容の参照カウントの管理に使用するサービス
+   * @param quotaService - ファイルの所有者の使用量の計上に使用するサービス
+   */
+  constructor(
+    private readonly fileService: FileService = new FileService(),
+    private readonly blobService: FileBlobService = new FileBlobService(),
+    private readonly quotaService: StorageQuotaService = new StorageQuotaService()
+  ) {}
+
+  /**
+   * 新しい版のアップロードを開始する
+   *
+   * アップロードが完了した（READY）ファイルについて、申告内容をアップロードポリシーで検証し、
+   * アップロード待ちの版を保存して署名付きPOSTを返します。
+   * アップロード待ちの版が既にある場合は置き換えます。
+   * 使用量を計上しているファイルは、置き換えた版との差分をファイルの所有者の使用量として計上します。
+   *
+   * @param fileId - ファイルの一意識別子
+   * @param input - 新しい版の申告内容
+   * @returns アップロード先のURL、フォームの項目、版の番号、整えたファイル名、ファイルが見つからない場合はnull
+   * @throws ValidationError - ポリシーで許可されていないファイル、または1回でアップロードできないサイズの場合
+   * @throws ConflictError - ファイルのアップロードが完了していない場合、版の数が上限に達した場合、
+   *   または同時に別の版が追加された場合
+   * @throws QuotaExceededError - ファイルの所有者の容量の上限を超える場合
+   *
+   * @example
+   * const upload = await fileVersionService.startVersionUpload(fileId, {
+   *   contentType: 'application/pdf',
+   *   size: 1024567,
+   *   sha256: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+   * });
+   */
+  async startVersionUpload(
+    fileId: string,
+    input: FileVersionInput
+  ): Promise<
+    | (PresignedUpload & { fileId: string; version: number; filename: string })
+    | null
+  > {
+    const file = await this.fileService.getFileMetadata(fileId);
+    if (!file) {
+      return null;
+    }
+    if (file.status !== FileStatus.READY) {
+      throw new ConflictError(
+        'アップロードが完了していないファイルには新しい版を追加できません',
+        { status: file.status }
+      );
+    }
+
+    const versions = this.listVersions(file);
+    if (versions.length >= MAX_FILE_VERSIONS) {
+      throw new ConflictError(
+        `1つのファイルに保存できる版は${MAX_FILE_VERSIONS}件までです`
+      );
+    }
+
+    const filename = this.fileService.validateUpload(
+      input.filename ?? file.filename,
+      input.contentType,
+      input.size
+    );
+    if (input.size > MAX_SINGLE_UPLOAD_SIZE) {
+      throw new ValidationError(
+        `${MAX_SINGLE_UPLOAD_SIZE}バイトを超えるファイルは新しい版としてアップロードできません`
+      );
+    }
+
+    const version = versions[0].version + 1;
+    const pendingVersion: PendingFileVersion = {
+      version,
+      filename,
+      contentType: input.contentType,
+      size: input.size,
+      sha256: input.sha256,
+      objectKey: `${VERSION_PREFIX}${fileId}/${version}/${filename}`,
+      createdAt: new Date().toISOString(),
+    };
+
+    // 置き換えるアップロード待ちの版の分を差し引いて、ファイルの所有者の使用量として計上する
+    const delta = input.size - (file.pendingVersion?.size ?? 0);
+    const usage =
+      file.ownerId && file.chargedBytes !== undefined
+        ? await this.quotaService.assertWithinQuota(
+            { ownerId: file.ownerId },
+            delta
+          )
+        : null;
+
+    // 確認後に版が追加された場合は、同じ番号の版を作らないように失敗させる
+    // 確認後にアップロード待ちの版が置き換えられた場合は、使用量を二重に計上しないように失敗させる
+    const update: DocumentClient.Update = {
+      TableName: TASKS_TABLE,
+      Key: { id: fileId },
+      UpdateExpression: usage
+        ? 'SET #pendingVersion = :pendingVersion ADD #chargedBytes :delta'
+        : 'SET #pendingVersion = :pendingVersion',
+      ConditionExpression: [
+        '#status = :ready',
+        file.versions
+          ? 'size(#versions) = :count'
+          : 'attribute_not_exists(#versions)',
+        file.pendingVersion
+          ? '#pendingVersion.#createdAt = :pendingCreatedAt'
+          : 'attribute_not_exists(#pendingVersion)',
+      ].join(' AND '),
+      ExpressionAttributeNames: {
+        '#pendingVersion': 'pendingVersion',
+        '#status': 'status',
+        '#versions': 'versions',
+        ...(file.pendingVersion ? { '#createdAt': 'createdAt' } : {}),
+        ...(usage ? { '#chargedBytes': 'chargedBytes' } : {}),
+      },
+      ExpressionAttributeValues: {
+        ':pendingVersion': pendingVersion,
+        ':ready': FileStatus.READY,
+        ...(file.versions ? { ':count': file.versions.length } : {}),
+        ...(file.pendingVersion
+          ? { ':pendingCreatedAt': file.pendingVersion.createdAt }
+          : {}),
+        ...(usage ? { ':delta': delta } : {}),
+      },
+    };
+
+    try {
+      if (usage) {
+        await dynamoDb
+          .transactWrite({
+            TransactItems: [
+              { Update: update },
+              this.quotaService.buildCharge(usage, delta, 0),
+            ],
+          })
+          .promise();
+      } else {
+        await dynamoDb.update(update).promise();
+      }
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        if (usage) {
+          await this.quotaService.assertWithinQuota(
+            { ownerId: usage.ownerId },
+            delta
+          );
+        }
+        throw new ConflictError(
+          'ファイルが変更されたため、新しい版のアップロードを開始できませんでした。再度実行してください'
+        );
+      }
+      throw error;
+    }
+
+    // 置き換えたアップロード待ちの版のオブジェクトは使用されない
+    if (
+      file.pendingVersion &&
+      file.pendingVersion.objectKey !== pendingVersion.objectKey
+    ) {
+      await s3
+        .deleteObject({
+          Bucket: FILES_BUCKET,
+          Key: file.pendingVersion.objectKey,
+        })
+        .promise();
+    }
+
+    const { url, fields } = this.fileService.createUploadPost(
+      pendingVersion.objectKey,
+      input.contentType,
+      input.size,
+      input.sha256
+    );
+
+    return { url, fields, fileId, version, filename };
+  }
+
+  /**
+   * 新しい版のアップロードの完了を確認する
+   *
+   * S3上のオブジェクトをアップロード待ちの版の申告内容と照合し、一致すれば版の一覧に追加して現在の版にします。
+   * 一致しない場合（内容が申告されたMIMEタイプと矛盾する場合を含む）はオブジェクトとアップロード待ちの版を削除し、
+   * 計上していた申告サイズをファイルの所有者の使用量から差し引きます。
+   * 現在の版が変わると、以前の版のサムネイルとテキストの抜粋は削除されます。
+   * 既に追加済みの版の場合は何もせずにそのまま返します。
+   *
+   * @param fileId - ファイルの一意識別子
+   * @param version - アップロードした版の番号
+   * @returns 更新されたファイルメタデータ、ファイルが見つからない場合はnull
+   * @throws ConflictError - アップロード待ちの版がない場合、オブジェクトがまだアップロードされていない場合、
+   *   または同時に別の確認が行われた場合
+   * @throws UnprocessableEntityError - オブジェクトが申告内容と一致しない場合
+   *
+   * @example
+   * const metadata = await fileVersionService.completeVersionUpload(fileId, 2);
+   */
+  async completeVersionUpload(
+    fileId: string,
+    version: number
+  ): Promise<FileMetadata | null> {
+    const file = await this.fileService.getFileMetadata(fileId);
+    if (!file) {
+      return null;
+    }
+    if (file.versions?.some((entry) => entry.version === version)) {
+      return file;
+    }
+
+    const pending = file.pendingVersion;
+    if (!pending || pending.version !== version) {
+      throw new ConflictError('アップロード待ちの版が見つかりません', {
+        version,
+      });
+    }
+
+    const verification = await this.fileService.verifyObject(
+      pending.objectKey,
+      pending
+    );
+    if (!verification) {
+      throw new ConflictError('ファイルがまだアップロードされていません');
+    }
+
+    if (verification.rejectionReason) {
+      // 一致しないオブジェクトは保持しない
+      await s3
+        .deleteObject({ Bucket: FILES_BUCKET, Key: pending.objectKey })
+        .promise();
+      await this.clearPendingVersion(file, pending);
+      throw new UnprocessableEntityError(verification.rejectionReason, {
+        version,
+      });
+    }
+
+    return await this.markVersionReady(
+      file,
+      pending,
+      verification.size,
+      verification.sha256 as string
+    );
+  }
+
+  /**
+   * S3への新しい版のオブジェクトの作成を反映する
+   *
+   * S3のObjectCreatedイベントから呼び出され、versions/{fileId}/{version}/{filename} 形式のキーのみを対象とします。
+   * APIから同時に完了された場合や、既に追加済みの版の場合は現在のメタデータを返します。
+   *
+   * @param key - 作成されたオブジェクトのキー
+   * @returns 更新されたファイルメタデータ、対象外または申告内容と一致しなかった場合はnull
+   */
+  async syncVersionCreated(key: string): Promise<FileMetadata | null> {
+    const parsed = parseVersionKey(key);
+    if (!parsed) {
+      return null;
+    }
+
+    try {
+      return await this.completeVersionUpload(parsed.fileId, parsed.version);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return await this.fileService.getFileMetadata(parsed.fileId);
+      }
+      if (error instanceof UnprocessableEntityError) {
+        console.warn(`新しい版を拒否しました: ${key}, 理由: ${error.message}`);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 指定した版を現在の版にする
+   *
+   * 版の一覧は変更せず、ファイルメタデータの現在の版の属性を指定した版の内容に切り替えます。
+   * 以前の版のサムネイルとテキストの抜粋は削除されます。
+   * 既に現在の版の場合は何もせずにそのまま返します。
+   *
+   * @param fileId - ファイルの一意識別子
+   * @param version - 復元する版の番号
+   * @returns 更新されたファイルメタデータ、ファイルまたは版が見つからない場合はnull
+   * @throws ConflictError - 同時に別の版が追加・復元された場合
+   *
+   * @example
+   * const metadata = await fileVersionService.restoreVersion(fileId, 1);
+   */
+  async restoreVersion(
+    fileId: string,
+    version: number
+  ): Promise<FileMetadata | null> {
+    const file = await this.fileService.getFileMetadata(fileId);
+    if (!file) {
+      return null;
+    }
+
+    const target = this.getVersion(file, version);
+    if (!target) {
+      return null;
+    }
+    if (target.version === currentVersionOf(file)) {
+      return file;
+    }
+
+    const attributeNames: { [key: string]: string } = {
+      '#version': 'version',
+      '#filename': 'filename',
+      '#contentType': 'contentType',
+      '#size': 'size',
+      '#sha256': 'sha256',
+      '#objectKey': 'objectKey',
+      '#uploadedAt': 'uploadedAt',
+      '#url': 'url',
+      '#status': 'status',
+      '#previews': 'previews',
+      '#textSnippet': 'textSnippet',
+      '#previewGeneratedAt': 'previewGeneratedAt',
+    };
+    const attributeValues: { [key: string]: any } = {
+      ':version': target.version,
+      ':current': currentVersionOf(file),
+      ':filename': target.filename,
+      ':contentType': target.contentType,
+      ':size': target.size,
+      ':objectKey': target.objectKey,
+      ':uploadedAt': target.uploadedAt,
+      ':url': this.fileService.buildObjectUrl(target.objectKey),
+      ':ready': FileStatus.READY,
+    };
+    const sets = [
+      '#version = :version',
+      '#filename = :filename',
+      '#contentType = :contentType',
+      '#size = :size',
+      '#objectKey = :objectKey',
+      '#uploadedAt = :uploadedAt',
+      '#url = :url',
+    ];
+    const removes = ['#previews', '#textSnippet', '#previewGeneratedAt'];
+    if (target.sha256) {
+      sets.push('#sha256 = :sha256');
+      attributeValues[':sha256'] = target.sha256;
+    } else {
+      removes.push('#sha256');
+    }
+
+    try {
+      await dynamoDb
+        .update({
+          TableName: TASKS_TABLE,
+          Key: { id: fileId },
+          UpdateExpression: `SET ${sets.join(', ')} REMOVE ${removes.join(
+            ', '
+          )}`,
+          ConditionExpression: '#status = :ready AND #version = :current',
+          ExpressionAttributeNames: attributeNames,
+          ExpressionAttributeValues: attributeValues,
+        })
+        .promise();
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        throw new ConflictError(
+          'ファイルが変更されたため、版を復元できませんでした。再度実行してください'
+        );
+      }
+      throw error;
+    }
+
+    await this.deletePreviews(file);
+    return await this.fileService.getFileMetadata(fileId);
+  }
+
+  /**
+   * ファイルの版の一覧を取得する
+   *
+   * 新しい版をアップロードしたことがないファイルは、現在の内容を1版目として返します。
+   * アップロードが完了していないファイルは空の配列を返します。
+   *
+   * @param file - ファイルメタデータ
+   * @returns 版の配列（新しい順）
+   *
+   * @example
+   * const versions = fileVersionService.listVersions(metadata);
+   */
+  listVersions(file: FileMetadata): FileVersion[] {
+    if (file.versions) {
+      return [...file.versions].reverse();
+    }
+    return file.status === FileStatus.READY ? [toInitialVersion(file)] : [];
+  }
+
+  /**
+   * ファイルの指定した版を取得する
+   *
+   * @param file - ファイルメタデータ
+   * @param version - 版の番号
+   * @returns 版、見つからない場合はnull
+   */
+  getVersion(file: FileMetadata, version: number): FileVersion | null {
+    return (
+      this.listVersions(file).find((entry) => entry.version === version) || null
+    );
+  }
+
+  /**
+   * アップロードされた新しい版を版の一覧に追加し、現在の版にする
+   *
+   * 同じSHA-256の実体が登録されていない場合は、アップロードされたオブジェクトを実体として登録します。
+   * 登録済みの場合は既存のオブジェクトを共有し、アップロードされたオブジェクトを削除します。
+   * メタデータの更新と参照カウントの更新は同じトランザクションで行います。
+   *
+   * @param file - 現在のファイルメタデータ
+   * @param pending - アップロード待ちの版
+   * @param size - オブジェクトのサイズ（バイト）
+   * @param sha256 - オブジェクトの内容のSHA-256
+   * @returns 更新されたファイルメタデータ
+   * @throws ConflictError - 同時に別の確認が行われた場合、または参照の追加の競合が解消しない場合
+   * @private
+   */
+  private async markVersionReady(
+    file: FileMetadata,
+    pending: PendingFileVersion,
+    size: number,
+    sha256: string
+  ): Promise<FileMetadata> {
+    for (let attempt = 0; attempt < MAX_ADD_REFERENCE_ATTEMPTS; attempt++) {
+      const blob = await this.blobService.getBlob(sha256);
+      const objectKey = blob?.objectKey || pending.objectKey;
+      const uploadedAt = new Date().toISOString();
+      const entry: FileVersion = {
+        version: pending.version,
+        filename: pending.filename,
+        contentType: pending.contentType,
+        size,
+        sha256,
+        objectKey,
+        uploadedAt,
+      };
+
+      try {
+        await dynamoDb
+          .transactWrite({
+            TransactItems: [
+              {
+                Update: {
+                  TableName: TASKS_TABLE,
+                  Key: { id: file.id },
+                  UpdateExpression:
+                    'SET #versions = list_append(if_not_exists(#versions, :initial), :entry), #version = :version, #filename = :filename, #contentType = :contentType, #size = :size, #sha256 = :sha256, #objectKey = :objectKey, #uploadedAt = :uploadedAt, #url = :url REMOVE #pendingVersion, #previews, #textSnippet, #previewGeneratedAt',
+                  ConditionExpression:
+                    '#status = :ready AND #pendingVersion.#version = :version',
+                  ExpressionAttributeNames: {
+                    '#versions': 'versions',
+                    '#version': 'version',
+                    '#filename': 'filename',
+                    '#contentType': 'contentType',
+                    '#size': 'size',
+                    '#sha256': 'sha256',
+                    '#objectKey': 'objectKey',
+                    '#uploadedAt': 'uploadedAt',
+                    '#url': 'url',
+                    '#pendingVersion': 'pendingVersion',
+                    '#previews': 'previews',
+                    '#textSnippet': 'textSnippet',
+                    '#previewGeneratedAt': 'previewGeneratedAt',
+                    '#status': 'status',
+                  },
+                  ExpressionAttributeValues: {
+                    ':initial': file.versions ? [] : [toInitialVersion(file)],
+                    ':entry': [entry],
+                    ':version': pending.version,
+                    ':filename': pending.filename,
+                    ':contentType': pending.contentType,
+                    ':size': size,
+                    ':sha256': sha256,
+                    ':objectKey': objectKey,
+                    ':uploadedAt': uploadedAt,
+                    ':url': this.fileService.buildObjectUrl(objectKey),
+                    ':ready': FileStatus.READY,
+                  },
+                },
+              },
+              this.blobService.buildAddReference(
+                blob,
+                sha256,
+                pending.objectKey,
+                size,
+                uploadedAt
+              ),
+            ],
+          })
+          .promise();
+      } catch (error) {
+        if (!isConditionalCheckFailed(error)) {
+          throw error;
+        }
+
+        // アップロード待ちの版が変わった場合は完了できない。実体が変わった場合は取得からやり直す
+        const current = await this.fileService.getFileMetadata(file.id);
+        if (current?.pendingVersion?.version !== pending.version) {
+          throw new ConflictError(
+            'ファイルが変更されたため、新しい版のアップロードを完了できませんでした'
+          );
+        }
+        continue;
+      }
+
+      // 既存のオブジェクトを共有する場合、アップロードされたオブジェクトは不要になる
+      if (objectKey !== pending.objectKey) {
+        await s3
+          .deleteObject({ Bucket: FILES_BUCKET, Key: pending.objectKey })
+          .promise();
+      }
+
+      await this.deletePreviews(file);
+      return (await this.fileService.getFileMetadata(file.id)) as FileMetadata;
+    }
+
+    throw new ConflictError(
+      '同じ内容のファイルの登録が競合したため、新しい版のアップロードを完了できませんでした。再度実行してください'
+    );
+  }
+
+  /**
+   * 申告内容と一致しなかったアップロード待ちの版を削除する
+   *
+   * 使用量を計上しているファイルは、アップロード待ちの版の申告サイズを同じトランザクションで差し引きます。
+   *
+   * @param file - 現在のファイルメタデータ
+   * @param pending - 削除するアップロード待ちの版（別の版に置き換えられていた場合は何もしません）
+   * @private
+   */
+  private async clearPendingVersion(
+    file: FileMetadata,
+    pending: PendingFileVersion
+  ): Promise<void> {
+    const charged = file.ownerId && file.chargedBytes !== undefined;
+    const update: DocumentClient.Update = {
+      TableName: TASKS_TABLE,
+      Key: { id: file.id },
+      UpdateExpression: charged
+        ? 'REMOVE #pendingVersion ADD #chargedBytes :decrement'
+        : 'REMOVE #pendingVersion',
+      ConditionExpression:
+        '#pendingVersion.#version = :version AND #pendingVersion.#createdAt = :createdAt',
+      ExpressionAttributeNames: {
+        '#pendingVersion': 'pendingVersion',
+        '#version': 'version',
+        '#createdAt': 'createdAt',
+        ...(charged ? { '#chargedBytes': 'chargedBytes' } : {}),
+      },
+      ExpressionAttributeValues: {
+        ':version': pending.version,
+        ':createdAt': pending.createdAt,
+        ...(charged ? { ':decrement': -pending.size } : {}),
+      },
+    };
+
+    try {
+      if (charged) {
+        await dynamoDb
+          .transactWrite({
+            TransactItems: [
+              { Update: update },
+              this.quotaService.buildRelease(
+                file.ownerId as string,
+                pending.size,
+                0
+              ),
+            ],
+          })
+          .promise();
+      } else {
+        await dynamoDb.update(update).promise();
+      }
+    } catch (error) {
+      if (!isConditionalCheckFailed(error)) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * 以前の版のサムネイルを削除する
+   *
+   * @param file - 現在の版が切り替わる前のファイルメタデータ
+   * @private
+   */
+  private async deletePreviews(file: FileMetadata): Promise<void> {
+    const previewKeys = (file.previews || []).map((preview) => ({
+      Key: preview.key,
+    }));
+    if (previewKeys.length === 0) {
+      return;
+    }
+
+    await s3
+      .deleteObjects({
+        Bucket: FILES_BUCKET,
+        Delete: { Objects: previewKeys, Quiet: true },
+      })
+      .promise();
+  }
+}
+
+/**
+ * ファイルの現在の版の番号を取得する
+ *
+ * @param file - ファイルメタデータ
+ * @returns 現在の版の番号（新しい版をアップロードしたことがない場合は1）
+ */
+export function currentVersionOf(file: FileMetadata): number {
+  return file.version ?? 1;
+}
+
+/**
+ * 新しい版のオブジェクトのキーからファイルIDと版の番号を取り出す
+ *
+ * @param key - オブジェクトのキー
+ * @returns ファイルID、版の番号、ファイル名、versions/{fileId}/{version}/{filename} 形式でない場合はnull
+ *
+ * @example
+ * parseVersionKey('versions/123e4567-e89b-12d3-a456-426614174000/2/document.pdf')
+ * // => { fileId: '123e4567-...', version: 2, filename: 'document.pdf' }
+ */
+export function parseVersionKey(
+  key: string
+): { fileId: string; version: number; filename: string } | null {
+  const match = VERSION_KEY_PATTERN.exec(key);
+  return match
+    ? { fileId: match[1], version: Number(match[2]), filename: match[3] }
+    : null;
+}
+
+/**
+ * 新しい版をアップロードしたことがないファイルの現在の内容を1版目として表す
+ *
+ * 参照カウントを管理していない（APIを経由せずにS3へ書き込まれた）ファイルはsha256を含めません。
+ *
+ * @param file - アップロードが完了したファイルメタデータ
+ * @returns 1版目
+ */
+function toInitialVersion(file: FileMetadata): FileVersion {
+  return {
+    version: 1,
+    filename: file.filename,
+    contentType: file.contentType,
+    size: file.size,
+    ...(file.sha256 && file.objectKey ? { sha256: file.sha256 } : {}),
+    objectKey: file.objectKey || `${file.id}/${file.filename}`,
+    uploadedAt: file.uploadedAt || file.createdAt,
+  };
+}
@@ -0,0 +1,636 @@
+/**
+ * マルチパートアップロードサービスクラス
+ *
+ * このクラスは1回のputObjectでは扱えない大きなファイルを、S3のマルチパートアップロードで
+ * 複数のパートに分けてアップロードするための機能を提供します。
+ * クライアントはパートごとの署名付きURLに直接アップロードし、接続が切れた場合は
+ * アップロード済みのパートを確認して残りのパートから再開できます。
+ * パートの内容はアップロード時にS3がSHA-256で照合します。ファイル全体のSHA-256はS3で検証できないため、
+ * 開始時に申告されたファイル全体のSHA-256は、結合後に別のLambda関数（verifyMultipartUpload）が
+ * オブジェクトを読み込んで計算して照合し、一致すれば同じ内容のオブジェクトを共有します。
+ *
+ * ファイルメタデータはFileServiceと同じ形式でPENDINGとして保存され、
+ * SHA-256の照合後にFileService.completeUploadでS3上のオブジェクトを確認してREADYになります。
+ * 期限を過ぎても完了しないアップロードはabortStaleUploadsで中止されます。
+ */
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  s3,
+  lambda,
+  FILES_BUCKET,
+  getSignedUrl,
+  dynamoDb,
+  TASKS_TABLE,
+} from '../utils/aws-clients';
+import {
+  ConflictError,
+  ValidationError,
+  isConditionalCheckFailed,
+} from '../utils/errors';
+import {
+  FileService,
+  fromSha256Checksum,
+  toSha256Checksum,
+} from './file-service';
+import { StorageQuotaService } from './storage-quota-service';
+import {
+  FileMetadata,
+  FileStatus,
+  MultipartUploadSession,
+  PartChecksum,
+  PartUploadUrl,
+  StorageOwner,
+  UploadedPart,
+} from '../types';
+
+/**
+ * S3のパートの最小サイズ（最後のパートを除く）
+ */
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+/**
+ * 1パートあたりの標準のサイズ
+ */
+const DEFAULT_PART_SIZE = 16 * 1024 * 1024;
+
+/**
+ * S3のマルチパートアップロードのパート数の上限
+ */
+const MAX_PART_COUNT = 10000;
+
+/**
+ * S3のオブジェクトの最大サイズ（5TiB）
+ */
+export const MAX_MULTIPART_FILE_SIZE = 5 * 1024 * 1024 * 1024 * 1024;
+
+/**
+ * パートのアップロード用URLの有効期間（秒）
+ */
+export const PART_URL_EXPIRES_SECONDS = 3600;
+
+/**
+ * 1回のリクエストで発行できるパートのアップロード用URLの最大数
+ */
+export const MAX_PART_URLS_PER_REQUEST = 100;
+
+/**
+ * マルチパートアップロードの完了を待つ時間（時間）
+ * この時間を過ぎても完了しないアップロードは中止されます
+ * 環境変数 MULTIPART_UPLOAD_EXPIRY_HOURS で変更できます
+ */
+export const MULTIPART_UPLOAD_EXPIRY_HOURS = Number(
+  process.env.MULTIPART_UPLOAD_EXPIRY_HOURS || 24
+);
+
+/**
+ * 結合したファイル全体のSHA-256を照合するLambda関数の名前
+ * 環境変数 MULTIPART_VERIFY_FUNCTION で指定します
+ */
+const VERIFY_FUNCTION =
+  process.env.MULTIPART_VERIFY_FUNCTION ||
+  'localstack-aws-example-dev-verifyMultipartUpload';
+
+export class MultipartUploadService {
+  /**
+   * @param fileService - メタデータの保存とアップロード完了の確認に使用するサービス
+   * @param quotaService - 所有者ごとの使用量の確認と減算に使用するサービス
+   */
+  constructor(
+    private readonly fileService: FileService = new FileService(),
+    private readonly quotaService: StorageQuotaService = new StorageQuotaService()
+  ) {}
+
+  /**
+   * マルチパートアップロードを開始する
+   *
+   * アップロードポリシーで申告内容を検証したうえで、パートごとにSHA-256のチェックサムを必須とする
+   * S3のマルチパートアップロードを作成し、メタデータをPENDINGとして保存します。
+   * パートのサイズは、パート数がS3の上限を超えないように決定します。
+   * 申告されたファイル全体のSHA-256はメタデータに保存し、結合後に照合します。
+   * 所有者を指定した場合は、S3のマルチパートアップロードを作成する前に容量の上限を確認します。
+   *
+   * @param filename - アップロードするファイルの名前
+   * @param contentType - ファイルのMIMEタイプ
+   * @param size - ファイルのサイズ（バイト）
+   * @param sha256 - ファイル全体の内容のSHA-256（16進数の小文字）
+   * @param owner - 使用量を計上する所有者とプラン（省略時は計上しない）
+   * @returns ファイルID、アップロードID、パートのサイズと数、整えたファイル名
+   * @throws ValidationError - サイズがS3の上限を超える場合、またはポリシーで許可されていないファイルの場合
+   * @throws QuotaExceededError - 所有者の容量の上限を超える場合
+   *
+   * @example
+   * const session = await multipartUploadService.startUpload(
+   *   'video.mp4',
+   *   'video/mp4',
+   *   3 * 1024 * 1024 * 1024,
+   *   sha256
+   * );
+   */
+  async startUpload(
+    filename: string,
+    contentType: string,
+    size: number,
+    sha256: string,
+    owner?: StorageOwner
+  ): Promise<MultipartUploadSession> {
+    if (size > MAX_MULTIPART_FILE_SIZE) {
+      throw new ValidationError(
+        `size は${MAX_MULTIPART_FILE_SIZE}バイト以下で指定してください`
+      );
+    }
+    const sanitized = this.fileService.validateUpload(
+      filename,
+      contentType,
+      size
+    );
+
+    if (owner) {
+      await this.quotaService.assertWithinQuota(owner, size);
+    }
+
+    const fileId = uuidv4();
+    const partSize = calculatePartSize(size);
+    const partCount = calculatePartCount(size);
+
+    const { UploadId: uploadId } = await s3
+      .createMultipartUpload({
+        Bucket: FILES_BUCKET,
+        Key: `${fileId}/${sanitized}`,
+        ContentType: contentType,
+        ChecksumAlgorithm: 'SHA256',
+      })
+      .promise();
+
+    if (!uploadId) {
+      throw new Error('マルチパートアップロードのIDが返されませんでした');
+    }
+
+    await this.fileService.saveFileMetadata(
+      fileId,
+      sanitized,
+      contentType,
+      size,
+      { multipartUploadId: uploadId, sha256 },
+      owner
+    );
+
+    return { fileId, filename: sanitized, uploadId, partSize, partCount };
+  }
+
+  /**
+   * パートのアップロード用の署名付きURLを発行する
+   *
+   * パートの内容のSHA-256をURLの署名に含めるため、内容が一致しないパートはS3がアップロード時に拒否します。
+   * クライアントはPUTに、返されたヘッダー（x-amz-checksum-sha256）を付けて送信します。
+   * 接続が切れた後も、同じパート番号のURLを再発行して同じパートを再アップロードできます。
+   *
+   * @param fileId - ファイルの一意識別子
+   * @param parts - URLを発行するパート番号（1以上）とパートの内容のSHA-256
+   * @returns パート番号ごとの署名付きURLとPUTに付けるヘッダー、ファイルが見つからない場合はnull
+   * @throws ValidationError - パート番号が不正な場合
+   * @throws ConflictError - アップロード中のマルチパートアップロードではない場合
+   *
+   * @example
+   * const urls = await multipartUploadService.getPartUploadUrls(fileId, [
+   *   { partNumber: 1, sha256: partSha256 },
+   * ]);
+   */
+  async getPartUploadUrls(
+    fileId: string,
+    parts: PartChecksum[]
+  ): Promise<PartUploadUrl[] | null> {
+    const metadata = await this.getPendingUpload(fileId);
+    if (!metadata) {
+      return null;
+    }
+
+    const partCount = calculatePartCount(metadata.size);
+    const invalid = parts
+      .map((part) => part.partNumber)
+      .filter(
+        (partNumber) =>
+          !Number.isInteger(partNumber) ||
+          partNumber < 1 ||
+          partNumber > partCount
+      );
+    if (invalid.length > 0) {
+      throw new ValidationError(
+        `パート番号は1〜${partCount}の整数で指定してください（不正な値: ${invalid.join(', ')}）`
+      );
+    }
+
+    return parts.map(({ partNumber, sha256 }) => {
+      const checksum = toSha256Checksum(sha256);
+      const params = {
+        Bucket: FILES_BUCKET,
+        Key: `${fileId}/${metadata.filename}`,
+        UploadId: metadata.multipartUploadId,
+        PartNumber: partNumber,
+        ChecksumSHA256: checksum,
+        Expires: PART_URL_EXPIRES_SECONDS,
+      };
+      return {
+        partNumber,
+        url: getSignedUrl('uploadPart', params),
+        headers: { 'x-amz-checksum-sha256': checksum },
+      };
+    });
+  }
+
+  /**
+   * アップロード済みのパートを取得する
+   *
+   * 接続が切れた後にアップロードを再開する際、アップロードが必要なパートの判定に使用します。
+   *
+   * @param fileId - ファイルの一意識別子
+   * @returns パート番号順のアップロード済みのパート、ファイルが見つからない場合はnull
+   * @throws ConflictError - アップロード中のマルチパートアップロードではない場合
+   *
+   * @example
+   * const parts = await multipartUploadService.listUploadedParts(fileId);
+   * const uploaded = new Set(parts.map((part) => part.partNumber));
+   */
+  async listUploadedParts(fileId: string): Promise<UploadedPart[] | null> {
+    const metadata = await this.getPendingUpload(fileId);
+    if (!metadata) {
+      return null;
+    }
+
+    return await this.listAllParts(metadata);
+  }
+
+  /**
+   * マルチパートアップロードを完了する
+   *
+   * アップロード済みのパートをS3から取得してオブジェクトを結合し、
+   * ファイル全体のSHA-256を照合するLambda関数を非同期に呼び出します。
+   * 照合には時間がかかるため、ファイルはPENDINGのまま返し、照合後にREADYまたはREJECTEDになります。
+   * パートの内容はアップロード時にS3がSHA-256で照合済みです。
+   * 結合後に再び呼び出された場合は、照合の依頼のみをやり直します。
+   * クライアントはパートのETagを保持する必要はありません。
+   *
+   * @param fileId - ファイルの一意識別子
+   * @returns ファイルメタデータ（照合が終わるまではPENDING）、ファイルが見つからない場合はnull
+   * @throws ConflictError - アップロード中のマルチパートアップロードではない場合、
+   *   またはアップロードされていないパートがある場合
+   *
+   * @example
+   * const metadata = await multipartUploadService.completeUpload(fileId);
+   */
+  async completeUpload(fileId: string): Promise<FileMetadata | null> {
+    const metadata = await this.getPendingUpload(fileId);
+    if (!metadata) {
+      return null;
+    }
+
+    let parts: UploadedPart[];
+    try {
+      parts = await this.listAllParts(metadata);
+    } catch (error) {
+      // 中止した場合はメタデータも削除するため、PENDINGのまま見つからない場合は結合済み
+      if ((error as { code?: string }).code === 'NoSuchUpload') {
+        await this.requestVerification(fileId);
+        return metadata;
+      }
+      throw error;
+    }
+
+    // すべてのパートがアップロードされていることを確認
+    const partCount = calculatePartCount(metadata.size);
+    const uploaded = new Set(parts.map((part) => part.partNumber));
+    const missingPartNumbers: number[] = [];
+    for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+      if (!uploaded.has(partNumber)) {
+        missingPartNumbers.push(partNumber);
+      }
+    }
+    if (missingPartNumbers.length > 0) {
+      throw new ConflictError('アップロードされていないパートがあります', {
+        missingPartNumbers,
+      });
+    }
+
+    await s3
+      .completeMultipartUpload({
+        Bucket: FILES_BUCKET,
+        Key: `${fileId}/${metadata.filename}`,
+        UploadId: metadata.multipartUploadId as string,
+        MultipartUpload: {
+          Parts: parts.map((part) => ({
+            PartNumber: part.partNumber,
+            ETag: part.etag,
+            ...(part.sha256
+              ? { ChecksumSHA256: toSha256Checksum(part.sha256) }
+              : {}),
+          })),
+        },
+      })
+      .promise();
+
+    await this.requestVerification(fileId);
+    return metadata;
+  }
+
+  /**
+   * 結合したファイル全体のSHA-256を照合し、アップロードを完了する
+   *
+   * S3上のオブジェクトを読み込んでSHA-256を計算し、FileService.completeUploadで
+   * サイズ・MIMEタイプ・SHA-256を申告内容と照合してREADY・REJECTED・QUARANTINEDにします。
+   * 一致した場合は、同じ内容のファイルが既にあればそのオブジェクトを共有します。
+   * 完了APIから非同期に呼び出され、既に照合済みの場合は何もしないため、重複した呼び出しでも結果は変わりません。
+   * オブジェクトの読み込みはLambda関数の実行時間の上限（15分）内に終わる必要があります。
+   *
+   * @param fileId - ファイルの一意識別子
+   * @returns 更新されたファイルメタデータ、ファイルが見つからない場合はnull
+   *
+   * @example
+   * const metadata = await multipartUploadService.verifyUpload(fileId);
+   */
+  async verifyUpload(fileId: string): Promise<FileMetadata | null> {
+    const metadata = await this.fileService.getFileMetadata(fileId);
+    if (
+      !metadata ||
+      !metadata.multipartUploadId ||
+      metadata.status !== FileStatus.PENDING
+    ) {
+      return metadata;
+    }
+
+    const sha256 = await this.hashObject(`${fileId}/${metadata.filename}`);
+
+    try {
+      return await this.fileService.completeUpload(fileId, sha256);
+    } catch (error) {
+      // 重複した呼び出しで先に完了・拒否された場合は、その結果をそのまま使用する
+      if (error instanceof ConflictError) {
+        return await this.fileService.getFileMetadata(fileId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * マルチパートアップロードを中止する
+   *
+   * S3のマルチパートアップロードを中止してアップロード済みのパートを破棄し、メタデータを削除します。
+   *
+   * @param fileId - ファイルの一意識別子
+   * @returns 中止した場合はtrue、ファイルが見つからない場合はfalse
+   * @throws ConflictError - アップロード中のマルチパートアップロードではない場合
+   *
+   * @example
+   * const aborted = await multipartUploadService.abortUpload(fileId);
+   */
+  async abortUpload(fileId: string): Promise<boolean> {
+    const metadata = await this.getPendingUpload(fileId);
+    if (!metadata) {
+      return false;
+    }
+
+    await this.abort(
+      fileId,
+      metadata.filename,
+      metadata.multipartUploadId as string
+    );
+    return true;
+  }
+
+  /**
+   * 期限を過ぎても完了しないマルチパートアップロードを中止する
+   *
+   * バケット内の進行中のマルチパートアップロードのうち、開始から指定時間を過ぎたものを中止し、
+   * 対応するPENDINGのメタデータを削除します。メタデータのないアップロードも中止するため、
+   * 破棄されずに残ったパートのストレージ料金が発生し続けることはありません。
+   * 定期実行ハンドラーから呼び出されることを想定しています。
+   *
+   * @param expiryHours - 完了を待つ時間（時間、デフォルト: MULTIPART_UPLOAD_EXPIRY_HOURS）
+   * @returns 中止したアップロードの件数
+   *
+   * @example
+   * const aborted = await multipartUploadService.abortStaleUploads(24);
+   */
+  async abortStaleUploads(
+    expiryHours: number = MULTIPART_UPLOAD_EXPIRY_HOURS
+  ): Promise<number> {
+    const cutoff = Date.now() - expiryHours * 60 * 60 * 1000;
+    let aborted = 0;
+    let keyMarker: string | undefined;
+    let uploadIdMarker: string | undefined;
+
+    do {
+      const result = await s3
+        .listMultipartUploads({
+          Bucket: FILES_BUCKET,
+          KeyMarker: keyMarker,
+          UploadIdMarker: uploadIdMarker,
+        })
+        .promise();
+
+      for (const upload of result.Uploads || []) {
+        if (!upload.Key || !upload.UploadId || !upload.Initiated) {
+          continue;
+        }
+        if (upload.Initiated.getTime() >= cutoff) {
+          continue;
+        }
+
+        const [fileId, ...filenameParts] = upload.Key.split('/');
+        await this.abort(fileId, filenameParts.join('/'), upload.UploadId);
+        aborted++;
+      }
+
+      keyMarker = result.IsTruncated ? result.NextKeyMarker : undefined;
+      uploadIdMarker = result.IsTruncated
+        ? result.NextUploadIdMarker
+        : undefined;
+    } while (keyMarker);
+
+    return aborted;
+  }
+
+  /**
+   * アップロード中のマルチパートアップロードのメタデータを取得する
+   *
+   * @param fileId - ファイルの一意識別子
+   * @returns ファイルメタデータ、見つからない場合はnull
+   * @throws ConflictError - マルチパートアップロードではない場合、またはアップロード中ではない場合
+   * @private
+   */
+  private async getPendingUpload(fileId: string): Promise<FileMetadata | null> {
+    const metadata = await this.fileService.getFileMetadata(fileId);
+    if (!metadata) {
+      return null;
+    }
+
+    if (!metadata.multipartUploadId) {
+      throw new ConflictError('マルチパートアップロードではありません');
+    }
+    if (metadata.status !== FileStatus.PENDING) {
+      throw new ConflictError('マルチパートアップロードは既に終了しています', {
+        status: metadata.status,
+      });
+    }
+
+    return metadata;
+  }
+
+  /**
+   * ファイル全体のSHA-256の照合を、別のLambda関数に非同期に依頼する
+   *
+   * @param fileId - ファイルの一意識別子
+   * @private
+   */
+  private async requestVerification(fileId: string): Promise<void> {
+    // オブジェクト全体の読み込みは時間がかかるため、別のLambda関数で非同期に行う
+    await lambda
+      .invoke({
+        FunctionName: VERIFY_FUNCTION,
+        InvocationType: 'Event',
+        Payload: JSON.stringify({ fileId }),
+      })
+      .promise();
+  }
+
+  /**
+   * S3上のオブジェクトを読み込んで内容のSHA-256を計算する
+   *
+   * 大きなファイルでもメモリに載せないように、ストリームで読み込みます。
+   *
+   * @param key - オブジェクトのキー
+   * @returns 16進数の小文字のSHA-256
+   * @private
+   */
+  private async hashObject(key: string): Promise<string> {
+    const hash = createHash('sha256');
+    const stream = s3
+      .getObject({ Bucket: FILES_BUCKET, Key: key })
+      .createReadStream();
+
+    for await (const chunk of stream) {
+      hash.update(chunk as Buffer);
+    }
+
+    return hash.digest('hex');
+  }
+
+  /**
+   * アップロード済みのパートをすべて取得する
+   *
+   * @param metadata - マルチパートアップロードのファイルメタデータ
+   * @returns パート番号順のアップロード済みのパート
+   * @private
+   */
+  private async listAllParts(metadata: FileMetadata): Promise<UploadedPart[]> {
+    const parts: UploadedPart[] = [];
+    let partNumberMarker: number | undefined;
+
+    do {
+      const result = await s3
+        .listParts({
+          Bucket: FILES_BUCKET,
+          Key: `${metadata.id}/${metadata.filename}`,
+          UploadId: metadata.multipartUploadId as string,
+          PartNumberMarker: partNumberMarker,
+        })
+        .promise();
+
+      for (const part of result.Parts || []) {
+        parts.push({
+          partNumber: part.PartNumber as number,
+          size: part.Size ?? 0,
+          etag: part.ETag as string,
+          sha256: fromSha256Checksum(part.ChecksumSHA256),
+          lastModified: (part.LastModified || new Date()).toISOString(),
+        });
+      }
+
+      partNumberMarker = result.IsTruncated
+        ? result.NextPartNumberMarker
+        : undefined;
+    } while (partNumberMarker);
+
+    return parts.sort((a, b) => a.partNumber - b.partNumber);
+  }
+
+  /**
+   * S3のマルチパートアップロードを中止し、PENDINGのメタデータを削除する
+   *
+   * 削除したファイルの使用量は所有者の使用量から差し引きます。
+   *
+   * @param fileId - ファイルの一意識別子
+   * @param filename - ファイルの名前
+   * @param uploadId - S3のマルチパートアップロードのID
+   * @private
+   */
+  private async abort(
+    fileId: string,
+    filename: string,
+    uploadId: string
+  ): Promise<void> {
+    try {
+      await s3
+        .abortMultipartUpload({
+          Bucket: FILES_BUCKET,
+          Key: `${fileId}/${filename}`,
+          UploadId: uploadId,
+        })
+        .promise();
+    } catch (error) {
+      // 既に中止・完了されている場合はメタデータの削除のみ行う
+      if ((error as { code?: string }).code !== 'NoSuchUpload') {
+        throw error;
+      }
+    }
+
+    try {
+      const result = await dynamoDb
+        .delete({
+          TableName: TASKS_TABLE,
+          Key: { id: fileId },
+          ConditionExpression:
+            '#status = :pending AND #multipartUploadId = :uploadId',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+            '#multipartUploadId': 'multipartUploadId',
+          },
+          ExpressionAttributeValues: {
+            ':pending': FileStatus.PENDING,
+            ':uploadId': uploadId,
+          },
+          ReturnValues: 'ALL_OLD',
+        })
+        .promise();
+      await this.quotaService.releaseFile(result.Attributes);
+    } catch (error) {
+      if (!isConditionalCheckFailed(error)) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * ファイルのサイズからパートのサイズを決定する
+ *
+ * 標準のサイズで分割した場合にパート数がS3の上限を超える場合は、
+ * 上限に収まるようにMiB単位で切り上げたサイズを使用します。
+ *
+ * @param size - ファイルのサイズ（バイト）
+ * @returns 1パートあたりのサイズ（バイト）
+ */
+function calculatePartSize(size: number): number {
+  const mebibyte = 1024 * 1024;
+  const minimum = Math.ceil(size / MAX_PART_COUNT / mebibyte) * mebibyte;
+  return Math.max(DEFAULT_PART_SIZE, MIN_PART_SIZE, minimum);
+}
+
+/**
+ * ファイルのサイズからパートの数を計算する
+ *
+ * @param size - ファイルのサイズ（バイト）
+ * @returns パートの数（空のファイルの場合も1）
+ */
+function calculatePartCount(size: number): number {
+  return Math.max(1, Math.ceil(size / calculatePartSize(size)));
+}
@@ -0,0 +1,422 @@
+/**
+ * ストレージ容量管理サービスクラス
+ *
+ * このクラスはファイルの所有者ごとのストレージの使用量（バイト数・ファイル数）と、プランごとの容量の上限を管理します。
+ * 使用量はタスクと同じテーブルに type: 'USAGE' のアイテムとして保存され、
+ * FileServiceがファイルメタデータの書き込みと同じトランザクションで増減します。
+ * 使用量を増やす書き込みは、上限を超える場合に条件を満たさずに失敗するため、同時にアップロードしても上限を超えません。
+ */
+import { DocumentClient } from 'aws-sdk/clients/dynamodb';
+import { dynamoDb, TASKS_TABLE } from '../utils/aws-clients';
+import { QuotaExceededError, isConditionalCheckFailed } from '../utils/errors';
+import {
+  DEFAULT_PAGE_LIMIT,
+  encodeCursor,
+  decodeCursor,
+} from '../utils/pagination';
+import { PaginatedResult, StorageOwner, StorageUsage } from '../types';
+
+/**
+ * 使用量を識別するためのtype属性の値
+ */
+const USAGE_ENTITY_TYPE = 'USAGE';
+
+/**
+ * 使用量のアイテムのIDの接頭辞
+ * ファイルやタスクのID（UUID）と衝突しないようにします
+ */
+const USAGE_ID_PREFIX = 'USAGE#';
+
+/**
+ * 種類ごとのアイテムを作成日時順に取得するためのGSI（タスク・ファイルと共用）
+ */
+const TYPE_CREATED_AT_INDEX = 'type-createdAt-index';
+
+/**
+ * プランごとの容量の上限（バイト）
+ * 環境変数 FILE_QUOTA_PLANS（プラン名:バイト数 のカンマ区切り）で変更できます
+ */
+export const QUOTA_PLANS = parseQuotaPlans(
+  process.env.FILE_QUOTA_PLANS || 'free:1073741824,pro:107374182400'
+);
+
+/**
+ * プランが設定されていない、または設定されていないプランの場合に適用するプラン
+ * 環境変数 FILE_QUOTA_DEFAULT_PLAN で変更できます
+ */
+export const DEFAULT_QUOTA_PLAN = process.env.FILE_QUOTA_DEFAULT_PLAN || 'free';
+
+export class StorageQuotaService {
+  /**
+   * @param plans - プランごとの容量の上限（デフォルト: 環境変数の設定）
+   * @param defaultPlan - デフォルトのプラン（デフォルト: 環境変数の設定）
+   */
+  constructor(
+    private readonly plans: { [plan: string]: number } = QUOTA_PLANS,
+    private readonly defaultPlan: string = DEFAULT_QUOTA_PLAN
+  ) {}
+
+  /**
+   * 所有者の使用量を取得する
+   *
+   * プランを指定しない場合は、前回使用量を計上したときのプランを適用します。
+   * まだ使用量を計上していない所有者は、使用量0として返します。
+   *
+   * @param owner - 所有者とプラン
+   * @returns 使用量と容量の上限
+   *
+   * @example
+   * const usage = await storageQuotaService.getUsage({ ownerId: 'user-1', plan: 'pro' });
+   */
+  async getUsage(owner: StorageOwner): Promise<StorageUsage> {
+    const result = await dynamoDb
+      .get({
+        TableName: TASKS_TABLE,
+        Key: { id: `${USAGE_ID_PREFIX}${owner.ownerId}` },
+      })
+      .promise();
+
+    return this.toStorageUsage(
+      result.Item || { ownerId: owner.ownerId },
+      owner.plan
+    );
+  }
+
+  /**
+   * 所有者の使用量の一覧を取得する
+   *
+   * 使用量を最初に計上した日時の古い順に返します。
+   *
+   * @param query - ページサイズとカーソル
+   * @returns 使用量の配列と次ページ取得用のカーソル
+   * @throws ValidationError - カーソルの形式が不正な場合
+   */
+  async listUsage(
+    query: { limit?: number; cursor?: string } = {}
+  ): Promise<PaginatedResult<StorageUsage>> {
+    const { limit = DEFAULT_PAGE_LIMIT, cursor } = query;
+
+    const result = await dynamoDb
+      .query({
+        TableName: TASKS_TABLE,
+        IndexName: TYPE_CREATED_AT_INDEX,
+        KeyConditionExpression: '#type = :type',
+        ExpressionAttributeNames: { '#type': 'type' },
+        ExpressionAttributeValues: { ':type': USAGE_ENTITY_TYPE },
+        Limit: limit,
+        ExclusiveStartKey: decodeCursor(cursor),
+      })
+      .promise();
+
+    return {
+      items: (result.Items || []).map((item) => this.toStorageUsage(item)),
+      nextCursor: encodeCursor(result.LastEvaluatedKey),
+    };
+  }
+
+  /**
+   * 指定したバイト数を追加しても容量の上限を超えないことを確認する
+   *
+   * @param owner - 所有者とプラン
+   * @param bytes - 追加するバイト数
+   * @returns 現在の使用量と容量の上限（buildChargeに渡します）
+   * @throws QuotaExceededError - 容量の上限を超える場合
+   *
+   * @example
+   * const usage = await storageQuotaService.assertWithinQuota(owner, 1024567);
+   */
+  async assertWithinQuota(
+    owner: StorageOwner,
+    bytes: number
+  ): Promise<StorageUsage> {
+    const usage = await this.getUsage(owner);
+    if (bytes > 0 && bytes > usage.remainingBytes) {
+      throw new QuotaExceededError('ストレージの容量の上限を超えています', {
+        plan: usage.plan,
+        quotaBytes: usage.quotaBytes,
+        bytesUsed: usage.bytesUsed,
+        remainingBytes: usage.remainingBytes,
+        requestedBytes: bytes,
+      });
+    }
+    return usage;
+  }
+
+  /**
+   * 使用量を増やす書き込みを作成する
+   *
+   * assertWithinQuotaで上限を超えないことを確認した後に使用します。
+   * 増やした結果が容量の上限を超える場合は、条件を満たさずにトランザクションが失敗します。
+   * 失敗した場合はassertWithinQuotaで上限を超えたのか、同時に使用量が更新されたのかを確認します。
+   * 減らす場合（bytesが負の場合）は上限を確認しません。
+   *
+   * @param usage - assertWithinQuotaで取得した使用量と容量の上限
+   * @param bytes - 増やすバイト数
+   * @param fileCount - 増やすファイル数
+   * @returns トランザクションに含める書き込み
+   */
+  buildCharge(
+    usage: StorageUsage,
+    bytes: number,
+    fileCount: number
+  ): DocumentClient.TransactWriteItem {
+    return this.buildUpdate(
+      usage.ownerId,
+      bytes,
+      fileCount,
+      usage.plan,
+      bytes > 0 ? usage.quotaBytes - bytes : undefined
+    );
+  }
+
+  /**
+   * 使用量を減らす書き込みを作成する
+   *
+   * @param ownerId - 所有者の識別子
+   * @param bytes - 減らすバイト数
+   * @param fileCount - 減らすファイル数
+   * @returns トランザクションに含める書き込み
+   */
+  buildRelease(
+    ownerId: string,
+    bytes: number,
+    fileCount: number
+  ): DocumentClient.TransactWriteItem {
+    return this.buildAdjust(ownerId, -bytes, -fileCount);
+  }
+
+  /**
+   * 容量の上限を確認せずに使用量を増減する書き込みを作成する
+   *
+   * APIを経由せずに書き換えられたオブジェクトのサイズに合わせる場合など、
+   * 既に保存されているオブジェクトの分を計上する場合に使用します。
+   *
+   * @param ownerId - 所有者の識別子
+   * @param bytes - 増減するバイト数
+   * @param fileCount - 増減するファイル数
+   * @returns トランザクションに含める書き込み
+   */
+  buildAdjust(
+    ownerId: string,
+    bytes: number,
+    fileCount: number
+  ): DocumentClient.TransactWriteItem {
+    return this.buildUpdate(ownerId, bytes, fileCount);
+  }
+
+  /**
+   * ファイルの使用量を減らす書き込みを作成する
+   *
+   * 使用量を計上していないファイル（所有者のないファイルなど）の場合は何も作成しません。
+   *
+   * @param file - ファイルメタデータ（またはDynamoDBのアイテム）
+   * @returns トランザクションに含める書き込み（0件または1件）
+   */
+  buildReleaseFile(file: {
+    ownerId?: string;
+    chargedBytes?: number;
+  }): DocumentClient.TransactWriteItem[] {
+    return file.ownerId && file.chargedBytes !== undefined
+      ? [this.buildRelease(file.ownerId, file.chargedBytes, 1)]
+      : [];
+  }
+
+  /**
+   * 削除したファイルの使用量を減らす
+   *
+   * ファイルメタデータの削除（ReturnValues: 'ALL_OLD'）の後に、削除したアイテムを渡して呼び出します。
+   * 削除後に失敗した場合の使用量の誤差は、ファイルの整合性チェックで修正されます。
+   *
+   * @param file - 削除したファイルメタデータのアイテム（削除されなかった場合はundefined）
+   *
+   * @example
+   * await storageQuotaService.releaseFile(result.Attributes);
+   */
+  async releaseFile(
+    file: { ownerId?: string; chargedBytes?: number } | undefined
+  ): Promise<void> {
+    const [release] = this.buildReleaseFile(file || {});
+    if (release?.Update) {
+      await dynamoDb.update(release.Update).promise();
+    }
+  }
+
+  /**
+   * 使用量をファイルメタデータから集計した値に合わせる
+   *
+   * ファイルの整合性チェックから呼び出されます。確認後に使用量が更新された場合は何もしません。
+   *
+   * @param ownerId - 所有者の識別子
+   * @param recorded - 確認時の使用量（使用量のアイテムがなかった場合はnull）
+   * @param actual - ファイルメタデータから集計した使用量
+   * @returns 更新した場合はtrue、確認後に使用量が更新されていた場合はfalse
+   */
+  async correctUsage(
+    ownerId: string,
+    recorded: Pick<StorageUsage, 'bytesUsed' | 'fileCount'> | null,
+    actual: Pick<StorageUsage, 'bytesUsed' | 'fileCount'>
+  ): Promise<boolean> {
+    const timestamp = new Date().toISOString();
+
+    try {
+      await dynamoDb
+        .update({
+          TableName: TASKS_TABLE,
+          Key: { id: `${USAGE_ID_PREFIX}${ownerId}` },
+          UpdateExpression:
+            'SET #type = :type, #ownerId = :ownerId, #bytesUsed = :actualBytes, #fileCount = :actualFileCount, #createdAt = if_not_exists(#createdAt, :timestamp), #updatedAt = :timestamp',
+          ConditionExpression: recorded
+            ? '#bytesUsed = :recordedBytes AND #fileCount = :recordedFileCount'
+            : 'attribute_not_exists(id)',
+          ExpressionAttributeNames: {
+            '#type': 'type',
+            '#ownerId': 'ownerId',
+            '#bytesUsed': 'bytesUsed',
+            '#fileCount': 'fileCount',
+            '#createdAt': 'createdAt',
+            '#updatedAt': 'updatedAt',
+          },
+          ExpressionAttributeValues: {
+            ':type': USAGE_ENTITY_TYPE,
+            ':ownerId': ownerId,
+            ':actualBytes': actual.bytesUsed,
+            ':actualFileCount': actual.fileCount,
+            ':timestamp': timestamp,
+            ...(recorded
+              ? {
+                  ':recordedBytes': recorded.bytesUsed,
+                  ':recordedFileCount': recorded.fileCount,
+                }
+              : {}),
+          },
+        })
+        .promise();
+      return true;
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 使用量を増減する書き込みを作成する
+   *
+   * 使用量のアイテムがない場合は作成します。
+   *
+   * @param ownerId - 所有者の識別子
+   * @param bytes - 増減するバイト数
+   * @param fileCount - 増減するファイル数
+   * @param plan - 適用したプラン（記録する場合のみ）
+   * @param maxBytesUsed - 書き込み前の使用量の上限（上限を確認する場合のみ）
+   * @returns トランザクションに含める書き込み
+   * @private
+   */
+  private buildUpdate(
+    ownerId: string,
+    bytes: number,
+    fileCount: number,
+    plan?: string,
+    maxBytesUsed?: number
+  ): DocumentClient.TransactWriteItem {
+    const timestamp = new Date().toISOString();
+    const sets = [
+      '#type = :type',
+      '#ownerId = :ownerId',
+      '#createdAt = if_not_exists(#createdAt, :timestamp)',
+      '#updatedAt = :timestamp',
+    ];
+    const attributeNames: { [key: string]: string } = {
+      '#type': 'type',
+      '#ownerId': 'ownerId',
+      '#createdAt': 'createdAt',
+      '#updatedAt': 'updatedAt',
+      '#bytesUsed': 'bytesUsed',
+      '#fileCount': 'fileCount',
+    };
+    const attributeValues: { [key: string]: any } = {
+      ':type': USAGE_ENTITY_TYPE,
+      ':ownerId': ownerId,
+      ':timestamp': timestamp,
+      ':bytes': bytes,
+      ':fileCount': fileCount,
+    };
+    if (plan) {
+      sets.push('#plan = :plan');
+      attributeNames['#plan'] = 'plan';
+      attributeValues[':plan'] = plan;
+    }
+    if (maxBytesUsed !== undefined) {
+      attributeValues[':maxBytesUsed'] = maxBytesUsed;
+    }
+
+    return {
+      Update: {
+        TableName: TASKS_TABLE,
+        Key: { id: `${USAGE_ID_PREFIX}${ownerId}` },
+        UpdateExpression: `SET ${sets.join(
+          ', '
+        )} ADD #bytesUsed :bytes, #fileCount :fileCount`,
+        ...(maxBytesUsed !== undefined
+          ? {
+              ConditionExpression:
+                'attribute_not_exists(#bytesUsed) OR #bytesUsed <= :maxBytesUsed',
+            }
+          : {}),
+        ExpressionAttributeNames: attributeNames,
+        ExpressionAttributeValues: attributeValues,
+      },
+    };
+  }
+
+  /**
+   * DynamoDBのアイテムを使用量に変換する
+   *
+   * @param item - DynamoDBから取得したアイテム
+   * @param plan - 適用するプラン（省略時はアイテムに記録されたプラン）
+   * @returns 使用量と容量の上限
+   * @private
+   */
+  private toStorageUsage(
+    item: { [key: string]: any },
+    plan?: string
+  ): StorageUsage {
+    const resolvedPlan = [plan, item.plan].find(
+      (candidate) => candidate && this.plans[candidate] !== undefined
+    );
+    const appliedPlan = resolvedPlan || this.defaultPlan;
+    const quotaBytes = this.plans[appliedPlan] ?? 0;
+    const bytesUsed = item.bytesUsed ?? 0;
+
+    return {
+      ownerId: item.ownerId,
+      plan: appliedPlan,
+      quotaBytes,
+      bytesUsed,
+      fileCount: item.fileCount ?? 0,
+      remainingBytes: Math.max(quotaBytes - bytesUsed, 0),
+    };
+  }
+}
+
+/**
+ * プランごとの容量の上限の設定を読み込む
+ *
+ * @param value - プラン名:バイト数 のカンマ区切りの文字列
+ * @returns プラン名ごとの容量の上限（バイト）
+ *
+ * @example
+ * parseQuotaPlans('free:1073741824,pro:107374182400')
+ * // => { free: 1073741824, pro: 107374182400 }
+ */
+function parseQuotaPlans(value: string): { [plan: string]: number } {
+  const plans: { [plan: string]: number } = {};
+  for (const entry of value.split(',')) {
+    const [plan, bytes] = entry.split(':').map((part) => part.trim());
+    if (plan && Number.isInteger(Number(bytes)) && Number(bytes) >= 0) {
+      plans[plan] = Number(bytes);
+    }
+  }
+  return plans;
+}
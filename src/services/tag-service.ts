@@ -0,0 +1,114 @@
+/**
+ * タグ集計サービスクラス
+ *
+ * このクラスはタグごとの使用数（タグが付いたタスクの件数）を管理し、
+ * タグの一覧を使用数とともに取得する機能を提供します。
+ * 使用数はタスクと同じテーブルに type: 'TAG' のアイテムとして保存され、
+ * TaskServiceがタグの付け外しを伴うタスクの書き込みと同じトランザクションで更新します。
+ */
+import { DocumentClient } from 'aws-sdk/clients/dynamodb';
+import { dynamoDb, TASKS_TABLE } from '../utils/aws-clients';
+import { TagUsage } from '../types';
+
+/**
+ * タグの使用数を識別するためのtype属性の値
+ */
+const TAG_ENTITY_TYPE = 'TAG';
+
+/**
+ * type属性でタグの使用数を取得するためのGSI（タスク一覧と共用）
+ */
+const TYPE_CREATED_AT_INDEX = 'type-createdAt-index';
+
+/**
+ * タグの使用数アイテムのIDの接頭辞
+ * タスクのID（UUID）と衝突しないようにします
+ */
+const TAG_ID_PREFIX = 'TAG#';
+
+export class TagService {
+  /**
+   * タグの使用数を増減する書き込みを作成する
+   *
+   * 戻り値をタスクの書き込みと同じトランザクションに含めることで、
+   * タスクのタグと使用数が食い違わないようにします。
+   *
+   * @param added - 使用数を1増やすタグ
+   * @param removed - 使用数を1減らすタグ
+   * @param timestamp - 初めて使用された日時として記録する日時
+   * @returns トランザクションに含める書き込みの配列
+   *
+   * @example
+   * const writes = tagService.buildCountUpdates(['backend'], ['frontend']);
+   */
+  buildCountUpdates(
+    added: string[],
+    removed: string[],
+    timestamp: string = new Date().toISOString()
+  ): DocumentClient.TransactWriteItem[] {
+    const deltas: [string, number][] = [
+      ...added.map((tag): [string, number] => [tag, 1]),
+      ...removed.map((tag): [string, number] => [tag, -1]),
+    ];
+
+    return deltas.map(([tag, delta]) => ({
+      Update: {
+        TableName: TASKS_TABLE,
+        Key: { id: `${TAG_ID_PREFIX}${tag}` },
+        UpdateExpression:
+          'SET #type = :type, #tag = :tag, #createdAt = if_not_exists(#createdAt, :createdAt) ADD #count :delta',
+        ExpressionAttributeNames: {
+          '#type': 'type',
+          '#tag': 'tag',
+          '#createdAt': 'createdAt',
+          '#count': 'count',
+        },
+        ExpressionAttributeValues: {
+          ':type': TAG_ENTITY_TYPE,
+          ':tag': tag,
+          ':createdAt': timestamp,
+          ':delta': delta,
+        },
+      },
+    }));
+  }
+
+  /**
+   * タグの一覧を使用数とともに取得する
+   *
+   * 使用中のタスクがなくなったタグ（使用数が0）は含みません。
+   * 使用数の多い順に、同じ使用数の場合はタグ名の順に並べて返します。
+   *
+   * @returns タグと使用数の配列
+   *
+   * @example
+   * const tags = await tagService.listTags();
+   * // => [{ tag: 'backend', count: 12 }, { tag: 'frontend', count: 3 }]
+   */
+  async listTags(): Promise<TagUsage[]> {
+    const tags: TagUsage[] = [];
+    let startKey: { [key: string]: any } | undefined;
+
+    do {
+      const result = await dynamoDb
+        .query({
+          TableName: TASKS_TABLE,
+          IndexName: TYPE_CREATED_AT_INDEX,
+          KeyConditionExpression: '#type = :type',
+          FilterExpression: '#count > :zero',
+          ExpressionAttributeNames: { '#type': 'type', '#count': 'count' },
+          ExpressionAttributeValues: { ':type': TAG_ENTITY_TYPE, ':zero': 0 },
+          ExclusiveStartKey: startKey,
+        })
+        .promise();
+
+      for (const item of result.Items || []) {
+        tags.push({ tag: item.tag, count: item.count });
+      }
+
+      startKey = result.LastEvaluatedKey;
+    } while (startKey);
+
+    return tags.sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+}
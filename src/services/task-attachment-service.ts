@@ -0,0 +1,224 @@
+/**
+ * タスク添付ファイルサービスクラス
+ *
+ * このクラスはタスクにファイルを添付するためのアップロードの発行、添付ファイルの一覧・切り離し・削除、
+ * およびタスクを削除する際の添付ファイルの扱い（削除ポリシー）を担当します。
+ * 添付ファイルはtaskId属性を持つ通常のファイルメタデータとして保存され、
+ * アップロードの完了やダウンロードURLの発行はFileServiceの機能をそのまま使用します。
+ *
+ * 削除ポリシーは環境変数 TASK_ATTACHMENT_DELETE_POLICY で選択します。
+ * - CASCADE: タスクの完全削除時に添付ファイルも削除
+ * - KEEP: タスクの完全削除時に添付ファイルをタスクから切り離して残す
+ * - BLOCK: 添付ファイルがあるタスクの削除（ゴミ箱への移動）を拒否
+ */
+import { FileService } from './file-service';
+import { ConflictError } from '../utils/errors';
+import {
+  AttachmentDeletePolicy,
+  FileMetadata,
+  PaginatedResult,
+  PresignedUpload,
+  StorageOwner,
+} from '../types';
+
+/**
+ * タスクを削除する際の添付ファイルの扱い
+ * 環境変数 TASK_ATTACHMENT_DELETE_POLICY で変更できます
+ */
+export const ATTACHMENT_DELETE_POLICY = (process.env
+  .TASK_ATTACHMENT_DELETE_POLICY ||
+  AttachmentDeletePolicy.KEEP) as AttachmentDeletePolicy;
+
+/**
+ * 削除ポリシーを適用する際に1回で取得する添付ファイルの件数
+ */
+const RELEASE_BATCH_SIZE = 100;
+
+export class TaskAttachmentService {
+  /**
+   * @param fileService - ファイルのアップロード・切り離し・削除に使用するサービス
+   * @param deletePolicy - タスクを削除する際の添付ファイルの扱い（デフォルト: 環境変数の設定）
+   * @throws Error - 不明な削除ポリシーが指定された場合
+   */
+  constructor(
+    private readonly fileService: FileService = new FileService(),
+    private readonly deletePolicy: AttachmentDeletePolicy = ATTACHMENT_DELETE_POLICY
+  ) {
+    if (!Object.values(AttachmentDeletePolicy).includes(deletePolicy)) {
+      throw new Error(
+        `添付ファイルの削除ポリシー ${deletePolicy} は不正です（${Object.values(AttachmentDeletePolicy).join(', ')}）`
+      );
+    }
+  }
+
+  /**
+   * タスクに添付するファイルのアップロードを発行する
+   *
+   * FileServiceで署名付きPOSTを生成し、添付先のタスクIDを含むメタデータをPENDINGとして保存します。
+   * アップロード後は POST /files/{id}/complete で通常のファイルと同じように完了します。
+   * タスクの存在は呼び出し側で確認します。
+   *
+   * @param taskId - 添付先のタスクID
+   * @param filename - アップロードするファイルの名前
+   * @param contentType - ファイルのMIMEタイプ
+   * @param size - ファイルのサイズ（バイト）
+   * @param sha256 - ファイルの内容のSHA-256（アップロード完了時に照合します）
+   * @param owner - 使用量を計上する所有者とプラン（省略時は計上しない）
+   * @returns アップロード用の署名付きPOSTと保存されたファイルメタデータ
+   * @throws ValidationError - アップロードポリシーで許可されていないファイルの場合
+   * @throws QuotaExceededError - 所有者の容量の上限を超える場合
+   *
+   * @example
+   * const { upload, file } = await attachmentService.createUpload(
+   *   taskId,
+   *   'spec.pdf',
+   *   'application/pdf',
+   *   1024567,
+   *   sha256
+   * );
+   */
+  async createUpload(
+    taskId: string,
+    filename: string,
+    contentType: string,
+    size: number,
+    sha256: string,
+    owner?: StorageOwner
+  ): Promise<{ upload: PresignedUpload; file: FileMetadata }> {
+    const {
+      url,
+      fields,
+      fileId,
+      filename: sanitized,
+    } = this.fileService.generateUploadUrl(filename, contentType, size, sha256);
+
+    const file = await this.fileService.saveFileMetadata(
+      fileId,
+      sanitized,
+      contentType,
+      size,
+      { sha256, taskId },
+      owner
+    );
+
+    return { upload: { url, fields }, file };
+  }
+
+  /**
+   * タスクの添付ファイルの一覧を取得する
+   *
+   * @param taskId - 添付先のタスクID
+   * @param query - ページサイズとカーソル
+   * @returns ファイルメタデータの配列と次ページ取得用のカーソル
+   * @throws ValidationError - カーソルの形式が不正な場合
+   */
+  async listAttachments(
+    taskId: string,
+    query: { limit?: number; cursor?: string } = {}
+  ): Promise<PaginatedResult<FileMetadata>> {
+    return this.fileService.listFilesByTask(taskId, query);
+  }
+
+  /**
+   * 添付ファイルをタスクから切り離す
+   *
+   * ファイルは削除せず、どのタスクにも添付されていないファイルとして残します。
+   *
+   * @param taskId - 添付先のタスクID
+   * @param fileId - 切り離すファイルの一意識別子
+   * @returns 更新されたファイルメタデータ、ファイルがタスクに添付されていない場合はnull
+   */
+  async detachAttachment(
+    taskId: string,
+    fileId: string
+  ): Promise<FileMetadata | null> {
+    return this.fileService.detachFromTask(fileId, taskId);
+  }
+
+  /**
+   * 添付ファイルを削除する
+   *
+   * S3上のファイルとメタデータを削除します。
+   *
+   * @param taskId - 添付先のタスクID
+   * @param fileId - 削除するファイルの一意識別子
+   * @returns 削除した場合はtrue、ファイルがタスクに添付されていない場合はfalse
+   * @throws Error - ファイルの削除に失敗した場合
+   */
+  async deleteAttachment(taskId: string, fileId: string): Promise<boolean> {
+    const file = await this.fileService.getFileMetadata(fileId);
+    if (!file || file.taskId !== taskId) {
+      return false;
+    }
+
+    if (!(await this.fileService.deleteFile(fileId, file.filename))) {
+      throw new Error(`添付ファイル ${fileId} の削除に失敗しました`);
+    }
+    return true;
+  }
+
+  /**
+   * 削除ポリシーに照らしてタスクを削除できるかを確認する
+   *
+   * 削除ポリシーがBLOCKで、タスクに添付ファイルがある場合は削除を拒否します。
+   * TaskService.deleteTaskから、タスクをゴミ箱へ移動する前に呼び出されます。
+   *
+   * @param taskId - 削除するタスクのID
+   * @throws ConflictError - 添付ファイルがあるため削除できない場合
+   */
+  async assertTaskDeletable(taskId: string): Promise<void> {
+    if (this.deletePolicy !== AttachmentDeletePolicy.BLOCK) {
+      return;
+    }
+
+    const { items } = await this.fileService.listFilesByTask(taskId, {
+      limit: RELEASE_BATCH_SIZE,
+    });
+    if (items.length > 0) {
+      throw new ConflictError(
+        '添付ファイルがあるため削除できません。添付ファイルを切り離すか削除してから再度実行してください',
+        { fileIds: items.map((file) => file.id) }
+      );
+    }
+  }
+
+  /**
+   * 完全に削除されたタスクの添付ファイルに削除ポリシーを適用する
+   *
+   * 削除ポリシーがCASCADEの場合は添付ファイルを削除し、
+   * それ以外の場合はタスクから切り離して残します。
+   * タスクの完全削除（DELETEイベントのdeleteMode: HARD）を処理するキューのハンドラーから呼び出されます。
+   *
+   * @param taskId - 完全に削除されたタスクのID
+   * @returns 削除または切り離した添付ファイルの件数
+   * @throws Error - ファイルの削除に失敗した場合（SQSの再試行で残りのファイルを処理します）
+   *
+   * @example
+   * const released = await attachmentService.releaseAttachments(taskId);
+   */
+  async releaseAttachments(taskId: string): Promise<number> {
+    let released = 0;
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.fileService.listFilesByTask(taskId, {
+        limit: RELEASE_BATCH_SIZE,
+        cursor,
+      });
+
+      for (const file of page.items) {
+        const done =
+          this.deletePolicy === AttachmentDeletePolicy.CASCADE
+            ? await this.deleteAttachment(taskId, file.id)
+            : !!(await this.detachAttachment(taskId, file.id));
+        if (done) {
+          released++;
+        }
+      }
+
+      cursor = page.nextCursor || undefined;
+    } while (cursor);
+
+    return released;
+  }
+}
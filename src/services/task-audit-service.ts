@@ -0,0 +1,184 @@
+/**
+ * タスク監査ログサービスクラス
+ *
+ * このクラスはタスクの作成・更新・削除ごとの監査レコードを作成し、
+ * タスク単位の変更履歴をDynamoDBから取得する機能を提供します。
+ * 監査レコードはタスクと同じテーブルに type: 'TASK_AUDIT' のアイテムとして保存され、
+ * TaskServiceがタスクの書き込みと同じトランザクションで書き込みます。
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { dynamoDb, TASKS_TABLE } from '../utils/aws-clients';
+import {
+  encodeCursor,
+  decodeCursor,
+  DEFAULT_PAGE_LIMIT,
+} from '../utils/pagination';
+import {
+  Task,
+  TaskAuditAction,
+  TaskAuditRecord,
+  TaskFieldChange,
+  PaginatedResult,
+} from '../types';
+
+/**
+ * 監査レコードを識別するためのtype属性の値
+ */
+const AUDIT_ENTITY_TYPE = 'TASK_AUDIT';
+
+/**
+ * タスクごとの監査レコードを日時順に取得するためのGSI
+ */
+const TASK_ID_AT_INDEX = 'taskId-at-index';
+
+/**
+ * 変更差分の対象外とする属性
+ * 書き込みごとに必ず変わる管理用の属性と、個別に履歴を持つ遷移履歴は記録しません
+ */
+const IGNORED_FIELDS = ['updatedAt', 'version', 'transitions'];
+
+/**
+ * 変更前後のタスクからフィールド単位の差分を作成する
+ *
+ * 作成時は before に null、完全削除時は after に null を指定します。
+ * 値が存在しないフィールドは null として記録されます。
+ *
+ * @param before - 変更前のタスク
+ * @param after - 変更後のタスク
+ * @returns 変更されたフィールドごとの変更前後の値
+ *
+ * @example
+ * const changes = diffTask(currentTask, { ...currentTask, description: '新しい説明' });
+ * // => [{ field: 'description', before: '古い説明', after: '新しい説明' }]
+ */
+export const diffTask = (
+  before: Partial<Task> | null,
+  after: Partial<Task> | null
+): TaskFieldChange[] => {
+  const beforeValues: { [key: string]: any } = before || {};
+  const afterValues: { [key: string]: any } = after || {};
+  const fields = new Set([
+    ...Object.keys(beforeValues),
+    ...Object.keys(afterValues),
+  ]);
+
+  const changes: TaskFieldChange[] = [];
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field)) {
+      continue;
+    }
+
+    const oldValue = beforeValues[field] ?? null;
+    const newValue = afterValues[field] ?? null;
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ field, before: oldValue, after: newValue });
+    }
+  }
+
+  return changes.sort((a, b) => a.field.localeCompare(b.field));
+};
+
+export class TaskAuditService {
+  /**
+   * 監査レコードを作成する
+   *
+   * DynamoDBへの書き込みは行わず、TaskServiceがタスクの書き込みと同じ
+   * トランザクションに含めて保存するためのアイテムを返します。
+   *
+   * @param taskId - 対象のタスクID
+   * @param action - 操作の種類
+   * @param actor - 操作者
+   * @param before - 変更前のタスク（作成時はnull）
+   * @param after - 変更後のタスク（完全削除時はnull）
+   * @param at - 操作日時（ISO 8601形式、デフォルト: 現在時刻）
+   * @returns DynamoDBに保存する監査レコードのアイテム
+   *
+   * @example
+   * const item = auditService.buildAuditItem(task.id, 'CREATE', 'user-1', null, task);
+   */
+  buildAuditItem(
+    taskId: string,
+    action: TaskAuditAction,
+    actor: string,
+    before: Partial<Task> | null,
+    after: Partial<Task> | null,
+    at: string = new Date().toISOString()
+  ): { [key: string]: any } {
+    const record: TaskAuditRecord = {
+      id: uuidv4(),
+      taskId,
+      action,
+      actor,
+      at,
+      changes: diffTask(before, after),
+    };
+
+    return {
+      ...record,
+      id: `AUDIT#${record.id}`,
+      type: AUDIT_ENTITY_TYPE,
+    };
+  }
+
+  /**
+   * タスクの変更履歴を取得する
+   *
+   * 指定したタスクの監査レコードを新しい順に返します。
+   * タスクが完全に削除された後も監査レコードは保持されます。
+   *
+   * @param taskId - 対象のタスクID
+   * @param query - ページサイズとカーソル
+   * @returns 監査レコードの配列と次ページ取得用のカーソル
+   * @throws ValidationError - カーソルの形式が不正な場合
+   *
+   * @example
+   * const { items, nextCursor } = await auditService.listHistory(taskId, { limit: 20 });
+   */
+  async listHistory(
+    taskId: string,
+    query: { limit?: number; cursor?: string } = {}
+  ): Promise<PaginatedResult<TaskAuditRecord>> {
+    const { limit = DEFAULT_PAGE_LIMIT, cursor } = query;
+
+    const result = await dynamoDb
+      .query({
+        TableName: TASKS_TABLE,
+        IndexName: TASK_ID_AT_INDEX,
+        KeyConditionExpression: '#taskId = :taskId',
+        FilterExpression: '#type = :type',
+        ExpressionAttributeNames: { '#taskId': 'taskId', '#type': 'type' },
+        ExpressionAttributeValues: {
+          ':taskId': taskId,
+          ':type': AUDIT_ENTITY_TYPE,
+        },
+        ScanIndexForward: false,
+        Limit: limit,
+        ExclusiveStartKey: decodeCursor(cursor),
+      })
+      .promise();
+
+    return {
+      items: (result.Items || []).map((item) => this.toRecord(item)),
+      nextCursor: encodeCursor(result.LastEvaluatedKey),
+    };
+  }
+
+  /**
+   * DynamoDBのアイテムを監査レコードに変換する
+   *
+   * @param item - DynamoDBから取得したアイテム
+   * @returns 監査レコード
+   * @private
+   */
+  private toRecord(item: { [key: string]: any }): TaskAuditRecord {
+    const { id, taskId, action, actor, at, changes } = item;
+    return {
+      id: String(id).replace(/^AUDIT#/, ''),
+      taskId,
+      action,
+      actor,
+      at,
+      changes,
+    };
+  }
+}
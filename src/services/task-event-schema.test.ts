@@ -0,0 +1,135 @@
+import {
+  InvalidTaskEventError,
+  parseTaskEvent,
+  TASK_EVENT_SCHEMA_VERSION,
+  validateTaskEvent,
+} from './task-event-schema';
+
+/**
+ * 検証を通る更新イベントを作成する
+ */
+const buildEvent = (overrides: { [key: string]: any } = {}) => ({
+  eventId: 'event-1',
+  eventType: 'UPDATE',
+  schemaVersion: TASK_EVENT_SCHEMA_VERSION,
+  occurredAt: '2024-01-01T00:00:00.000Z',
+  actor: 'user-1',
+  correlationId: 'correlation-1',
+  payload: {
+    taskId: 'task-1',
+    task: {
+      id: 'task-1',
+      title: 'タスク',
+      status: 'DONE',
+      createdAt: '2024-01-01T00:00:00.000Z',
+    },
+    changes: [{ field: 'status', before: 'IN_PROGRESS', after: 'DONE' }],
+    statusChange: { from: 'IN_PROGRESS', to: 'DONE' },
+  },
+  ...overrides,
+});
+
+/**
+ * 検証エラーの理由を取得する（エラーにならない場合はundefined）
+ */
+const rejectReason = (value: unknown): string | undefined => {
+  try {
+    validateTaskEvent(value);
+    return undefined;
+  } catch (error) {
+    expect(error).toBeInstanceOf(InvalidTaskEventError);
+    return (error as InvalidTaskEventError).reason;
+  }
+};
+
+describe('validateTaskEvent', () => {
+  it('正しい形式のイベントをそのまま返す', () => {
+    const event = buildEvent();
+
+    expect(validateTaskEvent(event)).toBe(event);
+  });
+
+  it.each([2, 0])(
+    '対応していないschemaVersion（%p）はUNSUPPORTED_SCHEMA_VERSIONになる',
+    (schemaVersion) => {
+      expect(rejectReason(buildEvent({ schemaVersion }))).toBe(
+        'UNSUPPORTED_SCHEMA_VERSION'
+      );
+    }
+  );
+
+  it.each([undefined, '1', 1.5])(
+    '整数でないschemaVersion（%p）はINVALID_EVENTになる',
+    (schemaVersion) => {
+      expect(rejectReason(buildEvent({ schemaVersion }))).toBe('INVALID_EVENT');
+    }
+  );
+
+  it.each(['eventId', 'actor', 'correlationId', 'occurredAt', 'payload'])(
+    '%s がない場合はINVALID_EVENTになる',
+    (field) => {
+      const event: { [key: string]: any } = buildEvent();
+      delete event[field];
+
+      expect(rejectReason(event)).toBe('INVALID_EVENT');
+    }
+  );
+
+  it.each([
+    ['オブジェクトでないイベント', 'event'],
+    ['不明なイベントの種類', buildEvent({ eventType: 'ARCHIVE' })],
+    ['日時でないoccurredAt', buildEvent({ occurredAt: 'yesterday' })],
+    [
+      'payload.taskIdと異なるpayload.task',
+      buildEvent({
+        payload: { ...buildEvent().payload, taskId: 'task-2' },
+      }),
+    ],
+    [
+      '配列でないpayload.changes',
+      buildEvent({ payload: { ...buildEvent().payload, changes: {} } }),
+    ],
+    [
+      '不明なステータスへのstatusChange',
+      buildEvent({
+        payload: {
+          ...buildEvent().payload,
+          statusChange: { from: 'TODO', to: 'ARCHIVED' },
+        },
+      }),
+    ],
+  ])('%sはINVALID_EVENTになる', (_, event) => {
+    expect(rejectReason(event)).toBe('INVALID_EVENT');
+  });
+
+  it.each([
+    ['DELETE', 'deleteMode', 'SOFT'],
+    ['UNBLOCKED', 'unblockedBy', 'task-2'],
+    ['REMINDER', 'dueAt', '2024-01-02T00:00:00.000Z'],
+  ])('%sイベントには payload.%s が必要', (eventType, field, value) => {
+    const payload = { ...buildEvent().payload, changes: [] };
+
+    expect(rejectReason(buildEvent({ eventType, payload }))).toBe(
+      'INVALID_EVENT'
+    );
+    expect(
+      rejectReason(
+        buildEvent({ eventType, payload: { ...payload, [field]: value } })
+      )
+    ).toBeUndefined();
+  });
+});
+
+describe('parseTaskEvent', () => {
+  it('JSONとして解釈できない本文はINVALID_EVENTになる', () => {
+    expect(() => parseTaskEvent('{')).toThrow(
+      expect.objectContaining({ reason: 'INVALID_EVENT' })
+    );
+  });
+
+  it('本文を解釈して検証したイベントを返す', () => {
+    const event = buildEvent();
+
+    expect(parseTaskEvent(JSON.stringify(event))).toEqual(event);
+  });
+});
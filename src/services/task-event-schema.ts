@@ -0,0 +1,267 @@
+/**
+ * タスクイベントのスキーマ
+ *
+ * SQSで送受信するタスクイベントのエンベロープを作成し、形式を検証します。
+ * 送信側（TaskService）は不正なイベントを送信しないように、受信側（キューの処理関数）は
+ * 処理できないメッセージをデッドレターキューに送るために、同じ検証を使用します。
+ */
+import { v4 as uuidv4 } from 'uuid';
+import {
+  TaskEvent,
+  TaskEventContext,
+  TaskEventPayload,
+  TaskEventType,
+  TaskStatus,
+} from '../types';
+
+/**
+ * 現在のメッセージ形式のバージョン
+ * 既存の処理関数が解釈できない形式の変更を行う場合に上げます
+ */
+export const TASK_EVENT_SCHEMA_VERSION = 1;
+
+/**
+ * タスクイベントの種類の一覧
+ */
+export const TASK_EVENT_TYPES: TaskEventType[] = [
+  'CREATE',
+  'UPDATE',
+  'DELETE',
+  'RESTORE',
+  'UNBLOCKED',
+  'REMINDER',
+];
+
+/**
+ * タスクイベントを処理できない理由
+ * - INVALID_EVENT: JSONとして解釈できない、または必須の属性がない・型が正しくない
+ * - UNSUPPORTED_SCHEMA_VERSION: 処理関数が対応していないメッセージ形式のバージョン
+ */
+export type TaskEventRejectReason =
+  'INVALID_EVENT' | 'UNSUPPORTED_SCHEMA_VERSION';
+
+/**
+ * タスクイベントの形式が正しくない場合のエラー
+ *
+ * HTTPのレスポンスには変換されず、送信側では送信の中止、受信側ではデッドレターキューへの送信に使用されます。
+ */
+export class InvalidTaskEventError extends Error {
+  /**
+   * @param message - エラーメッセージ
+   * @param reason - 処理できない理由
+   */
+  constructor(
+    message: string,
+    public readonly reason: TaskEventRejectReason
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * タスクイベントを作成する
+ *
+ * イベントID・発生日時を付与し、現在のメッセージ形式のバージョンのエンベロープを作成します。
+ * 相関IDを指定しない場合は新しく生成します。
+ *
+ * @param eventType - イベントの種類
+ * @param payload - イベントの内容
+ * @param context - イベントを発生させた操作者と相関ID
+ * @returns 検証済みのタスクイベント
+ * @throws InvalidTaskEventError - ペイロードがイベントの種類の形式を満たさない場合
+ *
+ * @example
+ * const event = createTaskEvent(
+ *   'DELETE',
+ *   { taskId: task.id, task, changes, deleteMode: 'SOFT' },
+ *   { actor: 'user-1' }
+ * );
+ */
+export const createTaskEvent = (
+  eventType: TaskEventType,
+  payload: TaskEventPayload,
+  context: TaskEventContext
+): TaskEvent =>
+  validateTaskEvent({
+    eventId: uuidv4(),
+    eventType,
+    schemaVersion: TASK_EVENT_SCHEMA_VERSION,
+    occurredAt: new Date().toISOString(),
+    actor: context.actor,
+    correlationId: context.correlationId || uuidv4(),
+    payload,
+  });
+
+/**
+ * SQSメッセージの本文をタスクイベントとして解釈する
+ *
+ * @param body - SQSメッセージの本文
+ * @returns 検証済みのタスクイベント
+ * @throws InvalidTaskEventError - JSONとして解釈できない場合、または形式が正しくない場合
+ *
+ * @example
+ * const event = parseTaskEvent(record.body);
+ */
+export const parseTaskEvent = (body: string): TaskEvent => {
+  let value: unknown;
+  try {
+    value = JSON.parse(body);
+  } catch {
+    throw new InvalidTaskEventError(
+      'メッセージをJSONとして解釈できません',
+      'INVALID_EVENT'
+    );
+  }
+
+  return validateTaskEvent(value);
+};
+
+/**
+ * タスクイベントの形式を検証する
+ *
+ * メッセージ形式のバージョンを最初に確認し、対応していないバージョンの場合は
+ * それ以外の属性を検証せずにUNSUPPORTED_SCHEMA_VERSIONとします。
+ *
+ * @param value - 検証する値
+ * @returns 検証済みのタスクイベント
+ * @throws InvalidTaskEventError - 形式が正しくない場合
+ *
+ * @example
+ * const event = validateTaskEvent(JSON.parse(record.body));
+ */
+export const validateTaskEvent = (value: unknown): TaskEvent => {
+  if (!isObject(value)) {
+    throw invalid('イベントはオブジェクトである必要があります');
+  }
+
+  const { schemaVersion } = value;
+  if (!Number.isInteger(schemaVersion)) {
+    throw invalid('schemaVersion は整数である必要があります');
+  }
+  if (schemaVersion !== TASK_EVENT_SCHEMA_VERSION) {
+    throw new InvalidTaskEventError(
+      `対応していないメッセージ形式のバージョンです: ${schemaVersion}（対応: ${TASK_EVENT_SCHEMA_VERSION}）`,
+      'UNSUPPORTED_SCHEMA_VERSION'
+    );
+  }
+
+  for (const field of ['eventId', 'actor', 'correlationId']) {
+    if (!isNonEmptyString(value[field])) {
+      throw invalid(`${field} は空でない文字列である必要があります`);
+    }
+  }
+
+  if (!TASK_EVENT_TYPES.includes(value.eventType)) {
+    throw invalid(`不明なイベントの種類です: ${value.eventType}`);
+  }
+
+  if (!isTimestamp(value.occurredAt)) {
+    throw invalid('occurredAt はISO 8601形式の日時である必要があります');
+  }
+
+  validatePayload(value.eventType, value.payload);
+
+  return value as unknown as TaskEvent;
+};
+
+/**
+ * イベントの種類に応じてペイロードの形式を検証する
+ *
+ * @param eventType - イベントの種類
+ * @param payload - 検証するペイロード
+ * @throws InvalidTaskEventError - 形式が正しくない場合
+ */
+function validatePayload(eventType: TaskEventType, payload: unknown): void {
+  if (!isObject(payload)) {
+    throw invalid('payload はオブジェクトである必要があります');
+  }
+
+  const { taskId, task, changes } = payload;
+  if (!isNonEmptyString(taskId)) {
+    throw invalid('payload.taskId は空でない文字列である必要があります');
+  }
+  if (!isObject(task) || task.id !== taskId) {
+    throw invalid(
+      'payload.task は payload.taskId のタスクである必要があります'
+    );
+  }
+  if (
+    !Array.isArray(changes) ||
+    !changes.every(
+      (change) => isObject(change) && isNonEmptyString(change.field)
+    )
+  ) {
+    throw invalid(
+      'payload.changes はフィールドの変更の配列である必要があります'
+    );
+  }
+
+  const { statusChange } = payload;
+  if (
+    statusChange !== undefined &&
+    !(
+      isObject(statusChange) &&
+      isTaskStatus(statusChange.from) &&
+      isTaskStatus(statusChange.to)
+    )
+  ) {
+    throw invalid(
+      'payload.statusChange は変更前後のステータスである必要があります'
+    );
+  }
+
+  if (
+    eventType === 'DELETE' &&
+    payload.deleteMode !== 'SOFT' &&
+    payload.deleteMode !== 'HARD'
+  ) {
+    throw invalid(
+      'DELETEイベントの payload.deleteMode は SOFT または HARD である必要があります'
+    );
+  }
+  if (eventType === 'UNBLOCKED' && !isNonEmptyString(payload.unblockedBy)) {
+    throw invalid('UNBLOCKEDイベントには payload.unblockedBy が必要です');
+  }
+  if (eventType === 'REMINDER' && !isTimestamp(payload.dueAt)) {
+    throw invalid('REMINDERイベントには payload.dueAt が必要です');
+  }
+}
+
+/**
+ * 形式が正しくないイベントのエラーを作成する
+ *
+ * @param message - エラーメッセージ
+ * @returns INVALID_EVENTのエラー
+ */
+function invalid(message: string): InvalidTaskEventError {
+  return new InvalidTaskEventError(message, 'INVALID_EVENT');
+}
+
+/**
+ * 値が（配列以外の）オブジェクトかを判定する
+ */
+function isObject(value: unknown): value is { [key: string]: any } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 値が空でない文字列かを判定する
+ */
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+/**
+ * 値が日時として解釈できる文字列かを判定する
+ */
+function isTimestamp(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * 値がタスクのステータスかを判定する
+ */
+function isTaskStatus(value: unknown): value is TaskStatus {
+  return Object.values(TaskStatus).includes(value as TaskStatus);
+}
@@ -0,0 +1,75 @@
+/**
+ * タスク通知の送信
+ *
+ * 期日のリマインダーなど、タスクに関する通知の送信先を差し替えられるようにするための
+ * インターフェースと実装を定義します。使用する実装は環境変数 TASK_NOTIFIER で選択し、
+ * registerTaskNotifierで独自の実装（メール、チャットなど）を追加できます。
+ */
+import { Task } from '../types';
+
+/**
+ * タスク通知の送信先のインターフェース
+ */
+export interface TaskNotifier {
+  /**
+   * 期日が近づいたタスクのリマインダーを送信する
+   *
+   * @param task - 期日が近づいたタスク
+   */
+  notifyDueSoon(task: Task): Promise<void>;
+}
+
+/**
+ * 通知内容をログに出力する通知の実装
+ *
+ * 外部サービスを必要としないため、LocalStack上での動作確認に使用します。
+ */
+export class LogTaskNotifier implements TaskNotifier {
+  async notifyDueSoon(task: Task): Promise<void> {
+    console.log(
+      `リマインダー: タスク「${task.title}」(${task.id}) の期日が近づいています。期日: ${task.dueAt}`
+    );
+  }
+}
+
+/**
+ * 通知の実装の名前と生成関数の対応
+ */
+const notifierFactories: { [name: string]: () => TaskNotifier } = {
+  log: () => new LogTaskNotifier(),
+};
+
+/**
+ * 通知の実装を登録する
+ *
+ * @param name - 環境変数 TASK_NOTIFIER に指定する名前
+ * @param factory - 通知の実装を生成する関数
+ *
+ * @example
+ * registerTaskNotifier('slack', () => new SlackTaskNotifier(webhookUrl));
+ */
+export const registerTaskNotifier = (
+  name: string,
+  factory: () => TaskNotifier
+): void => {
+  notifierFactories[name] = factory;
+};
+
+/**
+ * 環境変数 TASK_NOTIFIER に指定された通知の実装を生成する
+ *
+ * @param name - 通知の実装の名前（デフォルト: 環境変数 TASK_NOTIFIER、未設定時は'log'）
+ * @returns 通知の実装
+ * @throws Error - 登録されていない名前が指定された場合
+ */
+export const createTaskNotifier = (
+  name: string = process.env.TASK_NOTIFIER || 'log'
+): TaskNotifier => {
+  const factory = notifierFactories[name];
+  if (!factory) {
+    throw new Error(
+      `通知の実装 ${name} は登録されていません（${Object.keys(notifierFactories).join(', ')}）`
+    );
+  }
+  return factory();
+};
@@ -5,44 +5,250 @@
  * CRUDオペレーションとSQSへのイベント通知機能を提供します。
  */
 import { v4 as uuidv4 } from 'uuid';
+import { DocumentClient } from 'aws-sdk/clients/dynamodb';
 import { dynamoDb, TASKS_TABLE, sqs, TASKS_QUEUE } from '../utils/aws-clients';
-import { Task, TaskStatus } from '../types';
+import {
+  encodeCursor,
+  decodeCursor,
+  DEFAULT_PAGE_LIMIT,
+} from '../utils/pagination';
+import {
+  ConflictError,
+  PreconditionFailedError,
+  ValidationError,
+  isConditionalCheckFailed,
+} from '../utils/errors';
+import { ANONYMOUS_ACTOR } from '../utils/request';
+import { TaskStateMachine } from './task-state-machine';
+import { TaskAuditService, diffTask } from './task-audit-service';
+import { TagService } from './tag-service';
+import { TaskAttachmentService } from './task-attachment-service';
+import {
+  assertUpdatableAttributes,
+  validateTaskAttributes,
+  normalizeTag,
+  PRIORITY_RANKS,
+  MAX_TAGS_PER_TASK,
+} from './task-validation';
+import { createTaskEvent } from './task-event-schema';
+import {
+  Task,
+  TaskStatus,
+  TaskListQuery,
+  TaskTransition,
+  TaskEventType,
+  TaskEventPayload,
+  TaskEventContext,
+  TaskFieldChange,
+  TaskAuditRecord,
+  TaskCreateInput,
+  TaskWriteOptions,
+  TaskProgress,
+  TaskPriority,
+  TaskSortField,
+  PaginatedResult,
+} from '../types';
+
+/**
+ * タスクアイテムを識別するためのtype属性の値
+ * ファイルメタデータ（type: 'FILE'）と同じテーブルに保存されるため、エンティティを区別します
+ */
+const TASK_ENTITY_TYPE = 'TASK';
+
+/**
+ * type属性で全タスクを作成日時順に取得するためのGSI
+ */
+const TYPE_CREATED_AT_INDEX = 'type-createdAt-index';
+
+/**
+ * ステータスごとにタスクを作成日時順に取得するためのGSI
+ */
+const STATUS_CREATED_AT_INDEX = 'status-createdAt-index';
+
+/**
+ * ゴミ箱内のタスクを削除日時順に取得するためのGSI
+ * deletedAt属性を持つアイテムのみが含まれるスパースインデックスです
+ */
+const TYPE_DELETED_AT_INDEX = 'type-deletedAt-index';
+
+/**
+ * type属性で全タスクを更新日時順に取得するためのGSI
+ */
+const TYPE_UPDATED_AT_INDEX = 'type-updatedAt-index';
+
+/**
+ * type属性で全タスクを期日順に取得するためのGSI
+ * 期日のないタスクも含めるため、期日そのものではなくdueSortKey属性をソートキーとします
+ */
+const TYPE_DUE_SORT_KEY_INDEX = 'type-dueSortKey-index';
+
+/**
+ * type属性で全タスクを優先度順に取得するためのGSI
+ */
+const TYPE_PRIORITY_RANK_INDEX = 'type-priorityRank-index';
+
+/**
+ * 期日を過ぎた未完了のタスクを取得するためのGSI
+ * 期日があり、完了・中止していないタスクのみがopenDueAt属性を持つスパースインデックスです
+ */
+const TYPE_OPEN_DUE_AT_INDEX = 'type-openDueAt-index';
+
+/**
+ * 並び替えのフィールドごとに使用するGSI
+ */
+const SORT_INDEXES: Record<TaskSortField, string> = {
+  createdAt: TYPE_CREATED_AT_INDEX,
+  updatedAt: TYPE_UPDATED_AT_INDEX,
+  dueAt: TYPE_DUE_SORT_KEY_INDEX,
+  priority: TYPE_PRIORITY_RANK_INDEX,
+};
+
+/**
+ * 期日のないタスクのdueSortKey
+ * 期日で昇順に並べた場合に、期日のあるタスクの後ろに並びます
+ */
+const NO_DUE_DATE_SORT_KEY = '9999-12-31T23:59:59.999Z';
+
+/**
+ * 親タスクごとの子タスクを作成日時順に取得するためのGSI
+ */
+const PARENT_ID_CREATED_AT_INDEX = 'parentId-createdAt-index';
+
+/**
+ * 親子関係をたどる際の最大の深さ
+ * データ不整合で循環が存在した場合でも無限ループしないための上限です
+ */
+const MAX_HIERARCHY_DEPTH = 100;
+
+/**
+ * 完了・中止以外の、未完了とみなすステータスの判定に使用する終了ステータス
+ */
+const CLOSED_STATUSES = [TaskStatus.DONE, TaskStatus.CANCELLED];
+
+/**
+ * 依存関係の循環を検出する際に探索するタスク数の上限
+ */
+const MAX_DEPENDENCY_SEARCH = 1000;
+
+/**
+ * ゴミ箱内のタスクを保持する日数
+ * 環境変数 TASK_TRASH_RETENTION_DAYS で変更できます
+ */
+export const TRASH_RETENTION_DAYS = Number(
+  process.env.TASK_TRASH_RETENTION_DAYS || 30
+);
+
+/**
+ * 期日のリマインダーを送信する対象とする、現在時刻から期日までの時間（分）
+ * 環境変数 TASK_REMINDER_WINDOW_MINUTES で変更できます
+ */
+export const REMINDER_WINDOW_MINUTES = Number(
+  process.env.TASK_REMINDER_WINDOW_MINUTES || 60
+);
+
+/**
+ * 定期実行ジョブなど、システムが行う操作の操作者
+ */
+const SYSTEM_ACTOR = 'system';
 
 export class TaskService {
+  /**
+   * @param stateMachine - ステータス遷移の検証に使用する状態遷移管理（デフォルト: 環境変数の遷移グラフ）
+   * @param auditService - 監査レコードの作成と取得に使用するサービス
+   * @param tagService - タグの使用数の更新に使用するサービス
+   * @param attachmentService - タスクの削除時に添付ファイルの削除ポリシーを確認するサービス
+   */
+  constructor(
+    private readonly stateMachine: TaskStateMachine = new TaskStateMachine(),
+    private readonly auditService: TaskAuditService = new TaskAuditService(),
+    private readonly tagService: TagService = new TagService(),
+    private readonly attachmentService: TaskAttachmentService = new TaskAttachmentService()
+  ) {}
+
   /**
    * タスクを作成する
    *
-   * 新しいタスクをDynamoDBに保存し、作成イベントをSQSに送信します。
+   * 新しいタスクを監査レコードとともにDynamoDBに保存し、作成イベントをSQSに送信します。
+   * parentIdを指定すると、既存のタスクの子タスク（サブタスク）として作成します。
+   * 優先度を指定しない場合はMEDIUMとして作成します。
+   * タグを指定した場合は、タグの使用数を同じトランザクションで増やします。
    *
-   * @param title - タスクのタイトル（必須）
-   * @param description - タスクの詳細説明（オプション）
+   * @param input - タスクのタイトル（必須）、詳細説明、親タスクのID、期日、優先度、見積もり時間、タグ
+   * @param actor - 作成した操作者（デフォルト: 'anonymous'）
+   * @param correlationId - 作成イベントの相関ID（省略した場合は新しく生成）
    * @returns 作成されたタスクオブジェクト
+   * @throws ValidationError - 期日・優先度・見積もり時間・タグが不正な場合、または親タスクが存在しない場合
    *
    * @example
-   * const task = await taskService.createTask('LocalStackの設定', 'DockerでLocalStackを起動する');
+   * const task = await taskService.createTask(
+   *   { title: 'LocalStackの設定', description: 'DockerでLocalStackを起動する' },
+   *   'user-1'
+   * );
    */
-  async createTask(title: string, description?: string): Promise<Task> {
+  async createTask(
+    input: TaskCreateInput,
+    actor: string = ANONYMOUS_ACTOR,
+    correlationId?: string
+  ): Promise<Task> {
+    const { title, description, parentId, dueAt, estimateMinutes, tags } =
+      validateTaskAttributes(input);
+    const { priority = TaskPriority.MEDIUM } = input;
     const timestamp = new Date().toISOString();
+    const id = uuidv4();
+
+    // 親タスクの存在を確認
+    if (parentId) {
+      await this.assertValidParent(id, parentId);
+    }
 
     // タスクオブジェクトを作成
     const task: Task = {
-      id: uuidv4(),
+      id,
       title,
       description,
       status: TaskStatus.TODO,
+      parentId,
+      dueAt,
+      priority,
+      estimateMinutes,
+      tags: tags && tags.length > 0 ? tags : undefined,
       createdAt: timestamp,
+      updatedAt: timestamp,
+      version: 1,
     };
 
-    // DynamoDBにタスクを保存
-    await dynamoDb
-      .put({
-        TableName: TASKS_TABLE,
-        Item: task,
-      })
-      .promise();
+    // DynamoDBにタスクと監査レコードを保存し、タグの使用数を増やす
+    await this.writeWithAudit(
+      [
+        {
+          Put: {
+            TableName: TASKS_TABLE,
+            Item: {
+              ...task,
+              ...this.buildIndexAttributes(task),
+              ...(task.tags && { tags: dynamoDb.createSet(task.tags) }),
+              type: TASK_ENTITY_TYPE,
+            },
+            ConditionExpression: 'attribute_not_exists(id)',
+          },
+        },
+        ...this.tagService.buildCountUpdates(task.tags || [], [], timestamp),
+      ],
+      this.auditService.buildAuditItem(
+        task.id,
+        'CREATE',
+        actor,
+        null,
+        task,
+        timestamp
+      )
+    );
 
     // SQSにメッセージを送信
-    await this.sendTaskMessage(task.id, 'CREATE');
+    await this.sendTaskMessage('CREATE', task, diffTask(null, task), {
+      actor,
+      correlationId,
+    });
 
     return task;
   }
@@ -51,14 +257,19 @@ export class TaskService {
    * タスクをIDで取得する
    *
    * 指定されたIDのタスクをDynamoDBから取得します。
+   * ゴミ箱内（削除済み）のタスクは、includeDeletedを指定しない限り返しません。
    *
    * @param id - 取得するタスクのID
+   * @param options - includeDeleted: ゴミ箱内のタスクも返す場合はtrue
    * @returns タスクオブジェクト、見つからない場合はnull
    *
    * @example
    * const task = await taskService.getTaskById('123e4567-e89b-12d3-a456-426614174000');
    */
-  async getTaskById(id: string): Promise<Task | null> {
+  async getTaskById(
+    id: string,
+    options: { includeDeleted?: boolean } = {}
+  ): Promise<Task | null> {
     // DynamoDBからタスクを取得
     const result = await dynamoDb
       .get({
@@ -67,39 +278,145 @@ export class TaskService {
       })
       .promise();
 
-    return (result.Item as Task) || null;
+    // タイプがTASKのアイテムのみを返す
+    if (!result.Item || result.Item.type !== TASK_ENTITY_TYPE) {
+      return null;
+    }
+
+    // ゴミ箱内のタスクは通常の取得では返さない
+    if (result.Item.deletedAt && !options.includeDeleted) {
+      return null;
+    }
+
+    return this.toTask(result.Item);
   }
 
   /**
-   * すべてのタスクを取得する
+   * タスク一覧を取得する
    *
-   * DynamoDBに保存されているすべてのタスクを取得します。
+   * 並び替えのフィールドに対応するGSIをクエリしてタスクを取得します（デフォルト: 作成日時の新しい順）。
+   * 作成日時順でステータスが指定された場合はステータス用のGSIを使用し、それ以外の並び順では
+   * ステータスと作成日時の範囲をフィルタ条件として適用します。タグもフィルタ条件として適用し、
+   * tagModeに応じてすべてのタグを含むタスク、またはいずれかのタグを含むタスクに絞り込みます。
+   * overdueを指定した場合は、期日を過ぎた未完了のタスクのみを含むGSIを期日順にクエリします。
+   * いずれもtype属性で絞り込むため、ファイルメタデータなどタスク以外のアイテムは含まれません。
+   * ゴミ箱内のタスクも除外されます。
    *
-   * @returns タスクオブジェクトの配列
+   * @param query - ページサイズ、カーソル、ステータス、作成日時の範囲、並び替え、期限切れ、タグの指定を含む検索条件
+   * @returns タスクの配列と次ページ取得用のカーソル
+   * @throws ValidationError - カーソルの形式が不正な場合、またはoverdueを期日以外の並び順と組み合わせた場合
    *
    * @example
-   * const allTasks = await taskService.listTasks();
+   * const { items, nextCursor } = await taskService.listTasks({
+   *   status: TaskStatus.TODO,
+   *   sort: 'dueAt',
+   *   order: 'asc',
+   *   limit: 20,
+   * });
    */
-  async listTasks(): Promise<Task[]> {
-    // デバッグ情報を追加
-    console.log(`Using DynamoDB table: ${TASKS_TABLE}`);
-    console.log(
-      `AWS Endpoint: ${
-        process.env.AWS_ENDPOINT_URL || process.env.LOCALSTACK_HOSTNAME
-          ? `http://${process.env.LOCALSTACK_HOSTNAME}:4566`
-          : 'default'
-      }`
-    );
+  async listTasks(query: TaskListQuery = {}): Promise<PaginatedResult<Task>> {
+    const { limit = DEFAULT_PAGE_LIMIT, cursor, status } = query;
+    const { createdAfter, createdBefore, order = 'desc' } = query;
+    const { overdue = false, tags = [], tagMode = 'all' } = query;
+    const sort = query.sort || (overdue ? 'dueAt' : 'createdAt');
+
+    // 期限切れのタスクは期日順のGSIからのみ取得できる
+    if (overdue && sort !== 'dueAt') {
+      throw new ValidationError('overdue は期日（dueAt）順でのみ指定できます');
+    }
+
+    const attributeNames: { [key: string]: string } = {
+      '#type': 'type',
+      '#deletedAt': 'deletedAt',
+    };
+    const attributeValues: { [key: string]: any } = {
+      ':type': TASK_ENTITY_TYPE,
+    };
+    // ゴミ箱内のタスクを除外する
+    const filters = ['attribute_not_exists(#deletedAt)'];
+
+    // パーティションキーの条件（並び替えと検索条件に応じて使用するGSIを切り替える）
+    let indexName: string;
+    let keyCondition: string;
+
+    if (overdue) {
+      indexName = TYPE_OPEN_DUE_AT_INDEX;
+      keyCondition = '#type = :type AND #openDueAt < :now';
+      attributeNames['#openDueAt'] = 'openDueAt';
+      attributeValues[':now'] = new Date().toISOString();
+    } else if (status && sort === 'createdAt') {
+      indexName = STATUS_CREATED_AT_INDEX;
+      keyCondition = '#status = :status';
+      // ステータス用のGSIにはタスク以外のアイテムが含まれる可能性があるため念のため絞り込む
+      filters.push('#type = :type');
+    } else {
+      indexName = SORT_INDEXES[sort];
+      keyCondition = '#type = :type';
+    }
+
+    // キー条件に使用しない場合、ステータスはフィルタ条件とする
+    if (status) {
+      attributeNames['#status'] = 'status';
+      attributeValues[':status'] = status;
+      if (indexName !== STATUS_CREATED_AT_INDEX) {
+        filters.push('#status = :status');
+      }
+    }
+
+    // 作成日時の範囲条件（作成日時順の場合はソートキーの条件、それ以外はフィルタ条件とする）
+    let createdAtCondition: string | undefined;
+    if (createdAfter && createdBefore) {
+      createdAtCondition =
+        '#createdAt BETWEEN :createdAfter AND :createdBefore';
+      attributeValues[':createdAfter'] = createdAfter;
+      attributeValues[':createdBefore'] = createdBefore;
+    } else if (createdAfter) {
+      createdAtCondition = '#createdAt >= :createdAfter';
+      attributeValues[':createdAfter'] = createdAfter;
+    } else if (createdBefore) {
+      createdAtCondition = '#createdAt <= :createdBefore';
+      attributeValues[':createdBefore'] = createdBefore;
+    }
+    if (createdAtCondition) {
+      attributeNames['#createdAt'] = 'createdAt';
+      if (sort === 'createdAt') {
+        keyCondition += ` AND ${createdAtCondition}`;
+      } else {
+        filters.push(createdAtCondition);
+      }
+    }
+
+    // タグの条件（all: すべてのタグを含む、any: いずれかのタグを含む）
+    if (tags.length > 0) {
+      attributeNames['#tags'] = 'tags';
+      const tagConditions = tags.map((tag, index) => {
+        attributeValues[`:tag${index}`] = tag;
+        return `contains(#tags, :tag${index})`;
+      });
+      filters.push(
+        `(${tagConditions.join(tagMode === 'any' ? ' OR ' : ' AND ')})`
+      );
+    }
 
     try {
-      // DynamoDBからすべてのタスクを取得
       const result = await dynamoDb
-        .scan({
+        .query({
           TableName: TASKS_TABLE,
+          IndexName: indexName,
+          KeyConditionExpression: keyCondition,
+          FilterExpression: filters.join(' AND '),
+          ExpressionAttributeNames: attributeNames,
+          ExpressionAttributeValues: attributeValues,
+          ScanIndexForward: order === 'asc',
+          Limit: limit,
+          ExclusiveStartKey: decodeCursor(cursor),
         })
         .promise();
 
-      return (result.Items as Task[]) || [];
+      return {
+        items: (result.Items || []).map((item) => this.toTask(item)),
+        nextCursor: encodeCursor(result.LastEvaluatedKey),
+      };
     } catch (error) {
       console.error('タスク一覧取得エラー:', error);
       throw error;
@@ -110,121 +427,1813 @@ export class TaskService {
    * タスクを更新する
    *
    * 指定されたIDのタスクを更新し、更新イベントをSQSに送信します。
+   * ステータスを変更する場合は遷移グラフで許可されているかを検証し、
+   * 遷移履歴（from, to, at, by）を同じ書き込みでタスクに追記します。
+   * 書き込みは読み込んだ時点のバージョンを条件とした条件付き更新で行い、バージョンを1つ進めます。
+   * 変更されたフィールドの変更前後の値は監査レコードとして同じトランザクションで保存されます。
+   * 未完了の子タスクがある親タスクは、forceを指定しない限り完了（DONE）にできません。
+   * 完了していないブロッカー（blockedBy）があるタスクは進行中（IN_PROGRESS）にできません。
+   * parentIdを変更する場合は親子関係が循環しないことを検証し、nullを指定すると親子関係を解除します。
+   * 変更できる属性はUPDATABLE_TASK_ATTRIBUTESのみで、それ以外の属性を含む更新は拒否します。
+   * 値にnullを指定した属性はタスクから削除されます（タイトルは削除できません）。
+   * 期日・優先度・ステータスから決まる並び替え用のGSIのキー属性も同じ書き込みで更新します。
+   * 期日を変更した場合は、新しい期日で再びリマインダーを送信できるようremindedAtを削除します。
+   * タグを変更した場合は、付け外したタグの使用数を同じトランザクションで増減します。
    *
    * @param id - 更新するタスクのID
    * @param updates - タスクの更新内容を含むオブジェクト
+   * @param options - 操作者、期待するバージョン（If-Match）、強制完了フラグ
    * @returns 更新されたタスクオブジェクト、見つからない場合はnull
+   * @throws ValidationError - 変更できない属性、不正なタイトル、使用できないステータスや存在しない親タスク、
+   *   不正な期日・優先度・見積もり時間・タグが指定された場合、または親子関係が循環する場合
+   * @throws ConflictError - 許可されていないステータス遷移、未完了の子タスクがある親タスクの完了、
+   *   ブロックされたタスクの着手、または同時に別の更新が行われた場合
+   * @throws PreconditionFailedError - expectedVersionが現在のバージョンと一致しない場合
    *
    * @example
    * const updatedTask = await taskService.updateTask(
    *   '123e4567-e89b-12d3-a456-426614174000',
-   *   { status: TaskStatus.IN_PROGRESS, description: '更新された説明' }
+   *   { status: TaskStatus.IN_PROGRESS, description: '更新された説明' },
+   *   { actor: 'user-1', expectedVersion: 3 }
    * );
    */
-  async updateTask(id: string, updates: Partial<Task>): Promise<Task | null> {
+  async updateTask(
+    id: string,
+    updates: Partial<Task>,
+    options: TaskWriteOptions = {}
+  ): Promise<Task | null> {
+    const {
+      actor = ANONYMOUS_ACTOR,
+      expectedVersion,
+      force = false,
+      correlationId,
+    } = options;
+
+    // 変更できる属性のみであることと、期日・優先度・見積もり時間・タグを検証し、期日とタグを正規化する
+    assertUpdatableAttributes(updates);
+    updates = validateTaskAttributes(updates);
+
     // 現在のタスクを取得
     const currentTask = await this.getTaskById(id);
     if (!currentTask) {
       return null;
     }
 
+    // クライアントが参照したバージョンが古い場合は更新しない
+    this.assertVersion(currentTask, expectedVersion);
+
+    // 親タスクを変更する場合は存在と循環を検証する
+    const { parentId } = updates;
+    if (parentId && parentId !== currentTask.parentId) {
+      await this.assertValidParent(id, parentId);
+    }
+
     const timestamp = new Date().toISOString();
 
     // 更新式を作成
     const updateExpressions: string[] = [];
+    const removeExpressions: string[] = [];
     const attributeValues: { [key: string]: any } = {};
     const attributeNames: { [key: string]: string } = {};
 
+    // ステータス変更の検証と遷移履歴の追記
+    const { status } = updates;
+    if (status !== undefined && status !== currentTask.status) {
+      this.stateMachine.assertTransition(currentTask.status, status);
+
+      // 未完了の子タスクがある場合は強制指定なしに完了できない
+      if (status === TaskStatus.DONE && !force) {
+        const openChildIds = await this.getOpenChildIds(id);
+        if (openChildIds.length > 0) {
+          throw new ConflictError(
+            '未完了の子タスクがあるため完了にできません。force を指定すると強制的に完了できます',
+            { openChildIds }
+          );
+        }
+      }
+
+      // 完了していないブロッカーがある場合は着手できない
+      if (status === TaskStatus.IN_PROGRESS) {
+        const pendingBlockerIds = await this.getPendingBlockerIds(currentTask);
+        if (pendingBlockerIds.length > 0) {
+          throw new ConflictError(
+            '完了していないブロッカーがあるため着手できません',
+            { pendingBlockerIds }
+          );
+        }
+      }
+
+      const transition: TaskTransition = {
+        from: currentTask.status,
+        to: status,
+        at: timestamp,
+        by: actor,
+      };
+      updateExpressions.push(
+        '#transitions = list_append(if_not_exists(#transitions, :emptyList), :transition)'
+      );
+      attributeValues[':emptyList'] = [];
+      attributeValues[':transition'] = [transition];
+      attributeNames['#transitions'] = 'transitions';
+    }
+
+    const appliedUpdates: { [key: string]: any } = {};
     Object.entries(updates).forEach(([key, value]) => {
-      if (key !== 'id' && key !== 'createdAt') {
-        updateExpressions.push(`#${key} = :${key}`);
-        attributeValues[`:${key}`] = value;
+      // タグは文字列セットとして別に保存する
+      if (key === 'tags') {
+        return;
+      }
+
+      // nullが指定された属性は削除する（GSIのキー属性にNULL型は保存できないため）
+      if (value === null) {
+        removeExpressions.push(`#${key}`);
         attributeNames[`#${key}`] = key;
+        appliedUpdates[key] = undefined;
+        return;
+      }
+
+      updateExpressions.push(`#${key} = :${key}`);
+      attributeValues[`:${key}`] = value;
+      attributeNames[`#${key}`] = key;
+      appliedUpdates[key] = value;
+    });
+
+    // タグを変更する場合は文字列セットとして保存し、付け外したタグの使用数を増減する
+    const tagWrites: DocumentClient.TransactWriteItem[] = [];
+    if (updates.tags !== undefined) {
+      const currentTags = currentTask.tags || [];
+      const nextTags = updates.tags || [];
+      const added = nextTags.filter((tag) => !currentTags.includes(tag));
+      const removed = currentTags.filter((tag) => !nextTags.includes(tag));
+
+      if (added.length > 0 || removed.length > 0) {
+        attributeNames['#tags'] = 'tags';
+        if (nextTags.length > 0) {
+          updateExpressions.push('#tags = :tags');
+          attributeValues[':tags'] = dynamoDb.createSet(nextTags);
+        } else {
+          removeExpressions.push('#tags');
+        }
+        appliedUpdates.tags = nextTags.length > 0 ? nextTags : undefined;
+        tagWrites.push(
+          ...this.tagService.buildCountUpdates(added, removed, timestamp)
+        );
+      }
+    }
+
+    // 更新後の期日・優先度・ステータスに合わせて並び替え用のGSIのキー属性を更新する
+    const indexAttributes = this.buildIndexAttributes({
+      ...currentTask,
+      ...appliedUpdates,
+    });
+    Object.entries(indexAttributes).forEach(([key, value]) => {
+      attributeNames[`#${key}`] = key;
+      if (value === undefined) {
+        removeExpressions.push(`#${key}`);
+        return;
       }
+      updateExpressions.push(`#${key} = :${key}`);
+      attributeValues[`:${key}`] = value;
     });
 
+    // 期日が変わった場合は新しい期日でリマインダーを送信できるようにする
+    if (updates.dueAt !== undefined && updates.dueAt !== currentTask.dueAt) {
+      removeExpressions.push('#remindedAt');
+      attributeNames['#remindedAt'] = 'remindedAt';
+    }
+
     // タイムスタンプを追加
     updateExpressions.push('#updatedAt = :updatedAt');
     attributeValues[':updatedAt'] = timestamp;
     attributeNames['#updatedAt'] = 'updatedAt';
 
+    // バージョンを進め、読み込んだ時点から変更されていないことを条件とする
+    updateExpressions.push('#version = if_not_exists(#version, :zero) + :one');
+    attributeValues[':zero'] = 0;
+    attributeValues[':one'] = 1;
+    attributeNames['#version'] = 'version';
+    const conditionExpression = this.versionCondition(
+      currentTask,
+      attributeValues
+    );
+
+    const updatedTask: Task = {
+      ...currentTask,
+      ...appliedUpdates,
+      ...this.nextRevision(currentTask, timestamp),
+    };
+
     // 更新を実行
-    await dynamoDb
-      .update({
-        TableName: TASKS_TABLE,
-        Key: { id },
-        UpdateExpression: `SET ${updateExpressions.join(', ')}`,
-        ExpressionAttributeValues: attributeValues,
-        ExpressionAttributeNames: attributeNames,
-        ReturnValues: 'ALL_NEW',
-      })
-      .promise();
+    try {
+      await this.writeWithAudit(
+        [
+          {
+            Update: {
+              TableName: TASKS_TABLE,
+              Key: { id },
+              UpdateExpression:
+                `SET ${updateExpressions.join(', ')}` +
+                (removeExpressions.length > 0
+                  ? ` REMOVE ${removeExpressions.join(', ')}`
+                  : ''),
+              ConditionExpression: conditionExpression,
+              ExpressionAttributeValues: attributeValues,
+              ExpressionAttributeNames: attributeNames,
+            },
+          },
+          ...tagWrites,
+        ],
+        this.auditService.buildAuditItem(
+          id,
+          'UPDATE',
+          actor,
+          currentTask,
+          updatedTask,
+          timestamp
+        )
+      );
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        await this.throwStaleWrite(id, expectedVersion);
+      }
+      throw error;
+    }
 
-    // SQSにメッセージを送信
-    await this.sendTaskMessage(id, 'UPDATE');
+    // SQSにメッセージを送信（ステータスが変わった場合は変更前後のステータスを含める）
+    await this.sendTaskMessage(
+      'UPDATE',
+      updatedTask,
+      diffTask(currentTask, updatedTask),
+      { actor, correlationId },
+      status !== undefined && status !== currentTask.status
+        ? { statusChange: { from: currentTask.status, to: status } }
+        : {}
+    );
 
     // 更新されたタスクを取得
     return await this.getTaskById(id);
   }
 
   /**
-   * タスクを削除する
+   * 依存関係（ブロッカー）を追加する
    *
-   * 指定されたIDのタスクを削除し、削除イベントをSQSに送信します。
+   * taskIdのタスクが、blockerIdのタスクが完了するまで着手できないことを表す依存関係を追加します。
+   * 依存されるタスク側にも逆方向の参照（blocks）を同じトランザクションで保存し、
+   * ブロッカーの完了時にブロックが解除されるタスクを特定できるようにします。
    *
-   * @param id - 削除するタスクのID
-   * @returns 削除成功時はtrue、タスクが見つからない場合はfalse
+   * @param taskId - ブロックされるタスクのID
+   * @param blockerId - ブロッカーとなるタスクのID
+   * @param options - 操作者、期待するバージョン（If-Match）
+   * @returns 更新されたタスクオブジェクト、タスクが見つからない場合はnull
+   * @throws ValidationError - ブロッカーが存在しない場合、自分自身を指定した場合、または依存関係が循環する場合
+   * @throws ConflictError - 読み込み後に別の更新が行われた場合
+   * @throws PreconditionFailedError - expectedVersionが現在のバージョンと一致しない場合
    *
    * @example
-   * const deleted = await taskService.deleteTask('123e4567-e89b-12d3-a456-426614174000');
+   * const task = await taskService.addBlocker(taskB.id, taskA.id, { actor: 'user-1' });
    */
-  async deleteTask(id: string): Promise<boolean> {
-    // タスクが存在するか確認
-    const task = await this.getTaskById(id);
+  async addBlocker(
+    taskId: string,
+    blockerId: string,
+    options: TaskWriteOptions = {}
+  ): Promise<Task | null> {
+    const { actor = ANONYMOUS_ACTOR, expectedVersion, correlationId } = options;
+
+    const task = await this.getTaskById(taskId);
     if (!task) {
-      return false;
+      return null;
     }
 
-    // タスクを削除
-    await dynamoDb
-      .delete({
+    this.assertVersion(task, expectedVersion);
+
+    // 既に追加済みの場合は何もしない
+    if ((task.blockedBy || []).includes(blockerId)) {
+      return task;
+    }
+
+    await this.assertNoDependencyCycle(taskId, blockerId);
+
+    const timestamp = new Date().toISOString();
+    const attributeValues: { [key: string]: any } = {
+      ':blockerIds': dynamoDb.createSet([blockerId]),
+      ':updatedAt': timestamp,
+      ':zero': 0,
+      ':one': 1,
+    };
+    const conditionExpression = this.versionCondition(task, attributeValues);
+    const updatedTask: Task = {
+      ...task,
+      blockedBy: [...(task.blockedBy || []), blockerId].sort(),
+      ...this.nextRevision(task, timestamp),
+    };
+
+    try {
+      await this.writeWithAudit(
+        [
+          {
+            Update: {
+              TableName: TASKS_TABLE,
+              Key: { id: taskId },
+              UpdateExpression:
+                'SET #updatedAt = :updatedAt, #version = if_not_exists(#version, :zero) + :one ADD #blockedBy :blockerIds',
+              ConditionExpression: conditionExpression,
+              ExpressionAttributeNames: {
+                '#blockedBy': 'blockedBy',
+                '#updatedAt': 'updatedAt',
+                '#version': 'version',
+              },
+              ExpressionAttributeValues: attributeValues,
+            },
+          },
+          {
+            // ブロッカー側に逆方向の参照を追加（ゴミ箱内のタスクはブロッカーにできない）
+            Update: {
+              TableName: TASKS_TABLE,
+              Key: { id: blockerId },
+              UpdateExpression: 'ADD #blocks :taskIds',
+              ConditionExpression:
+                '#type = :type AND attribute_not_exists(#deletedAt)',
+              ExpressionAttributeNames: {
+                '#blocks': 'blocks',
+                '#type': 'type',
+                '#deletedAt': 'deletedAt',
+              },
+              ExpressionAttributeValues: {
+                ':taskIds': dynamoDb.createSet([taskId]),
+                ':type': TASK_ENTITY_TYPE,
+              },
+            },
+          },
+        ],
+        this.auditService.buildAuditItem(
+          taskId,
+          'UPDATE',
+          actor,
+          task,
+          updatedTask,
+          timestamp
+        )
+      );
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        await this.throwStaleWrite(taskId, expectedVersion);
+      }
+      throw error;
+    }
+
+    await this.sendTaskMessage(
+      'UPDATE',
+      updatedTask,
+      diffTask(task, updatedTask),
+      { actor, correlationId }
+    );
+
+    return await this.getTaskById(taskId);
+  }
+
+  /**
+   * 依存関係（ブロッカー）を削除する
+   *
+   * @param taskId - ブロックされているタスクのID
+   * @param blockerId - 削除するブロッカーのタスクID
+   * @param options - 操作者、期待するバージョン（If-Match）
+   * @returns 更新されたタスクオブジェクト、タスクが見つからないか依存関係がない場合はnull
+   * @throws ConflictError - 読み込み後に別の更新が行われた場合
+   * @throws PreconditionFailedError - expectedVersionが現在のバージョンと一致しない場合
+   *
+   * @example
+   * const task = await taskService.removeBlocker(taskB.id, taskA.id, { actor: 'user-1' });
+   */
+  async removeBlocker(
+    taskId: string,
+    blockerId: string,
+    options: TaskWriteOptions = {}
+  ): Promise<Task | null> {
+    const { actor = ANONYMOUS_ACTOR, expectedVersion, correlationId } = options;
+
+    const task = await this.getTaskById(taskId);
+    if (!task || !(task.blockedBy || []).includes(blockerId)) {
+      return null;
+    }
+
+    this.assertVersion(task, expectedVersion);
+
+    const timestamp = new Date().toISOString();
+    const attributeValues: { [key: string]: any } = {
+      ':blockerIds': dynamoDb.createSet([blockerId]),
+      ':updatedAt': timestamp,
+      ':zero': 0,
+      ':one': 1,
+    };
+    const conditionExpression = this.versionCondition(task, attributeValues);
+    const writes: DocumentClient.TransactWriteItem[] = [
+      {
+        Update: {
+          TableName: TASKS_TABLE,
+          Key: { id: taskId },
+          UpdateExpression:
+            'SET #updatedAt = :updatedAt, #version = if_not_exists(#version, :zero) + :one DELETE #blockedBy :blockerIds',
+          ConditionExpression: conditionExpression,
+          ExpressionAttributeNames: {
+            '#blockedBy': 'blockedBy',
+            '#updatedAt': 'updatedAt',
+            '#version': 'version',
+          },
+          ExpressionAttributeValues: attributeValues,
+        },
+      },
+    ];
+
+    // ブロッカーが完全に削除されている場合は逆方向の参照の削除を省略する
+    const blocker = await this.getTaskById(blockerId, { includeDeleted: true });
+    if (blocker) {
+      writes.push({
+        Update: {
+          TableName: TASKS_TABLE,
+          Key: { id: blockerId },
+          UpdateExpression: 'DELETE #blocks :taskIds',
+          ConditionExpression: 'attribute_exists(id)',
+          ExpressionAttributeNames: { '#blocks': 'blocks' },
+          ExpressionAttributeValues: {
+            ':taskIds': dynamoDb.createSet([taskId]),
+          },
+        },
+      });
+    }
+
+    const remainingBlockerIds = (task.blockedBy || []).filter(
+      (id) => id !== blockerId
+    );
+    const updatedTask: Task = {
+      ...task,
+      blockedBy:
+        remainingBlockerIds.length > 0 ? remainingBlockerIds : undefined,
+      ...this.nextRevision(task, timestamp),
+    };
+
+    try {
+      await this.writeWithAudit(
+        writes,
+        this.auditService.buildAuditItem(
+          taskId,
+          'UPDATE',
+          actor,
+          task,
+          updatedTask,
+          timestamp
+        )
+      );
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        await this.throwStaleWrite(taskId, expectedVersion);
+      }
+      throw error;
+    }
+
+    await this.sendTaskMessage(
+      'UPDATE',
+      updatedTask,
+      diffTask(task, updatedTask),
+      { actor, correlationId }
+    );
+
+    return await this.getTaskById(taskId);
+  }
+
+  /**
+   * タスクにタグを付ける
+   *
+   * タグを正規化してタスクの文字列セットに追加し、タグの使用数を同じトランザクションで1増やします。
+   * 既に付いているタグの場合は何もしません。
+   *
+   * @param taskId - タグを付けるタスクのID
+   * @param tag - 付けるタグ（正規化前）
+   * @param options - 操作者、期待するバージョン（If-Match）
+   * @returns 更新されたタスクオブジェクト、タスクが見つからない場合はnull
+   * @throws ValidationError - タグが不正な場合、またはタスクのタグが上限に達している場合
+   * @throws ConflictError - 読み込み後に別の更新が行われた場合
+   * @throws PreconditionFailedError - expectedVersionが現在のバージョンと一致しない場合
+   *
+   * @example
+   * const task = await taskService.addTag(taskId, 'Backend', { actor: 'user-1' });
+   */
+  async addTag(
+    taskId: string,
+    tag: string,
+    options: TaskWriteOptions = {}
+  ): Promise<Task | null> {
+    const normalizedTag = normalizeTag(tag);
+    const task = await this.getTaskById(taskId);
+    if (!task) {
+      return null;
+    }
+
+    this.assertVersion(task, options.expectedVersion);
+
+    // 既に付いている場合は何もしない
+    const currentTags = task.tags || [];
+    if (currentTags.includes(normalizedTag)) {
+      return task;
+    }
+
+    if (currentTags.length >= MAX_TAGS_PER_TASK) {
+      throw new ValidationError(
+        `タグは1つのタスクに${MAX_TAGS_PER_TASK}個まで付けられます`
+      );
+    }
+
+    return await this.writeTagChange(task, 'ADD', normalizedTag, options);
+  }
+
+  /**
+   * タスクからタグを外す
+   *
+   * タグを正規化してタスクの文字列セットから削除し、タグの使用数を同じトランザクションで1減らします。
+   * 付いていないタグの場合は何もしません。
+   *
+   * @param taskId - タグを外すタスクのID
+   * @param tag - 外すタグ（正規化前）
+   * @param options - 操作者、期待するバージョン（If-Match）
+   * @returns 更新されたタスクオブジェクト、タスクが見つからない場合はnull
+   * @throws ValidationError - タグが不正な場合
+   * @throws ConflictError - 読み込み後に別の更新が行われた場合
+   * @throws PreconditionFailedError - expectedVersionが現在のバージョンと一致しない場合
+   *
+   * @example
+   * const task = await taskService.removeTag(taskId, 'backend', { actor: 'user-1' });
+   */
+  async removeTag(
+    taskId: string,
+    tag: string,
+    options: TaskWriteOptions = {}
+  ): Promise<Task | null> {
+    const normalizedTag = normalizeTag(tag);
+    const task = await this.getTaskById(taskId);
+    if (!task) {
+      return null;
+    }
+
+    this.assertVersion(task, options.expectedVersion);
+
+    // 付いていない場合は何もしない
+    if (!(task.tags || []).includes(normalizedTag)) {
+      return task;
+    }
+
+    return await this.writeTagChange(task, 'DELETE', normalizedTag, options);
+  }
+
+  /**
+   * ブロッカーの完了によってブロックが解除されたタスクを通知する
+   *
+   * blockerIdのタスクがブロックしているタスクのうち、すべてのブロッカーが完了したものについて
+   * UNBLOCKEDイベントをSQSに送信します。SQSコンシューマーから呼び出されることを想定しています。
+   *
+   * @param blockerId - 完了したブロッカーのタスクID
+   * @param correlationId - UNBLOCKEDイベントの相関ID（完了を通知したイベントの相関IDを引き継ぐ）
+   * @returns ブロックが解除されたタスクのIDの配列
+   *
+   * @example
+   * const unblockedIds = await taskService.publishUnblockedTasks(taskA.id);
+   */
+  async publishUnblockedTasks(
+    blockerId: string,
+    correlationId?: string
+  ): Promise<string[]> {
+    const blocker = await this.getTaskById(blockerId);
+    if (!blocker || blocker.status !== TaskStatus.DONE) {
+      return [];
+    }
+
+    const unblockedIds: string[] = [];
+    for (const taskId of blocker.blocks || []) {
+      const task = await this.getTaskById(taskId);
+      if (!task) {
+        continue;
+      }
+
+      const pendingBlockerIds = await this.getPendingBlockerIds(task);
+      if (pendingBlockerIds.length === 0) {
+        await this.sendTaskMessage(
+          'UNBLOCKED',
+          task,
+          [],
+          { actor: SYSTEM_ACTOR, correlationId },
+          { unblockedBy: blockerId }
+        );
+        unblockedIds.push(taskId);
+      }
+    }
+
+    return unblockedIds;
+  }
+
+  /**
+   * タスクのステータス遷移履歴を取得する
+   *
+   * @param id - タスクのID
+   * @returns 古い順に並んだ遷移履歴の配列、タスクが見つからない場合はnull
+   *
+   * @example
+   * const transitions = await taskService.getTaskTransitions('123e4567-e89b-12d3-a456-426614174000');
+   */
+  async getTaskTransitions(id: string): Promise<TaskTransition[] | null> {
+    const result = await dynamoDb
+      .get({
         TableName: TASKS_TABLE,
         Key: { id },
+        ProjectionExpression: '#type, #transitions, #deletedAt',
+        ExpressionAttributeNames: {
+          '#type': 'type',
+          '#transitions': 'transitions',
+          '#deletedAt': 'deletedAt',
+        },
       })
       .promise();
 
-    // SQSにメッセージを送信
-    await this.sendTaskMessage(id, 'DELETE');
+    if (
+      !result.Item ||
+      result.Item.type !== TASK_ENTITY_TYPE ||
+      result.Item.deletedAt
+    ) {
+      return null;
+    }
 
-    return true;
+    return (result.Item.transitions as TaskTransition[]) || [];
   }
 
   /**
-   * SQSにタスク関連のメッセージを送信
+   * 子タスクの一覧を取得する
    *
-   * タスクのCRUD操作に関連するイベントメッセージをSQSキューに送信します。
-   * イベント駆動型アーキテクチャにおける非同期通知のために使用されます。
+   * 指定したタスクの直下の子タスクを作成日時の古い順に返します。ゴミ箱内のタスクは除外されます。
    *
-   * @param taskId - イベントに関連するタスクのID
-   * @param action - イベントの種類（作成、更新、削除）
-   * @private
+   * @param parentId - 親タスクのID
+   * @param query - ページサイズとカーソル
+   * @returns 子タスクの配列と次ページ取得用のカーソル、親タスクが見つからない場合はnull
+   * @throws ValidationError - カーソルの形式が不正な場合
+   *
+   * @example
+   * const { items, nextCursor } = await taskService.listChildren(parentId, { limit: 20 });
    */
-  private async sendTaskMessage(
-    taskId: string,
-    action: 'CREATE' | 'UPDATE' | 'DELETE'
-  ): Promise<void> {
-    // メッセージオブジェクトを作成
-    const message = {
-      taskId,
-      action,
-      timestamp: new Date().toISOString(),
-    };
+  async listChildren(
+    parentId: string,
+    query: Pick<TaskListQuery, 'limit' | 'cursor'> = {}
+  ): Promise<PaginatedResult<Task> | null> {
+    const { limit = DEFAULT_PAGE_LIMIT, cursor } = query;
 
-    // SQSにメッセージを送信
+    const parent = await this.getTaskById(parentId);
+    if (!parent) {
+      return null;
+    }
+
+    const result = await dynamoDb
+      .query({
+        TableName: TASKS_TABLE,
+        IndexName: PARENT_ID_CREATED_AT_INDEX,
+        KeyConditionExpression: '#parentId = :parentId',
+        FilterExpression: '#type = :type AND attribute_not_exists(#deletedAt)',
+        ExpressionAttributeNames: {
+          '#parentId': 'parentId',
+          '#type': 'type',
+          '#deletedAt': 'deletedAt',
+        },
+        ExpressionAttributeValues: {
+          ':parentId': parentId,
+          ':type': TASK_ENTITY_TYPE,
+        },
+        Limit: limit,
+        ExclusiveStartKey: decodeCursor(cursor),
+      })
+      .promise();
+
+    return {
+      items: (result.Items || []).map((item) => this.toTask(item)),
+      nextCursor: encodeCursor(result.LastEvaluatedKey),
+    };
+  }
+
+  /**
+   * 子タスクの進捗を取得する
+   *
+   * 直下の子タスクのうち完了（DONE）した件数と全体の件数を返します。
+   * 中止（CANCELLED）した子タスクは全体の件数に含めません。
+   *
+   * @param id - 親タスクのID
+   * @returns 完了件数と全体件数
+   *
+   * @example
+   * const { done, total } = await taskService.getTaskProgress(parentId);
+   */
+  async getTaskProgress(id: string): Promise<TaskProgress> {
+    const children = await this.queryAllChildren(id);
+    const counted = children.filter(
+      (child) => child.status !== TaskStatus.CANCELLED
+    );
+
+    return {
+      done: counted.filter((child) => child.status === TaskStatus.DONE).length,
+      total: counted.length,
+    };
+  }
+
+  /**
+   * タスクの変更履歴（監査レコード）を取得する
+   *
+   * 作成・更新・削除・復元ごとの操作者、日時、フィールド単位の変更前後の値を新しい順に返します。
+   * ゴミ箱内や完全に削除されたタスクの履歴も取得できます。
+   *
+   * @param id - タスクのID
+   * @param query - ページサイズとカーソル
+   * @returns 監査レコードの配列と次ページ取得用のカーソル、タスクも履歴も存在しない場合はnull
+   * @throws ValidationError - カーソルの形式が不正な場合
+   *
+   * @example
+   * const { items, nextCursor } = await taskService.getTaskHistory(taskId, { limit: 20 });
+   */
+  async getTaskHistory(
+    id: string,
+    query: Pick<TaskListQuery, 'limit' | 'cursor'> = {}
+  ): Promise<PaginatedResult<TaskAuditRecord> | null> {
+    const history = await this.auditService.listHistory(id, query);
+
+    // 最初のページで履歴がない場合はタスク自体が存在するかを確認する
+    if (!query.cursor && history.items.length === 0) {
+      const task = await this.getTaskById(id, { includeDeleted: true });
+      if (!task) {
+        return null;
+      }
+    }
+
+    return history;
+  }
+
+  /**
+   * タスクを削除する（ゴミ箱へ移動）
+   *
+   * 指定されたIDのタスクにdeletedAtを設定して通常の取得・一覧から除外し、
+   * 削除イベント（deleteMode: SOFT）をSQSに送信します。
+   * ゴミ箱内のタスクはrestoreTaskで復元でき、保持期間を過ぎるとpurgeExpiredTrashで完全に削除されます。
+   * 削除は読み込んだ時点のバージョンを条件とした条件付き更新で行い、監査レコードを保存します。
+   * 子タスクがある場合、cascadeを指定すると子孫のタスクもすべてゴミ箱へ移動し、
+   * 指定しない場合は削除を拒否します。
+   * ゴミ箱内のタスクはタグの使用数に含めないため、タスクに付いたタグの使用数を同じトランザクションで減らします。
+   * 添付ファイルの削除ポリシーがBLOCKの場合、添付ファイルがあるタスクは削除できません。
+   *
+   * @param id - 削除するタスクのID
+   * @param options - 操作者、期待するバージョン（If-Match）、子タスクの連鎖削除フラグ
+   * @returns 削除成功時はtrue、タスクが見つからない場合はfalse
+   * @throws ConflictError - 子タスクがあり連鎖削除が指定されていない場合、添付ファイルの削除ポリシーにより削除できない場合、
+   *   または読み込み後に別の更新が行われた場合
+   * @throws PreconditionFailedError - expectedVersionが現在のバージョンと一致しない場合
+   *
+   * @example
+   * const deleted = await taskService.deleteTask('123e4567-e89b-12d3-a456-426614174000', {
+   *   actor: 'user-1',
+   *   cascade: true,
+   * });
+   */
+  async deleteTask(
+    id: string,
+    options: TaskWriteOptions = {}
+  ): Promise<boolean> {
+    const {
+      actor = ANONYMOUS_ACTOR,
+      expectedVersion,
+      cascade = false,
+      correlationId,
+    } = options;
+
+    // タスクが存在するか確認
+    const task = await this.getTaskById(id);
+    if (!task) {
+      return false;
+    }
+
+    // クライアントが参照したバージョンが古い場合は削除しない
+    this.assertVersion(task, expectedVersion);
+
+    // 添付ファイルの削除ポリシーで削除が拒否されていないか確認
+    await this.attachmentService.assertTaskDeletable(id);
+
+    // 子タスクがある場合は連鎖削除するか、削除を拒否する
+    const childIds = await this.getChildIds(id);
+    if (childIds.length > 0) {
+      if (!cascade) {
+        throw new ConflictError(
+          '子タスクがあるため削除できません。cascade を指定すると子タスクもまとめて削除できます',
+          { childIds }
+        );
+      }
+
+      for (const childId of childIds) {
+        await this.deleteTask(childId, { actor, cascade, correlationId });
+      }
+    }
+
+    // 削除日時を設定してゴミ箱へ移動
+    const deletedAt = new Date().toISOString();
+    const attributeValues: { [key: string]: any } = {
+      ':deletedAt': deletedAt,
+      ':zero': 0,
+      ':one': 1,
+    };
+    const conditionExpression = this.versionCondition(task, attributeValues);
+    const deletedTask: Task = {
+      ...task,
+      deletedAt,
+      ...this.nextRevision(task, deletedAt),
+    };
+    try {
+      await this.writeWithAudit(
+        [
+          {
+            Update: {
+              TableName: TASKS_TABLE,
+              Key: { id },
+              UpdateExpression:
+                'SET #deletedAt = :deletedAt, #updatedAt = :deletedAt, #version = if_not_exists(#version, :zero) + :one',
+              ConditionExpression: conditionExpression,
+              ExpressionAttributeNames: {
+                '#deletedAt': 'deletedAt',
+                '#updatedAt': 'updatedAt',
+                '#version': 'version',
+              },
+              ExpressionAttributeValues: attributeValues,
+            },
+          },
+          ...this.tagService.buildCountUpdates([], task.tags || [], deletedAt),
+        ],
+        this.auditService.buildAuditItem(
+          id,
+          'DELETE',
+          actor,
+          task,
+          deletedTask,
+          deletedAt
+        )
+      );
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        await this.throwStaleWrite(id, expectedVersion);
+      }
+      throw error;
+    }
+
+    // SQSにメッセージを送信
+    await this.sendTaskMessage(
+      'DELETE',
+      deletedTask,
+      diffTask(task, deletedTask),
+      { actor, correlationId },
+      { deleteMode: 'SOFT' }
+    );
+
+    return true;
+  }
+
+  /**
+   * ゴミ箱内のタスク一覧を取得する
+   *
+   * 削除日時の新しい順にゴミ箱内のタスクを返します。
+   *
+   * @param query - ページサイズとカーソル
+   * @returns ゴミ箱内のタスクの配列と次ページ取得用のカーソル
+   * @throws ValidationError - カーソルの形式が不正な場合
+   *
+   * @example
+   * const { items, nextCursor } = await taskService.listTrash({ limit: 20 });
+   */
+  async listTrash(
+    query: Pick<TaskListQuery, 'limit' | 'cursor'> = {}
+  ): Promise<PaginatedResult<Task>> {
+    const { limit = DEFAULT_PAGE_LIMIT, cursor } = query;
+
+    const result = await dynamoDb
+      .query({
+        TableName: TASKS_TABLE,
+        IndexName: TYPE_DELETED_AT_INDEX,
+        KeyConditionExpression: '#type = :type',
+        ExpressionAttributeNames: { '#type': 'type' },
+        ExpressionAttributeValues: { ':type': TASK_ENTITY_TYPE },
+        ScanIndexForward: false,
+        Limit: limit,
+        ExclusiveStartKey: decodeCursor(cursor),
+      })
+      .promise();
+
+    return {
+      items: (result.Items || []).map((item) => this.toTask(item)),
+      nextCursor: encodeCursor(result.LastEvaluatedKey),
+    };
+  }
+
+  /**
+   * ゴミ箱内のタスクを復元する
+   *
+   * deletedAtを取り除いて通常の取得・一覧に戻し、監査レコードを保存して復元イベントをSQSに送信します。
+   * 削除時に減らしたタグの使用数は同じトランザクションで元に戻します。
+   *
+   * @param id - 復元するタスクのID
+   * @param options - 操作者、期待するバージョン（If-Match）
+   * @returns 復元されたタスクオブジェクト、見つからない場合はnull
+   * @throws ConflictError - タスクがゴミ箱内にない場合、または読み込み後に別の更新が行われた場合
+   * @throws PreconditionFailedError - expectedVersionが現在のバージョンと一致しない場合
+   *
+   * @example
+   * const task = await taskService.restoreTask('123e4567-e89b-12d3-a456-426614174000', {
+   *   actor: 'user-1',
+   * });
+   */
+  async restoreTask(
+    id: string,
+    options: TaskWriteOptions = {}
+  ): Promise<Task | null> {
+    const { actor = ANONYMOUS_ACTOR, expectedVersion, correlationId } = options;
+
+    const task = await this.getTaskById(id, { includeDeleted: true });
+    if (!task) {
+      return null;
+    }
+
+    if (!task.deletedAt) {
+      throw new ConflictError('タスクはゴミ箱にありません');
+    }
+
+    // クライアントが参照したバージョンが古い場合は復元しない
+    this.assertVersion(task, expectedVersion);
+
+    const timestamp = new Date().toISOString();
+    const attributeValues: { [key: string]: any } = {
+      ':updatedAt': timestamp,
+      ':zero': 0,
+      ':one': 1,
+    };
+    const conditionExpression = this.versionCondition(task, attributeValues);
+    const { deletedAt, ...activeTask } = task;
+    const restoredTask: Task = {
+      ...activeTask,
+      ...this.nextRevision(task, timestamp),
+    };
+    try {
+      await this.writeWithAudit(
+        [
+          {
+            Update: {
+              TableName: TASKS_TABLE,
+              Key: { id },
+              UpdateExpression:
+                'SET #updatedAt = :updatedAt, #version = if_not_exists(#version, :zero) + :one REMOVE #deletedAt',
+              ConditionExpression: conditionExpression,
+              ExpressionAttributeNames: {
+                '#deletedAt': 'deletedAt',
+                '#updatedAt': 'updatedAt',
+                '#version': 'version',
+              },
+              ExpressionAttributeValues: attributeValues,
+            },
+          },
+          ...this.tagService.buildCountUpdates(task.tags || [], [], timestamp),
+        ],
+        this.auditService.buildAuditItem(
+          id,
+          'RESTORE',
+          actor,
+          task,
+          restoredTask,
+          timestamp
+        )
+      );
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        await this.throwStaleWrite(id, expectedVersion);
+      }
+      throw error;
+    }
+
+    // SQSにメッセージを送信
+    await this.sendTaskMessage(
+      'RESTORE',
+      restoredTask,
+      diffTask(task, restoredTask),
+      { actor, correlationId }
+    );
+
+    return await this.getTaskById(id);
+  }
+
+  /**
+   * 保持期間を過ぎたゴミ箱内のタスクを完全に削除する
+   *
+   * 削除日時が保持期間より前のタスクをDynamoDBから削除し、
+   * 監査レコード（操作者: system）を保存して削除イベント（deleteMode: HARD）をSQSに送信します。
+   * 定期実行ハンドラーから呼び出されることを想定しています。
+   *
+   * @param retentionDays - ゴミ箱内に保持する日数（デフォルト: TRASH_RETENTION_DAYS）
+   * @returns 完全に削除したタスクの件数
+   *
+   * @example
+   * const purged = await taskService.purgeExpiredTrash(30);
+   */
+  async purgeExpiredTrash(
+    retentionDays: number = TRASH_RETENTION_DAYS
+  ): Promise<number> {
+    const cutoff = new Date(
+      Date.now() - retentionDays * 24 * 60 * 60 * 1000
+    ).toISOString();
+    // 1回の実行で送信する削除イベントを同じ相関IDで関連付ける
+    const correlationId = uuidv4();
+    let purged = 0;
+    let startKey: { [key: string]: any } | undefined;
+
+    do {
+      const result = await dynamoDb
+        .query({
+          TableName: TASKS_TABLE,
+          IndexName: TYPE_DELETED_AT_INDEX,
+          KeyConditionExpression: '#type = :type AND #deletedAt < :cutoff',
+          ExpressionAttributeNames: {
+            '#type': 'type',
+            '#deletedAt': 'deletedAt',
+          },
+          ExpressionAttributeValues: {
+            ':type': TASK_ENTITY_TYPE,
+            ':cutoff': cutoff,
+          },
+          ExclusiveStartKey: startKey,
+        })
+        .promise();
+
+      for (const item of result.Items || []) {
+        const task = this.toTask(item);
+        try {
+          // 一覧取得後に復元されたタスクは削除しない
+          await this.writeWithAudit(
+            {
+              Delete: {
+                TableName: TASKS_TABLE,
+                Key: { id: item.id },
+                ConditionExpression: '#deletedAt = :deletedAt',
+                ExpressionAttributeNames: { '#deletedAt': 'deletedAt' },
+                ExpressionAttributeValues: { ':deletedAt': item.deletedAt },
+              },
+            },
+            this.auditService.buildAuditItem(
+              item.id,
+              'PURGE',
+              SYSTEM_ACTOR,
+              task,
+              null
+            )
+          );
+        } catch (error) {
+          if (isConditionalCheckFailed(error)) {
+            continue;
+          }
+          throw error;
+        }
+
+        await this.sendTaskMessage(
+          'DELETE',
+          task,
+          diffTask(task, null),
+          { actor: SYSTEM_ACTOR, correlationId },
+          { deleteMode: 'HARD' }
+        );
+        purged++;
+      }
+
+      startKey = result.LastEvaluatedKey;
+    } while (startKey);
+
+    return purged;
+  }
+
+  /**
+   * 期日が近づいたタスクのリマインダーをSQSに送信する
+   *
+   * 期日が現在時刻から指定時間以内で、完了・中止していないタスクのうち、
+   * まだリマインダーを送信していない（remindedAtがない）ものについてREMINDERイベントを送信します。
+   * 定期実行ハンドラーから呼び出されることを想定しています。
+   * 重複して送信されたイベントは、claimReminderによりキューの処理側で1回だけ通知されます。
+   *
+   * @param windowMinutes - 現在時刻から期日までの時間（分、デフォルト: REMINDER_WINDOW_MINUTES）
+   * @returns REMINDERイベントを送信したタスクのID
+   *
+   * @example
+   * const taskIds = await taskService.enqueueDueReminders(60);
+   */
+  async enqueueDueReminders(
+    windowMinutes: number = REMINDER_WINDOW_MINUTES
+  ): Promise<string[]> {
+    const now = new Date();
+    const windowEnd = new Date(now.getTime() + windowMinutes * 60 * 1000);
+    // 1回の実行で送信するリマインダーイベントを同じ相関IDで関連付ける
+    const correlationId = uuidv4();
+    const taskIds: string[] = [];
+    let startKey: { [key: string]: any } | undefined;
+
+    do {
+      const result = await dynamoDb
+        .query({
+          TableName: TASKS_TABLE,
+          IndexName: TYPE_OPEN_DUE_AT_INDEX,
+          KeyConditionExpression:
+            '#type = :type AND #openDueAt BETWEEN :now AND :windowEnd',
+          FilterExpression:
+            'attribute_not_exists(#remindedAt) AND attribute_not_exists(#deletedAt)',
+          ExpressionAttributeNames: {
+            '#type': 'type',
+            '#openDueAt': 'openDueAt',
+            '#remindedAt': 'remindedAt',
+            '#deletedAt': 'deletedAt',
+          },
+          ExpressionAttributeValues: {
+            ':type': TASK_ENTITY_TYPE,
+            ':now': now.toISOString(),
+            ':windowEnd': windowEnd.toISOString(),
+          },
+          ExclusiveStartKey: startKey,
+        })
+        .promise();
+
+      for (const item of result.Items || []) {
+        await this.sendTaskMessage(
+          'REMINDER',
+          this.toTask(item),
+          [],
+          { actor: SYSTEM_ACTOR, correlationId },
+          { dueAt: item.dueAt }
+        );
+        taskIds.push(item.id);
+      }
+
+      startKey = result.LastEvaluatedKey;
+    } while (startKey);
+
+    return taskIds;
+  }
+
+  /**
+   * リマインダーの送信済みを記録する
+   *
+   * タスクがまだリマインダーを送信しておらず、期日がdueAtのまま未完了である場合のみ
+   * remindedAtを条件付きで記録します。同じタスクに同時に複数のREMINDERイベントが届いても
+   * 記録に成功するのは1つだけのため、通知はこのメソッドが返したタスクについてのみ送信します。
+   * remindedAtはシステムが管理する属性のため、バージョンは進めず監査レコードも保存しません。
+   *
+   * @param taskId - リマインダーを送信するタスクのID
+   * @param dueAt - REMINDERイベントの送信時点の期日
+   * @returns 記録したタスク、送信済み・期日変更・完了・削除済みの場合はnull
+   *
+   * @example
+   * const task = await taskService.claimReminder(taskId, message.dueAt);
+   * if (task) {
+   *   await notifier.notifyDueSoon(task);
+   * }
+   */
+  async claimReminder(taskId: string, dueAt: string): Promise<Task | null> {
+    try {
+      const result = await dynamoDb
+        .update({
+          TableName: TASKS_TABLE,
+          Key: { id: taskId },
+          UpdateExpression: 'SET #remindedAt = :remindedAt',
+          ConditionExpression:
+            '#openDueAt = :dueAt AND attribute_not_exists(#remindedAt) AND attribute_not_exists(#deletedAt)',
+          ExpressionAttributeNames: {
+            '#remindedAt': 'remindedAt',
+            '#openDueAt': 'openDueAt',
+            '#deletedAt': 'deletedAt',
+          },
+          ExpressionAttributeValues: {
+            ':remindedAt': new Date().toISOString(),
+            ':dueAt': dueAt,
+          },
+          ReturnValues: 'ALL_NEW',
+        })
+        .promise();
+
+      return this.toTask(result.Attributes || {});
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * リマインダーの送信済みの記録を取り消す
+   *
+   * claimReminderの後に通知の送信に失敗した場合に呼び出し、再試行で通知できるようにします。
+   * 記録した時点のremindedAtから変わっている場合は何もしません。
+   *
+   * @param taskId - タスクのID
+   * @param remindedAt - claimReminderで記録されたremindedAt
+   */
+  async releaseReminder(taskId: string, remindedAt: string): Promise<void> {
+    try {
+      await dynamoDb
+        .update({
+          TableName: TASKS_TABLE,
+          Key: { id: taskId },
+          UpdateExpression: 'REMOVE #remindedAt',
+          ConditionExpression: '#remindedAt = :remindedAt',
+          ExpressionAttributeNames: { '#remindedAt': 'remindedAt' },
+          ExpressionAttributeValues: { ':remindedAt': remindedAt },
+        })
+        .promise();
+    } catch (error) {
+      if (!isConditionalCheckFailed(error)) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * 直下の子タスクをすべて取得する
+   *
+   * ゴミ箱内のタスクは除外されます。
+   *
+   * @param parentId - 親タスクのID
+   * @returns 子タスクの配列
+   * @private
+   */
+  private async queryAllChildren(parentId: string): Promise<Task[]> {
+    const children: Task[] = [];
+    let startKey: { [key: string]: any } | undefined;
+
+    do {
+      const result = await dynamoDb
+        .query({
+          TableName: TASKS_TABLE,
+          IndexName: PARENT_ID_CREATED_AT_INDEX,
+          KeyConditionExpression: '#parentId = :parentId',
+          FilterExpression:
+            '#type = :type AND attribute_not_exists(#deletedAt)',
+          ExpressionAttributeNames: {
+            '#parentId': 'parentId',
+            '#type': 'type',
+            '#deletedAt': 'deletedAt',
+          },
+          ExpressionAttributeValues: {
+            ':parentId': parentId,
+            ':type': TASK_ENTITY_TYPE,
+          },
+          ExclusiveStartKey: startKey,
+        })
+        .promise();
+
+      children.push(...(result.Items || []).map((item) => this.toTask(item)));
+      startKey = result.LastEvaluatedKey;
+    } while (startKey);
+
+    return children;
+  }
+
+  /**
+   * 直下の子タスクのIDを取得する
+   *
+   * @param parentId - 親タスクのID
+   * @returns 子タスクのIDの配列
+   * @private
+   */
+  private async getChildIds(parentId: string): Promise<string[]> {
+    const children = await this.queryAllChildren(parentId);
+    return children.map((child) => child.id);
+  }
+
+  /**
+   * 未完了（完了・中止以外）の直下の子タスクのIDを取得する
+   *
+   * @param parentId - 親タスクのID
+   * @returns 未完了の子タスクのIDの配列
+   * @private
+   */
+  private async getOpenChildIds(parentId: string): Promise<string[]> {
+    const children = await this.queryAllChildren(parentId);
+    return children
+      .filter((child) => !CLOSED_STATUSES.includes(child.status))
+      .map((child) => child.id);
+  }
+
+  /**
+   * 完了していないブロッカーのIDを取得する
+   *
+   * ゴミ箱内または完全に削除されたブロッカーは、ブロックしていないものとして扱います。
+   *
+   * @param task - 対象のタスク
+   * @returns 完了していないブロッカーのIDの配列
+   * @private
+   */
+  private async getPendingBlockerIds(task: Task): Promise<string[]> {
+    const pending: string[] = [];
+    for (const blockerId of task.blockedBy || []) {
+      const blocker = await this.getTaskById(blockerId);
+      if (blocker && blocker.status !== TaskStatus.DONE) {
+        pending.push(blockerId);
+      }
+    }
+
+    return pending;
+  }
+
+  /**
+   * 依存関係を追加しても循環しないことを検証する
+   *
+   * ブロッカーから blockedBy をたどり、対象のタスクに到達する場合は循環とみなします。
+   *
+   * @param taskId - ブロックされるタスクのID
+   * @param blockerId - ブロッカーとなるタスクのID
+   * @throws ValidationError - ブロッカーが存在しない場合、自分自身の場合、または依存関係が循環する場合
+   * @private
+   */
+  private async assertNoDependencyCycle(
+    taskId: string,
+    blockerId: string
+  ): Promise<void> {
+    if (taskId === blockerId) {
+      throw new ValidationError(
+        '自分自身をブロッカーに指定することはできません'
+      );
+    }
+
+    const blocker = await this.getTaskById(blockerId);
+    if (!blocker) {
+      throw new ValidationError('ブロッカーのタスクが見つかりません');
+    }
+
+    const visited = new Set<string>([blockerId]);
+    const queue: Task[] = [blocker];
+
+    while (queue.length > 0) {
+      const current = queue.shift() as Task;
+      for (const nextId of current.blockedBy || []) {
+        if (nextId === taskId) {
+          throw new ValidationError(
+            '依存関係が循環するため、このタスクをブロッカーに指定できません'
+          );
+        }
+        if (visited.has(nextId)) {
+          continue;
+        }
+        if (visited.size >= MAX_DEPENDENCY_SEARCH) {
+          throw new ValidationError('依存関係が多すぎるため検証できません');
+        }
+
+        visited.add(nextId);
+        const next = await this.getTaskById(nextId, { includeDeleted: true });
+        if (next) {
+          queue.push(next);
+        }
+      }
+    }
+  }
+
+  /**
+   * 親タスクとして指定できるかを検証する
+   *
+   * 親タスクが存在すること、および親タスクから祖先をたどって
+   * 対象のタスク自身が現れない（親子関係が循環しない）ことを確認します。
+   *
+   * @param id - 親を設定するタスクのID
+   * @param parentId - 親として指定されたタスクのID
+   * @throws ValidationError - 親タスクが存在しない場合、または親子関係が循環する場合
+   * @private
+   */
+  private async assertValidParent(id: string, parentId: string): Promise<void> {
+    let ancestorId: string | undefined = parentId;
+
+    for (let depth = 0; ancestorId; depth++) {
+      if (ancestorId === id) {
+        throw new ValidationError(
+          '親子関係が循環するため、このタスクを親に指定できません'
+        );
+      }
+      if (depth >= MAX_HIERARCHY_DEPTH) {
+        throw new ValidationError(
+          `親子関係の階層は ${MAX_HIERARCHY_DEPTH} 階層までです`
+        );
+      }
+
+      const ancestor: Task | null = await this.getTaskById(ancestorId);
+      if (!ancestor) {
+        if (ancestorId === parentId) {
+          throw new ValidationError('親タスクが見つかりません');
+        }
+        break;
+      }
+      ancestorId = ancestor.parentId;
+    }
+  }
+
+  /**
+   * タグの付け外しを書き込む
+   *
+   * タスクの文字列セットの更新とバージョンの更新、タグの使用数の増減、監査レコードの保存を
+   * 1つのトランザクションで行い、更新イベントをSQSに送信します。
+   *
+   * @param task - 読み込んだ時点のタスク
+   * @param operation - ADD: タグを付ける、DELETE: タグを外す
+   * @param tag - 正規化済みのタグ
+   * @param options - 操作者、期待するバージョン（If-Match）
+   * @returns 更新されたタスクオブジェクト
+   * @throws ConflictError - 読み込み後に別の更新が行われた場合
+   * @throws PreconditionFailedError - expectedVersionが現在のバージョンと一致しない場合
+   * @private
+   */
+  private async writeTagChange(
+    task: Task,
+    operation: 'ADD' | 'DELETE',
+    tag: string,
+    options: TaskWriteOptions
+  ): Promise<Task | null> {
+    const { actor = ANONYMOUS_ACTOR, expectedVersion, correlationId } = options;
+    const timestamp = new Date().toISOString();
+    const currentTags = task.tags || [];
+    const nextTags =
+      operation === 'ADD'
+        ? [...currentTags, tag].sort()
+        : currentTags.filter((currentTag) => currentTag !== tag);
+
+    const attributeValues: { [key: string]: any } = {
+      ':tags': dynamoDb.createSet([tag]),
+      ':updatedAt': timestamp,
+      ':zero': 0,
+      ':one': 1,
+    };
+    const conditionExpression = this.versionCondition(task, attributeValues);
+    const updatedTask: Task = {
+      ...task,
+      tags: nextTags.length > 0 ? nextTags : undefined,
+      ...this.nextRevision(task, timestamp),
+    };
+
+    try {
+      await this.writeWithAudit(
+        [
+          {
+            Update: {
+              TableName: TASKS_TABLE,
+              Key: { id: task.id },
+              UpdateExpression: `SET #updatedAt = :updatedAt, #version = if_not_exists(#version, :zero) + :one ${operation} #tags :tags`,
+              ConditionExpression: conditionExpression,
+              ExpressionAttributeNames: {
+                '#tags': 'tags',
+                '#updatedAt': 'updatedAt',
+                '#version': 'version',
+              },
+              ExpressionAttributeValues: attributeValues,
+            },
+          },
+          ...(operation === 'ADD'
+            ? this.tagService.buildCountUpdates([tag], [], timestamp)
+            : this.tagService.buildCountUpdates([], [tag], timestamp)),
+        ],
+        this.auditService.buildAuditItem(
+          task.id,
+          'UPDATE',
+          actor,
+          task,
+          updatedTask,
+          timestamp
+        )
+      );
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        await this.throwStaleWrite(task.id, expectedVersion);
+      }
+      throw error;
+    }
+
+    await this.sendTaskMessage(
+      'UPDATE',
+      updatedTask,
+      diffTask(task, updatedTask),
+      { actor, correlationId }
+    );
+
+    return await this.getTaskById(task.id);
+  }
+
+  /**
+   * タスクの書き込みと監査レコードの保存を1つのトランザクションで実行する
+   *
+   * 監査レコードだけが保存される、またはタスクだけが変更されることを防ぎます。
+   * タスクの書き込みの条件を満たさない場合はTransactionCanceledExceptionが送出されます。
+   *
+   * @param writes - タスクに対する書き込み（Put / Update / Delete）、関連するタスクへの書き込みを含む場合は配列
+   * @param auditItem - TaskAuditServiceで作成した監査レコードのアイテム
+   * @private
+   */
+  private async writeWithAudit(
+    writes:
+      DocumentClient.TransactWriteItem | DocumentClient.TransactWriteItem[],
+    auditItem: { [key: string]: any }
+  ): Promise<void> {
+    await dynamoDb
+      .transactWrite({
+        TransactItems: [
+          ...(Array.isArray(writes) ? writes : [writes]),
+          {
+            Put: {
+              TableName: TASKS_TABLE,
+              Item: auditItem,
+            },
+          },
+        ],
+      })
+      .promise();
+  }
+
+  /**
+   * クライアントが期待するバージョンと現在のバージョンを比較する
+   *
+   * @param task - 現在のタスク
+   * @param expectedVersion - クライアントが期待するバージョン（未指定の場合は検証しない）
+   * @throws PreconditionFailedError - バージョンが一致しない場合
+   * @private
+   */
+  private assertVersion(task: Task, expectedVersion?: number): void {
+    const currentVersion = task.version || 0;
+    if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+      throw new PreconditionFailedError(
+        'タスクは他の更新によって変更されています。最新の状態を取得して再試行してください',
+        { currentVersion }
+      );
+    }
+  }
+
+  /**
+   * 読み込んだ時点のバージョンから変更されていないことを表す条件式を作成する
+   *
+   * バージョン属性を持たない既存のタスクは、属性が存在しないことを条件とします。
+   * 条件式は属性名 #version を使用し、必要な値をattributeValuesに追加します。
+   *
+   * @param task - 読み込んだ時点のタスク
+   * @param attributeValues - 条件式の値を追加するExpressionAttributeValues
+   * @returns 条件式
+   * @private
+   */
+  private versionCondition(
+    task: Task,
+    attributeValues: { [key: string]: any }
+  ): string {
+    if (task.version === undefined) {
+      return 'attribute_not_exists(#version)';
+    }
+
+    attributeValues[':expectedVersion'] = task.version;
+    return '#version = :expectedVersion';
+  }
+
+  /**
+   * 条件付き書き込みが失敗した場合のエラーを送出する
+   *
+   * クライアントがバージョンを指定していた場合は最新のバージョンを含む412エラー、
+   * 指定していなかった場合は同時更新による409エラーを送出します。
+   *
+   * @param id - タスクのID
+   * @param expectedVersion - クライアントが期待したバージョン
+   * @throws PreconditionFailedError | ConflictError
+   * @private
+   */
+  private async throwStaleWrite(
+    id: string,
+    expectedVersion?: number
+  ): Promise<never> {
+    if (expectedVersion === undefined) {
+      throw new ConflictError(
+        'タスクが同時に更新されました。最新の状態を取得して再試行してください'
+      );
+    }
+
+    const latest = await this.getTaskById(id, { includeDeleted: true });
+    throw new PreconditionFailedError(
+      'タスクは他の更新によって変更されています。最新の状態を取得して再試行してください',
+      { currentVersion: latest ? latest.version || 0 : null }
+    );
+  }
+
+  /**
+   * 並び替え・絞り込み用のGSIのキー属性を計算する
+   *
+   * - priorityRank: 優先度の並び順（優先度がない場合は0）
+   * - dueSortKey: 期日（期日がない場合は最も後ろに並ぶ値）
+   * - openDueAt: 完了・中止していないタスクの期日（それ以外は属性を持たない）
+   *
+   * @param task - 保存するタスクの内容
+   * @returns 属性名と値の組み合わせ（値がundefinedの属性は保存しない）
+   * @private
+   */
+  private buildIndexAttributes(task: Task): {
+    [key: string]: string | number | undefined;
+  } {
+    const isOpen = !CLOSED_STATUSES.includes(task.status);
+    return {
+      priorityRank: task.priority ? PRIORITY_RANKS[task.priority] : 0,
+      dueSortKey: task.dueAt || NO_DUE_DATE_SORT_KEY,
+      openDueAt: isOpen && task.dueAt ? task.dueAt : undefined,
+    };
+  }
+
+  /**
+   * 既存のタスクに一覧用のGSIのキー属性を補う
+   *
+   * 一覧用のGSI（type-createdAt-index、並び替え用のインデックスなど）が追加される前に作成されたタスクは、
+   * キー属性がないため取得・一覧の対象になりません。テーブル全体をスキャンし、
+   * type属性がなくタイトルを持つアイテムをタスクとして移行し、更新日時と並び替え・絞り込み用の属性を補います。
+   * 既に持っている属性は変更しないため、何度実行しても同じ結果になります。
+   *
+   * @returns 移行したタスクの件数
+   *
+   * @example
+   * const migrated = await taskService.backfillLegacyTasks();
+   */
+  async backfillLegacyTasks(): Promise<number> {
+    let migrated = 0;
+    let startKey: { [key: string]: any } | undefined;
+
+    do {
+      const result = await dynamoDb
+        .scan({
+          TableName: TASKS_TABLE,
+          FilterExpression:
+            '(attribute_not_exists(#type) AND attribute_exists(#title)) OR ' +
+            '(#type = :type AND (attribute_not_exists(#updatedAt) OR attribute_not_exists(#priorityRank) OR attribute_not_exists(#dueSortKey)))',
+          ExpressionAttributeNames: {
+            '#type': 'type',
+            '#title': 'title',
+            '#updatedAt': 'updatedAt',
+            '#priorityRank': 'priorityRank',
+            '#dueSortKey': 'dueSortKey',
+          },
+          ExpressionAttributeValues: { ':type': TASK_ENTITY_TYPE },
+          ExclusiveStartKey: startKey,
+        })
+        .promise();
+
+      for (const item of result.Items || []) {
+        if (await this.backfillTask(this.toTask(item))) {
+          migrated++;
+        }
+      }
+
+      startKey = result.LastEvaluatedKey;
+    } while (startKey);
+
+    return migrated;
+  }
+
+  /**
+   * 1件のタスクにtype属性、更新日時、並び替え・絞り込み用の属性を補う
+   *
+   * スキャン後にステータスや期日が変更されたタスクは、変更時に属性が設定されるため対象外とします。
+   *
+   * @param task - スキャンで取得したタスク
+   * @returns 移行した場合はtrue、スキャン後に変更・削除された場合はfalse
+   * @private
+   */
+  private async backfillTask(task: Task): Promise<boolean> {
+    const updateExpressions = [
+      '#type = :type',
+      '#updatedAt = if_not_exists(#updatedAt, :createdAt)',
+    ];
+    const attributeNames: { [key: string]: string } = {
+      '#type': 'type',
+      '#updatedAt': 'updatedAt',
+      '#status': 'status',
+      '#dueAt': 'dueAt',
+    };
+    const attributeValues: { [key: string]: any } = {
+      ':type': TASK_ENTITY_TYPE,
+      ':createdAt': task.createdAt,
+      ':status': task.status,
+    };
+
+    Object.entries(this.buildIndexAttributes(task)).forEach(([key, value]) => {
+      if (value === undefined) {
+        return;
+      }
+      updateExpressions.push(`#${key} = if_not_exists(#${key}, :${key})`);
+      attributeNames[`#${key}`] = key;
+      attributeValues[`:${key}`] = value;
+    });
+
+    let conditionExpression =
+      'attribute_exists(id) AND (attribute_not_exists(#type) OR #type = :type) AND #status = :status';
+    if (task.dueAt) {
+      conditionExpression += ' AND #dueAt = :dueAt';
+      attributeValues[':dueAt'] = task.dueAt;
+    } else {
+      conditionExpression += ' AND attribute_not_exists(#dueAt)';
+    }
+
+    try {
+      await dynamoDb
+        .update({
+          TableName: TASKS_TABLE,
+          Key: { id: task.id },
+          UpdateExpression: `SET ${updateExpressions.join(', ')}`,
+          ConditionExpression: conditionExpression,
+          ExpressionAttributeNames: attributeNames,
+          ExpressionAttributeValues: attributeValues,
+        })
+        .promise();
+      return true;
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * DynamoDBのアイテムをタスクオブジェクトに変換する
+   *
+   * テーブル内部でのみ使用するtype属性と並び替え用の属性、個別のエンドポイントで提供する遷移履歴を取り除き、
+   * 文字列セットとして保存している依存関係とタグを配列に変換します。
+   *
+   * @param item - DynamoDBから取得したアイテム
+   * @returns タスクオブジェクト
+   * @private
+   */
+  private toTask(item: { [key: string]: any }): Task {
+    const {
+      type,
+      transitions,
+      priorityRank,
+      dueSortKey,
+      openDueAt,
+      blockedBy,
+      blocks,
+      tags,
+      ...task
+    } = item;
+    return {
+      ...task,
+      ...(tags && { tags: [...tags.values].sort() }),
+      ...(blockedBy && { blockedBy: [...blockedBy.values].sort() }),
+      ...(blocks && { blocks: [...blocks.values].sort() }),
+    } as Task;
+  }
+
+  /**
+   * 更新後のタスクの更新日時とバージョンを返す
+   *
+   * 書き込みで更新日時を設定してバージョンを1増やす場合の、書き込み後の値です。
+   *
+   * @param task - 更新前のタスク
+   * @param timestamp - 更新日時
+   * @returns 更新後の更新日時とバージョン
+   * @private
+   */
+  private nextRevision(
+    task: Task,
+    timestamp: string
+  ): Pick<Task, 'updatedAt' | 'version'> {
+    return { updatedAt: timestamp, version: (task.version || 0) + 1 };
+  }
+
+  /**
+   * SQSにタスク関連のイベントを送信
+   *
+   * タスクのCRUD操作に関連するイベントをエンベロープ（イベントID・種類・スキーマのバージョン・
+   * 発生日時・操作者・相関ID）に包み、形式を検証してからSQSキューに送信します。
+   * イベント駆動型アーキテクチャにおける非同期通知のために使用されます。
+   *
+   * @param eventType - イベントの種類（作成、更新、削除、復元、ブロック解除、リマインダー）
+   * @param task - イベント発生時点のタスク
+   * @param changes - フィールドごとの変更前後の値
+   * @param context - 操作者と相関ID
+   * @param attributes - イベント固有の追加属性（削除方式、ステータスの変更、期日など）
+   * @throws InvalidTaskEventError - イベントの形式が正しくない場合
+   * @private
+   */
+  private async sendTaskMessage(
+    eventType: TaskEventType,
+    task: Task,
+    changes: TaskFieldChange[],
+    context: TaskEventContext,
+    attributes: Pick<
+      TaskEventPayload,
+      'deleteMode' | 'statusChange' | 'unblockedBy' | 'dueAt'
+    > = {}
+  ): Promise<void> {
+    const event = createTaskEvent(
+      eventType,
+      { taskId: task.id, task, changes, ...attributes },
+      context
+    );
+
+    // SQSにメッセージを送信（同じタスクのイベントは送信した順に処理され、同じイベントの再送信は重複排除される）
     await sqs
       .sendMessage({
         QueueUrl: TASKS_QUEUE,
-        MessageBody: JSON.stringify(message),
+        MessageBody: JSON.stringify(event),
+        MessageGroupId: task.id,
+        MessageDeduplicationId: event.eventId,
       })
       .promise();
   }
@@ -0,0 +1,59 @@
+import { TaskStateMachine } from './task-state-machine';
+import { ConflictError, ValidationError } from '../utils/errors';
+import { TaskStatus } from '../types';
+
+describe('TaskStateMachine.assertTransition', () => {
+  const stateMachine: TaskStateMachine = new TaskStateMachine();
+
+  it('許可された遷移ではエラーにならない', () => {
+    expect(() =>
+      stateMachine.assertTransition(TaskStatus.TODO, TaskStatus.IN_PROGRESS)
+    ).not.toThrow();
+    expect(() =>
+      stateMachine.assertTransition(TaskStatus.DONE, TaskStatus.IN_PROGRESS)
+    ).not.toThrow();
+  });
+
+  it('許可されていない遷移はConflictErrorになり、遷移できるステータスを返す', () => {
+    let error: unknown;
+    try {
+      stateMachine.assertTransition(TaskStatus.DONE, TaskStatus.TODO);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect((error as ConflictError).statusCode).toBe(409);
+    expect((error as ConflictError).details).toEqual({
+      currentStatus: TaskStatus.DONE,
+      requestedStatus: TaskStatus.TODO,
+      allowedStatuses: [TaskStatus.IN_PROGRESS],
+    });
+  });
+
+  it.each(['UNKNOWN', 'todo', undefined, 1])(
+    '存在しないステータス（%p）はValidationErrorになる',
+    (to) => {
+      expect(() => stateMachine.assertTransition(TaskStatus.TODO, to)).toThrow(
+        ValidationError
+      );
+    }
+  );
+
+  it('指定した遷移グラフに従って判定する', () => {
+    const custom: TaskStateMachine = new TaskStateMachine({
+      [TaskStatus.TODO]: [TaskStatus.DONE],
+      [TaskStatus.IN_PROGRESS]: [],
+      [TaskStatus.DONE]: [],
+      [TaskStatus.BLOCKED]: [],
+      [TaskStatus.CANCELLED]: [],
+    });
+
+    expect(() =>
+      custom.assertTransition(TaskStatus.TODO, TaskStatus.DONE)
+    ).not.toThrow();
+    expect(() =>
+      custom.assertTransition(TaskStatus.TODO, TaskStatus.IN_PROGRESS)
+    ).toThrow(ConflictError);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * タスクステータスの状態遷移管理クラス
+ *
+ * このクラスはタスクのステータス遷移グラフを保持し、ステータス変更が許可されているかを検証します。
+ * 遷移グラフは環境変数 TASK_STATUS_TRANSITIONS（JSON形式）で上書きでき、
+ * BLOCKED や CANCELLED などの追加ステータスを使用するかどうかもグラフで制御します。
+ */
+import { TaskStatus, TaskTransitionGraph } from '../types';
+import { ConflictError, ValidationError } from '../utils/errors';
+
+/**
+ * デフォルトのステータス遷移グラフ
+ *
+ * 完了（DONE）したタスクは進行中（IN_PROGRESS）に戻すことのみ可能で、
+ * 未着手（TODO）へ直接戻すことはできません。
+ */
+export const DEFAULT_TASK_TRANSITIONS: TaskTransitionGraph = {
+  [TaskStatus.TODO]: [
+    TaskStatus.IN_PROGRESS,
+    TaskStatus.BLOCKED,
+    TaskStatus.CANCELLED,
+  ],
+  [TaskStatus.IN_PROGRESS]: [
+    TaskStatus.TODO,
+    TaskStatus.DONE,
+    TaskStatus.BLOCKED,
+    TaskStatus.CANCELLED,
+  ],
+  [TaskStatus.BLOCKED]: [
+    TaskStatus.TODO,
+    TaskStatus.IN_PROGRESS,
+    TaskStatus.CANCELLED,
+  ],
+  [TaskStatus.DONE]: [TaskStatus.IN_PROGRESS],
+  [TaskStatus.CANCELLED]: [TaskStatus.TODO],
+};
+
+/**
+ * 環境変数から遷移グラフを読み込む
+ *
+ * TASK_STATUS_TRANSITIONS が設定されていない場合はデフォルトのグラフを返します。
+ *
+ * @returns ステータス遷移グラフ
+ * @throws Error - JSONの形式やステータス名が不正な場合
+ *
+ * @example
+ * // TASK_STATUS_TRANSITIONS='{"TODO":["IN_PROGRESS"],"IN_PROGRESS":["DONE"],"DONE":[]}'
+ * const graph = loadTransitionGraph();
+ */
+export const loadTransitionGraph = (): TaskTransitionGraph => {
+  const raw = process.env.TASK_STATUS_TRANSITIONS;
+  if (!raw) {
+    return DEFAULT_TASK_TRANSITIONS;
+  }
+
+  const parsed = JSON.parse(raw);
+  const statuses = Object.values(TaskStatus) as string[];
+  const isStatus = (value: unknown): value is TaskStatus =>
+    typeof value === 'string' && statuses.includes(value);
+
+  const graph: TaskTransitionGraph = {};
+  for (const [from, targets] of Object.entries(parsed)) {
+    if (
+      !isStatus(from) ||
+      !Array.isArray(targets) ||
+      !targets.every(isStatus)
+    ) {
+      throw new Error(`TASK_STATUS_TRANSITIONS の定義が不正です: ${from}`);
+    }
+    graph[from] = targets;
+  }
+
+  // 遷移先のステータスもグラフのキーとして定義されている必要がある
+  for (const targets of Object.values(graph)) {
+    const undefinedTarget = targets?.find((to) => !(to in graph));
+    if (undefinedTarget) {
+      throw new Error(
+        `TASK_STATUS_TRANSITIONS に遷移先 ${undefinedTarget} の定義がありません`
+      );
+    }
+  }
+
+  return graph;
+};
+
+export class TaskStateMachine {
+  /**
+   * @param graph - ステータス遷移グラフ（デフォルト: 環境変数またはデフォルトのグラフ）
+   */
+  constructor(
+    private readonly graph: TaskTransitionGraph = loadTransitionGraph()
+  ) {}
+
+  /**
+   * 使用可能なステータスかどうかを判定する
+   *
+   * @param status - 判定するステータス
+   * @returns 遷移グラフに定義されているステータスの場合はtrue
+   */
+  isKnownStatus(status: unknown): status is TaskStatus {
+    return typeof status === 'string' && status in this.graph;
+  }
+
+  /**
+   * 指定したステータスから遷移可能なステータスを取得する
+   *
+   * @param from - 遷移元のステータス
+   * @returns 遷移可能なステータスの配列
+   *
+   * @example
+   * const next = stateMachine.getAllowedTransitions(TaskStatus.DONE);
+   * // => ['IN_PROGRESS']
+   */
+  getAllowedTransitions(from: TaskStatus): TaskStatus[] {
+    return this.graph[from] || [];
+  }
+
+  /**
+   * ステータス遷移が許可されているかを検証する
+   *
+   * @param from - 遷移元のステータス
+   * @param to - 遷移先のステータス
+   * @throws ValidationError - 遷移先が使用できないステータスの場合
+   * @throws ConflictError - 遷移が許可されていない場合（許可されている遷移先を含む）
+   *
+   * @example
+   * stateMachine.assertTransition(TaskStatus.TODO, TaskStatus.IN_PROGRESS);
+   */
+  assertTransition(from: TaskStatus, to: unknown): asserts to is TaskStatus {
+    if (!this.isKnownStatus(to)) {
+      throw new ValidationError(
+        `status は ${Object.keys(this.graph).join(', ')} のいずれかを指定してください`
+      );
+    }
+
+    const allowedStatuses = this.getAllowedTransitions(from);
+    if (!allowedStatuses.includes(to)) {
+      throw new ConflictError(
+        `ステータスを ${from} から ${to} に変更することはできません`,
+        { currentStatus: from, requestedStatus: to, allowedStatuses }
+      );
+    }
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * タスク属性の検証
+ *
+ * タスクの作成・更新時にクライアントから指定される期日・優先度・見積もり時間・タグを検証し、
+ * 保存用の形式に正規化します。TaskServiceの作成・更新処理から呼び出されます。
+ * 更新時は、クライアントが変更できる属性のみを含むことも検証します。
+ */
+import { ValidationError } from '../utils/errors';
+import { Task, TaskPriority } from '../types';
+
+/**
+ * 優先度ごとの並び順（値が大きいほど優先度が高い）
+ * 優先度で並び替えるためのGSIのソートキー（priorityRank）として保存されます
+ */
+export const PRIORITY_RANKS: Record<TaskPriority, number> = {
+  [TaskPriority.LOW]: 1,
+  [TaskPriority.MEDIUM]: 2,
+  [TaskPriority.HIGH]: 3,
+  [TaskPriority.URGENT]: 4,
+};
+
+/**
+ * タスクの更新でクライアントが変更できる属性
+ * 識別子・作成日時・バージョン・遷移履歴など、サーバーで管理する属性は含みません
+ */
+export const UPDATABLE_TASK_ATTRIBUTES: readonly string[] = [
+  'title',
+  'description',
+  'status',
+  'parentId',
+  'dueAt',
+  'priority',
+  'estimateMinutes',
+  'tags',
+];
+
+/**
+ * 見積もり時間（分）の上限（1年分）
+ */
+export const MAX_ESTIMATE_MINUTES = 60 * 24 * 365;
+
+/**
+ * 1つのタスクに付けられるタグの最大数
+ */
+export const MAX_TAGS_PER_TASK = 20;
+
+/**
+ * タグの最大文字数
+ */
+export const MAX_TAG_LENGTH = 32;
+
+/**
+ * タグに使用できる文字（文字、数字、ハイフン、アンダースコア、ドット）
+ * URLのパスやアイテムのIDの一部として使用するため、区切り文字は使用できません
+ */
+const TAG_PATTERN = /^[\p{L}\p{N}_.-]+$/u;
+
+/**
+ * タイムゾーン（Zまたは±hh:mm）付きのISO 8601形式の日時
+ */
+const ISO_8601_WITH_TIMEZONE =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * タグを正規化する
+ *
+ * 前後の空白を取り除いて小文字に変換し、文字数と使用できる文字を検証します。
+ *
+ * @param tag - 正規化するタグ
+ * @returns 正規化したタグ
+ * @throws ValidationError - 空、長すぎる、または使用できない文字を含む場合
+ *
+ * @example
+ * normalizeTag('  Backend ') // => 'backend'
+ */
+export const normalizeTag = (tag: unknown): string => {
+  const normalized = typeof tag === 'string' ? tag.trim().toLowerCase() : '';
+  if (
+    normalized.length === 0 ||
+    normalized.length > MAX_TAG_LENGTH ||
+    !TAG_PATTERN.test(normalized)
+  ) {
+    throw new ValidationError(
+      `タグは1〜${MAX_TAG_LENGTH}文字の文字、数字、ハイフン、アンダースコア、ドットで指定してください`
+    );
+  }
+  return normalized;
+};
+
+/**
+ * タグの配列を正規化する
+ *
+ * 各タグを正規化し、重複を取り除いて並べ替えます。
+ *
+ * @param tags - 正規化するタグの配列
+ * @returns 正規化したタグの配列
+ * @throws ValidationError - 配列でない場合、不正なタグを含む場合、またはタグが多すぎる場合
+ */
+export const normalizeTags = (tags: unknown): string[] => {
+  if (!Array.isArray(tags)) {
+    throw new ValidationError('tags は文字列の配列で指定してください');
+  }
+
+  const normalized = [...new Set(tags.map(normalizeTag))].sort();
+  if (normalized.length > MAX_TAGS_PER_TASK) {
+    throw new ValidationError(
+      `タグは1つのタスクに${MAX_TAGS_PER_TASK}個まで付けられます`
+    );
+  }
+  return normalized;
+};
+
+/**
+ * 期日・優先度・見積もり時間・タグを検証する
+ *
+ * 未指定（undefined）の属性は検証せず、null（属性の削除）はそのまま受け付けます。
+ * 期日はGSIで正しく並び替えられるよう、UTCのISO 8601形式に正規化して返します。
+ * タグはnormalizeTagsで正規化して返します。
+ *
+ * @param attributes - 検証するタスクの属性
+ * @returns 期日とタグを正規化した属性
+ * @throws ValidationError - 属性の形式や値が不正な場合
+ *
+ * @example
+ * const normalized = validateTaskAttributes({
+ *   dueAt: '2024-06-01T18:00:00+09:00',
+ *   priority: TaskPriority.HIGH,
+ *   estimateMinutes: 90,
+ * });
+ * // normalized.dueAt === '2024-06-01T09:00:00.000Z'
+ */
+export const validateTaskAttributes = <T extends Partial<Task>>(
+  attributes: T
+): T => {
+  const { dueAt, priority, estimateMinutes, tags } = attributes;
+  const normalized = { ...attributes };
+
+  if (dueAt !== undefined && dueAt !== null) {
+    if (
+      typeof dueAt !== 'string' ||
+      !ISO_8601_WITH_TIMEZONE.test(dueAt) ||
+      isNaN(Date.parse(dueAt))
+    ) {
+      throw new ValidationError(
+        'dueAt はタイムゾーン付きのISO 8601形式で指定してください（例: 2024-06-01T18:00:00+09:00）'
+      );
+    }
+    normalized.dueAt = new Date(dueAt).toISOString();
+  }
+
+  if (
+    priority !== undefined &&
+    priority !== null &&
+    !Object.values(TaskPriority).includes(priority)
+  ) {
+    throw new ValidationError(
+      `priority は ${Object.values(TaskPriority).join(', ')} のいずれかを指定してください`
+    );
+  }
+
+  if (
+    estimateMinutes !== undefined &&
+    estimateMinutes !== null &&
+    (!Number.isInteger(estimateMinutes) ||
+      estimateMinutes < 0 ||
+      estimateMinutes > MAX_ESTIMATE_MINUTES)
+  ) {
+    throw new ValidationError(
+      `estimateMinutes は0以上${MAX_ESTIMATE_MINUTES}以下の整数で指定してください`
+    );
+  }
+
+  if (tags !== undefined && tags !== null) {
+    normalized.tags = normalizeTags(tags);
+  }
+
+  return normalized;
+};
+
+/**
+ * タスクの更新内容に変更できない属性や不正なタイトルが含まれていないことを検証する
+ *
+ * UPDATABLE_TASK_ATTRIBUTES 以外の属性は、サーバーで管理する属性かどうかにかかわらず拒否します。
+ * タイトルは削除（null）できず、空でない文字列で指定する必要があります。
+ *
+ * @param updates - 検証するタスクの更新内容
+ * @throws ValidationError - 変更できない属性を含む場合、またはタイトルが不正な場合
+ *
+ * @example
+ * assertUpdatableAttributes({ title: '新しいタイトル', status: TaskStatus.DONE });
+ */
+export const assertUpdatableAttributes = (updates: Partial<Task>): void => {
+  const unknownKeys = Object.keys(updates).filter(
+    (key) => !UPDATABLE_TASK_ATTRIBUTES.includes(key)
+  );
+  if (unknownKeys.length > 0) {
+    throw new ValidationError(
+      `変更できない属性が指定されています: ${unknownKeys.join(', ')}（変更できる属性: ${UPDATABLE_TASK_ATTRIBUTES.join(', ')}）`
+    );
+  }
+
+  const { title } = updates;
+  if (title !== undefined && (typeof title !== 'string' || title === '')) {
+    throw new ValidationError('title は空でない文字列で指定してください');
+  }
+};
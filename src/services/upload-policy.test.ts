@@ -0,0 +1,68 @@
+import {
+  getExtension,
+  sanitizeFilename,
+  UploadPolicyValidator,
+} from './upload-policy';
+import { ValidationError } from '../utils/errors';
+
+describe('sanitizeFilename', () => {
+  it('パスを取り除き、ファイル名だけにする', () => {
+    expect(sanitizeFilename('../../etc/passwd')).toBe('passwd');
+    expect(sanitizeFilename('C:\\Users\\me\\report?.pdf')).toBe('report_.pdf');
+  });
+
+  it.each([undefined, '', '../', 42])(
+    '有効なファイル名が残らない場合（%p）はValidationErrorになる',
+    (filename) => {
+      expect(() => sanitizeFilename(filename)).toThrow(ValidationError);
+    }
+  );
+});
+
+describe('getExtension', () => {
+  it('小文字の拡張子を返す', () => {
+    expect(getExtension('Report.PDF')).toBe('pdf');
+    expect(getExtension('archive.tar.gz')).toBe('gz');
+  });
+});
+
+describe('UploadPolicyValidator.validate', () => {
+  const validator = new UploadPolicyValidator({
+    maxSizeBytes: 1024,
+    allowedContentTypes: ['image/*', 'application/pdf'],
+    allowedExtensions: ['png', 'jpg', 'pdf'],
+  });
+
+  it('許可されたアップロードは整えたファイル名を返す', () => {
+    expect(validator.validate('photos/cat.png', 'image/png', 1024)).toBe(
+      'cat.png'
+    );
+    expect(
+      validator.validate('doc.pdf', 'Application/PDF; charset=binary', 10)
+    ).toBe('doc.pdf');
+  });
+
+  it.each([
+    ['最大サイズを超える', 'cat.png', 'image/png', 1025],
+    ['type/subtype の形式でないMIMEタイプ', 'cat.png', 'png', 10],
+    ['許可されていないMIMEタイプ', 'cat.png', 'text/html', 10],
+    ['許可されていない拡張子', 'cat.gif', 'image/gif', 10],
+    ['拡張子のないファイル名', 'cat', 'image/png', 10],
+  ])('%sはValidationErrorになる', (_, filename, contentType, size) => {
+    expect(() => validator.validate(filename, contentType, size)).toThrow(
+      ValidationError
+    );
+  });
+
+  it('許可リストが空の場合はMIMEタイプと拡張子を制限しない', () => {
+    const unrestricted = new UploadPolicyValidator({
+      maxSizeBytes: 1024,
+      allowedContentTypes: [],
+      allowedExtensions: [],
+    });
+
+    expect(unrestricted.validate('notes.txt', 'text/plain', 10)).toBe(
+      'notes.txt'
+    );
+  });
+});
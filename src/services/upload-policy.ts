@@ -0,0 +1,204 @@
+/**
+ * アップロードポリシーの検証
+ *
+ * アップロードできるファイルのサイズ・MIMEタイプ・拡張子を制限し、
+ * S3のキーとして安全に使用できるようにファイル名を整えます。
+ * ポリシーはステージごとに serverless.yml で設定され、環境変数
+ * FILE_MAX_SIZE_BYTES・FILE_ALLOWED_CONTENT_TYPES・FILE_ALLOWED_EXTENSIONS から読み込まれます。
+ */
+import { UploadPolicy } from '../types';
+import { ValidationError } from '../utils/errors';
+
+/**
+ * 環境変数が設定されていない場合の最大サイズ（S3のオブジェクトの最大サイズ: 5TiB）
+ */
+const DEFAULT_MAX_SIZE_BYTES = 5 * 1024 * 1024 * 1024 * 1024;
+
+/**
+ * ファイル名の最大文字数
+ */
+export const MAX_FILENAME_LENGTH = 255;
+
+/**
+ * ファイル名に使用できない文字（制御文字、パス区切り文字、Windowsで使用できない文字）
+ */
+const UNSAFE_FILENAME_CHARACTERS = /[\u0000-\u001f\u007f\\/:*?"<>|]/g;
+
+/**
+ * MIMEタイプの形式（type/subtype）
+ */
+const CONTENT_TYPE_PATTERN =
+  /^[a-z0-9][a-z0-9!#$&^_.+-]*\/[a-z0-9][a-z0-9!#$&^_.+-]*$/;
+
+/**
+ * カンマ区切りの環境変数を小文字の配列に変換する
+ *
+ * @param value - 環境変数の値
+ * @returns 空の項目を除いた配列
+ */
+const parseList = (value: string | undefined): string[] =>
+  (value || '')
+    .split(',')
+    .map((item) => item.trim().toLowerCase())
+    .filter((item) => item.length > 0);
+
+/**
+ * 環境変数からアップロードポリシーを読み込む
+ *
+ * 許可リストの環境変数が設定されていない場合は、MIMEタイプ・拡張子を制限しません。
+ *
+ * @returns アップロードポリシー
+ * @throws Error - 最大サイズが正の整数でない場合
+ *
+ * @example
+ * // FILE_ALLOWED_CONTENT_TYPES='image/*,application/pdf'
+ * // FILE_ALLOWED_EXTENSIONS='png,jpg,pdf'
+ * const policy = loadUploadPolicy();
+ */
+export const loadUploadPolicy = (): UploadPolicy => {
+  const maxSizeBytes = Number(
+    process.env.FILE_MAX_SIZE_BYTES || DEFAULT_MAX_SIZE_BYTES
+  );
+  if (!Number.isInteger(maxSizeBytes) || maxSizeBytes <= 0) {
+    throw new Error(
+      `FILE_MAX_SIZE_BYTES の値が不正です: ${process.env.FILE_MAX_SIZE_BYTES}`
+    );
+  }
+
+  return {
+    maxSizeBytes,
+    allowedContentTypes: parseList(process.env.FILE_ALLOWED_CONTENT_TYPES),
+    allowedExtensions: parseList(process.env.FILE_ALLOWED_EXTENSIONS).map(
+      (extension) => extension.replace(/^\./, '')
+    ),
+  };
+};
+
+/**
+ * ファイル名をS3のキーとして安全に使用できる形に整える
+ *
+ * パスを含む場合は最後の要素のみを使用し、使用できない文字を「_」に置き換えます。
+ * 先頭のドット（隠しファイルや「..」）と前後の空白は取り除き、
+ * 長すぎる場合は拡張子を残して切り詰めます。
+ *
+ * @param filename - クライアントから指定されたファイル名
+ * @returns 整えたファイル名
+ * @throws ValidationError - ファイル名が空になる場合
+ *
+ * @example
+ * sanitizeFilename('../../etc/passwd') // => 'passwd'
+ * sanitizeFilename('C:\\Users\\me\\report?.pdf') // => 'report_.pdf'
+ */
+export const sanitizeFilename = (filename: unknown): string => {
+  const basename =
+    typeof filename === 'string'
+      ? filename.normalize('NFC').split(/[\\/]/).pop() || ''
+      : '';
+
+  let sanitized = basename
+    .replace(UNSAFE_FILENAME_CHARACTERS, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+/, '')
+    .trim();
+
+  if (sanitized.length > MAX_FILENAME_LENGTH) {
+    const extension = getExtension(sanitized);
+    const suffix = extension ? `.${extension}` : '';
+    sanitized =
+      sanitized.slice(0, MAX_FILENAME_LENGTH - suffix.length).trimEnd() +
+      suffix;
+  }
+
+  if (sanitized.length === 0) {
+    throw new ValidationError('filename に有効なファイル名を指定してください');
+  }
+
+  return sanitized;
+};
+
+/**
+ * ファイル名から拡張子を取り出す
+ *
+ * @param filename - ファイル名
+ * @returns 小文字の拡張子（ドットなし）、拡張子がない場合は空文字
+ *
+ * @example
+ * getExtension('Report.PDF') // => 'pdf'
+ */
+export const getExtension = (filename: string): string => {
+  const index = filename.lastIndexOf('.');
+  return index > 0 ? filename.slice(index + 1).toLowerCase() : '';
+};
+
+export class UploadPolicyValidator {
+  /**
+   * @param policy - アップロードポリシー（デフォルト: 環境変数から読み込んだポリシー）
+   */
+  constructor(private readonly policy: UploadPolicy = loadUploadPolicy()) {}
+
+  /**
+   * アップロードの申告内容をポリシーに照らして検証する
+   *
+   * @param filename - クライアントから指定されたファイル名
+   * @param contentType - 申告されたMIMEタイプ
+   * @param size - 申告されたファイルのサイズ（バイト）
+   * @returns 整えたファイル名
+   * @throws ValidationError - サイズ・MIMEタイプ・拡張子がポリシーで許可されていない場合
+   *
+   * @example
+   * const filename = validator.validate('photo.png', 'image/png', 1024);
+   */
+  validate(filename: unknown, contentType: string, size: number): string {
+    const sanitized = sanitizeFilename(filename);
+
+    if (size > this.policy.maxSizeBytes) {
+      throw new ValidationError(
+        `size は${this.policy.maxSizeBytes}バイト以下で指定してください`
+      );
+    }
+
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+    if (!CONTENT_TYPE_PATTERN.test(mimeType)) {
+      throw new ValidationError(
+        'contentType は type/subtype の形式で指定してください'
+      );
+    }
+    if (!this.isContentTypeAllowed(mimeType)) {
+      throw new ValidationError(
+        `contentType ${mimeType} のファイルはアップロードできません（許可: ${this.policy.allowedContentTypes.join(', ')}）`
+      );
+    }
+
+    const extension = getExtension(sanitized);
+    if (
+      this.policy.allowedExtensions.length > 0 &&
+      !this.policy.allowedExtensions.includes(extension)
+    ) {
+      throw new ValidationError(
+        `拡張子が「${extension}」のファイルはアップロードできません（許可: ${this.policy.allowedExtensions.join(', ')}）`
+      );
+    }
+
+    return sanitized;
+  }
+
+  /**
+   * MIMEタイプが許可リストに含まれるかを判定する
+   *
+   * @param mimeType - 正規化したMIMEタイプ
+   * @returns 許可されている場合はtrue
+   * @private
+   */
+  private isContentTypeAllowed(mimeType: string): boolean {
+    const { allowedContentTypes } = this.policy;
+    if (allowedContentTypes.length === 0) {
+      return true;
+    }
+
+    const [type] = mimeType.split('/');
+    return allowedContentTypes.some(
+      (allowed) => allowed === mimeType || allowed === `${type}/*`
+    );
+  }
+}
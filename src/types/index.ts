@@ -24,12 +24,147 @@ export interface Task {
   createdAt: string;
   /** タスクが最後に更新された日時（ISO 8601形式、オプション） */
   updatedAt?: string;
+  /** 楽観的排他制御に使用するバージョン番号（書き込みごとに1ずつ増加、ETagとして返却） */
+  version?: number;
+  /** ゴミ箱へ移動された日時（ISO 8601形式、削除されていない場合は未設定） */
+  deletedAt?: string;
+  /** 親タスクのID（サブタスクの場合のみ） */
+  parentId?: string;
+  /** 子タスクの進捗（保存されず、タスク取得時に計算される） */
+  progress?: TaskProgress;
+  /** このタスクの着手前に完了している必要があるタスク（ブロッカー）のID */
+  blockedBy?: string[];
+  /** このタスクがブロッカーとなっているタスクのID */
+  blocks?: string[];
+  /** 期日（ISO 8601形式、UTCに正規化して保存） */
+  dueAt?: string;
+  /** 優先度 */
+  priority?: TaskPriority;
+  /** 見積もり時間（分） */
+  estimateMinutes?: number;
+  /** 期日のリマインダーを送信した日時（ISO 8601形式、期日を変更すると削除される） */
+  remindedAt?: string;
+  /** タグ（小文字に正規化され、重複なく並べ替えて保存） */
+  tags?: string[];
+}
+
+/**
+ * タスクの優先度を表す列挙型
+ */
+export enum TaskPriority {
+  /** 低 */
+  LOW = 'LOW',
+  /** 中（作成時のデフォルト） */
+  MEDIUM = 'MEDIUM',
+  /** 高 */
+  HIGH = 'HIGH',
+  /** 緊急 */
+  URGENT = 'URGENT',
+}
+
+/**
+ * 子タスクの進捗の型定義
+ */
+export interface TaskProgress {
+  /** 完了した子タスクの件数 */
+  done: number;
+  /** 子タスクの件数（中止したものを除く） */
+  total: number;
+}
+
+/**
+ * タスク作成時の入力の型定義
+ */
+export type TaskCreateInput = Pick<Task, 'title'> &
+  Partial<
+    Pick<
+      Task,
+      | 'description'
+      | 'parentId'
+      | 'dueAt'
+      | 'priority'
+      | 'estimateMinutes'
+      | 'tags'
+    >
+  >;
+
+/**
+ * タスクの書き込み操作のオプション
+ */
+export interface TaskWriteOptions {
+  /** 操作者（デフォルト: 'anonymous'） */
+  actor?: string;
+  /** クライアントが期待する現在のバージョン（If-Match） */
+  expectedVersion?: number;
+  /** 未完了の子タスクがあっても完了にする場合はtrue（更新時のみ） */
+  force?: boolean;
+  /** 子孫のタスクもまとめて削除する場合はtrue（削除時のみ） */
+  cascade?: boolean;
+  /** 送信するイベントの相関ID（省略した場合はイベントごとに新しく生成） */
+  correlationId?: string;
+}
+
+/**
+ * タスクのステータス遷移履歴の型定義
+ *
+ * ステータスが変更されるたびにタスクに追記され、GET /tasks/{id}/transitions で参照されます。
+ */
+export interface TaskTransition {
+  /** 遷移前のステータス */
+  from: TaskStatus;
+  /** 遷移後のステータス */
+  to: TaskStatus;
+  /** 遷移した日時（ISO 8601形式） */
+  at: string;
+  /** 遷移させた操作者 */
+  by: string;
+}
+
+/**
+ * 監査レコードの操作種別
+ *
+ * DELETEはゴミ箱への移動、PURGEは保持期間経過後の完全な削除を表します。
+ */
+export type TaskAuditAction =
+  'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE' | 'PURGE';
+
+/**
+ * フィールド単位の変更内容の型定義
+ */
+export interface TaskFieldChange {
+  /** 変更されたフィールド名 */
+  field: string;
+  /** 変更前の値（値がなかった場合はnull） */
+  before: any;
+  /** 変更後の値（値がなくなった場合はnull） */
+  after: any;
+}
+
+/**
+ * タスクの監査レコードの型定義
+ *
+ * タスクの作成・更新・削除・復元ごとに保存され、GET /tasks/{id}/history で参照されます。
+ */
+export interface TaskAuditRecord {
+  /** 監査レコードの一意識別子 */
+  id: string;
+  /** 対象のタスクID */
+  taskId: string;
+  /** 操作の種類 */
+  action: TaskAuditAction;
+  /** 操作者 */
+  actor: string;
+  /** 操作日時（ISO 8601形式） */
+  at: string;
+  /** 変更されたフィールドごとの変更前後の値 */
+  changes: TaskFieldChange[];
 }
 
 /**
  * タスクのステータスを表す列挙型
  *
  * タスクが取りうる状態を定義します。
+ * 実際に使用できるステータスと遷移は TaskStateMachine の遷移グラフで決まります。
  */
 export enum TaskStatus {
   /** 未着手状態 */
@@ -38,6 +173,85 @@ export enum TaskStatus {
   IN_PROGRESS = 'IN_PROGRESS',
   /** 完了状態 */
   DONE = 'DONE',
+  /** ブロック状態（他の作業待ちなど） */
+  BLOCKED = 'BLOCKED',
+  /** 中止状態 */
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * ステータス遷移グラフの型定義
+ *
+ * キーが遷移元のステータス、値が遷移可能なステータスの配列です。
+ * グラフのキーに含まれないステータスは使用できません。
+ */
+export type TaskTransitionGraph = Partial<Record<TaskStatus, TaskStatus[]>>;
+
+/**
+ * タスク一覧の並び替えに使用できるフィールド
+ */
+export type TaskSortField = 'createdAt' | 'updatedAt' | 'dueAt' | 'priority';
+
+/**
+ * 並び順（asc: 昇順、desc: 降順）
+ */
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * 複数のタグで絞り込む際の条件（all: すべてのタグを含む、any: いずれかのタグを含む）
+ */
+export type TagMatchMode = 'all' | 'any';
+
+/**
+ * タグの使用数の型定義
+ *
+ * GET /tags のレスポンスとして使用されます。
+ */
+export interface TagUsage {
+  /** タグ */
+  tag: string;
+  /** タグが付いたタスクの件数（ゴミ箱内のタスクを除く） */
+  count: number;
+}
+
+/**
+ * タスク一覧取得の検索条件
+ *
+ * GET /tasks のクエリパラメータから組み立てられ、TaskService.listTasksに渡されます。
+ */
+export interface TaskListQuery {
+  /** 1ページあたりの最大件数 */
+  limit?: number;
+  /** 前回のレスポンスで返された次ページ取得用のカーソル */
+  cursor?: string;
+  /** 絞り込むステータス */
+  status?: TaskStatus;
+  /** この日時以降に作成されたタスクに絞り込む（ISO 8601形式） */
+  createdAfter?: string;
+  /** この日時以前に作成されたタスクに絞り込む（ISO 8601形式） */
+  createdBefore?: string;
+  /** 並び替えに使用するフィールド（デフォルト: createdAt） */
+  sort?: TaskSortField;
+  /** 並び順（デフォルト: desc） */
+  order?: SortOrder;
+  /** 期日を過ぎた未完了のタスクに絞り込む場合はtrue */
+  overdue?: boolean;
+  /** 絞り込むタグ（正規化済み） */
+  tags?: string[];
+  /** 複数のタグで絞り込む際の条件（デフォルト: all） */
+  tagMode?: TagMatchMode;
+}
+
+/**
+ * ページネーション付き一覧の型定義
+ *
+ * 一覧取得APIのレスポンスとして使用されます。
+ */
+export interface PaginatedResult<T> {
+  /** 取得したアイテムの配列 */
+  items: T[];
+  /** 次ページ取得用のカーソル、次ページがない場合はnull */
+  nextCursor: string | null;
 }
 
 /**
@@ -53,12 +267,465 @@ export interface FileMetadata {
   filename: string;
   /** ファイルのMIMEタイプ */
   contentType: string;
+  /** ファイルのサイズ（バイト、アップロード完了前は申告されたサイズ） */
+  size: number;
+  /** アップロードの状態 */
+  status: FileStatus;
+  /** アップロード用のURLを発行した日時（ISO 8601形式） */
+  createdAt: string;
+  /** アップロードの完了を確認した日時（ISO 8601形式、READYの場合のみ） */
+  uploadedAt?: string;
+  /** 拒否または隔離した理由（REJECTED・QUARANTINEDの場合のみ） */
+  rejectionReason?: string;
+  /** S3のマルチパートアップロードのID（マルチパートアップロードの場合のみ） */
+  multipartUploadId?: string;
+  /** 添付先のタスクID（タスクの添付ファイルの場合のみ） */
+  taskId?: string;
+  /** ファイルの内容のSHA-256（16進数の小文字、アップロード時にクライアントが申告） */
+  sha256?: string;
+  /** S3上の実体のキー（同じ内容のファイルと共有している場合は別のファイルのキー、READYの場合のみ） */
+  objectKey?: string;
+  /** 画像のサムネイル（画像ファイルの場合のみ、バックグラウンドで作成） */
+  previews?: FilePreview[];
+  /** 先頭（PDFの場合は1ページ目）のテキストの抜粋（テキスト・PDFファイルの場合のみ） */
+  textSnippet?: string;
+  /** サムネイルまたはテキストの抜粋を作成した日時（ISO 8601形式） */
+  previewGeneratedAt?: string;
+  /** 現在の版の番号（新しい版をアップロードしたことがない場合はなし、1版目として扱う） */
+  version?: number;
+  /** すべての版（古い順、新しい版をアップロードしたことがない場合はなし） */
+  versions?: FileVersion[];
+  /** アップロード待ちの新しい版 */
+  pendingVersion?: PendingFileVersion;
+  /** ファイルの所有者（アップロードした操作者、APIを経由せずにS3へ書き込まれた場合はなし） */
+  ownerId?: string;
+  /** 所有者の使用量として計上しているバイト数（すべての版とアップロード待ちの版を含む、計上していない場合はなし） */
+  chargedBytes?: number;
+  /** ファイルへのアクセスURL */
+  url: string;
+}
+
+/**
+ * 画像ファイルのサムネイルの型定義
+ *
+ * サムネイルは previews/{fileId}/ 配下に、設定されたサイズごとに保存されます。
+ */
+export interface FilePreview {
+  /** 長辺の最大サイズ（ピクセル、FILE_PREVIEW_SIZES の値） */
+  size: number;
+  /** サムネイルの幅（ピクセル） */
+  width: number;
+  /** サムネイルの高さ（ピクセル） */
+  height: number;
+  /** サムネイルのMIMEタイプ */
+  contentType: string;
+  /** サムネイルのオブジェクトのキー */
+  key: string;
+  /** サムネイルへのアクセスURL */
+  url: string;
+}
+
+/**
+ * ファイルの版の型定義
+ *
+ * POST /files/{id}/versions で同じファイルの新しい版をアップロードするたびに追加されます。
+ * 現在の版の内容は FileMetadata の filename・contentType・size などにも反映されます。
+ */
+export interface FileVersion {
+  /** 版の番号（1から始まる連番） */
+  version: number;
+  /** ファイルの名前 */
+  filename: string;
+  /** ファイルのMIMEタイプ */
+  contentType: string;
   /** ファイルのサイズ（バイト） */
   size: number;
-  /** ファイルがアップロードされた日時（ISO 8601形式） */
+  /** ファイルの内容のSHA-256（ファイルの実体として参照カウントを管理している場合のみ） */
+  sha256?: string;
+  /** S3上の実体のキー */
+  objectKey: string;
+  /** アップロードの完了を確認した日時（ISO 8601形式） */
   uploadedAt: string;
-  /** ファイルへのアクセスURL */
+}
+
+/**
+ * アップロード待ちのファイルの新しい版の型定義
+ *
+ * 新しい版は versions/{fileId}/{version}/{filename} にアップロードされ、
+ * 申告内容と照合してから FileMetadata の versions に追加されます。
+ */
+export interface PendingFileVersion {
+  /** 版の番号 */
+  version: number;
+  /** ファイルの名前 */
+  filename: string;
+  /** ファイルのMIMEタイプ */
+  contentType: string;
+  /** 申告されたファイルのサイズ（バイト） */
+  size: number;
+  /** 申告されたファイルの内容のSHA-256 */
+  sha256: string;
+  /** アップロード先のオブジェクトのキー */
+  objectKey: string;
+  /** アップロード用のURLを発行した日時（ISO 8601形式） */
+  createdAt: string;
+}
+
+/**
+ * ファイルのアップロードの状態を表す列挙型
+ *
+ * アップロード用のURLの発行時にPENDINGとして作成され、
+ * POST /files/{id}/complete でS3上のオブジェクトを確認してREADY・REJECTED・QUARANTINEDのいずれかになります。
+ */
+export enum FileStatus {
+  /** アップロード待ち */
+  PENDING = 'PENDING',
+  /** アップロード完了（S3上のオブジェクトを確認済み） */
+  READY = 'READY',
+  /** 申告内容とS3上のオブジェクトが一致しないため拒否 */
+  REJECTED = 'REJECTED',
+  /** ファイルの内容が申告されたMIMEタイプと一致しないため隔離 */
+  QUARANTINED = 'QUARANTINED',
+}
+
+/**
+ * ファイルの実体（S3上のオブジェクト）の型定義
+ *
+ * 同じ内容（SHA-256）のファイルは1つのオブジェクトを共有し、
+ * 参照しているファイルの数（refCount）が0になった時点でオブジェクトを削除します。
+ */
+export interface FileBlob {
+  /** 内容のSHA-256（16進数の小文字） */
+  sha256: string;
+  /** S3上のオブジェクトのキー */
+  objectKey: string;
+  /** オブジェクトのサイズ（バイト） */
+  size: number;
+  /** このオブジェクトを参照しているファイルの数 */
+  refCount: number;
+  /** 最初に登録された日時（ISO 8601形式） */
+  createdAt: string;
+}
+
+/**
+ * ファイルの共有リンクの型定義
+ *
+ * GET /s/{token} で認証なしにファイルをダウンロードできるリンクを表します。
+ * パスワードのハッシュはレスポンスに含めません。
+ */
+export interface FileShare {
+  /** 共有リンクのトークン（URLに含める推測できない文字列） */
+  token: string;
+  /** 共有するファイルのID */
+  fileId: string;
+  /** 有効期限（ISO 8601形式） */
+  expiresAt: string;
+  /** ダウンロードできる最大回数（未設定の場合は無制限） */
+  maxDownloads?: number;
+  /** ダウンロードされた回数 */
+  downloadCount: number;
+  /** ダウンロードにパスワードが必要かどうか */
+  passwordProtected: boolean;
+  /** 作成日時（ISO 8601形式） */
+  createdAt: string;
+  /** 無効化した日時（ISO 8601形式、無効化した場合のみ） */
+  revokedAt?: string;
+}
+
+/**
+ * 共有リンクの作成時の入力の型定義
+ */
+export interface FileShareInput {
+  /** 作成から有効期限までの秒数 */
+  expiresInSeconds?: number;
+  /** ダウンロードできる最大回数 */
+  maxDownloads?: number;
+  /** ダウンロードに必要なパスワード */
+  password?: string;
+}
+
+/**
+ * ZIPアーカイブ作成ジョブのステータスを表す列挙型
+ */
+export enum ArchiveJobStatus {
+  /** 作成を待っている */
+  PENDING = 'PENDING',
+  /** 作成中 */
+  PROCESSING = 'PROCESSING',
+  /** 作成済み（ダウンロード可能） */
+  COMPLETED = 'COMPLETED',
+  /** 作成に失敗した */
+  FAILED = 'FAILED',
+}
+
+/**
+ * 複数のファイルをまとめたZIPアーカイブの作成ジョブの型定義
+ *
+ * POST /files/archive で作成され、非同期に作成されたアーカイブは
+ * FILES_BUCKETの archives/ 配下に保存されます。期限を過ぎたジョブとアーカイブは削除されます。
+ */
+export interface ArchiveJob {
+  /** ジョブの一意識別子 */
+  id: string;
+  /** ジョブのステータス */
+  status: ArchiveJobStatus;
+  /** アーカイブに含めるファイルのID */
+  fileIds: string[];
+  /** 添付ファイルをまとめる対象のタスクID（タスクを指定して作成した場合のみ） */
+  taskId?: string;
+  /** アーカイブのオブジェクトのキー（COMPLETEDの場合のみ） */
+  objectKey?: string;
+  /** アーカイブのサイズ（バイト、COMPLETEDの場合のみ） */
+  size?: number;
+  /** アーカイブに含めたファイルの数（COMPLETEDの場合のみ） */
+  fileCount?: number;
+  /** 作成までに削除されたなどの理由でアーカイブに含めなかったファイルのID */
+  skippedFileIds?: string[];
+  /** 失敗した理由（FAILEDの場合のみ） */
+  errorMessage?: string;
+  /** 作成日時（ISO 8601形式） */
+  createdAt: string;
+  /** 更新日時（ISO 8601形式） */
+  updatedAt: string;
+  /** アーカイブの作成が完了した日時（ISO 8601形式、COMPLETEDの場合のみ） */
+  completedAt?: string;
+  /** ジョブとアーカイブの有効期限（ISO 8601形式） */
+  expiresAt: string;
+}
+
+/**
+ * ファイルとS3上のオブジェクトの整合性チェックの実行モードを表す列挙型
+ */
+export enum ReconciliationMode {
+  /** 不整合を報告するのみ（何も変更しない） */
+  DRY_RUN = 'dry-run',
+  /** 不整合を報告し、修復する */
+  REPAIR = 'repair',
+}
+
+/**
+ * ファイルとS3上のオブジェクトの整合性チェックの結果の型定義
+ *
+ * JSONとしてそのまま出力・保存できるように、日時はISO 8601形式の文字列で表します。
+ * 修復モードの場合のみ、不整合ごとに修復したかどうか（repaired）を記録します。
+ * 複数の版があるファイルの不整合には版の番号（version）を含めます。
+ */
+export interface FileReconciliationReport {
+  /** 実行モード */
+  mode: ReconciliationMode;
+  /** 開始日時（ISO 8601形式） */
+  startedAt: string;
+  /** 終了日時（ISO 8601形式） */
+  finishedAt: string;
+  /** 確認したS3上のオブジェクトの数 */
+  scannedObjects: number;
+  /** 確認したファイルメタデータの数 */
+  scannedFiles: number;
+  /** メタデータから参照されていないオブジェクト（修復時はオブジェクトを削除） */
+  orphanObjects: {
+    key: string;
+    size: number;
+    lastModified: string;
+    repaired?: boolean;
+  }[];
+  /** オブジェクトが存在しないメタデータ（修復時はメタデータを削除） */
+  missingObjects: {
+    fileId: string;
+    version?: number;
+    filename: string;
+    status: FileStatus;
+    key: string;
+    repaired?: boolean;
+  }[];
+  /** サイズがオブジェクトと一致しないメタデータ（修復時はオブジェクトのサイズに合わせる） */
+  sizeMismatches: {
+    fileId: string;
+    version?: number;
+    key: string;
+    expectedSize: number;
+    actualSize: number;
+    repaired?: boolean;
+  }[];
+  /** ファイルメタデータの合計と一致しない所有者ごとの使用量（修復時はファイルメタデータの合計に合わせる） */
+  usageMismatches: {
+    ownerId: string;
+    recordedBytes: number;
+    actualBytes: number;
+    recordedFileCount: number;
+    actualFileCount: number;
+    repaired?: boolean;
+  }[];
+}
+
+/**
+ * 所有者ごとのストレージの使用量の型定義
+ *
+ * GET /usage で返します。使用量はアップロード用のURLの発行時に申告されたサイズで計上し、
+ * アップロードの拒否・期限切れ・中止やファイルの削除時に差し引きます。
+ * 同じ内容のファイルとオブジェクトを共有している場合も、ファイルごとのサイズを計上します。
+ */
+export interface StorageUsage {
+  /** 所有者の識別子 */
+  ownerId: string;
+  /** 適用しているプラン */
+  plan: string;
+  /** プランの容量の上限（バイト） */
+  quotaBytes: number;
+  /** 使用量（バイト） */
+  bytesUsed: number;
+  /** 使用量として計上しているファイルの数 */
+  fileCount: number;
+  /** 残りの容量（バイト、上限を超えている場合は0） */
+  remainingBytes: number;
+}
+
+/**
+ * ストレージの使用量を計上する所有者の型定義
+ */
+export interface StorageOwner {
+  /** 所有者の識別子（getActorで取得した操作者） */
+  ownerId: string;
+  /** 所有者のプラン（省略時は前回計上したときのプラン、またはデフォルトのプラン） */
+  plan?: string;
+}
+
+/**
+ * ファイル一覧取得のクエリパラメータの型定義
+ */
+export interface FileListQuery {
+  /** 1ページあたりの最大件数 */
+  limit?: number;
+  /** 前回のレスポンスで返された次ページ取得用のカーソル */
+  cursor?: string;
+  /** 絞り込むMIMEタイプ（'image/*' のようにサブタイプをワイルドカードで指定可能） */
+  contentType?: string;
+  /** ファイル名の前方一致で絞り込む文字列 */
+  filenamePrefix?: string;
+  /** この日時以降にアップロードが完了したファイルに絞り込む（ISO 8601形式） */
+  uploadedAfter?: string;
+  /** この日時以前にアップロードが完了したファイルに絞り込む（ISO 8601形式） */
+  uploadedBefore?: string;
+  /** 最小サイズ（バイト） */
+  minSize?: number;
+  /** 最大サイズ（バイト） */
+  maxSize?: number;
+}
+
+/**
+ * タスクを削除する際の添付ファイルの扱いを表す列挙型
+ *
+ * ゴミ箱へ移動したタスクは復元できるため、CASCADE・KEEPはタスクの完全削除時に適用されます。
+ */
+export enum AttachmentDeletePolicy {
+  /** タスクの完全削除時に添付ファイルも削除する */
+  CASCADE = 'CASCADE',
+  /** タスクの完全削除時に添付ファイルをタスクから切り離して残す */
+  KEEP = 'KEEP',
+  /** 添付ファイルがあるタスクの削除を拒否する */
+  BLOCK = 'BLOCK',
+}
+
+/**
+ * アップロードポリシーの型定義
+ *
+ * アップロードできるファイルのサイズ・MIMEタイプ・拡張子を制限します。
+ * 許可リストが空の場合は制限しません。
+ */
+export interface UploadPolicy {
+  /** アップロードできるファイルの最大サイズ（バイト） */
+  maxSizeBytes: number;
+  /** 許可するMIMEタイプ（'image/*' のようにサブタイプをワイルドカードで指定可能） */
+  allowedContentTypes: string[];
+  /** 許可する拡張子（小文字、ドットなし） */
+  allowedExtensions: string[];
+}
+
+/**
+ * アップロード用の署名付きPOSTの型定義
+ *
+ * クライアントはfieldsのすべての項目とファイル（file）を
+ * multipart/form-data 形式でurlにPOSTしてアップロードします。
+ */
+export interface PresignedUpload {
+  /** アップロード先のURL */
+  url: string;
+  /** フォームに含める項目（キー、Content-Type、署名など） */
+  fields: { [key: string]: string };
+}
+
+/**
+ * S3上のオブジェクトを申告内容と照合した結果の型定義
+ */
+export interface ObjectVerification {
+  /** オブジェクトのサイズ（バイト） */
+  size: number;
+  /** S3がアップロード時に検証した（マルチパートアップロードの場合は計算した）内容のSHA-256（サイズ・MIMEタイプが一致し、SHA-256が申告された場合のみ） */
+  sha256?: string;
+  /** 申告内容と一致しない理由（一致する場合はなし） */
+  rejectionReason?: string;
+  /** ファイルの内容が申告されたMIMEタイプと矛盾する場合はtrue（隔離の対象） */
+  contentMismatch?: boolean;
+}
+
+/**
+ * マルチパートアップロードの開始結果の型定義
+ *
+ * POST /files/multipart のレスポンスとして使用されます。
+ * クライアントはファイルをpartSizeごとに分割し、1から始まるパート番号でアップロードします。
+ */
+export interface MultipartUploadSession {
+  /** ファイルの一意識別子 */
+  fileId: string;
+  /** アップロードポリシーに従って整えたファイル名 */
+  filename: string;
+  /** S3のマルチパートアップロードのID */
+  uploadId: string;
+  /** 1パートあたりのサイズ（バイト、最後のパートのみこれより小さい） */
+  partSize: number;
+  /** パートの数 */
+  partCount: number;
+}
+
+/**
+ * パートのアップロード用URLの型定義
+ */
+export interface PartUploadUrl {
+  /** パート番号 */
+  partNumber: number;
+  /** パートをPUTでアップロードするための署名付きURL */
   url: string;
+  /** PUTに付けるヘッダー（パートの内容のSHA-256のチェックサム） */
+  headers: { [key: string]: string };
+}
+
+/**
+ * パートのアップロード用URLの発行を要求するパートの型定義
+ *
+ * POST /files/{id}/multipart/part-urls のリクエストで使用されます。
+ */
+export interface PartChecksum {
+  /** パート番号 */
+  partNumber: number;
+  /** パートの内容のSHA-256（16進数64桁、アップロード時にS3が照合します） */
+  sha256: string;
+}
+
+/**
+ * アップロード済みのパートの型定義
+ *
+ * 接続が切れた後にアップロードを再開する際、アップロードが必要なパートの判定に使用されます。
+ */
+export interface UploadedPart {
+  /** パート番号 */
+  partNumber: number;
+  /** パートのサイズ（バイト） */
+  size: number;
+  /** パートのETag */
+  etag: string;
+  /** S3がアップロード時に検証したパートの内容のSHA-256 */
+  sha256?: string;
+  /** パートがアップロードされた日時（ISO 8601形式） */
+  lastModified: string;
 }
 
 /**
@@ -79,16 +746,63 @@ export interface ApiResponse<T> {
 }
 
 /**
- * SQSメッセージの型定義
+ * タスクイベントの種類
  *
- * タスク操作に関するイベントをSQSに送信する際のメッセージ形式を定義します。
- * イベント駆動型アーキテクチャにおける非同期通信に使用されます。
+ * UNBLOCKED: すべてのブロッカーが完了した、REMINDER: 期日が近づいた
  */
-export interface TaskMessage {
+export type TaskEventType =
+  'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE' | 'UNBLOCKED' | 'REMINDER';
+
+/**
+ * タスクイベントのペイロードの型定義
+ */
+export interface TaskEventPayload {
   /** イベントに関連するタスクのID */
   taskId: string;
-  /** イベントのアクション種別 */
-  action: 'CREATE' | 'UPDATE' | 'DELETE';
+  /** イベント発生時点のタスク（完全に削除された場合は削除直前のタスク） */
+  task: Task;
+  /** 変更されたフィールドごとの変更前後の値（監査レコードと同じ形式。変更を伴わないイベントでは空の配列） */
+  changes: TaskFieldChange[];
+  /** 削除方式（DELETEイベントのみ。SOFT: ゴミ箱へ移動、HARD: 完全に削除） */
+  deleteMode?: 'SOFT' | 'HARD';
+  /** ステータスの変更前後（ステータスが変更されたUPDATEイベントのみ） */
+  statusChange?: { from: TaskStatus; to: TaskStatus };
+  /** ブロックを解除したブロッカーのタスクID（UNBLOCKEDイベントのみ） */
+  unblockedBy?: string;
+  /** リマインダーの対象とした期日（REMINDERイベントのみ） */
+  dueAt?: string;
+}
+
+/**
+ * SQSメッセージ（タスクイベントのエンベロープ）の型定義
+ *
+ * タスク操作に関するイベントをSQSに送信する際のメッセージ形式を定義します。
+ * 形式を変更する場合はschemaVersionを上げ、処理関数が対応していないバージョンのメッセージは
+ * デッドレターキューに送られます。
+ */
+export interface TaskEvent {
+  /** イベントの一意識別子 */
+  eventId: string;
+  /** イベントの種類 */
+  eventType: TaskEventType;
+  /** メッセージ形式のバージョン */
+  schemaVersion: number;
   /** イベントが発生した日時（ISO 8601形式） */
-  timestamp: string;
+  occurredAt: string;
+  /** イベントを発生させた操作者（定期実行ジョブなどの場合は 'system'） */
+  actor: string;
+  /** 同じリクエストや定期実行から発生した一連のイベントを関連付ける識別子 */
+  correlationId: string;
+  /** イベントの内容 */
+  payload: TaskEventPayload;
+}
+
+/**
+ * タスクイベントを発生させた操作の情報
+ */
+export interface TaskEventContext {
+  /** 操作者 */
+  actor: string;
+  /** 相関ID（省略した場合はイベントごとに新しく生成） */
+  correlationId?: string;
 }
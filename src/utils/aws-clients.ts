@@ -115,7 +115,7 @@ export const sqs = new AWS.SQS(getAwsConfig(false, true));
 
 /**
  * Lambdaクライアントインスタンス
- * Lambda関数の呼び出しに使用します（サンプルでは未使用）
+ * Lambda関数の呼び出しに使用します（ZIPアーカイブの非同期作成など）
  */
 export const lambda = new AWS.Lambda(getAwsConfig());
 
@@ -147,6 +147,7 @@ export const FILES_BUCKET = (() => {
  * タスクキューURL
  * 環境変数から取得するか、デフォルト値を使用します
  * キューURLは完全なURLの形式で返します（SQSのsendMessageなどで必要）
+ * 同じタスクのイベントを順に処理するため、タスクキューはFIFOキュー（名前が .fifo で終わる）です
  */
 export const TASKS_QUEUE = (() => {
   // 明示的に環境変数でキューURLが指定されている場合は最優先
@@ -163,7 +164,7 @@ export const TASKS_QUEUE = (() => {
     const awsAccountId = process.env.MY_AWS_ACCOUNT_ID || accountId;
     // MY_AWS_REGIONを使用（予約語を避けた環境変数）
     const awsRegion = process.env.MY_AWS_REGION || region;
-    const queueName = process.env.TASKS_QUEUE || `tasks-queue-${stage}`;
+    const queueName = process.env.TASKS_QUEUE || `tasks-queue-${stage}.fifo`;
     const url = `https://sqs.${awsRegion}.amazonaws.com/${awsAccountId}/${queueName}`;
     console.log(`AWS SQSキューURL生成（本番環境）: ${url}`);
     return url;
@@ -172,14 +173,14 @@ export const TASKS_QUEUE = (() => {
   // Lambda環境でAWSにデプロイされている場合（本番/ステージング）
   if (isLambda && !isLocalStack) {
     // プロダクション環境では標準AWSキューURLを使用
-    const queueName = process.env.TASKS_QUEUE || `tasks-queue-${stage}`;
+    const queueName = process.env.TASKS_QUEUE || `tasks-queue-${stage}.fifo`;
     const url = `https://sqs.${region}.amazonaws.com/${accountId}/${queueName}`;
     console.log(`AWS SQSキューURL生成: ${url}`);
     return url;
   }
 
   // LocalStack環境または開発環境
-  const queueName = process.env.TASKS_QUEUE || `tasks-queue-${stage}`;
+  const queueName = process.env.TASKS_QUEUE || `tasks-queue-${stage}.fifo`;
   const host =
     isLocalStack && process.env.LOCALSTACK_HOSTNAME
       ? process.env.LOCALSTACK_HOSTNAME
@@ -190,6 +191,15 @@ export const TASKS_QUEUE = (() => {
   return url;
 })();
 
+/**
+ * タスクキューのデッドレターキューURL
+ * 環境変数 TASKS_DEAD_LETTER_QUEUE_URL から取得するか、タスクキューのURLの .fifo の前に -dlq を付けたURLを使用します
+ * 処理できないメッセージ（対応していない形式のバージョンなど）の送信先です
+ */
+export const TASKS_DEAD_LETTER_QUEUE =
+  process.env.TASKS_DEAD_LETTER_QUEUE_URL ||
+  TASKS_QUEUE.replace(/(\.fifo)?$/, '-dlq$1');
+
 /**
  * S3の署名付きURLを生成する関数
  *
@@ -207,3 +217,18 @@ export const getSignedUrl = (
 ): string => {
   return s3.getSignedUrl(operation, params);
 };
+
+/**
+ * S3へのアップロード用の署名付きPOSTを生成する関数
+ *
+ * 署名付きURLによるPUTと異なり、ポリシーの条件（content-length-rangeなど）で
+ * アップロードできるファイルのサイズやContent-TypeをS3側で制限できます。
+ *
+ * @param params - バケット、フォームの項目、ポリシーの条件、有効期間
+ * @returns アップロード先のURLとフォームに含める項目
+ */
+export const createPresignedPost = (
+  params: AWS.S3.PresignedPost.Params
+): AWS.S3.PresignedPost => {
+  return s3.createPresignedPost(params);
+};
@@ -0,0 +1,65 @@
+import { matchesDeclaredType, sniffContentType } from './content-sniffer';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+const EXECUTABLE = Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0x03, 0x00]);
+
+describe('sniffContentType', () => {
+  it.each([
+    ['PNG', PNG, 'image/png'],
+    ['JPEG', JPEG, 'image/jpeg'],
+    ['GIF', Buffer.from('GIF89a\x01\x00'), 'image/gif'],
+    ['PDF', Buffer.from('%PDF-1.7'), 'application/pdf'],
+    ['ZIP', Buffer.from([0x50, 0x4b, 0x03, 0x04]), 'application/zip'],
+    ['テキスト', Buffer.from('name,count\n猫,3\n'), 'text/plain'],
+  ])('%s を判定する', (_, bytes, contentType) => {
+    expect(sniffContentType(bytes)).toBe(contentType);
+  });
+
+  it('制御文字を含む判定できない内容や空の内容はnullを返す', () => {
+    expect(sniffContentType(EXECUTABLE)).toBeNull();
+    expect(sniffContentType(Buffer.alloc(0))).toBeNull();
+  });
+});
+
+describe('matchesDeclaredType', () => {
+  it('内容と一致するMIMEタイプの申告を許可する', () => {
+    expect(matchesDeclaredType('image/png', PNG)).toBe(true);
+    expect(matchesDeclaredType('image/pjpeg', JPEG)).toBe(true);
+    expect(
+      matchesDeclaredType(
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        Buffer.from([0x50, 0x4b, 0x03, 0x04])
+      )
+    ).toBe(true);
+  });
+
+  it('内容と矛盾するMIMEタイプの申告を拒否する', () => {
+    expect(matchesDeclaredType('image/png', JPEG)).toBe(false);
+    expect(matchesDeclaredType('application/pdf', PNG)).toBe(false);
+    expect(matchesDeclaredType('text/plain', PNG)).toBe(false);
+  });
+
+  it('テキストの内容はテキストとして扱えるMIMEタイプの申告のみを許可する', () => {
+    const text = Buffer.from('{"name":"猫"}');
+
+    expect(matchesDeclaredType('application/json', text)).toBe(true);
+    expect(matchesDeclaredType('text/csv', text)).toBe(true);
+    expect(matchesDeclaredType('image/png', text)).toBe(false);
+  });
+
+  it('判定できない内容は、判定できるはずの形式の申告のみを拒否する', () => {
+    expect(matchesDeclaredType('image/png', EXECUTABLE)).toBe(false);
+    expect(matchesDeclaredType('text/plain', EXECUTABLE)).toBe(false);
+    expect(matchesDeclaredType('application/x-msdownload', EXECUTABLE)).toBe(
+      true
+    );
+  });
+
+  it('application/octet-stream の申告は内容に関わらず許可する', () => {
+    expect(matchesDeclaredType('application/octet-stream', PNG)).toBe(true);
+    expect(matchesDeclaredType('application/octet-stream', EXECUTABLE)).toBe(
+      true
+    );
+  });
+});
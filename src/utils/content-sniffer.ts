@@ -0,0 +1,215 @@
+/**
+ * ファイル内容の判定ユーティリティファイル
+ *
+ * ファイルの先頭のバイト列（マジックナンバー）から実際のファイル形式を判定し、
+ * 申告されたMIMEタイプと矛盾しないかを確認する関数を定義します。
+ * 拡張子やContent-Typeを偽装したファイルの検出に使用されます。
+ */
+
+/** 判定に使用する先頭のバイト数 */
+export const SNIFF_BYTES = 512;
+
+/**
+ * 判定した形式ごとのシグネチャと、その形式として矛盾しないMIMEタイプ
+ *
+ * compatibleTypes には 'application/vnd.oasis.opendocument.*' のように
+ * 末尾のワイルドカードで前方一致を指定できます。
+ */
+const SIGNATURES: {
+  contentType: string;
+  compatibleTypes: string[];
+  matches: (bytes: Buffer) => boolean;
+}[] = [
+  {
+    contentType: 'image/png',
+    compatibleTypes: ['image/png', 'image/apng'],
+    matches: (bytes) =>
+      startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  },
+  {
+    contentType: 'image/jpeg',
+    compatibleTypes: ['image/jpeg', 'image/pjpeg'],
+    matches: (bytes) => startsWith(bytes, [0xff, 0xd8, 0xff]),
+  },
+  {
+    contentType: 'image/gif',
+    compatibleTypes: ['image/gif'],
+    matches: (bytes) =>
+      startsWithText(bytes, 'GIF87a') || startsWithText(bytes, 'GIF89a'),
+  },
+  {
+    contentType: 'image/webp',
+    compatibleTypes: ['image/webp'],
+    matches: (bytes) =>
+      startsWithText(bytes, 'RIFF') && startsWithText(bytes, 'WEBP', 8),
+  },
+  {
+    contentType: 'application/pdf',
+    compatibleTypes: ['application/pdf'],
+    matches: (bytes) => startsWithText(bytes, '%PDF-'),
+  },
+  {
+    contentType: 'application/zip',
+    compatibleTypes: [
+      'application/zip',
+      'application/x-zip-compressed',
+      'application/epub+zip',
+      'application/java-archive',
+      'application/vnd.openxmlformats-officedocument.*',
+      'application/vnd.oasis.opendocument.*',
+    ],
+    matches: (bytes) =>
+      startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]) ||
+      startsWith(bytes, [0x50, 0x4b, 0x05, 0x06]),
+  },
+  {
+    contentType: 'application/gzip',
+    compatibleTypes: ['application/gzip', 'application/x-gzip'],
+    matches: (bytes) => startsWith(bytes, [0x1f, 0x8b]),
+  },
+  {
+    contentType: 'video/mp4',
+    compatibleTypes: [
+      'video/mp4',
+      'video/quicktime',
+      'video/3gpp',
+      'audio/mp4',
+      'audio/x-m4a',
+      'image/heic',
+      'image/heif',
+    ],
+    matches: (bytes) => startsWithText(bytes, 'ftyp', 4),
+  },
+  {
+    contentType: 'audio/mpeg',
+    compatibleTypes: ['audio/mpeg', 'audio/mp3'],
+    matches: (bytes) =>
+      startsWithText(bytes, 'ID3') ||
+      (bytes.length >= 2 && bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0),
+  },
+];
+
+/**
+ * テキストとして判定したファイルと矛盾しないMIMEタイプ
+ */
+const TEXT_COMPATIBLE_TYPES = [
+  'text/*',
+  'application/json',
+  'application/xml',
+  'application/javascript',
+  'application/x-yaml',
+  'application/yaml',
+  'application/x-ndjson',
+  'image/svg+xml',
+];
+
+/**
+ * 内容に関わらず矛盾しないとみなすMIMEタイプ（形式を特定しない汎用のバイナリ）
+ */
+const GENERIC_CONTENT_TYPE = 'application/octet-stream';
+
+/**
+ * 先頭のバイト列からファイルの形式を判定する
+ *
+ * シグネチャに一致しない場合、NUL文字などの制御文字を含まなければテキストと判定します。
+ *
+ * @param bytes - ファイルの先頭のバイト列（SNIFF_BYTES バイト程度）
+ * @returns 判定したMIMEタイプ、判定できない場合はnull
+ *
+ * @example
+ * sniffContentType(Buffer.from('%PDF-1.7')) // => 'application/pdf'
+ */
+export const sniffContentType = (bytes: Buffer): string | null => {
+  const signature = SIGNATURES.find(({ matches }) => matches(bytes));
+  if (signature) {
+    return signature.contentType;
+  }
+
+  return isText(bytes) ? 'text/plain' : null;
+};
+
+/**
+ * 申告されたMIMEタイプがファイルの内容と矛盾しないかを判定する
+ *
+ * - application/octet-stream の申告は常に矛盾しないとみなします
+ * - 内容から形式を判定できた場合は、その形式として矛盾しないMIMEタイプのみを許可します
+ * - 判定できない場合は、判定できる形式（画像、PDF、テキストなど）の申告を矛盾とみなします
+ *
+ * @param declaredType - 申告されたMIMEタイプ（パラメータを除いた小文字のもの）
+ * @param bytes - ファイルの先頭のバイト列
+ * @returns 矛盾しない場合はtrue
+ *
+ * @example
+ * matchesDeclaredType('image/png', Buffer.from('MZ...')) // => false
+ */
+export const matchesDeclaredType = (
+  declaredType: string,
+  bytes: Buffer
+): boolean => {
+  if (declaredType === GENERIC_CONTENT_TYPE) {
+    return true;
+  }
+
+  const sniffedType = sniffContentType(bytes);
+  if (sniffedType === 'text/plain') {
+    return matchesAny(declaredType, TEXT_COMPATIBLE_TYPES);
+  }
+
+  const signature = SIGNATURES.find(
+    ({ contentType }) => contentType === sniffedType
+  );
+  if (signature) {
+    return matchesAny(declaredType, signature.compatibleTypes);
+  }
+
+  // 形式を判定できない場合、判定できるはずの形式を申告していれば矛盾とみなす
+  return !matchesAny(declaredType, [
+    ...TEXT_COMPATIBLE_TYPES,
+    ...SIGNATURES.flatMap(({ compatibleTypes }) => compatibleTypes),
+  ]);
+};
+
+/**
+ * MIMEタイプがパターンのいずれかに一致するかを判定する
+ *
+ * @param contentType - 判定するMIMEタイプ
+ * @param patterns - MIMEタイプのパターン（末尾の「*」で前方一致）
+ * @returns いずれかに一致する場合はtrue
+ */
+const matchesAny = (contentType: string, patterns: string[]): boolean =>
+  patterns.some((pattern) =>
+    pattern.endsWith('*')
+      ? contentType.startsWith(pattern.slice(0, -1))
+      : contentType === pattern
+  );
+
+/**
+ * バイト列が指定したバイトで始まるかを判定する
+ */
+const startsWith = (bytes: Buffer, prefix: number[], offset = 0): boolean =>
+  bytes.length >= offset + prefix.length &&
+  prefix.every((byte, index) => bytes[offset + index] === byte);
+
+/**
+ * バイト列が指定した位置から指定したASCII文字列を含むかを判定する
+ */
+const startsWithText = (bytes: Buffer, text: string, offset = 0): boolean =>
+  startsWith(bytes, [...Buffer.from(text, 'ascii')], offset);
+
+/**
+ * バイト列がテキストとみなせるかを判定する
+ *
+ * タブ・改行・改ページ・ESC以外の制御文字（NULなど）を含む場合はバイナリとみなします。
+ * UTF-8のBOMは無視し、マルチバイト文字の途中で切れていても判定には影響しません。
+ */
+const isText = (bytes: Buffer): boolean =>
+  bytes.length > 0 &&
+  bytes.every(
+    (byte) =>
+      byte >= 0x20 ||
+      byte === 0x09 ||
+      byte === 0x0a ||
+      byte === 0x0c ||
+      byte === 0x0d ||
+      byte === 0x1b
+  );
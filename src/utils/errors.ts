@@ -0,0 +1,108 @@
+/**
+ * アプリケーションエラー定義ファイル
+ *
+ * サービスレイヤーからハンドラーへ、HTTPステータスコードを伴うエラーを伝えるための
+ * エラークラスを定義します。ハンドラーはこれらのエラーを捕捉し、
+ * errorResponseを使用して適切なステータスコードのレスポンスに変換します。
+ */
+
+/**
+ * アプリケーションエラーの基底クラス
+ *
+ * HTTPステータスコードを保持し、ハンドラーでのレスポンス変換に使用されます。
+ */
+export class AppError extends Error {
+  /**
+   * @param message - エラーメッセージ
+   * @param statusCode - レスポンスとして返すHTTPステータスコード
+   * @param details - レスポンスボディに含める追加情報（オプション）
+   */
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly details?: { [key: string]: any }
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * 入力値が不正な場合のエラー（400 Bad Request）
+ */
+export class ValidationError extends AppError {
+  constructor(message: string) {
+    super(message, 400);
+  }
+}
+
+/**
+ * 認証情報（パスワードなど）がない、または正しくない場合のエラー（401 Unauthorized）
+ */
+export class UnauthorizedError extends AppError {
+  constructor(message: string) {
+    super(message, 401);
+  }
+}
+
+/**
+ * ストレージの容量の上限を超えるため操作を許可できない場合のエラー（403 Forbidden）
+ */
+export class QuotaExceededError extends AppError {
+  constructor(message: string, details?: { [key: string]: any }) {
+    super(message, 403, details);
+  }
+}
+
+/**
+ * リソースの現在の状態と矛盾する操作の場合のエラー（409 Conflict）
+ */
+export class ConflictError extends AppError {
+  constructor(message: string, details?: { [key: string]: any }) {
+    super(message, 409, details);
+  }
+}
+
+/**
+ * リソースが期限切れや無効化により利用できなくなった場合のエラー（410 Gone）
+ */
+export class GoneError extends AppError {
+  constructor(message: string, details?: { [key: string]: any }) {
+    super(message, 410, details);
+  }
+}
+
+/**
+ * 条件付きリクエストの前提条件を満たさない場合のエラー（412 Precondition Failed）
+ */
+export class PreconditionFailedError extends AppError {
+  constructor(message: string, details?: { [key: string]: any }) {
+    super(message, 412, details);
+  }
+}
+
+/**
+ * アップロードされた内容が申告内容と一致しないなど、処理できない場合のエラー（422 Unprocessable Entity）
+ */
+export class UnprocessableEntityError extends AppError {
+  constructor(message: string, details?: { [key: string]: any }) {
+    super(message, 422, details);
+  }
+}
+
+/**
+ * DynamoDBの条件付き書き込みが条件を満たさずに失敗したかを判定する
+ *
+ * トランザクション内の条件を満たさずにキャンセルされた場合も含みます。
+ *
+ * @param error - 捕捉したエラー
+ * @returns ConditionalCheckFailedException、または条件不成立によるTransactionCanceledExceptionの場合はtrue
+ */
+export function isConditionalCheckFailed(error: unknown): boolean {
+  const { code, message } = error as { code?: string; message?: string };
+  return (
+    code === 'ConditionalCheckFailedException' ||
+    (code === 'TransactionCanceledException' &&
+      (message || '').includes('ConditionalCheckFailed'))
+  );
+}
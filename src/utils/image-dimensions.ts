@@ -0,0 +1,159 @@
+/**
+ * 画像のサイズの読み取りユーティリティファイル
+ *
+ * 画像を展開せずに、ファイルのヘッダーから幅と高さ（ピクセル）を読み取る関数を定義します。
+ * 展開するとメモリを使い果たすような巨大な画像を、展開する前に除外するために使用されます。
+ */
+
+/**
+ * 画像の幅と高さ（ピクセル）
+ */
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+/**
+ * 画像のヘッダーから幅と高さを読み取る
+ *
+ * PNG・JPEG・GIF・BMP・TIFFに対応します。
+ * JPEGはフレームのヘッダー（SOF）がEXIFなどの後ろにあるため、ファイル全体を渡してください。
+ *
+ * @param bytes - 画像ファイルのバイト列
+ * @returns 幅と高さ、形式に対応していない場合やヘッダーが壊れている場合はnull
+ *
+ * @example
+ * readImageDimensions(pngBuffer) // => { width: 1920, height: 1080 }
+ */
+export const readImageDimensions = (bytes: Buffer): ImageDimensions | null => {
+  try {
+    if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+      // IHDRチャンクの幅と高さ（ビッグエンディアン）
+      return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+    }
+    if (startsWith(bytes, [0xff, 0xd8])) {
+      return readJpegDimensions(bytes);
+    }
+    if (startsWith(bytes, [0x47, 0x49, 0x46, 0x38])) {
+      // 論理画面の幅と高さ（リトルエンディアン）
+      return { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) };
+    }
+    if (startsWith(bytes, [0x42, 0x4d])) {
+      return readBmpDimensions(bytes);
+    }
+    if (
+      startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) ||
+      startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])
+    ) {
+      return readTiffDimensions(bytes);
+    }
+  } catch (error) {
+    // ヘッダーの途中でファイルが終わっている場合（RangeError）
+    if (error instanceof RangeError) {
+      return null;
+    }
+    throw error;
+  }
+
+  return null;
+};
+
+/**
+ * JPEGのフレームのヘッダー（SOF）から幅と高さを読み取る
+ */
+const readJpegDimensions = (bytes: Buffer): ImageDimensions | null => {
+  let offset = 2;
+  while (offset < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return null;
+    }
+    const marker = bytes[offset + 1];
+    // マーカーの前の埋め草（0xFF）
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // 長さを持たないマーカー（TEM、RST0〜7）
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    // SOF0〜15（DHT・JPG・DACを除く）
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      return {
+        width: bytes.readUInt16BE(offset + 7),
+        height: bytes.readUInt16BE(offset + 5),
+      };
+    }
+    // 画像データ（SOS）または終端（EOI）までにSOFがない
+    if (marker === 0xda || marker === 0xd9) {
+      return null;
+    }
+    offset += 2 + bytes.readUInt16BE(offset + 2);
+  }
+
+  return null;
+};
+
+/**
+ * BMPの情報ヘッダーから幅と高さを読み取る
+ */
+const readBmpDimensions = (bytes: Buffer): ImageDimensions => {
+  // OS/2形式（BITMAPCOREHEADER）は16ビット、それ以外は32ビット（高さは負の場合に上下反転）
+  if (bytes.readUInt32LE(14) === 12) {
+    return { width: bytes.readUInt16LE(18), height: bytes.readUInt16LE(20) };
+  }
+  return {
+    width: Math.abs(bytes.readInt32LE(18)),
+    height: Math.abs(bytes.readInt32LE(22)),
+  };
+};
+
+/**
+ * TIFFの最初の画像ファイルディレクトリ（IFD）から幅と高さを読み取る
+ */
+const readTiffDimensions = (bytes: Buffer): ImageDimensions | null => {
+  const littleEndian = bytes[0] === 0x49;
+  const readUInt16 = (offset: number) =>
+    littleEndian ? bytes.readUInt16LE(offset) : bytes.readUInt16BE(offset);
+  const readUInt32 = (offset: number) =>
+    littleEndian ? bytes.readUInt32LE(offset) : bytes.readUInt32BE(offset);
+
+  const ifdOffset = readUInt32(4);
+  const entryCount = readUInt16(ifdOffset);
+  let width: number | undefined;
+  let height: number | undefined;
+
+  for (let index = 0; index < entryCount; index++) {
+    const entry = ifdOffset + 2 + index * 12;
+    const tag = readUInt16(entry);
+    if (tag !== 256 && tag !== 257) {
+      continue;
+    }
+    // 値の型がSHORT（3）の場合は16ビット、LONG（4）の場合は32ビット
+    const value =
+      readUInt16(entry + 2) === 3
+        ? readUInt16(entry + 8)
+        : readUInt32(entry + 8);
+    if (tag === 256) {
+      width = value;
+    } else {
+      height = value;
+    }
+  }
+
+  return width !== undefined && height !== undefined ? { width, height } : null;
+};
+
+/**
+ * バイト列が指定したバイトで始まるかを判定する
+ */
+const startsWith = (bytes: Buffer, prefix: number[]): boolean =>
+  bytes.length >= prefix.length &&
+  prefix.every((byte, index) => bytes[index] === byte);
@@ -0,0 +1,60 @@
+import {
+  decodeCursor,
+  DEFAULT_PAGE_LIMIT,
+  encodeCursor,
+  MAX_PAGE_LIMIT,
+  parseLimit,
+} from './pagination';
+import { ValidationError } from './errors';
+
+describe('encodeCursor / decodeCursor', () => {
+  it('LastEvaluatedKeyをカーソルに変換し、元のキーに戻せる', () => {
+    const key = {
+      id: 'task-1',
+      type: 'TASK',
+      createdAt: '2024-01-01T00:00:00Z',
+    };
+
+    const cursor = encodeCursor(key);
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor!)).toEqual(key);
+  });
+
+  it('次のページがない場合はnullを返す', () => {
+    expect(encodeCursor(undefined)).toBeNull();
+  });
+
+  it('カーソルが指定されていない場合はundefinedを返す', () => {
+    expect(decodeCursor(undefined)).toBeUndefined();
+    expect(decodeCursor('')).toBeUndefined();
+  });
+
+  it.each([
+    ['JSONでない', 'not-a-cursor'],
+    ['配列', Buffer.from('[1,2]').toString('base64url')],
+    ['null', Buffer.from('null').toString('base64url')],
+    ['文字列', Buffer.from('"id"').toString('base64url')],
+  ])('形式が不正なカーソル（%s）はValidationErrorになる', (_, cursor) => {
+    expect(() => decodeCursor(cursor)).toThrow(ValidationError);
+  });
+});
+
+describe('parseLimit', () => {
+  it('指定されていない場合はデフォルトのページサイズを返す', () => {
+    expect(parseLimit(undefined)).toBe(DEFAULT_PAGE_LIMIT);
+    expect(parseLimit('')).toBe(DEFAULT_PAGE_LIMIT);
+  });
+
+  it('1からMAX_PAGE_LIMITまでの整数を受け付ける', () => {
+    expect(parseLimit('1')).toBe(1);
+    expect(parseLimit(String(MAX_PAGE_LIMIT))).toBe(MAX_PAGE_LIMIT);
+  });
+
+  it.each(['0', '-1', String(MAX_PAGE_LIMIT + 1), '1.5', 'abc'])(
+    '範囲外または整数でない値（%s）はValidationErrorになる',
+    (limit) => {
+      expect(() => parseLimit(limit)).toThrow(ValidationError);
+    }
+  );
+});
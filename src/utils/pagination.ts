@@ -0,0 +1,86 @@
+/**
+ * ページネーションユーティリティファイル
+ *
+ * DynamoDBのLastEvaluatedKeyとクライアントに返すカーソルトークンとの相互変換、
+ * およびページサイズ（limit）の検証を行うユーティリティ関数を定義します。
+ * カーソルはクライアントにとって不透明な文字列として扱われます。
+ */
+import { ValidationError } from './errors';
+
+/** limitが指定されなかった場合のページサイズ */
+export const DEFAULT_PAGE_LIMIT = 20;
+
+/** 1ページあたりに取得できる最大件数 */
+export const MAX_PAGE_LIMIT = 100;
+
+/**
+ * DynamoDBのLastEvaluatedKeyをカーソルトークンに変換する
+ *
+ * @param key - DynamoDBのLastEvaluatedKey
+ * @returns URLセーフなBase64文字列、次のページがない場合はnull
+ *
+ * @example
+ * const nextCursor = encodeCursor(result.LastEvaluatedKey);
+ */
+export const encodeCursor = (
+  key: { [key: string]: any } | undefined
+): string | null => {
+  if (!key) {
+    return null;
+  }
+
+  return Buffer.from(JSON.stringify(key), 'utf8').toString('base64url');
+};
+
+/**
+ * カーソルトークンをDynamoDBのExclusiveStartKeyに変換する
+ *
+ * @param cursor - クライアントから受け取ったカーソルトークン
+ * @returns ExclusiveStartKey、カーソルが指定されていない場合はundefined
+ * @throws ValidationError - カーソルの形式が不正な場合
+ *
+ * @example
+ * const startKey = decodeCursor(event.queryStringParameters?.cursor);
+ */
+export const decodeCursor = (
+  cursor: string | undefined
+): { [key: string]: any } | undefined => {
+  if (!cursor) {
+    return undefined;
+  }
+
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!key || typeof key !== 'object' || Array.isArray(key)) {
+      throw new Error('invalid cursor');
+    }
+    return key;
+  } catch (error) {
+    throw new ValidationError('cursor の形式が不正です');
+  }
+};
+
+/**
+ * クエリパラメータのlimitを検証してページサイズに変換する
+ *
+ * @param limit - クエリパラメータのlimit文字列
+ * @returns 1以上MAX_PAGE_LIMIT以下のページサイズ
+ * @throws ValidationError - 数値でない、または範囲外の場合
+ *
+ * @example
+ * const pageSize = parseLimit(event.queryStringParameters?.limit);
+ */
+export const parseLimit = (limit: string | undefined): number => {
+  if (limit === undefined || limit === '') {
+    return DEFAULT_PAGE_LIMIT;
+  }
+
+  const value = Number(limit);
+  if (!Number.isInteger(value) || value < 1 || value > MAX_PAGE_LIMIT) {
+    throw new ValidationError(
+      `limit は 1 から ${MAX_PAGE_LIMIT} までの整数で指定してください`
+    );
+  }
+
+  return value;
+};
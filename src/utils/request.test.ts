@@ -0,0 +1,48 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { getIfMatchVersion } from './request';
+import { ValidationError } from './errors';
+
+/**
+ * 指定したヘッダーのリクエストを作成する
+ */
+const requestWithHeaders = (headers: {
+  [name: string]: string;
+}): APIGatewayProxyEvent => ({ headers }) as unknown as APIGatewayProxyEvent;
+
+describe('getIfMatchVersion', () => {
+  it.each([
+    ['"3"', 3],
+    ['W/"3"', 3],
+    ['3', 3],
+    [' "12" ', 12],
+  ])('If-Match: %s のバージョンは %p', (ifMatch, version) => {
+    expect(getIfMatchVersion(requestWithHeaders({ 'If-Match': ifMatch }))).toBe(
+      version
+    );
+  });
+
+  it('ヘッダー名の大文字・小文字を区別しない', () => {
+    expect(getIfMatchVersion(requestWithHeaders({ 'if-match': '"5"' }))).toBe(
+      5
+    );
+  });
+
+  it('ヘッダーがない場合や * の場合はundefinedを返す', () => {
+    expect(getIfMatchVersion(requestWithHeaders({}))).toBeUndefined();
+    expect(
+      getIfMatchVersion(requestWithHeaders({ 'If-Match': '*' }))
+    ).toBeUndefined();
+    expect(
+      getIfMatchVersion({ headers: null } as unknown as APIGatewayProxyEvent)
+    ).toBeUndefined();
+  });
+
+  it.each(['"abc"', '"-1"', '"1", "2"', 'W/3x'])(
+    '形式が不正な If-Match: %s はValidationErrorになる',
+    (ifMatch) => {
+      expect(() =>
+        getIfMatchVersion(requestWithHeaders({ 'If-Match': ifMatch }))
+      ).toThrow(ValidationError);
+    }
+  );
+});
@@ -0,0 +1,173 @@
+/**
+ * リクエストユーティリティファイル
+ *
+ * API Gatewayプロキシイベントからヘッダーや操作者などの情報を取り出すための
+ * ユーティリティ関数を定義します。
+ */
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { UnauthorizedError, ValidationError } from './errors';
+import { StorageOwner } from '../types';
+
+/** 操作者を特定できない場合に使用する値 */
+export const ANONYMOUS_ACTOR = 'anonymous';
+
+/**
+ * リクエストヘッダーの値を取得する
+ *
+ * HTTPヘッダー名は大文字・小文字を区別しないため、名前を正規化して検索します。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @param name - ヘッダー名
+ * @returns ヘッダーの値、存在しない場合はundefined
+ *
+ * @example
+ * const userId = getHeader(event, 'X-User-Id');
+ */
+export const getHeader = (
+  event: APIGatewayProxyEvent,
+  name: string
+): string | undefined => {
+  const target = name.toLowerCase();
+  const entry = Object.entries(event.headers || {}).find(
+    ([key]) => key.toLowerCase() === target
+  );
+
+  return entry?.[1] || undefined;
+};
+
+/**
+ * リクエストの操作者を取得する
+ *
+ * オーソライザーが設定されている場合はそのプリンシパルを、
+ * それ以外の場合は X-User-Id ヘッダーの値を操作者として扱います。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns 操作者の識別子、特定できない場合は 'anonymous'
+ *
+ * @example
+ * const actor = getActor(event);
+ */
+export const getActor = (event: APIGatewayProxyEvent): string => {
+  const authorizer = event.requestContext?.authorizer;
+
+  return (
+    authorizer?.claims?.sub ||
+    authorizer?.principalId ||
+    getHeader(event, 'X-User-Id') ||
+    ANONYMOUS_ACTOR
+  );
+};
+
+/**
+ * リクエストの相関IDを取得する
+ *
+ * X-Correlation-Id ヘッダーが指定されている場合はその値を、
+ * それ以外の場合はAPI GatewayのリクエストIDを使用します。
+ * リクエストから送信されるイベントに付与し、一連の処理を関連付けるために使用します。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns 相関ID、特定できない場合はundefined
+ *
+ * @example
+ * const task = await taskService.createTask(input, getActor(event), getCorrelationId(event));
+ */
+export const getCorrelationId = (
+  event: APIGatewayProxyEvent
+): string | undefined =>
+  getHeader(event, 'X-Correlation-Id') ||
+  event.requestContext?.requestId ||
+  undefined;
+
+/**
+ * リクエストの操作者のプランを取得する
+ *
+ * オーソライザーのクレーム（custom:plan）、またはLambdaオーソライザーのコンテキスト（plan）から取得します。
+ * 操作者が自分で変更できないように、リクエストヘッダーからは取得しません。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns プラン名、設定されていない場合はundefined
+ *
+ * @example
+ * const plan = getPlan(event);
+ */
+export const getPlan = (event: APIGatewayProxyEvent): string | undefined => {
+  const authorizer = event.requestContext?.authorizer;
+
+  return authorizer?.claims?.['custom:plan'] || authorizer?.plan || undefined;
+};
+
+/**
+ * リクエストの操作者を、ストレージの使用量を計上する所有者として取得する
+ *
+ * 操作者が別の値を指定して容量の上限を回避したり、他の利用者に使用量を計上したりできないように、
+ * オーソライザーのプリンシパルのみを使用し、X-User-Id ヘッダーは使用しません。
+ * すべての利用者の使用量が1つの所有者に計上されないように、プリンシパルのないリクエストは拒否します。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns 操作者とそのプラン
+ * @throws UnauthorizedError - オーソライザーのプリンシパルがない場合
+ *
+ * @example
+ * const metadata = await fileService.saveFileMetadata(
+ *   fileId, filename, contentType, size, { sha256 }, getStorageOwner(event)
+ * );
+ */
+export const getStorageOwner = (event: APIGatewayProxyEvent): StorageOwner => {
+  const authorizer = event.requestContext?.authorizer;
+  const ownerId = authorizer?.claims?.sub || authorizer?.principalId;
+
+  if (!ownerId) {
+    throw new UnauthorizedError('認証されていないリクエストです');
+  }
+
+  return { ownerId, plan: getPlan(event) };
+};
+
+/**
+ * If-Match ヘッダーから期待するバージョン番号を取得する
+ *
+ * etagHeadersで返したETag（"3"、W/"3"、引用符なしの 3）を受け付けます。
+ * ヘッダーがない場合や * の場合はバージョンを検証しないためundefinedを返します。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @returns 期待するバージョン番号、検証しない場合はundefined
+ * @throws ValidationError - ヘッダーの形式が不正な場合
+ *
+ * @example
+ * const expectedVersion = getIfMatchVersion(event);
+ */
+export const getIfMatchVersion = (
+  event: APIGatewayProxyEvent
+): number | undefined => {
+  const ifMatch = getHeader(event, 'If-Match')?.trim();
+  if (!ifMatch || ifMatch === '*') {
+    return undefined;
+  }
+
+  const match = /^(?:W\/)?"?(\d+)"?$/.exec(ifMatch);
+  if (!match) {
+    throw new ValidationError('If-Match ヘッダーの形式が不正です');
+  }
+
+  return Number(match[1]);
+};
+
+/**
+ * 真偽値のクエリパラメータを取得する
+ *
+ * 'true' または '1' の場合のみtrueとして扱います。
+ *
+ * @param event - API Gatewayプロキシイベント
+ * @param name - クエリパラメータ名
+ * @returns パラメータが 'true' または '1' の場合はtrue
+ *
+ * @example
+ * const cascade = getBooleanQueryParameter(event, 'cascade');
+ */
+export const getBooleanQueryParameter = (
+  event: APIGatewayProxyEvent,
+  name: string
+): boolean => {
+  const value = event.queryStringParameters?.[name];
+  return value === 'true' || value === '1';
+};
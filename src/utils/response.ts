@@ -14,6 +14,7 @@ import { ApiResponse } from '../types';
  *
  * @param data - レスポンスボディに含めるデータ
  * @param statusCode - HTTPステータスコード（デフォルト: 200）
+ * @param headers - 追加するHTTPヘッダー（オプション）
  * @returns API Gateway互換の成功レスポンスオブジェクト
  *
  * @example
@@ -23,10 +24,15 @@ import { ApiResponse } from '../types';
  * @example
  * // 新規作成したリソースを返す例
  * return successResponse(newResource, 201);
+ *
+ * @example
+ * // ETagヘッダーを付けて返す例
+ * return successResponse(task, 200, etagHeaders(task.version));
  */
 export const successResponse = <T>(
   data: T,
-  statusCode: number = 200
+  statusCode: number = 200,
+  headers: { [key: string]: string } = {}
 ): ApiResponse<T> => {
   return {
     statusCode,
@@ -35,6 +41,57 @@ export const successResponse = <T>(
       'Content-Type': 'application/json',
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Credentials': 'true',
+      ...headers,
+    },
+  };
+};
+
+/**
+ * ETagヘッダーを作成する関数
+ *
+ * リソースのバージョン番号を強いETag（"3" の形式）として返します。
+ * ブラウザのクライアントからも参照できるよう Access-Control-Expose-Headers を付与します。
+ *
+ * @param version - リソースのバージョン番号（未設定の場合は0として扱う）
+ * @returns ETagヘッダーを含むヘッダーオブジェクト
+ *
+ * @example
+ * return successResponse(task, 200, etagHeaders(task.version));
+ */
+export const etagHeaders = (
+  version: number | undefined
+): { [key: string]: string } => {
+  return {
+    ETag: `"${version || 0}"`,
+    'Access-Control-Expose-Headers': 'ETag',
+  };
+};
+
+/**
+ * リダイレクトレスポンスを作成する関数
+ *
+ * 短時間だけ有効な署名付きURLへのリダイレクトに使用するため、
+ * ブラウザやプロキシにキャッシュされないようにします。
+ *
+ * @param location - リダイレクト先のURL
+ * @param statusCode - HTTPステータスコード（デフォルト: 302）
+ * @returns API Gateway互換のリダイレクトレスポンスオブジェクト
+ *
+ * @example
+ * return redirectResponse(downloadUrl);
+ */
+export const redirectResponse = (
+  location: string,
+  statusCode: number = 302
+): ApiResponse<string> => {
+  return {
+    statusCode,
+    body: '',
+    headers: {
+      Location: location,
+      'Cache-Control': 'no-store',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Credentials': 'true',
     },
   };
 };
@@ -47,6 +104,7 @@ export const successResponse = <T>(
  *
  * @param message - エラーメッセージ
  * @param statusCode - HTTPステータスコード（デフォルト: 500）
+ * @param details - レスポンスボディに含める追加情報（オプション）
  * @returns API Gateway互換のエラーレスポンスオブジェクト
  *
  * @example
@@ -56,14 +114,19 @@ export const successResponse = <T>(
  * @example
  * // サーバーエラーを返す例
  * return errorResponse('内部サーバーエラーが発生しました', 500);
+ *
+ * @example
+ * // 許可されている次のステータスを添えて競合エラーを返す例
+ * return errorResponse('ステータスを変更できません', 409, { allowedStatuses });
  */
 export const errorResponse = (
   message: string,
-  statusCode: number = 500
+  statusCode: number = 500,
+  details?: { [key: string]: any }
 ): ApiResponse<{ message: string }> => {
   return {
     statusCode,
-    body: JSON.stringify({ message }),
+    body: JSON.stringify({ message, ...details }),
     headers: {
       'Content-Type': 'application/json',
       'Access-Control-Allow-Origin': '*',